@@ -0,0 +1,131 @@
+/**
+ * Tests for MermaidGraph Component
+ *
+ * Tests centering a requested node that only appears after a re-render,
+ * as when a search result is revealed from a collapsed cluster.
+ */
+
+import { render, waitFor } from '@testing-library/react';
+import mermaid from 'mermaid';
+import { MermaidGraph } from '@/components/graph/MermaidGraph';
+import { createNode } from '@/__tests__/fixtures/graph';
+
+jest.mock('mermaid', () => ({
+  __esModule: true,
+  default: { initialize: jest.fn(), render: jest.fn() },
+}));
+
+// ============================================================================
+// Setup and Helpers
+// ============================================================================
+
+/** Node A sits at the origin, node B at (200, 100) */
+const NODE_BOXES: Record<string, DOMRect> = {
+  A: { x: 0, y: 0, width: 20, height: 10 } as DOMRect,
+  B: { x: 200, y: 100, width: 20, height: 10 } as DOMRect,
+};
+
+const identity = {
+  a: 1,
+  b: 0,
+  c: 0,
+  d: 1,
+  e: 0,
+  f: 0,
+  inverse() {
+    return this;
+  },
+  multiply() {
+    return this;
+  },
+};
+
+/**
+ * Draw one `.node` group per node declared in the code
+ */
+function renderSvg(_id: string, code: string) {
+  const keys = Array.from(code.matchAll(/^\s*(\w+)\[/gm), (match) => match[1]);
+  const svg = `<svg><g>${keys
+    .map((key) => `<g class="node" id="flowchart-${key}-0"><rect /></g>`)
+    .join('')}</g></svg>`;
+  return Promise.resolve({ svg, diagramType: 'flowchart' });
+}
+
+beforeAll(() => {
+  // jsdom has no layout: an 800x600 view of a 400x300 graph
+  jest.spyOn(HTMLElement.prototype, 'clientWidth', 'get').mockReturnValue(800);
+  jest.spyOn(HTMLElement.prototype, 'clientHeight', 'get').mockReturnValue(600);
+  Object.assign(SVGElement.prototype, {
+    getBBox(this: SVGElement) {
+      const key = this.getAttribute('id')?.match(/^flowchart-(\w+)-/)?.[1];
+      return key ? NODE_BOXES[key] : { x: 0, y: 0, width: 400, height: 300 };
+    },
+    getCTM: () => identity,
+  });
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+});
+
+beforeEach(() => {
+  (mermaid.render as jest.Mock).mockImplementation(renderSvg);
+});
+
+const getTransform = (container: HTMLElement) =>
+  container.querySelector('svg > g')?.getAttribute('transform');
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe('MermaidGraph focusRequest', () => {
+  const nodeA = createNode('node_a', { nodeKey: 'A' });
+  const nodeB = createNode('node_b', { nodeKey: 'B' });
+
+  it('should center a requested node once a re-render draws it', async () => {
+    const { container, rerender } = render(
+      <MermaidGraph graphId="graph_1" mermaidCode={'graph TD\n  A["A"]'} nodes={[nodeA]} edges={[]} />
+    );
+    // Fitted to the view
+    await waitFor(() => expect(getTransform(container)).toBe('translate(100, 75) scale(1.5)'));
+
+    // Revealed and requested together, as a search selection does
+    rerender(
+      <MermaidGraph
+        graphId="graph_1"
+        mermaidCode={'graph TD\n  A["A"]\n  B["B"]'}
+        nodes={[nodeA, nodeB]}
+        edges={[]}
+        focusRequest={{ nodeId: 'node_b' }}
+      />
+    );
+
+    // B's center (210, 105) at 1.5x lands in the middle of the view
+    await waitFor(() => expect(getTransform(container)).toBe('translate(85, 142.5) scale(1.5)'));
+  });
+
+  it('should not re-center a handled request on later renders', async () => {
+    const focusRequest = { nodeId: 'node_a' };
+    const { container, rerender } = render(
+      <MermaidGraph
+        graphId="graph_1"
+        mermaidCode={'graph TD\n  A["A"]'}
+        nodes={[nodeA]}
+        edges={[]}
+        focusRequest={focusRequest}
+      />
+    );
+    await waitFor(() => expect(getTransform(container)).toBe('translate(385, 292.5) scale(1.5)'));
+
+    rerender(
+      <MermaidGraph
+        graphId="graph_1"
+        mermaidCode={'graph TD\n  A["A"]\n  B["B"]'}
+        nodes={[nodeA, nodeB]}
+        edges={[]}
+        focusRequest={focusRequest}
+      />
+    );
+
+    await waitFor(() => expect(container.querySelector('#flowchart-B-0')).not.toBeNull());
+    await waitFor(() => expect(getTransform(container)).toBe('translate(100, 75) scale(1.5)'));
+  });
+});
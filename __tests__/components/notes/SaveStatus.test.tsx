@@ -78,6 +78,32 @@ describe('SaveStatus', () => {
     expect(onRetry).toHaveBeenCalledTimes(1);
   });
 
+  it('should show pending sync state', () => {
+    render(
+      <SaveStatus isSaving={false} lastSaved={null} isPendingSync={true} />
+    );
+
+    expect(screen.getByText('Pending sync')).toBeInTheDocument();
+  });
+
+  it('should keep pending sync state visible after saved fades', async () => {
+    render(
+      <SaveStatus
+        isSaving={false}
+        lastSaved={new Date()}
+        isPendingSync={true}
+      />
+    );
+
+    expect(screen.queryByText('Saved')).not.toBeInTheDocument();
+
+    jest.advanceTimersByTime(2000);
+
+    await waitFor(() => {
+      expect(screen.getByText('Pending sync')).toBeInTheDocument();
+    });
+  });
+
   it('should have proper accessibility attributes', () => {
     render(<SaveStatus isSaving={true} lastSaved={null} />);
 
@@ -184,6 +184,39 @@ describe('DocumentViewer', () => {
     expect(paragraphs[2].getAttribute('data-paragraph-index')).toBe('2');
   });
 
+  // ============================================================================
+  // Reverse Navigation
+  // ============================================================================
+
+  it('renders gutter content beside marked paragraphs', () => {
+    const content = 'Para 1\n\nPara 2\n\nPara 3';
+    const { container } = render(
+      <DocumentViewer
+        content={content}
+        gutterMarks={[{ paragraphIndex: 1, nodeIds: ['node_1', 'node_2'] }]}
+        renderGutterMark={(mark) => <span>{mark.nodeIds.length} nodes</span>}
+      />
+    );
+
+    const gutter = container.querySelector('[data-node-ids]');
+    expect(gutter?.getAttribute('data-node-ids')).toBe('node_1 node_2');
+    expect(gutter?.parentElement?.querySelector('p')?.textContent).toBe('Para 2');
+    expect(screen.getByText('2 nodes')).toBeInTheDocument();
+    expect(container.querySelectorAll('p')).toHaveLength(3);
+  });
+
+  it('reports the content offset of a plain click', () => {
+    const onPassageClick = jest.fn();
+    const content = 'Para 1\n\nPara 2';
+    render(<DocumentViewer content={content} onPassageClick={onPassageClick} />);
+
+    const paragraph = screen.getByText('Para 2');
+    window.getSelection()?.collapse(paragraph.firstChild, 3);
+    paragraph.click();
+
+    expect(onPassageClick).toHaveBeenCalledWith(11);
+  });
+
   // ============================================================================
   // Accessibility
   // ============================================================================
@@ -4,13 +4,19 @@
  * Tests document fetching, scrolling, highlighting, and UI states.
  */
 
-import { render, screen, waitFor } from '@testing-library/react';
+import { render, screen, waitFor, fireEvent } from '@testing-library/react';
 import { ReadingPanel } from '@/components/reading/ReadingPanel';
 import { useDocument } from '@/hooks/useDocument';
 import type { Document } from '@/types/api.types';
+import { createNode } from '@/__tests__/fixtures/graph';
 
 // Mock hooks
 jest.mock('@/hooks/useDocument');
+jest.mock('@/hooks/useHighlights', () => ({
+  useHighlights: () => ({ data: [] }),
+  useCreateHighlight: () => ({ mutate: jest.fn(), reset: jest.fn(), isPending: false, error: null }),
+  useDeleteHighlight: () => ({ mutate: jest.fn() }),
+}));
 jest.mock('@/lib/scroll-utils');
 
 const mockUseDocument = useDocument as jest.MockedFunction<typeof useDocument>;
@@ -189,6 +195,27 @@ describe('ReadingPanel', () => {
   // Scroll Indicator
   // ============================================================================
 
+  it('marks the badge of the active node clicked in the graph', () => {
+    mockUseDocument.mockReturnValue({
+      data: { ...mockDocument, content: 'This is the document content.' },
+      isLoading: false,
+      error: null,
+    } as any);
+    const node = createNode('node_456', {
+      nodeKey: 'A',
+      title: 'Content',
+      legacyDocumentRefs: [{ start: 0, end: 10, text: 'This is th' }],
+    });
+
+    // The graph reports the node's Mermaid key
+    render(<ReadingPanel documentId="doc_123" nodes={[node]} activeNodeId="A" />);
+
+    expect(screen.getByRole('button', { name: 'Show Content in graph' })).toHaveAttribute(
+      'aria-pressed',
+      'true'
+    );
+  });
+
   it('renders scroll indicator', () => {
     mockUseDocument.mockReturnValue({
       data: mockDocument,
@@ -333,4 +360,102 @@ describe('ReadingPanel', () => {
     const header = container.querySelector('.sticky');
     expect(header).toBeInTheDocument();
   });
+
+  // ============================================================================
+  // Find in Document
+  // ============================================================================
+
+  it('opens the find bar on Ctrl+F and counts matches', () => {
+    mockUseDocument.mockReturnValue({
+      data: { ...mockDocument, content: 'Paragraph one.\n\nSecond paragraph here.' },
+      isLoading: false,
+      error: null,
+    } as any);
+
+    const { container } = render(<ReadingPanel documentId="doc_123" />);
+
+    fireEvent.keyDown(container.querySelector('.reading-panel')!, { key: 'f', ctrlKey: true });
+    fireEvent.change(screen.getByRole('textbox', { name: /find in document/i }), {
+      target: { value: 'paragraph' },
+    });
+
+    expect(screen.getByText('1 of 2')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: /next match/i }));
+    expect(screen.getByText('2 of 2')).toBeInTheDocument();
+  });
+
+  it('closes the find bar on Escape', () => {
+    mockUseDocument.mockReturnValue({
+      data: mockDocument,
+      isLoading: false,
+      error: null,
+    } as any);
+
+    render(<ReadingPanel documentId="doc_123" />);
+
+    fireEvent.click(screen.getByRole('button', { name: /find in document/i }));
+    const input = screen.getByRole('textbox', { name: /find in document/i });
+    fireEvent.keyDown(input, { key: 'Escape' });
+
+    expect(screen.queryByRole('search')).not.toBeInTheDocument();
+  });
+
+  // ============================================================================
+  // Document Tabs
+  // ============================================================================
+
+  const sourceDocuments = [
+    { id: 'doc_123', title: 'Test Document', sourceType: 'text', createdAt: '2025-01-01T00:00:00Z' },
+    { id: 'doc_456', title: 'Second Source', sourceType: 'text', createdAt: '2025-01-01T00:00:00Z' },
+  ];
+
+  it('shows a tab per source document and reports tab clicks', () => {
+    mockUseDocument.mockReturnValue({
+      data: mockDocument,
+      isLoading: false,
+      error: null,
+    } as any);
+    const onDocumentChange = jest.fn();
+
+    render(
+      <ReadingPanel
+        documentId="doc_123"
+        documents={sourceDocuments}
+        onDocumentChange={onDocumentChange}
+      />
+    );
+
+    expect(screen.getByRole('tab', { name: 'Test Document' })).toHaveAttribute(
+      'aria-selected',
+      'true'
+    );
+    fireEvent.click(screen.getByRole('tab', { name: 'Second Source' }));
+    expect(onDocumentChange).toHaveBeenCalledWith('doc_456');
+  });
+
+  it('keeps the tabs while the next document loads', () => {
+    mockUseDocument.mockReturnValue({
+      data: undefined,
+      isLoading: true,
+      error: null,
+    } as any);
+
+    render(<ReadingPanel documentId="doc_456" documents={sourceDocuments} />);
+
+    expect(screen.getAllByRole('tab')).toHaveLength(2);
+    expect(screen.getByText(/loading document/i)).toBeInTheDocument();
+  });
+
+  it('hides the tabs for a single document', () => {
+    mockUseDocument.mockReturnValue({
+      data: mockDocument,
+      isLoading: false,
+      error: null,
+    } as any);
+
+    render(<ReadingPanel documentId="doc_123" documents={sourceDocuments.slice(0, 1)} />);
+
+    expect(screen.queryByRole('tablist')).not.toBeInTheDocument();
+  });
 });
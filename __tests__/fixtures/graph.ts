@@ -0,0 +1,67 @@
+/**
+ * Graph Test Fixtures
+ *
+ * Node and edge factories shared by the graph tests. Defaults are the
+ * smallest valid values; tests override only the fields they exercise.
+ */
+
+import type { GraphEdge, GraphNode } from '@/types/api.types';
+
+/**
+ * Create a graph node
+ *
+ * The node key defaults to the upper-cased ID and the title to the ID.
+ *
+ * @example
+ * ```typescript
+ * const node = createNode('node_1', { nodeKey: 'A', title: 'Active Learning' });
+ * ```
+ */
+export function createNode(id: string, overrides: Partial<GraphNode> = {}): GraphNode {
+  return {
+    id,
+    nodeKey: id.toUpperCase(),
+    title: id,
+    contentSnippet: '',
+    nodeType: 'concept',
+    summary: '',
+    documentRefs: null,
+    position: { x: null, y: null },
+    metadata: null,
+    ...overrides,
+  };
+}
+
+/**
+ * Create a graph edge between two nodes
+ *
+ * Endpoints are nodes, or node IDs described the way createNode describes
+ * them by default.
+ *
+ * @example
+ * ```typescript
+ * const edge = createEdge('edge_1', nodeA, nodeB, { relationship: 'supports' });
+ * const chain = createEdge('edge_2', 'a', 'b');
+ * ```
+ */
+export function createEdge(
+  id: string,
+  from: GraphNode | string,
+  to: GraphNode | string,
+  overrides: Partial<GraphEdge> = {}
+): GraphEdge {
+  const fromNode = typeof from === 'string' ? createNode(from) : from;
+  const toNode = typeof to === 'string' ? createNode(to) : to;
+  return {
+    id,
+    from: fromNode.id,
+    to: toNode.id,
+    fromNode: { nodeKey: fromNode.nodeKey, title: fromNode.title },
+    toNode: { nodeKey: toNode.nodeKey, title: toNode.title },
+    relationship: 'leads to',
+    aiExplanation: null,
+    strength: null,
+    metadata: null,
+    ...overrides,
+  };
+}
@@ -0,0 +1,71 @@
+/**
+ * Tests for Document Search Utilities
+ *
+ * Tests paragraph splitting, matching in paragraphs and PDF text blocks,
+ * and stepping through matches.
+ */
+
+import {
+  splitParagraphs,
+  findInParagraphs,
+  findInTextBlocks,
+  stepMatchIndex,
+} from '@/lib/document-search';
+import type { TextBlock } from '@/types/api.types';
+
+const bbox = { x: 72, y: 720, width: 400, height: 24 };
+
+describe('splitParagraphs', () => {
+  it('should split on blank lines and drop empty paragraphs', () => {
+    expect(splitParagraphs('First.\n\nSecond.\n\n\n  \n\nThird.')).toEqual([
+      'First.',
+      'Second.',
+      'Third.',
+    ]);
+  });
+
+  it('should fall back to single newlines', () => {
+    expect(splitParagraphs('One\nTwo')).toEqual(['One', 'Two']);
+    expect(splitParagraphs('')).toEqual([]);
+  });
+});
+
+describe('findInParagraphs', () => {
+  it('should find every case-insensitive occurrence with paragraph offsets', () => {
+    const matches = findInParagraphs(['Entropy rises.', 'No match', 'entropy and ENTROPY'], 'entropy');
+
+    expect(matches).toEqual([
+      { paragraphIndex: 0, startOffset: 0, endOffset: 7 },
+      { paragraphIndex: 2, startOffset: 0, endOffset: 7 },
+      { paragraphIndex: 2, startOffset: 12, endOffset: 19 },
+    ]);
+  });
+
+  it('should not match blank queries or overlap matches', () => {
+    expect(findInParagraphs(['anything'], '   ')).toEqual([]);
+    expect(findInParagraphs(['aaaa'], 'aa')).toHaveLength(2);
+  });
+});
+
+describe('findInTextBlocks', () => {
+  it('should return matches in page order with block bounding boxes', () => {
+    const blocks: TextBlock[] = [
+      { text: 'Gradient descent', page: 2, bbox },
+      { text: 'Descent begins', page: 0, bbox },
+      { text: 'Unrelated', page: 1, bbox },
+    ];
+
+    expect(findInTextBlocks(blocks, 'descent')).toEqual([
+      { blockIndex: 1, page: 0, bbox },
+      { blockIndex: 0, page: 2, bbox },
+    ]);
+  });
+});
+
+describe('stepMatchIndex', () => {
+  it('should wrap around in both directions', () => {
+    expect(stepMatchIndex(2, 3, 1)).toBe(0);
+    expect(stepMatchIndex(0, 3, -1)).toBe(2);
+    expect(stepMatchIndex(0, 0, 1)).toBe(0);
+  });
+});
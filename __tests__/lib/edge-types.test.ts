@@ -0,0 +1,108 @@
+/**
+ * Tests for Edge Type Utilities
+ *
+ * Tests classifying free-text relationships, metadata overrides, symmetric
+ * relationship detection and edge strengths.
+ */
+
+import {
+  classifyRelationship,
+  getEdgeStrength,
+  getEdgeType,
+  getPresentEdgeTypes,
+  getStrengthStyle,
+  getWeakEdgeIds,
+  isSymmetricRelationship,
+} from '@/lib/edge-types';
+import { createEdge, createNode } from '@/__tests__/fixtures/graph';
+
+// ============================================================================
+// Setup and Helpers
+// ============================================================================
+
+const source = createNode('node_1', { nodeKey: 'A', title: 'Active Learning' });
+const target = createNode('node_2', { nodeKey: 'B', title: 'Engagement' });
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe('classifyRelationship', () => {
+  it.each([
+    ['leads to', 'causal'],
+    ['Results in', 'causal'],
+    ['enables', 'causal'],
+    ['is a', 'definitional'],
+    ['is part of', 'definitional'],
+    ['such as', 'example'],
+    ['is an example of', 'example'],
+    ['contrasts with', 'contrast'],
+    ['is unlike', 'contrast'],
+    ['supports', 'related'],
+    ['', 'related'],
+  ])('should classify "%s" as %s', (relationship, edgeType) => {
+    expect(classifyRelationship(relationship)).toBe(edgeType);
+  });
+});
+
+describe('getEdgeType', () => {
+  it('should prefer a known edge type from metadata', () => {
+    expect(getEdgeType(
+      createEdge('e1', source, target, { metadata: { edgeType: 'example' } })
+    )).toBe('example');
+  });
+
+  it('should classify the relationship for unknown metadata types', () => {
+    expect(getEdgeType(
+      createEdge('e1', source, target, { metadata: { edgeType: 'bogus' } })
+    )).toBe('causal');
+  });
+});
+
+describe('isSymmetricRelationship', () => {
+  it('should detect relationships that read both ways', () => {
+    expect(isSymmetricRelationship('Related to')).toBe(true);
+    expect(isSymmetricRelationship('contrasts with')).toBe(true);
+    expect(isSymmetricRelationship('leads to')).toBe(false);
+  });
+});
+
+describe('getPresentEdgeTypes', () => {
+  it('should list the types in a graph in legend order', () => {
+    const edges = [
+      createEdge('e1', source, target, { relationship: 'such as' }),
+      createEdge('e2', source, target, { relationship: 'causes' }),
+      createEdge('e3', source, target, { relationship: 'is a' }),
+    ];
+
+    expect(getPresentEdgeTypes(edges)).toEqual(['causal', 'definitional', 'example']);
+  });
+});
+
+describe('getEdgeStrength', () => {
+  it('should clamp strengths to 0-1 and keep missing ones null', () => {
+    expect(getEdgeStrength({ strength: 0.4 })).toBe(0.4);
+    expect(getEdgeStrength({ strength: 3 })).toBe(1);
+    expect(getEdgeStrength({ strength: null })).toBeNull();
+  });
+});
+
+describe('getWeakEdgeIds', () => {
+  it('should return edges below the threshold, never ones without a strength', () => {
+    const edges = [
+      createEdge('e1', source, target, { strength: 0.2 }),
+      createEdge('e2', source, target, { strength: 0.8 }),
+      createEdge('e3', source, target),
+    ];
+
+    expect(getWeakEdgeIds(edges, 0.5)).toEqual(new Set(['e1']));
+    expect(getWeakEdgeIds(edges, 0)).toEqual(new Set());
+  });
+});
+
+describe('getStrengthStyle', () => {
+  it('should scale width and opacity with strength', () => {
+    expect(getStrengthStyle(1)).toEqual({ widthScale: 1.5, opacity: 1 });
+    expect(getStrengthStyle(0)).toEqual({ widthScale: 0.5, opacity: 0.35 });
+  });
+});
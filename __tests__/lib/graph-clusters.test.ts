@@ -0,0 +1,146 @@
+/**
+ * Tests for Graph Cluster Utilities
+ *
+ * Tests clusters from node metadata and computed around hub concepts, and
+ * the collapsed view: placeholder nodes, merged edges and expanded
+ * subgraphs.
+ */
+
+import {
+  buildClusteredGraph,
+  computeClusters,
+  getGraphClusters,
+  getNodeClusterPath,
+  CLUSTER_NODE_TYPE,
+} from '@/lib/graph-clusters';
+import { parseMermaidCode } from '@/lib/mermaid-builder';
+import { mockGraph } from '@/mocks/data';
+import type { Graph } from '@/types/api.types';
+import { createEdge, createNode } from '@/__tests__/fixtures/graph';
+
+// ============================================================================
+// Setup and Helpers
+// ============================================================================
+
+const overview = createNode('n1', { nodeKey: 'A' });
+const memory = createNode('n2', { nodeKey: 'B', metadata: { cluster: 'Memory' } });
+const encoding = createNode('n3', { nodeKey: 'C', metadata: { cluster: ['Memory', 'Encoding'] } });
+const rehearsal = createNode('n4', { nodeKey: 'D', metadata: { cluster: ['Memory', 'Encoding'] } });
+
+const graph = {
+  nodes: [overview, memory, encoding, rehearsal],
+  edges: [
+    createEdge('e1', overview, memory, { relationship: 'relies on' }),
+    createEdge('e2', overview, encoding, { relationship: 'shapes' }),
+    createEdge('e3', memory, encoding, { relationship: 'includes' }),
+    createEdge('e4', encoding, rehearsal, { relationship: 'strengthened by' }),
+  ],
+};
+
+// ============================================================================
+// Clustering
+// ============================================================================
+
+describe('getGraphClusters', () => {
+  it('should read nested clusters from node metadata', () => {
+    expect(getGraphClusters(graph)).toEqual([
+      { id: 'Memory', label: 'Memory', parentId: null, nodeIds: ['n2', 'n3', 'n4'] },
+      { id: 'Memory/Encoding', label: 'Encoding', parentId: 'Memory', nodeIds: ['n3', 'n4'] },
+    ]);
+  });
+
+  it('should leave small graphs without metadata unclustered', () => {
+    const plain = { nodes: graph.nodes.map((node) => ({ ...node, metadata: null })), edges: [] };
+    expect(getGraphClusters(plain)).toEqual([]);
+  });
+
+  it('should compute clusters for large graphs', () => {
+    const clusters = getGraphClusters(mockGraph as unknown as Graph);
+
+    // Critical Thinking is the best-connected concept
+    expect(clusters).toEqual([
+      {
+        id: 'node_5',
+        label: 'Critical Thinking',
+        parentId: null,
+        nodeIds: ['node_2', 'node_3', 'node_4', 'node_5', 'node_6'],
+      },
+    ]);
+  });
+});
+
+describe('computeClusters', () => {
+  it('should assign every reachable node to its nearest head', () => {
+    const { nodes, edges } = mockGraph as unknown as Graph;
+    const clusters = computeClusters({ nodes, edges }, 2);
+
+    expect(clusters.map((cluster) => cluster.label)).toEqual(['Critical Thinking']);
+    expect(clusters[0].nodeIds).not.toContain('node_1');
+  });
+});
+
+describe('getNodeClusterPath', () => {
+  it('should return the clusters to expand, outermost first', () => {
+    const clusters = getGraphClusters(graph);
+
+    expect(getNodeClusterPath(clusters, 'n4')).toEqual(['Memory', 'Memory/Encoding']);
+    expect(getNodeClusterPath(clusters, 'n1')).toEqual([]);
+  });
+});
+
+// ============================================================================
+// View
+// ============================================================================
+
+describe('buildClusteredGraph', () => {
+  const clusters = getGraphClusters(graph);
+
+  it('should collapse top-level clusters into placeholders with child counts', () => {
+    const view = buildClusteredGraph(graph, clusters, []);
+    const placeholder = view.nodes[1];
+
+    expect(view.nodes.map((node) => node.id)).toEqual(['n1', 'cluster:Memory']);
+    expect(placeholder).toMatchObject({ title: 'Memory (+3)', nodeType: CLUSTER_NODE_TYPE });
+    expect(view.collapsedClusters[placeholder.nodeKey]).toBe(clusters[0]);
+  });
+
+  it('should merge edges into a collapsed cluster', () => {
+    const view = buildClusteredGraph(graph, clusters, []);
+
+    expect(view.edges).toHaveLength(1);
+    expect(view.edges[0]).toMatchObject({
+      from: 'n1',
+      to: 'cluster:Memory',
+      relationship: '2 connections',
+    });
+  });
+
+  it('should inline an expanded cluster as a subgraph', () => {
+    const view = buildClusteredGraph(graph, clusters, ['Memory']);
+    const parsed = parseMermaidCode(view.mermaidCode);
+
+    expect(view.nodes.map((node) => node.id)).toEqual(['n1', 'n2', 'cluster:Memory/Encoding']);
+    expect(view.edges.find((edge) => edge.id === 'e1')).toBe(graph.edges[0]);
+    expect(parsed.subgraphs).toEqual([
+      { id: 'sg_Memory', label: 'Memory', nodeKeys: ['B', 'cluster_1'], parentId: null },
+    ]);
+  });
+
+  it('should draw an expanded nested cluster inside its parent', () => {
+    const view = buildClusteredGraph(graph, clusters, ['Memory', 'Memory/Encoding']);
+    const parsed = parseMermaidCode(view.mermaidCode);
+
+    expect(parsed.subgraphs).toEqual([
+      { id: 'sg_Memory', label: 'Memory', nodeKeys: ['B'], parentId: null },
+      { id: 'sg_Memory_Encoding', label: 'Encoding', nodeKeys: ['C', 'D'], parentId: 'sg_Memory' },
+    ]);
+  });
+
+  it('should show every node along a fully expanded path', () => {
+    const view = buildClusteredGraph(graph, clusters, ['Memory', 'Memory/Encoding']);
+
+    expect(view.nodes).toEqual(graph.nodes);
+    expect(view.edges).toEqual(graph.edges);
+    expect(view.collapsedClusters).toEqual({});
+  });
+});
@@ -0,0 +1,120 @@
+/**
+ * Tests for Graph Diff
+ *
+ * Tests title similarity, matching nodes and edges between graph versions,
+ * and the overlay of changes drawn on the newer version.
+ */
+
+import {
+  titleSimilarity,
+  diffGraphs,
+  hasGraphChanges,
+  getDiffOverlay,
+} from '@/lib/graph-diff';
+import { createEdge, createNode } from '@/__tests__/fixtures/graph';
+
+// ============================================================================
+// Setup and Helpers
+// ============================================================================
+
+// Version 1: Active Learning -> Engagement, Retention, Deep Learning
+const activeLearning = createNode('n1', { nodeKey: 'A', title: 'Active Learning' });
+const engagement = createNode('n2', { nodeKey: 'B', title: 'Engagement' });
+const retention = createNode('n3', { nodeKey: 'C', title: 'Retention' });
+const deepLearning = createNode('n4', { nodeKey: 'D', title: 'Deep Learning' });
+
+const previous = {
+  nodes: [activeLearning, engagement, retention, deepLearning],
+  edges: [
+    createEdge('e1', activeLearning, engagement, { relationship: 'leads to' }),
+    createEdge('e2', activeLearning, retention, { relationship: 'results in' }),
+    createEdge('e3', activeLearning, deepLearning, { relationship: 'achieves' }),
+  ],
+};
+
+// Version 2: new IDs and keys, Retention renamed, Deep Learning dropped, Metacognition added
+const nextActiveLearning = createNode('m1', { nodeKey: 'X', title: 'Active learning' });
+const nextEngagement = createNode('m2', { nodeKey: 'Y', title: 'Engagement' });
+const nextRetention = createNode('m3', { nodeKey: 'C', title: 'Long-Term Retention' });
+const metacognition = createNode('m4', { nodeKey: 'Z', title: 'Metacognition' });
+
+const next = {
+  nodes: [nextActiveLearning, nextEngagement, nextRetention, metacognition],
+  edges: [
+    createEdge('f1', nextActiveLearning, nextEngagement, { relationship: 'leads to' }),
+    createEdge('f2', nextActiveLearning, nextRetention, { relationship: 'strengthens' }),
+    createEdge('f3', nextEngagement, metacognition, { relationship: 'builds' }),
+  ],
+};
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe('titleSimilarity', () => {
+  it('should ignore case and punctuation', () => {
+    expect(titleSimilarity('Long-Term Retention', 'long term retention')).toBe(1);
+  });
+
+  it('should score partial overlap between 0 and 1', () => {
+    const score = titleSimilarity('Retention', 'Long-Term Retention');
+    expect(score).toBeGreaterThan(0.5);
+    expect(score).toBeLessThan(1);
+  });
+
+  it('should score unrelated titles 0', () => {
+    expect(titleSimilarity('Engagement', 'Mastery')).toBe(0);
+  });
+});
+
+describe('diffGraphs', () => {
+  const diff = diffGraphs(previous, next);
+
+  it('should match nodes by title, and by key with a similar title', () => {
+    expect(diff.nodeMatches).toEqual({ n1: 'm1', n2: 'm2', n3: 'm3' });
+  });
+
+  it('should match the Mermaid keys of matched nodes', () => {
+    expect(diff.nodeKeyMatches).toEqual({ A: 'X', B: 'Y', C: 'C' });
+  });
+
+  it('should report renamed, removed and added nodes', () => {
+    expect(diff.renamedNodes.map(({ from, to }) => [from.title, to.title])).toEqual([
+      ['Retention', 'Long-Term Retention'],
+    ]);
+    expect(diff.removedNodes.map((node) => node.id)).toEqual(['n4']);
+    expect(diff.addedNodes.map((node) => node.id)).toEqual(['m4']);
+  });
+
+  it('should match edges by their matched endpoints', () => {
+    expect(diff.edgeMatches).toEqual({ e1: 'f1', e2: 'f2' });
+    expect(diff.renamedEdges.map(({ to }) => to.relationship)).toEqual(['strengthens']);
+    expect(diff.removedEdges.map((edge) => edge.id)).toEqual(['e3']);
+    expect(diff.addedEdges.map((edge) => edge.id)).toEqual(['f3']);
+  });
+
+  it('should not match a reused key with an unrelated title', () => {
+    const reused = diffGraphs(
+      { nodes: [createNode('a', { nodeKey: 'A', title: 'Engagement' })], edges: [] },
+      { nodes: [createNode('b', { nodeKey: 'A', title: 'Mastery' })], edges: [] }
+    );
+
+    expect(reused.nodeMatches).toEqual({});
+    expect(reused.removedNodes).toHaveLength(1);
+    expect(reused.addedNodes).toHaveLength(1);
+  });
+
+  it('should find no changes between identical versions', () => {
+    expect(hasGraphChanges(diffGraphs(previous, previous))).toBe(false);
+    expect(hasGraphChanges(diff)).toBe(true);
+  });
+});
+
+describe('getDiffOverlay', () => {
+  it('should key changes by ID in the newer version', () => {
+    expect(getDiffOverlay(diffGraphs(previous, next))).toEqual({
+      nodes: { m3: 'renamed', m4: 'added' },
+      edges: { f2: 'renamed', f3: 'added' },
+    });
+  });
+});
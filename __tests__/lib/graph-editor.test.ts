@@ -0,0 +1,170 @@
+/**
+ * Tests for Graph Editor
+ *
+ * Tests draft edits of nodes and edges, the operations queued for saving,
+ * and connection validation.
+ */
+
+import {
+  createDraft,
+  isDraftDirty,
+  addNode,
+  renameNode,
+  deleteNode,
+  validateEdgeInput,
+  addEdge,
+  renameEdge,
+  deleteEdge,
+} from '@/lib/graph-editor';
+import { createEdge, createNode } from '@/__tests__/fixtures/graph';
+
+// ============================================================================
+// Setup and Helpers
+// ============================================================================
+
+const activeLearning = createNode('n1', { nodeKey: 'A', title: 'Active Learning' });
+const engagement = createNode('n2', { nodeKey: 'B', title: 'Engagement' });
+const retention = createNode('n3', { nodeKey: 'C', title: 'Retention' });
+
+const graph = {
+  nodes: [activeLearning, engagement, retention],
+  edges: [
+    createEdge('e1', activeLearning, engagement, { relationship: 'leads to' }),
+    createEdge('e2', activeLearning, retention, { relationship: 'results in' }),
+  ],
+};
+
+const connection = {
+  from: 'n2',
+  to: 'n3',
+  relationship: 'supports',
+  justification: 'Engaged students revisit the material',
+};
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe('createDraft', () => {
+  it('should start without pending edits', () => {
+    const draft = createDraft(graph);
+
+    expect(draft.nodes).toBe(graph.nodes);
+    expect(isDraftDirty(draft)).toBe(false);
+  });
+});
+
+describe('addNode', () => {
+  it('should add a concept with a temporary ID and a free key', () => {
+    const draft = addNode(createDraft(graph), { title: '  Metacognition ' });
+    const node = draft.nodes[draft.nodes.length - 1];
+
+    expect(node).toMatchObject({ id: 'temp_node_1', nodeKey: 'U1', title: 'Metacognition' });
+    expect(draft.operations).toEqual([
+      { type: 'addNode', nodeId: 'temp_node_1', request: { title: 'Metacognition' } },
+    ]);
+  });
+
+  it('should ignore a blank title', () => {
+    const draft = createDraft(graph);
+    expect(addNode(draft, { title: '   ' })).toBe(draft);
+  });
+});
+
+describe('renameNode', () => {
+  it('should rename the concept and the edges pointing at it', () => {
+    const draft = renameNode(createDraft(graph), 'n3', 'Long-Term Retention');
+
+    expect(draft.nodes[2].title).toBe('Long-Term Retention');
+    expect(draft.edges[1].toNode.title).toBe('Long-Term Retention');
+    expect(draft.operations).toEqual([
+      { type: 'updateNode', nodeId: 'n3', request: { title: 'Long-Term Retention' } },
+    ]);
+  });
+
+  it('should fold renames into pending operations', () => {
+    let draft = addNode(createDraft(graph), { title: 'Metacognition' });
+    draft = renameNode(draft, 'temp_node_1', 'Self-Monitoring');
+    draft = renameNode(draft, 'n1', 'Active learning');
+    draft = renameNode(draft, 'n1', 'Active Learning Methods');
+
+    expect(draft.operations).toEqual([
+      { type: 'addNode', nodeId: 'temp_node_1', request: { title: 'Self-Monitoring' } },
+      { type: 'updateNode', nodeId: 'n1', request: { title: 'Active Learning Methods' } },
+    ]);
+  });
+});
+
+describe('deleteNode', () => {
+  it('should delete the concept and its connections', () => {
+    const draft = deleteNode(createDraft(graph), 'n3');
+
+    expect(draft.nodes.map((node) => node.id)).toEqual(['n1', 'n2']);
+    expect(draft.edges.map((edge) => edge.id)).toEqual(['e1']);
+    expect(draft.operations).toEqual([
+      { type: 'deleteEdge', edgeId: 'e2' },
+      { type: 'deleteNode', nodeId: 'n3' },
+    ]);
+  });
+
+  it('should send nothing for a concept added in the draft', () => {
+    let draft = addNode(createDraft(graph), { title: 'Metacognition' });
+    draft = addEdge(draft, { ...connection, from: 'n1', to: 'temp_node_1' });
+    draft = deleteNode(draft, 'temp_node_1');
+
+    expect(draft.edges).toHaveLength(2);
+    expect(isDraftDirty(draft)).toBe(false);
+  });
+});
+
+describe('validateEdgeInput', () => {
+  it('should require a justification', () => {
+    expect(validateEdgeInput(graph.edges, { ...connection, justification: '  ' })).toBe(
+      'Explain why this connection makes sense'
+    );
+  });
+
+  it('should reject self-connections and existing connections', () => {
+    expect(validateEdgeInput(graph.edges, { ...connection, to: 'n2' })).not.toBeNull();
+    expect(validateEdgeInput(graph.edges, { ...connection, from: 'n1', to: 'n2' })).toBe(
+      'These concepts are already connected'
+    );
+  });
+
+  it('should accept a complete connection', () => {
+    expect(validateEdgeInput(graph.edges, connection)).toBeNull();
+  });
+});
+
+describe('addEdge', () => {
+  it('should connect the concepts and keep the justification', () => {
+    const draft = addEdge(createDraft(graph), connection);
+    const edge = draft.edges[draft.edges.length - 1];
+
+    expect(edge).toMatchObject({
+      id: 'temp_edge_1',
+      fromNode: { nodeKey: 'B', title: 'Engagement' },
+      toNode: { nodeKey: 'C', title: 'Retention' },
+      metadata: { justification: connection.justification },
+    });
+    expect(draft.operations).toEqual([
+      { type: 'addEdge', edgeId: 'temp_edge_1', request: connection },
+    ]);
+  });
+
+  it('should leave the draft unchanged without a justification', () => {
+    const draft = createDraft(graph);
+    expect(addEdge(draft, { ...connection, justification: '' })).toBe(draft);
+  });
+});
+
+describe('renameEdge and deleteEdge', () => {
+  it('should relabel and delete connections', () => {
+    let draft = renameEdge(createDraft(graph), 'e1', 'drives');
+    expect(draft.edges[0].relationship).toBe('drives');
+
+    draft = deleteEdge(draft, 'e1');
+    expect(draft.edges.map((edge) => edge.id)).toEqual(['e2']);
+    expect(draft.operations).toEqual([{ type: 'deleteEdge', edgeId: 'e1' }]);
+  });
+});
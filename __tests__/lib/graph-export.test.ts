@@ -0,0 +1,313 @@
+/**
+ * Tests for Graph Export Utilities
+ *
+ * Tests topological ordering, Markdown generation and standalone SVG
+ * serialization for graph export.
+ */
+
+import {
+  sortNodesTopologically,
+  graphToMarkdown,
+  getExportFilename,
+  serializeGraphSvg,
+  svgToPng,
+} from '@/lib/graph-export';
+import type { Graph, GraphEdge, GraphNode, Note } from '@/types/api.types';
+import { createEdge, createNode } from '@/__tests__/fixtures/graph';
+
+// ============================================================================
+// Setup and Helpers
+// ============================================================================
+
+function createGraph(nodes: GraphNode[], edges: GraphEdge[]): Graph {
+  return {
+    id: 'graph_1',
+    status: 'ready',
+    mermaidCode: '',
+    generationModel: 'test',
+    version: 1,
+    createdAt: '2025-01-01T00:00:00.000Z',
+    document: {
+      id: 'doc_1',
+      title: 'Active Learning: A Review',
+      sourceType: 'pdf',
+      createdAt: '2025-01-01T00:00:00.000Z',
+    },
+    nodes,
+    edges,
+  };
+}
+
+function createNote(id: string, content: string, overrides: Partial<Note> = {}): Note {
+  return {
+    id,
+    graphId: 'graph_1',
+    nodeId: null,
+    edgeId: null,
+    content,
+    createdAt: '2025-01-01T00:00:00.000Z',
+    updatedAt: '2025-01-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+// ============================================================================
+// sortNodesTopologically
+// ============================================================================
+
+describe('sortNodesTopologically', () => {
+  it('should place sources before their targets', () => {
+    const nodes = [createNode('c'), createNode('b'), createNode('a')];
+    const edges = [createEdge('e1', 'a', 'b'), createEdge('e2', 'b', 'c')];
+
+    const ordered = sortNodesTopologically(nodes, edges);
+
+    expect(ordered.map((node) => node.id)).toEqual(['a', 'b', 'c']);
+  });
+
+  it('should keep original order between independent nodes', () => {
+    const nodes = [createNode('x'), createNode('y'), createNode('z')];
+
+    const ordered = sortNodesTopologically(nodes, []);
+
+    expect(ordered.map((node) => node.id)).toEqual(['x', 'y', 'z']);
+  });
+
+  it('should include every node when the graph has a cycle', () => {
+    const nodes = [createNode('a'), createNode('b'), createNode('c')];
+    const edges = [
+      createEdge('e1', 'a', 'b'),
+      createEdge('e2', 'b', 'a'),
+      createEdge('e3', 'b', 'c'),
+    ];
+
+    const ordered = sortNodesTopologically(nodes, edges);
+
+    expect(ordered.map((node) => node.id)).toEqual(['a', 'b', 'c']);
+  });
+});
+
+// ============================================================================
+// graphToMarkdown
+// ============================================================================
+
+describe('graphToMarkdown', () => {
+  const nodes = [
+    createNode('b', { title: 'Engagement' }),
+    createNode('a', {
+      title: 'Active Learning',
+      documentRefs: {
+        references: [
+          {
+            text: 'Active learning involves students directly.',
+            page: 0,
+            coordinates: { x: 0, y: 0, width: 10, height: 10 },
+          },
+          {
+            text: 'Spans two pages.',
+            pages: [2, 3],
+            coordinates: [],
+          },
+        ],
+      },
+    }),
+  ];
+  const edges = [
+    createEdge('e1', 'a', 'b', {
+      relationship: 'increases',
+      aiExplanation: 'Participation keeps students engaged.',
+    }),
+  ];
+  const graph = createGraph(nodes, edges);
+  const notes = [
+    createNote('n1', 'Like the Socratic method', { nodeId: 'a' }),
+    createNote('n2', 'Check the 2014 meta-analysis', { edgeId: 'e1' }),
+    createNote('n3', 'Great overview paper'),
+    createNote('n4', 'Ties into motivation', { nodeId: 'B' }),
+  ];
+
+  const markdown = graphToMarkdown(graph, notes, {
+    exportedAt: new Date('2025-02-03T12:00:00.000Z'),
+  });
+
+  it('should start with the document title and export summary', () => {
+    expect(markdown).toMatch(/^# Active Learning: A Review\n/);
+    expect(markdown).toContain('exported from Graphex on 2025-02-03');
+    expect(markdown).toContain('2 concepts · 1 connections');
+  });
+
+  it('should nest concepts under the concepts that point to them', () => {
+    expect(markdown.indexOf('\n## 1. Active Learning\n')).toBeGreaterThan(-1);
+    expect(markdown.indexOf('\n## 1. Active Learning\n')).toBeLessThan(
+      markdown.indexOf('\n### 1.1. Engagement\n')
+    );
+  });
+
+  it('should quote source excerpts with 1-indexed pages', () => {
+    expect(markdown).toContain('> Active learning involves students directly.\n> — p. 1');
+    expect(markdown).toContain('> Spans two pages.\n> — pp. 3–4');
+  });
+
+  it('should include node, edge and graph notes', () => {
+    expect(markdown).toContain('**My notes**\n\n- Like the Socratic method');
+    expect(markdown).toContain('  - Note: Check the 2014 meta-analysis');
+    expect(markdown).toContain('## Notes\n\n- Great overview paper');
+  });
+
+  it('should include notes stored under the Mermaid key', () => {
+    expect(markdown).toContain('### 1.1. Engagement\n\n**My notes**\n\n- Ties into motivation');
+  });
+
+  it('should describe outgoing connections with explanations', () => {
+    expect(markdown).toContain(
+      '- *increases* → **Engagement**\n  - Participation keeps students engaged.'
+    );
+  });
+
+  it('should refer back to concepts reached more than once', () => {
+    const shared = createGraph(
+      ['A', 'B', 'C', 'D'].map((title) => createNode(title.toLowerCase(), { title })),
+      [
+        createEdge('e1', 'a', 'b'),
+        createEdge('e2', 'a', 'c'),
+        createEdge('e3', 'b', 'd'),
+        createEdge('e4', 'c', 'd'),
+        createEdge('e5', 'd', 'a'),
+      ]
+    );
+
+    const output = graphToMarkdown(shared, []);
+    const headings = output.split('\n').filter((line) => /^#{2,6} /.test(line));
+
+    expect(headings).toEqual(['## 1. A', '### 1.1. B', '#### 1.1.1. D', '### 1.2. C']);
+    expect(output).toContain('- *leads to* → **D** (see 1.1.1)');
+    expect(output).toContain('- *leads to* → **A** (see 1)');
+  });
+
+  it('should cap heading levels for deeply nested concepts', () => {
+    const ids = ['a', 'b', 'c', 'd', 'e', 'f'];
+    const chain = createGraph(
+      ids.map((id) => createNode(id, { title: id.toUpperCase() })),
+      ids.slice(1).map((id, i) => createEdge(`e${i}`, ids[i], id))
+    );
+
+    expect(graphToMarkdown(chain, [])).toContain('\n###### 1.1.1.1.1.1. F\n');
+  });
+});
+
+// ============================================================================
+// getExportFilename
+// ============================================================================
+
+describe('getExportFilename', () => {
+  it('should slugify the document title', () => {
+    const graph = createGraph([], []);
+
+    expect(getExportFilename(graph)).toBe('active-learning-a-review-graph.md');
+    expect(getExportFilename(graph, 'svg')).toBe('active-learning-a-review-graph.svg');
+  });
+});
+
+// ============================================================================
+// serializeGraphSvg
+// ============================================================================
+
+describe('serializeGraphSvg', () => {
+  function renderGraphSvg(): SVGSVGElement {
+    const container = document.createElement('div');
+    container.innerHTML = `
+      <svg xmlns="http://www.w3.org/2000/svg" style="width: 100%; height: 100%">
+        <defs><filter id="activeGlow"><feGaussianBlur stdDeviation="4" /></filter></defs>
+        <g transform="translate(120, 40) scale(1.5)">
+          <g class="node" id="flowchart-A-0">
+            <rect fill="#66BB6A" stroke="#FFC107" filter="url(#activeGlow)" />
+          </g>
+        </g>
+      </svg>
+    `;
+    const svg = container.querySelector('svg') as SVGSVGElement;
+    // jsdom has no layout, so provide the content bounds
+    Object.defineProperty(svg.querySelector('g'), 'getBBox', {
+      value: () => ({ x: 10, y: 20, width: 200, height: 100 }),
+    });
+    return svg;
+  }
+
+  function parse(markup: string): SVGSVGElement {
+    return new DOMParser().parseFromString(markup, 'image/svg+xml')
+      .documentElement as unknown as SVGSVGElement;
+  }
+
+  it('should size the canvas to the content and drop zoom/pan', async () => {
+    const svg = parse(await serializeGraphSvg(renderGraphSvg(), { padding: 10 }));
+
+    expect(svg.getAttribute('viewBox')).toBe('0 10 220 120');
+    expect(svg.getAttribute('width')).toBe('220');
+    expect(svg.getAttribute('height')).toBe('120');
+    expect(svg.hasAttribute('style')).toBe(false);
+    expect(svg.querySelector('g')?.hasAttribute('transform')).toBe(false);
+  });
+
+  it('should keep node state styling and filter defs', async () => {
+    const markup = await serializeGraphSvg(renderGraphSvg());
+
+    expect(markup).toContain('<filter id="activeGlow">');
+    expect(markup).toContain('fill="#66BB6A"');
+    expect(markup).toContain('filter="url(#activeGlow)"');
+  });
+
+  it('should inline theme styles and the canvas background', async () => {
+    const svg = parse(await serializeGraphSvg(renderGraphSvg()));
+
+    expect(svg.querySelector('style')?.textContent).toContain('font-family: Inter, sans-serif');
+    expect(svg.querySelector('rect')?.getAttribute('fill')).toBe('#EDE4D8');
+  });
+
+  it('should leave the background transparent when disabled', async () => {
+    const svg = parse(await serializeGraphSvg(renderGraphSvg(), { background: null }));
+
+    expect(svg.querySelector(':scope > rect')).toBeNull();
+  });
+
+  it('should not modify the rendered graph', async () => {
+    const original = renderGraphSvg();
+
+    await serializeGraphSvg(original);
+
+    expect(original.querySelector('g')?.getAttribute('transform')).toBe(
+      'translate(120, 40) scale(1.5)'
+    );
+    expect(original.querySelector('style')).toBeNull();
+  });
+});
+
+// ============================================================================
+// svgToPng
+// ============================================================================
+
+describe('svgToPng', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should reject when the canvas cannot be drawn', async () => {
+    const securityError = new Error('The canvas has been tainted');
+    jest.spyOn(HTMLCanvasElement.prototype, 'getContext').mockReturnValue({
+      scale: jest.fn(),
+      drawImage: jest.fn(() => {
+        throw securityError;
+      }),
+    } as unknown as CanvasRenderingContext2D);
+
+    // jsdom does not load images; fire onload once the source is set
+    const image = { naturalWidth: 10, naturalHeight: 10 } as HTMLImageElement;
+    Object.defineProperty(image, 'src', {
+      set: () => setTimeout(() => image.onload?.(new Event('load'))),
+    });
+    jest.spyOn(window, 'Image').mockImplementation(() => image);
+
+    await expect(svgToPng('<svg xmlns="http://www.w3.org/2000/svg"/>')).rejects.toBe(
+      securityError
+    );
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * Tests for Graph Filter Utilities
+ *
+ * Tests legend filter matching and URL query persistence.
+ */
+
+import {
+  EMPTY_GRAPH_FILTER,
+  getFilteredNodeIds,
+  getFilteredEdgeIds,
+  parseGraphFilter,
+  writeGraphFilter,
+  toggleFilterValue,
+  type GraphFilter,
+} from '@/lib/graph-filter';
+import { createEdge, createNode } from '@/__tests__/fixtures/graph';
+
+// ============================================================================
+// Setup and Helpers
+// ============================================================================
+
+const nodes = [
+  createNode('node_1', { nodeKey: 'A' }),
+  createNode('node_2', { nodeKey: 'B', nodeType: 'method' }),
+  createNode('node_3', { nodeKey: 'C' }),
+];
+
+const edges = [
+  createEdge('edge_1', nodes[0], nodes[1], { relationship: 'leads to' }),
+  createEdge('edge_2', nodes[0], nodes[1], { relationship: 'is a' }),
+  createEdge('edge_3', nodes[0], nodes[1], { relationship: 'supports' }),
+];
+
+// ============================================================================
+// getFilteredNodeIds
+// ============================================================================
+
+describe('getFilteredNodeIds', () => {
+  it('should return null when no filter is active', () => {
+    expect(getFilteredNodeIds(nodes, {}, EMPTY_GRAPH_FILTER)).toBeNull();
+  });
+
+  it('should match nodes by type', () => {
+    const filter: GraphFilter = { ...EMPTY_GRAPH_FILTER, nodeTypes: ['concept'] };
+
+    expect(getFilteredNodeIds(nodes, {}, filter)).toEqual(new Set(['node_1', 'node_3']));
+  });
+
+  it('should match nodes having any selected state', () => {
+    const filter: GraphFilter = { ...EMPTY_GRAPH_FILTER, nodeStates: ['hasNotes', 'mastered'] };
+    const nodeStates = { A: { hasNotes: true }, node_2: { isMastered: true } };
+
+    expect(getFilteredNodeIds(nodes, nodeStates, filter)).toEqual(new Set(['node_1', 'node_2']));
+  });
+
+  it('should require both type and state when both are selected', () => {
+    const filter: GraphFilter = {
+      ...EMPTY_GRAPH_FILTER,
+      nodeTypes: ['concept'],
+      nodeStates: ['needsReview'],
+    };
+    const nodeStates = { B: { needsReview: true }, C: { needsReview: true } };
+
+    expect(getFilteredNodeIds(nodes, nodeStates, filter)).toEqual(new Set(['node_3']));
+  });
+});
+
+describe('getFilteredEdgeIds', () => {
+  it('should return null when no edge type is selected', () => {
+    expect(getFilteredEdgeIds(edges, { ...EMPTY_GRAPH_FILTER, nodeTypes: ['concept'] })).toBeNull();
+  });
+
+  it('should match edges by relationship category', () => {
+    const filter: GraphFilter = { ...EMPTY_GRAPH_FILTER, edgeTypes: ['causal', 'related'] };
+
+    expect(getFilteredEdgeIds(edges, filter)).toEqual(new Set(['edge_1', 'edge_3']));
+  });
+
+  it('should leave nodes unfiltered', () => {
+    const filter: GraphFilter = { ...EMPTY_GRAPH_FILTER, edgeTypes: ['causal'] };
+
+    expect(getFilteredNodeIds(nodes, {}, filter)).toBeNull();
+  });
+});
+
+describe('toggleFilterValue', () => {
+  it('should add missing values and remove present ones', () => {
+    expect(toggleFilterValue(['a'], 'b')).toEqual(['a', 'b']);
+    expect(toggleFilterValue(['a', 'b'], 'a')).toEqual(['b']);
+  });
+});
+
+// ============================================================================
+// URL Persistence
+// ============================================================================
+
+describe('parseGraphFilter / writeGraphFilter', () => {
+  it('should round-trip a filter through query params', () => {
+    const filter: GraphFilter = {
+      nodeTypes: ['concept', 'method'],
+      nodeStates: ['needsReview'],
+      edgeTypes: ['causal', 'example'],
+      mode: 'hide',
+    };
+
+    const params = writeGraphFilter(new URLSearchParams(), filter);
+
+    expect(params.toString()).toBe(
+      'types=concept%2Cmethod&states=needsReview&edges=causal%2Cexample&filterMode=hide'
+    );
+    expect(parseGraphFilter(params)).toEqual(filter);
+  });
+
+  it('should preserve unrelated params and drop empty values', () => {
+    const params = writeGraphFilter(
+      new URLSearchParams('tab=notes&types=concept&filterMode=hide'),
+      EMPTY_GRAPH_FILTER
+    );
+
+    expect(params.toString()).toBe('tab=notes');
+  });
+
+  it('should ignore unknown states, edge types and modes', () => {
+    const filter = parseGraphFilter(
+      new URLSearchParams('states=mastered,bogus&edges=causal,bogus&filterMode=blur')
+    );
+
+    expect(filter).toEqual({
+      nodeTypes: [],
+      nodeStates: ['mastered'],
+      edgeTypes: ['causal'],
+      mode: 'dim',
+    });
+  });
+});
@@ -0,0 +1,73 @@
+/**
+ * Tests for Graph Minimap Utilities
+ *
+ * Tests the visible region of the main view, minimap scaling and the
+ * transform that centers the view on a minimap point.
+ */
+
+import {
+  getCenteredTransform,
+  getMinimapLayout,
+  getVisibleRegion,
+  minimapToGraphPoint,
+} from '@/lib/graph-minimap';
+
+// ============================================================================
+// Setup and Helpers
+// ============================================================================
+
+const size = { width: 800, height: 600 };
+const bounds = { x: -100, y: 0, width: 1600, height: 600 };
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe('getVisibleRegion', () => {
+  it('should map the view to graph coordinates', () => {
+    expect(getVisibleRegion({ scale: 2, translateX: -100, translateY: -60 }, size)).toEqual({
+      x: 50,
+      y: 30,
+      width: 400,
+      height: 300,
+    });
+  });
+});
+
+describe('getCenteredTransform', () => {
+  it('should center the point at the current zoom level', () => {
+    const transform = getCenteredTransform(
+      { scale: 2, translateX: 0, translateY: 0 },
+      { x: 300, y: 100 },
+      size
+    );
+
+    expect(transform).toEqual({ scale: 2, translateX: -200, translateY: 100 });
+
+    const region = getVisibleRegion(transform, size);
+    expect(region.x + region.width / 2).toBe(300);
+    expect(region.y + region.height / 2).toBe(100);
+  });
+});
+
+describe('getMinimapLayout', () => {
+  it('should fit the graph keeping its aspect ratio', () => {
+    expect(getMinimapLayout(bounds, { width: 160, height: 120 })).toEqual({
+      scale: 0.1,
+      width: 160,
+      height: 60,
+    });
+  });
+
+  it('should fall back to the full size for empty bounds', () => {
+    expect(getMinimapLayout({ x: 0, y: 0, width: 0, height: 0 }, { width: 160, height: 120 })).toEqual(
+      { scale: 1, width: 160, height: 120 }
+    );
+  });
+});
+
+describe('minimapToGraphPoint', () => {
+  it('should offset by the graph bounds', () => {
+    expect(minimapToGraphPoint({ x: 80, y: 30 }, bounds, 0.1)).toEqual({ x: 700, y: 300 });
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * Tests for Graph Keyboard Navigation
+ *
+ * Tests topological Tab order, arrow-key traversal along edges, and cycling
+ * through a node's outgoing connections.
+ */
+
+import { getTabOrder, getNeighbor, getNextOutgoingEdge } from '@/lib/graph-navigation';
+import { createEdge, createNode } from '@/__tests__/fixtures/graph';
+
+// ============================================================================
+// Setup and Helpers
+// ============================================================================
+
+// a --> b, a --> c, b --> d; e is a second root
+const nodes = ['d', 'b', 'a', 'c', 'e'].map((id) => createNode(id));
+const edges = [
+  createEdge('e1', 'a', 'b'),
+  createEdge('e2', 'a', 'c'),
+  createEdge('e3', 'b', 'd'),
+];
+
+// ============================================================================
+// getTabOrder
+// ============================================================================
+
+describe('getTabOrder', () => {
+  it('should order sources before their targets', () => {
+    const order = getTabOrder(nodes, edges);
+
+    expect(order).toHaveLength(5);
+    expect(order.indexOf('a')).toBeLessThan(order.indexOf('b'));
+    expect(order.indexOf('a')).toBeLessThan(order.indexOf('c'));
+    expect(order.indexOf('b')).toBeLessThan(order.indexOf('d'));
+  });
+});
+
+// ============================================================================
+// getNeighbor
+// ============================================================================
+
+describe('getNeighbor', () => {
+  it('should move down to the first child and up to the first parent', () => {
+    expect(getNeighbor('a', 'down', nodes, edges)).toBe('b');
+    expect(getNeighbor('d', 'up', nodes, edges)).toBe('b');
+  });
+
+  it('should move between siblings that share a parent', () => {
+    expect(getNeighbor('b', 'right', nodes, edges)).toBe('c');
+    expect(getNeighbor('c', 'left', nodes, edges)).toBe('b');
+  });
+
+  it('should treat root nodes as siblings', () => {
+    const order = getTabOrder(nodes, edges).filter((id) => id === 'a' || id === 'e');
+
+    expect(getNeighbor(order[0], 'right', nodes, edges)).toBe(order[1]);
+    expect(getNeighbor(order[1], 'left', nodes, edges)).toBe(order[0]);
+  });
+
+  it('should return null when there is nothing in that direction', () => {
+    expect(getNeighbor('a', 'up', nodes, edges)).toBeNull();
+    expect(getNeighbor('d', 'down', nodes, edges)).toBeNull();
+    expect(getNeighbor('c', 'right', nodes, edges)).toBeNull();
+  });
+});
+
+// ============================================================================
+// getNextOutgoingEdge
+// ============================================================================
+
+describe('getNextOutgoingEdge', () => {
+  it('should cycle through outgoing edges and wrap around', () => {
+    expect(getNextOutgoingEdge('a', edges, null)?.id).toBe('e1');
+    expect(getNextOutgoingEdge('a', edges, 'e1')?.id).toBe('e2');
+    expect(getNextOutgoingEdge('a', edges, 'e2')?.id).toBe('e1');
+  });
+
+  it('should return null for a node without outgoing edges', () => {
+    expect(getNextOutgoingEdge('d', edges, null)).toBeNull();
+  });
+});
@@ -0,0 +1,163 @@
+/**
+ * Tests for Graph Search Utilities
+ *
+ * Tests fuzzy title matching, full-text matching of node content and notes,
+ * ranking, and highlight segmentation.
+ */
+
+import {
+  fuzzyMatch,
+  fullTextMatch,
+  searchGraphNodes,
+  getHighlightSegments,
+} from '@/lib/graph-search';
+import type { Note } from '@/types/api.types';
+import { createNode } from '@/__tests__/fixtures/graph';
+
+// ============================================================================
+// Setup and Helpers
+// ============================================================================
+
+function createNote(nodeId: string, content: string): Note {
+  return {
+    id: `note_${nodeId}`,
+    graphId: 'graph_1',
+    nodeId,
+    edgeId: null,
+    content,
+    createdAt: '2025-01-01T00:00:00.000Z',
+    updatedAt: '2025-01-01T00:00:00.000Z',
+  };
+}
+
+const nodes = [
+  createNode('a', {
+    title: 'Active Learning',
+    summary: 'Students engage directly with the material.',
+  }),
+  createNode('b', {
+    title: 'Retention',
+    contentSnippet: 'Long-term retention improves with spaced practice.',
+  }),
+  createNode('c', { title: 'Critical Thinking' }),
+];
+
+// ============================================================================
+// fuzzyMatch
+// ============================================================================
+
+describe('fuzzyMatch', () => {
+  it('should match characters in order across words', () => {
+    expect(fuzzyMatch('actlrn', 'Active Learning')?.ranges).toEqual([
+      [0, 3],
+      [7, 8],
+      [10, 12],
+    ]);
+  });
+
+  it('should return null when characters are out of order', () => {
+    expect(fuzzyMatch('nla', 'Active Learning')).toBeNull();
+  });
+
+  it('should score a prefix above a scattered match', () => {
+    const prefix = fuzzyMatch('ret', 'Retention')!;
+    const scattered = fuzzyMatch('ret', 'Ranked Test')!;
+
+    expect(prefix.score).toBeGreaterThan(scattered.score);
+  });
+});
+
+// ============================================================================
+// fullTextMatch
+// ============================================================================
+
+describe('fullTextMatch', () => {
+  it('should require every word and highlight each occurrence', () => {
+    const match = fullTextMatch('practice spaced', 'Spaced practice beats massed practice.');
+
+    expect(match?.ranges).toEqual([
+      [0, 6],
+      [7, 15],
+      [29, 37],
+    ]);
+    expect(fullTextMatch('spaced sleep', 'Spaced practice')).toBeNull();
+  });
+});
+
+// ============================================================================
+// searchGraphNodes
+// ============================================================================
+
+describe('searchGraphNodes', () => {
+  it('should return nothing for a blank query', () => {
+    expect(searchGraphNodes(nodes, [], '  ')).toEqual([]);
+  });
+
+  it('should rank title matches above content matches', () => {
+    const results = searchGraphNodes(nodes, [], 'retention');
+
+    expect(results[0]).toMatchObject({ field: 'title', text: 'Retention' });
+    expect(results[0].node.id).toBe('b');
+  });
+
+  it('should find nodes by summary and content snippet', () => {
+    const [summaryHit] = searchGraphNodes(nodes, [], 'material');
+    const [snippetHit] = searchGraphNodes(nodes, [], 'spaced practice');
+
+    expect(summaryHit).toMatchObject({ field: 'summary' });
+    expect(summaryHit.node.id).toBe('a');
+    expect(snippetHit).toMatchObject({ field: 'contentSnippet' });
+    expect(snippetHit.node.id).toBe('b');
+  });
+
+  it('should find nodes by attached note content', () => {
+    const notes = [createNote('c', 'Compare with Bloom taxonomy')];
+
+    const [result] = searchGraphNodes(nodes, notes, 'bloom');
+
+    expect(result.node.id).toBe('c');
+    expect(result.field).toBe('note');
+    expect(result.text.slice(result.ranges[0][0], result.ranges[0][1])).toBe('Bloom');
+  });
+
+  it('should find notes stored under the Mermaid key', () => {
+    const notes = [createNote('C', 'Compare with Bloom taxonomy')];
+
+    const [result] = searchGraphNodes(nodes, notes, 'bloom');
+
+    expect(result.node.id).toBe('c');
+    expect(result.field).toBe('note');
+  });
+
+  it('should excerpt long text around the match', () => {
+    const long = createNode('d', {
+      title: 'Long',
+      summary: `${'filler '.repeat(30)}needle ${'filler '.repeat(30)}`,
+    });
+
+    const [result] = searchGraphNodes([long], [], 'needle', { excerptContext: 10 });
+
+    expect(result.text.startsWith('…')).toBe(true);
+    expect(result.text.endsWith('…')).toBe(true);
+    expect(result.text.slice(result.ranges[0][0], result.ranges[0][1])).toBe('needle');
+  });
+
+  it('should respect the result limit', () => {
+    expect(searchGraphNodes(nodes, [], 'i', { limit: 2 })).toHaveLength(2);
+  });
+});
+
+// ============================================================================
+// getHighlightSegments
+// ============================================================================
+
+describe('getHighlightSegments', () => {
+  it('should split text into matched and plain segments', () => {
+    expect(getHighlightSegments('Active Learning', [[0, 3], [7, 9]])).toEqual([
+      { text: 'Act', isMatch: true },
+      { text: 'ive ', isMatch: false },
+      { text: 'Le', isMatch: true },
+      { text: 'arning', isMatch: false },
+    ]);
+  });
+});
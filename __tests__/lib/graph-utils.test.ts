@@ -9,11 +9,20 @@ import {
   getEdgeIdFromElement,
   applyNodeStyles,
   highlightConnectedNodes,
+  applyNodeFilter,
+  applyReadingProgress,
+  applySourceColors,
+  applyDiffOverlay,
+  applyEdgeStyles,
+  applyEdgeThreshold,
+  getEdgeEndpoints,
+  tagRenderedEdges,
   addSVGFilters,
   getGraphBounds,
   type NodeState,
 } from '@/lib/graph-utils';
-import { NODE_STATE_COLORS } from '@/lib/mermaid-theme';
+import { EDGE_STYLES, NODE_STATE_COLORS } from '@/lib/mermaid-theme';
+import { createEdge } from '@/__tests__/fixtures/graph';
 
 // ============================================================================
 // Helper Functions
@@ -60,6 +69,27 @@ function createMockEdgeElement(edgeId: string): SVGPathElement {
   return path;
 }
 
+/**
+ * Create an edge path as Mermaid 11 draws it in a flowchart
+ *
+ * The ID counter is 0 for the first link between two nodes, then 2, 3, ...
+ */
+function createMermaidEdgePath(from: string, to: string, counter = 0): SVGPathElement {
+  const id = `L_${from}_${to}_${counter}`;
+  const path = document.createElementNS('http://www.w3.org/2000/svg', 'path');
+  path.setAttribute('d', 'M 0 0 L 100 100');
+  path.setAttribute('id', id);
+  path.setAttribute(
+    'class',
+    ' edge-thickness-normal edge-pattern-solid edge-thickness-normal edge-pattern-solid flowchart-link'
+  );
+  path.setAttribute('data-edge', 'true');
+  path.setAttribute('data-et', 'edge');
+  path.setAttribute('data-id', id);
+  path.setAttribute('marker-end', 'url(#mermaid-1_flowchart-v2-pointEnd)');
+  return path;
+}
+
 // ============================================================================
 // Tests: Node ID Extraction
 // ============================================================================
@@ -205,6 +235,35 @@ describe('applyNodeStyles', () => {
     const currentWidth = shape?.getAttribute('stroke-width');
     expect(Number(currentWidth)).toBeGreaterThan(2);
   });
+
+  it('should keep a cited node identified across updates', () => {
+    // Mermaid 11 node: ID only in the element ID
+    const node = document.createElementNS('http://www.w3.org/2000/svg', 'g');
+    node.setAttribute('class', 'node default');
+    node.setAttribute('id', 'flowchart-A-0');
+    node.innerHTML = '<rect></rect>';
+    svg.appendChild(node);
+
+    applyNodeStyles(svg, { A: { isCited: true } });
+    applyNodeStyles(svg, { A: { isCited: true } });
+
+    expect(node.classList.contains('graph-cited')).toBe(true);
+    expect(getNodeIdFromElement(node)).toBe('A');
+  });
+
+  it('should keep a node in view identified across updates', () => {
+    const node = document.createElementNS('http://www.w3.org/2000/svg', 'g');
+    node.setAttribute('class', 'node default');
+    node.setAttribute('id', 'flowchart-A-0');
+    node.innerHTML = '<rect></rect>';
+    svg.appendChild(node);
+
+    applyNodeStyles(svg, { A: { isInView: true } });
+    applyNodeStyles(svg, { A: { isInView: true } });
+
+    expect(node.classList.contains('graph-in-view')).toBe(true);
+    expect(getNodeIdFromElement(node)).toBe('A');
+  });
 });
 
 // ============================================================================
@@ -261,6 +320,369 @@ describe('highlightConnectedNodes', () => {
   });
 });
 
+// ============================================================================
+// Tests: Legend Filter
+// ============================================================================
+
+describe('tagRenderedEdges', () => {
+  it('should match Mermaid 11 edge paths to graph edges', () => {
+    const svg = createMockSVGElement();
+    const path = createMermaidEdgePath('A', 'B');
+    svg.append(path);
+
+    tagRenderedEdges(svg, [createEdge('edge_1', 'a', 'b')]);
+
+    expect(getEdgeIdFromElement(path)).toBe('edge_1');
+    expect(getEdgeEndpoints(path)).toEqual({ from: 'A', to: 'B' });
+  });
+
+  it('should match parallel edges in drawing order', () => {
+    const svg = createMockSVGElement();
+    const first = createMermaidEdgePath('A', 'B');
+    const second = createMermaidEdgePath('A', 'B', 2);
+    svg.append(first, second);
+
+    tagRenderedEdges(svg, [createEdge('edge_1', 'a', 'b'), createEdge('edge_2', 'a', 'b')]);
+
+    expect(getEdgeIdFromElement(first)).toBe('edge_1');
+    expect(getEdgeIdFromElement(second)).toBe('edge_2');
+  });
+
+  it('should handle node keys containing underscores', () => {
+    const svg = createMockSVGElement();
+    const path = createMermaidEdgePath('0_A', '0_B');
+    svg.append(path);
+
+    tagRenderedEdges(svg, [createEdge('edge_1', '0_a', '0_b')]);
+
+    expect(getEdgeEndpoints(path)).toEqual({ from: '0_A', to: '0_B' });
+  });
+
+  it('should clear marks from paths no longer matching an edge', () => {
+    const svg = createMockSVGElement();
+    const path = createMermaidEdgePath('A', 'B');
+    svg.append(path);
+
+    tagRenderedEdges(svg, [createEdge('edge_1', 'a', 'b')]);
+    tagRenderedEdges(svg, []);
+
+    expect(path.hasAttribute('data-edge-id')).toBe(false);
+    expect(getEdgeEndpoints(path)).toBeNull();
+  });
+});
+
+describe('getEdgeEndpoints', () => {
+  it('should read the LS-/LE- classes of older Mermaid output', () => {
+    const path = document.createElementNS('http://www.w3.org/2000/svg', 'path');
+    path.setAttribute('class', 'edge-thickness-normal flowchart-link LS-A LE-B');
+
+    expect(getEdgeEndpoints(path)).toEqual({ from: 'A', to: 'B' });
+  });
+
+  it('should not guess endpoints from untagged Mermaid 11 paths', () => {
+    expect(getEdgeEndpoints(createMermaidEdgePath('A', 'B'))).toBeNull();
+  });
+});
+
+describe('applyNodeFilter', () => {
+  let svg: SVGSVGElement;
+  let nodeA: SVGGElement;
+  let nodeB: SVGGElement;
+  let nodeC: SVGGElement;
+  let edgeAB: SVGPathElement;
+  let edgeBC: SVGPathElement;
+
+  beforeEach(() => {
+    svg = createMockSVGElement();
+
+    nodeA = createMockNodeElement('A');
+    nodeB = createMockNodeElement('B');
+    nodeC = createMockNodeElement('C');
+
+    edgeAB = createMermaidEdgePath('A', 'B');
+    edgeBC = createMermaidEdgePath('B', 'C');
+
+    svg.append(nodeA, nodeB, nodeC, edgeAB, edgeBC);
+    tagRenderedEdges(svg, [createEdge('edge_1', 'a', 'b'), createEdge('edge_2', 'b', 'c')]);
+  });
+
+  it('should dim non-matching nodes and edges touching them', () => {
+    applyNodeFilter(svg, new Set(['A', 'B']), 'dim');
+
+    expect(nodeA.style.opacity).toBe('');
+    expect(nodeC.style.opacity).toBe('0.15');
+    expect(edgeAB.style.opacity).toBe('');
+    expect(edgeBC.style.opacity).toBe('0.15');
+  });
+
+  it('should hide non-matching nodes and disable their pointer events', () => {
+    applyNodeFilter(svg, new Set(['A']), 'hide');
+
+    expect(nodeB.style.opacity).toBe('0');
+    expect(nodeB.style.pointerEvents).toBe('none');
+  });
+
+  it('should hide the edges and edge labels of hidden nodes', () => {
+    const label = document.createElementNS('http://www.w3.org/2000/svg', 'g');
+    label.setAttribute('class', 'edgeLabel');
+    label.innerHTML = '<g class="label" data-id="L_B_C_0"></g>';
+    svg.append(label);
+
+    applyNodeFilter(svg, new Set(['A', 'B']), 'hide');
+
+    expect(edgeAB.style.opacity).toBe('');
+    expect(edgeBC.style.opacity).toBe('0');
+    expect(label.style.opacity).toBe('0');
+  });
+
+  it('should restore previously filtered elements when cleared', () => {
+    applyNodeFilter(svg, new Set(['A']), 'hide');
+    applyNodeFilter(svg, null, 'hide');
+
+    expect(nodeB.style.opacity).toBe('1');
+    expect(nodeB.style.pointerEvents).toBe('');
+    expect(nodeB.hasAttribute('data-filtered')).toBe(false);
+  });
+
+  it('should dim edges outside the edge filter', () => {
+    applyNodeFilter(svg, null, 'dim', new Set(['edge_1']));
+
+    expect(nodeC.style.opacity).toBe('');
+    expect(edgeAB.style.opacity).toBe('');
+    expect(edgeBC.style.opacity).toBe('0.15');
+  });
+
+  it('should not override hover highlighting on matching nodes', () => {
+    highlightConnectedNodes(svg, 'C');
+    const opacityBefore = nodeA.style.opacity;
+
+    applyNodeFilter(svg, new Set(['A', 'C']), 'dim');
+
+    expect(nodeA.style.opacity).toBe(opacityBefore);
+  });
+});
+
+// ============================================================================
+// Tests: Reading Progress
+// ============================================================================
+
+describe('applyReadingProgress', () => {
+  let svg: SVGSVGElement;
+  let nodeA: SVGGElement;
+  let nodeB: SVGGElement;
+
+  beforeEach(() => {
+    svg = createMockSVGElement();
+    nodeA = createMockNodeElement('A');
+    nodeB = createMockNodeElement('B');
+    svg.append(nodeA, nodeB);
+
+    // jsdom has no SVG geometry
+    [nodeA, nodeB].forEach((node) => {
+      (node.querySelector('rect') as unknown as SVGGraphicsElement).getBBox = () =>
+        ({ x: 0, y: 0, width: 100, height: 60 } as DOMRect);
+    });
+  });
+
+  it('should draw a bar filled to each node progress', () => {
+    applyReadingProgress(svg, { A: 0.5 });
+
+    const fill = nodeA.querySelector('.reading-progress')?.children[1];
+    expect(fill?.getAttribute('width')).toBe('44');
+    expect(fill?.getAttribute('fill')).toBe(NODE_STATE_COLORS.reading);
+    expect(nodeB.querySelector('.reading-progress')).toBeNull();
+  });
+
+  it('should update and remove existing bars', () => {
+    applyReadingProgress(svg, { A: 0.5 });
+    applyReadingProgress(svg, { A: 1 });
+
+    expect(nodeA.querySelectorAll('.reading-progress')).toHaveLength(1);
+    expect(nodeA.querySelector('.reading-progress')?.children[1].getAttribute('width')).toBe('88');
+
+    applyReadingProgress(svg, {});
+    expect(nodeA.querySelector('.reading-progress')).toBeNull();
+  });
+});
+
+describe('applySourceColors', () => {
+  let svg: SVGSVGElement;
+  let nodeA: SVGGElement;
+  let nodeB: SVGGElement;
+
+  beforeEach(() => {
+    svg = createMockSVGElement();
+    nodeA = createMockNodeElement('A');
+    nodeB = createMockNodeElement('B');
+    svg.append(nodeA, nodeB);
+
+    // jsdom has no SVG geometry
+    [nodeA, nodeB].forEach((node) => {
+      (node.querySelector('rect') as unknown as SVGGraphicsElement).getBBox = () =>
+        ({ x: 0, y: 0, width: 100, height: 60 } as DOMRect);
+    });
+  });
+
+  it('should draw a stripe in each node source color', () => {
+    applySourceColors(svg, { A: '#7E57C2' });
+
+    const stripe = nodeA.querySelector('.source-marker');
+    expect(stripe?.getAttribute('fill')).toBe('#7E57C2');
+    expect(stripe?.getAttribute('height')).toBe('52');
+    expect(nodeB.querySelector('.source-marker')).toBeNull();
+  });
+
+  it('should recolor and remove existing stripes', () => {
+    applySourceColors(svg, { A: '#7E57C2' });
+    applySourceColors(svg, { A: '#EF6C00' });
+
+    expect(nodeA.querySelectorAll('.source-marker')).toHaveLength(1);
+    expect(nodeA.querySelector('.source-marker')?.getAttribute('fill')).toBe('#EF6C00');
+
+    applySourceColors(svg, {});
+    expect(nodeA.querySelector('.source-marker')).toBeNull();
+  });
+});
+
+describe('applyDiffOverlay', () => {
+  let svg: SVGSVGElement;
+  let nodeA: SVGGElement;
+  let nodeB: SVGGElement;
+  let edgeAB: SVGPathElement;
+
+  beforeEach(() => {
+    svg = createMockSVGElement();
+    nodeA = createMockNodeElement('A');
+    nodeB = createMockNodeElement('B');
+    edgeAB = createMermaidEdgePath('A', 'B');
+    svg.append(nodeA, nodeB, edgeAB);
+    tagRenderedEdges(svg, [createEdge('edge_1', 'a', 'b')]);
+  });
+
+  it('should mark added and renamed nodes and edges', () => {
+    applyDiffOverlay(svg, { A: 'added', B: 'renamed' }, { edge_1: 'added' });
+
+    expect(nodeA.classList.contains('diff-added')).toBe(true);
+    expect(nodeB.classList.contains('diff-renamed')).toBe(true);
+    expect(nodeB.classList.contains('diff-added')).toBe(false);
+    expect(edgeAB.classList.contains('diff-added')).toBe(true);
+  });
+
+  it('should clear marks for unchanged elements', () => {
+    applyDiffOverlay(svg, { A: 'added' }, { edge_1: 'renamed' });
+    applyDiffOverlay(svg, {}, {});
+
+    expect(nodeA.classList.contains('diff-added')).toBe(false);
+    expect(edgeAB.classList.contains('diff-renamed')).toBe(false);
+  });
+});
+
+// ============================================================================
+// Tests: Edge Styles
+// ============================================================================
+
+describe('applyEdgeStyles', () => {
+  let svg: SVGSVGElement;
+  let edgeAB: SVGPathElement;
+  let edgeBC: SVGPathElement;
+
+  beforeEach(() => {
+    svg = createMockSVGElement();
+    edgeAB = createMermaidEdgePath('A', 'B');
+    edgeBC = createMermaidEdgePath('B', 'C');
+    svg.append(edgeAB, edgeBC);
+    tagRenderedEdges(svg, [createEdge('edge_1', 'a', 'b'), createEdge('edge_2', 'b', 'c')]);
+  });
+
+  it('should apply the line style of each edge type', () => {
+    applyEdgeStyles(svg, { edge_1: { edgeType: 'causal' }, edge_2: { edgeType: 'example' } });
+
+    expect(edgeAB.style.stroke).toBe(EDGE_STYLES.causal.stroke);
+    expect(edgeAB.style.strokeWidth).toBe('3px');
+    expect(edgeAB.style.strokeDasharray).toBe('');
+    expect(edgeBC.style.strokeDasharray).toBe('5 5');
+  });
+
+  it('should scale stroke width and opacity by strength', () => {
+    applyEdgeStyles(svg, { edge_1: { edgeType: 'causal', strength: 0 } });
+
+    expect(edgeAB.style.strokeWidth).toBe('1.5px');
+    expect(edgeAB.style.strokeOpacity).toBe('0.35');
+  });
+
+  it('should add and remove a start arrowhead for bidirectional edges', () => {
+    applyEdgeStyles(svg, { edge_2: { edgeType: 'contrast', bidirectional: true } });
+    expect(edgeBC.getAttribute('marker-start')).toBe('url(#mermaid-1_flowchart-v2-pointStart)');
+
+    applyEdgeStyles(svg, { edge_2: { edgeType: 'contrast' } });
+    expect(edgeBC.hasAttribute('marker-start')).toBe(false);
+  });
+
+  it('should scale parallel edges by their own strength', () => {
+    const parallel = createMermaidEdgePath('A', 'B', 2);
+    svg.append(parallel);
+    tagRenderedEdges(svg, [
+      createEdge('edge_1', 'a', 'b'),
+      createEdge('edge_2', 'b', 'c'),
+      createEdge('edge_3', 'a', 'b'),
+    ]);
+
+    applyEdgeStyles(svg, {
+      edge_1: { edgeType: 'causal', strength: 0 },
+      edge_3: { edgeType: 'causal', strength: 1 },
+    });
+
+    expect(edgeAB.style.strokeOpacity).toBe('0.35');
+    expect(parallel.style.strokeOpacity).toBe('1');
+  });
+
+  it('should style parallel edges separately', () => {
+    const parallel = createMermaidEdgePath('A', 'B', 2);
+    svg.append(parallel);
+    tagRenderedEdges(svg, [
+      createEdge('edge_1', 'a', 'b'),
+      createEdge('edge_2', 'b', 'c'),
+      createEdge('edge_3', 'a', 'b'),
+    ]);
+
+    applyEdgeStyles(svg, { edge_1: { edgeType: 'causal' }, edge_3: { edgeType: 'example' } });
+
+    expect(edgeAB.style.stroke).toBe(EDGE_STYLES.causal.stroke);
+    expect(parallel.style.stroke).toBe(EDGE_STYLES.example.stroke);
+  });
+});
+
+describe('applyEdgeThreshold', () => {
+  it('should hide weak edges and show them again when the threshold drops', () => {
+    const svg = createMockSVGElement();
+    const edgeAB = createMermaidEdgePath('A', 'B');
+    const edgeBC = createMermaidEdgePath('B', 'C');
+    svg.append(edgeAB, edgeBC);
+    tagRenderedEdges(svg, [createEdge('edge_1', 'a', 'b'), createEdge('edge_2', 'b', 'c')]);
+
+    applyEdgeThreshold(svg, new Set(['edge_1']));
+    expect(edgeAB.style.display).toBe('none');
+    expect(edgeBC.style.display).toBe('');
+
+    applyEdgeThreshold(svg, new Set());
+    expect(edgeAB.style.display).toBe('');
+    expect(edgeAB.hasAttribute('data-weak')).toBe(false);
+  });
+
+  it('should keep a strong edge parallel to a hidden weak one', () => {
+    const svg = createMockSVGElement();
+    const weak = createMermaidEdgePath('A', 'B');
+    const strong = createMermaidEdgePath('A', 'B', 2);
+    svg.append(weak, strong);
+    tagRenderedEdges(svg, [createEdge('edge_1', 'a', 'b'), createEdge('edge_2', 'a', 'b')]);
+
+    applyEdgeThreshold(svg, new Set(['edge_1']));
+
+    expect(weak.style.display).toBe('none');
+    expect(strong.style.display).toBe('');
+  });
+});
+
 // ============================================================================
 // Tests: SVG Filters
 // ============================================================================
@@ -0,0 +1,160 @@
+/**
+ * Tests for Highlight Utilities
+ *
+ * Tests mapping between content offsets and rendered paragraphs, reading
+ * selections, rendering text marks, and converting highlights for the viewers.
+ */
+
+import {
+  getParagraphStarts,
+  getParagraphRanges,
+  getTextSelectionRange,
+  applyTextHighlights,
+  getTextHighlightMarks,
+  getPDFHighlightOverlays,
+} from '@/lib/highlights';
+import type { Highlight } from '@/types/api.types';
+
+// ============================================================================
+// Setup and Helpers
+// ============================================================================
+
+const content = 'First paragraph.\n\nSecond paragraph here.\n\n\nThird.';
+
+/**
+ * Render paragraphs the way DocumentViewer does
+ */
+function renderParagraphs(text: string): HTMLDivElement {
+  const container = document.createElement('div');
+  text
+    .split(/\n\n+/)
+    .filter((paragraph) => paragraph.trim())
+    .forEach((paragraph, index) => {
+      const p = document.createElement('p');
+      p.dataset.paragraphIndex = String(index);
+      p.textContent = paragraph;
+      container.appendChild(p);
+    });
+  document.body.appendChild(container);
+  return container;
+}
+
+const baseHighlight = {
+  documentId: 'doc_1',
+  graphId: null,
+  nodeId: null,
+  color: 'green' as const,
+  comment: null,
+  createdAt: '2025-01-01T00:00:00Z',
+  updatedAt: '2025-01-01T00:00:00Z',
+};
+
+afterEach(() => {
+  document.body.innerHTML = '';
+});
+
+// ============================================================================
+// Offset Mapping
+// ============================================================================
+
+describe('getParagraphStarts', () => {
+  it('should find each paragraph in the content', () => {
+    expect(getParagraphStarts(content)).toEqual([0, 18, 43]);
+  });
+});
+
+describe('getParagraphRanges', () => {
+  it('should split a range across paragraphs and skip the gaps', () => {
+    expect(getParagraphRanges(content, 6, 24)).toEqual([
+      { paragraphIndex: 0, startOffset: 6, endOffset: 16 },
+      { paragraphIndex: 1, startOffset: 0, endOffset: 6 },
+    ]);
+  });
+});
+
+describe('getTextSelectionRange', () => {
+  it('should convert a selection to content offsets', () => {
+    const container = renderParagraphs(content);
+    const second = container.querySelector('[data-paragraph-index="1"]')!.firstChild!;
+    const range = document.createRange();
+    range.setStart(second, 7);
+    range.setEnd(second, 16);
+    window.getSelection()?.removeAllRanges();
+    window.getSelection()?.addRange(range);
+
+    expect(getTextSelectionRange(window.getSelection(), content)).toEqual({
+      text: 'paragraph',
+      startOffset: 25,
+      endOffset: 34,
+    });
+  });
+
+  it('should ignore selections outside paragraphs', () => {
+    const outside = document.createElement('div');
+    outside.textContent = 'Header';
+    document.body.appendChild(outside);
+    window.getSelection()?.selectAllChildren(outside);
+
+    expect(getTextSelectionRange(window.getSelection(), content)).toBeNull();
+  });
+});
+
+// ============================================================================
+// Text Rendering
+// ============================================================================
+
+describe('applyTextHighlights', () => {
+  it('should wrap highlights in marks and remove them on cleanup', () => {
+    const container = renderParagraphs(content);
+
+    const cleanup = applyTextHighlights(container, content, [
+      { id: 'hl_1', startOffset: 6, endOffset: 24, color: 'yellow' },
+      { id: 'hl_2', startOffset: 25, endOffset: 34, color: 'blue' },
+    ]);
+
+    const marks = Array.from(container.querySelectorAll('mark'));
+    expect(marks.map((mark) => [mark.dataset.highlightId, mark.textContent])).toEqual([
+      ['hl_1', 'paragraph.'],
+      ['hl_1', 'Second'],
+      ['hl_2', 'paragraph'],
+    ]);
+
+    cleanup();
+
+    expect(container.querySelectorAll('mark')).toHaveLength(0);
+    expect(container.querySelector('[data-paragraph-index="1"]')!.childNodes).toHaveLength(1);
+  });
+});
+
+// ============================================================================
+// Highlight Lists
+// ============================================================================
+
+describe('highlight conversion', () => {
+  const highlights: Highlight[] = [
+    {
+      ...baseHighlight,
+      id: 'hl_text',
+      text: 'paragraph',
+      anchor: { type: 'text', startOffset: 25, endOffset: 34 },
+    },
+    {
+      ...baseHighlight,
+      id: 'hl_pdf',
+      text: 'Passage',
+      anchor: {
+        type: 'pdf',
+        reference: { text: 'Passage', page: 3, coordinates: { x: 1, y: 2, width: 3, height: 4 } },
+      },
+    },
+  ];
+
+  it('should split highlights by anchor type', () => {
+    expect(getTextHighlightMarks(highlights)).toEqual([
+      { id: 'hl_text', startOffset: 25, endOffset: 34, color: 'green' },
+    ]);
+    expect(getPDFHighlightOverlays(highlights)).toEqual([
+      expect.objectContaining({ id: 'hl_pdf', page: 3, bbox: { x: 1, y: 2, width: 3, height: 4 } }),
+    ]);
+  });
+});
@@ -0,0 +1,142 @@
+/**
+ * Tests for Library
+ *
+ * Tests grouping graph versions under their documents, and filtering and
+ * sorting library entries.
+ */
+
+import {
+  buildLibraryEntries,
+  filterLibraryEntries,
+  sortLibraryEntries,
+  DEFAULT_LIBRARY_FILTER,
+} from '@/lib/library';
+import type { DocumentListItem, GraphListItem } from '@/types/api.types';
+
+// ============================================================================
+// Setup and Helpers
+// ============================================================================
+
+function createDocument(id: string, overrides: Partial<DocumentListItem> = {}): DocumentListItem {
+  return {
+    id,
+    title: `Document ${id}`,
+    sourceType: 'pdf',
+    status: 'ready',
+    pageCount: 3,
+    wordCount: 900,
+    qualityScore: 80,
+    createdAt: '2025-01-10T00:00:00.000Z',
+    updatedAt: '2025-01-10T00:00:00.000Z',
+    lastOpenedAt: null,
+    ...overrides,
+  };
+}
+
+function createGraph(id: string, documentId: string, overrides: Partial<GraphListItem> = {}): GraphListItem {
+  return {
+    id,
+    documentId,
+    status: 'ready',
+    version: 1,
+    nodeCount: 8,
+    edgeCount: 9,
+    noteCount: 0,
+    createdAt: '2025-01-10T01:00:00.000Z',
+    lastOpenedAt: null,
+    ...overrides,
+  };
+}
+
+const documents = [
+  createDocument('a', {
+    title: 'Active Learning',
+    createdAt: '2025-01-12T00:00:00.000Z',
+    lastOpenedAt: '2025-01-13T00:00:00.000Z',
+  }),
+  createDocument('b', {
+    title: 'Cognitive Load',
+    sourceType: 'text',
+    qualityScore: 95,
+    createdAt: '2025-01-11T00:00:00.000Z',
+  }),
+  createDocument('c', {
+    title: 'Bloom Taxonomy',
+    status: 'processing',
+    qualityScore: null,
+    createdAt: '2025-01-14T00:00:00.000Z',
+  }),
+];
+
+const graphs = [
+  createGraph('a1', 'a', { noteCount: 2, lastOpenedAt: '2025-01-12T12:00:00.000Z' }),
+  createGraph('a2', 'a', { version: 2, noteCount: 1 }),
+  createGraph('b1', 'b', { lastOpenedAt: '2025-01-15T00:00:00.000Z' }),
+  createGraph('x1', 'deleted'),
+];
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe('buildLibraryEntries', () => {
+  it('should group graph versions under their documents, newest first', () => {
+    const entries = buildLibraryEntries(documents, graphs);
+
+    expect(entries.map((entry) => entry.document.id)).toEqual(['a', 'b', 'c']);
+    expect(entries[0].graphs.map((graph) => graph.id)).toEqual(['a2', 'a1']);
+    expect(entries[2].graphs).toEqual([]);
+  });
+
+  it('should total notes and take the latest open time across versions', () => {
+    const [a, b, c] = buildLibraryEntries(documents, graphs);
+
+    expect(a.noteCount).toBe(3);
+    expect(a.lastOpenedAt).toBe('2025-01-13T00:00:00.000Z');
+    expect(b.lastOpenedAt).toBe('2025-01-15T00:00:00.000Z');
+    expect(c.lastOpenedAt).toBeNull();
+  });
+});
+
+describe('filterLibraryEntries', () => {
+  const entries = buildLibraryEntries(documents, graphs);
+  const ids = (filter: Partial<typeof DEFAULT_LIBRARY_FILTER>) =>
+    filterLibraryEntries(entries, { ...DEFAULT_LIBRARY_FILTER, ...filter }).map(
+      (entry) => entry.document.id
+    );
+
+  it('should keep everything with the default filter', () => {
+    expect(ids({})).toEqual(['a', 'b', 'c']);
+  });
+
+  it('should match titles case-insensitively', () => {
+    expect(ids({ query: '  LOAD ' })).toEqual(['b']);
+  });
+
+  it('should filter by status and source type', () => {
+    expect(ids({ status: 'processing' })).toEqual(['c']);
+    expect(ids({ sourceType: 'text' })).toEqual(['b']);
+    expect(ids({ status: 'ready', sourceType: 'text' })).toEqual(['b']);
+  });
+});
+
+describe('sortLibraryEntries', () => {
+  const entries = buildLibraryEntries(documents, graphs);
+  const ids = (sort: Parameters<typeof sortLibraryEntries>[1]) =>
+    sortLibraryEntries(entries, sort).map((entry) => entry.document.id);
+
+  it('should put recently opened first and never-opened last', () => {
+    expect(ids('lastOpened')).toEqual(['b', 'a', 'c']);
+  });
+
+  it('should sort by upload date, title and quality', () => {
+    expect(ids('created')).toEqual(['c', 'a', 'b']);
+    expect(ids('title')).toEqual(['a', 'c', 'b']);
+    expect(ids('quality')).toEqual(['b', 'a', 'c']);
+  });
+
+  it('should not reorder the input', () => {
+    sortLibraryEntries(entries, 'title');
+    expect(entries.map((entry) => entry.document.id)).toEqual(['a', 'b', 'c']);
+  });
+});
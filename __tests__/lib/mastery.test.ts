@@ -0,0 +1,165 @@
+/**
+ * Tests for the Mastery Model
+ *
+ * Tests evidence from quizzes and hypotheses, recency-weighted scoring,
+ * levels and the node states fed to the graph.
+ */
+
+import {
+  getQuizEvidence,
+  getHypothesisEvidence,
+  updateMastery,
+  applyMasteryEvidence,
+  getMasteryLevel,
+  summarizeMastery,
+  getMasteryNodeStates,
+  type MasteryRecord,
+} from '@/lib/mastery';
+import type { QuizQuestion, QuizQuestionResult } from '@/types/api.types';
+import { createNode } from '@/__tests__/fixtures/graph';
+
+// ============================================================================
+// Setup and Helpers
+// ============================================================================
+
+const now = new Date('2025-01-10T12:00:00.000Z');
+
+function createQuestion(id: string, nodeRefs: string[]): QuizQuestion {
+  return {
+    id,
+    questionText: id,
+    options: [],
+    correctAnswer: 0,
+    explanation: '',
+    difficulty: 'medium',
+    nodeRefs,
+  };
+}
+
+function createResult(questionId: string, correct: boolean): QuizQuestionResult {
+  return {
+    questionId,
+    correct,
+    selectedAnswer: correct ? 0 : 1,
+    correctAnswer: 0,
+    explanation: '',
+  };
+}
+
+function createRecord(nodeId: string, score: number): MasteryRecord {
+  return {
+    id: `graph_1:${nodeId}`,
+    graphId: 'graph_1',
+    nodeId,
+    score,
+    evidenceCount: 1,
+    updatedAt: now.toISOString(),
+  };
+}
+
+// ============================================================================
+// Evidence
+// ============================================================================
+
+describe('getQuizEvidence', () => {
+  it('should score each node by its share of correct answers', () => {
+    const questions = [createQuestion('q1', ['node_1', 'node_2']), createQuestion('q2', ['node_2'])];
+    const results = [createResult('q1', true), createResult('q2', false)];
+
+    expect(getQuizEvidence(questions, results)).toEqual([
+      { nodeId: 'node_1', score: 1 },
+      { nodeId: 'node_2', score: 0.5 },
+    ]);
+  });
+});
+
+describe('getHypothesisEvidence', () => {
+  it('should credit both ends of the connection', () => {
+    expect(getHypothesisEvidence('node_1', 'node_2', 'partial')).toEqual([
+      { nodeId: 'node_1', score: 0.5 },
+      { nodeId: 'node_2', score: 0.5 },
+    ]);
+  });
+});
+
+// ============================================================================
+// Scoring
+// ============================================================================
+
+describe('updateMastery', () => {
+  it('should start from the first observation and average early ones', () => {
+    const first = updateMastery(undefined, 'graph_1', { nodeId: 'node_1', score: 1 }, now);
+    const second = updateMastery(first, 'graph_1', { nodeId: 'node_1', score: 0 }, now);
+
+    expect(first.score).toBe(1);
+    expect(second.score).toBe(0.5);
+    expect(second.evidenceCount).toBe(2);
+  });
+
+  it('should keep weighting recent evidence once history builds up', () => {
+    let record = updateMastery(undefined, 'graph_1', { nodeId: 'node_1', score: 0 }, now);
+    for (let i = 0; i < 9; i++) {
+      record = updateMastery(record, 'graph_1', { nodeId: 'node_1', score: 0 }, now);
+    }
+
+    const recovered = updateMastery(record, 'graph_1', { nodeId: 'node_1', score: 1 }, now);
+
+    expect(recovered.score).toBeCloseTo(0.3);
+  });
+});
+
+describe('applyMasteryEvidence', () => {
+  it('should fold repeated evidence for a node into one record', () => {
+    const records = applyMasteryEvidence(
+      new Map([['graph_1:node_1', createRecord('node_1', 1)]]),
+      'graph_1',
+      [
+        { nodeId: 'node_1', score: 0 },
+        { nodeId: 'node_2', score: 1 },
+        { nodeId: 'node_1', score: 0 },
+      ],
+      now
+    );
+
+    expect(records).toHaveLength(2);
+    expect(records[0]).toMatchObject({ nodeId: 'node_1', evidenceCount: 3 });
+    expect(records[0].score).toBeCloseTo(1 / 3);
+  });
+});
+
+// ============================================================================
+// Levels and Node States
+// ============================================================================
+
+describe('getMasteryLevel', () => {
+  it('should map scores onto mastery levels', () => {
+    expect(getMasteryLevel(0.8)).toBe('mastered');
+    expect(getMasteryLevel(0.6)).toBe('learning');
+    expect(getMasteryLevel(0.49)).toBe('needsReview');
+  });
+});
+
+describe('summarizeMastery', () => {
+  it('should count records per level', () => {
+    const records = [
+      createRecord('a', 1),
+      createRecord('b', 0.9),
+      createRecord('c', 0.6),
+      createRecord('d', 0),
+    ];
+
+    expect(summarizeMastery(records)).toEqual({ mastered: 2, learning: 1, needsReview: 1 });
+  });
+});
+
+describe('getMasteryNodeStates', () => {
+  it('should key states by node key and skip unknown nodes', () => {
+    const nodes = [createNode('node_1', { nodeKey: 'A' }), createNode('node_2', { nodeKey: 'B' })];
+    const records = [createRecord('node_1', 1), createRecord('node_2', 0.2), createRecord('node_9', 1)];
+
+    expect(getMasteryNodeStates(records, nodes)).toEqual({
+      A: { isMastered: true, needsReview: false },
+      B: { isMastered: false, needsReview: true },
+    });
+  });
+});
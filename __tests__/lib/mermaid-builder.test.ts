@@ -0,0 +1,221 @@
+/**
+ * Tests for Mermaid Builder
+ *
+ * Tests label escaping, building flowchart code (direction, subgraphs,
+ * type classes and link styles) and round trips through parseMermaidCode
+ * against the mock graphs.
+ */
+
+import {
+  escapeMermaidLabel,
+  buildMermaidCode,
+  parseMermaidCode,
+} from '@/lib/mermaid-builder';
+import { getEdgeLinkStyle } from '@/lib/mermaid-theme';
+import { mockGraph, mockGraphNextVersion, mockWorkspaceGraph } from '@/mocks/data';
+import type { Graph } from '@/types/api.types';
+
+// ============================================================================
+// Setup and Helpers
+// ============================================================================
+
+const asGraph = (graph: unknown) => graph as Pick<Graph, 'nodes' | 'edges'>;
+
+const mockGraphs = {
+  mockGraph: asGraph(mockGraph),
+  mockGraphNextVersion: asGraph(mockGraphNextVersion),
+  mockWorkspaceGraph: asGraph(mockWorkspaceGraph),
+};
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe('escapeMermaidLabel', () => {
+  it('should quote labels and escape Mermaid syntax', () => {
+    expect(escapeMermaidLabel('The "Why" #1 <b>')).toBe('"The #quot;Why#quot; #35;1 #lt;b#gt;"');
+  });
+
+  it('should escape pipes that would end an edge label', () => {
+    expect(escapeMermaidLabel('either | or')).toBe('"either #124; or"');
+  });
+
+  it('should collapse line breaks', () => {
+    expect(escapeMermaidLabel(' Long-Term\n Retention ')).toBe('"Long-Term Retention"');
+  });
+});
+
+describe('buildMermaidCode', () => {
+  const graph = mockGraphs.mockGraph;
+
+  it('should declare nodes and labeled edges in the given direction', () => {
+    const code = buildMermaidCode(graph, { direction: 'LR', styles: false });
+    const lines = code.split('\n');
+
+    expect(lines[0]).toBe('graph LR');
+    expect(lines).toContain('  A["Active Learning"]');
+    expect(lines).toContain('  A -->|"leads to"| B');
+    expect(lines).toHaveLength(1 + graph.nodes.length + graph.edges.length);
+  });
+
+  it('should group nodes in subgraphs', () => {
+    const code = buildMermaidCode(graph, {
+      styles: false,
+      subgraphs: [{ id: 'doc-1', label: 'Chapter "1"', nodeIds: ['node_1', 'node_2'] }],
+    });
+
+    expect(code).toContain(
+      [
+        '  subgraph sg_doc_1["Chapter #quot;1#quot;"]',
+        '    A["Active Learning"]',
+        '    B["Engagement"]',
+        '  end',
+      ].join('\n')
+    );
+    expect(code.match(/A\["Active Learning"\]/g)).toHaveLength(1);
+  });
+
+  it('should nest subgraphs inside their parent', () => {
+    const code = buildMermaidCode(graph, {
+      styles: false,
+      subgraphs: [
+        { id: 'outer', label: 'Outer', nodeIds: ['node_1'] },
+        { id: 'inner', label: 'Inner', nodeIds: ['node_2'], parentId: 'outer' },
+      ],
+    });
+
+    expect(code).toContain(
+      [
+        '  subgraph sg_outer["Outer"]',
+        '    A["Active Learning"]',
+        '    subgraph sg_inner["Inner"]',
+        '      B["Engagement"]',
+        '    end',
+        '  end',
+      ].join('\n')
+    );
+  });
+
+  it('should give subgraph IDs that only differ in punctuation distinct keys', () => {
+    const code = buildMermaidCode(graph, {
+      styles: false,
+      subgraphs: [
+        { id: 'a/b', label: 'First', nodeIds: ['node_1'] },
+        { id: 'a_b', label: 'Second', nodeIds: ['node_2'] },
+      ],
+    });
+
+    expect(code).toContain('  subgraph sg_a_b["First"]');
+    expect(code).toContain('  subgraph sg_a_b_2["Second"]');
+  });
+
+  it('should apply node type classes with the style definitions', () => {
+    const typed = {
+      nodes: graph.nodes.map((node, index) => (index === 0 ? { ...node, nodeType: 'root' } : node)),
+      edges: graph.edges,
+    };
+    const code = buildMermaidCode(typed);
+
+    expect(code).toContain('  classDef node-root ');
+    expect(code).toContain('  class A node-root;');
+    // Unknown types keep the theme's colors
+    expect(code).not.toContain('node-default');
+  });
+
+  it('should classify relationships by default', () => {
+    const code = buildMermaidCode(graph);
+
+    // "leads to", "results in", "promotes", ... are causal; "includes" is definitional
+    expect(code).toContain(`${getEdgeLinkStyle('causal')};`);
+    expect(code).toContain(`  linkStyle 7 ${getEdgeLinkStyle('definitional')};`);
+  });
+
+  it('should draw symmetric relationships in both directions', () => {
+    const related = {
+      nodes: graph.nodes,
+      edges: graph.edges.map((edge, index) =>
+        index === 0 ? { ...edge, relationship: 'related to' } : edge
+      ),
+    };
+    const code = buildMermaidCode(related, { styles: false });
+
+    expect(code).toContain('  A <-->|"related to"| B');
+    expect(parseMermaidCode(code).edges[0]).toEqual({ from: 'A', to: 'B', label: 'related to' });
+  });
+
+  it('should style edges by relationship type', () => {
+    const code = buildMermaidCode(graph, {
+      getEdgeType: (edge) => (edge.relationship === 'leads to' ? 'causal' : 'related'),
+    });
+
+    expect(code).toContain(`  linkStyle 0,6 ${getEdgeLinkStyle('causal')};`);
+    expect(code.match(/linkStyle/g)).toHaveLength(1);
+  });
+});
+
+describe('parseMermaidCode', () => {
+  it.each(Object.entries(mockGraphs))('should round-trip %s', (_name, graph) => {
+    const parsed = parseMermaidCode(buildMermaidCode(graph));
+
+    expect(parsed.nodes).toEqual(
+      graph.nodes.map((node) => ({ key: node.nodeKey, label: node.title }))
+    );
+    expect(parsed.edges).toEqual(
+      graph.edges.map((edge) => ({
+        from: edge.fromNode.nodeKey,
+        to: edge.toNode.nodeKey,
+        label: edge.relationship,
+      }))
+    );
+  });
+
+  it.each(Object.entries(mockGraphs))(
+    'should describe the same structure as the server code of %s',
+    (_name, graph) => {
+      const server = parseMermaidCode((graph as unknown as Graph).mermaidCode);
+      const built = parseMermaidCode(buildMermaidCode(graph));
+      const edgeKeys = (edges: { from: string; to: string }[]) =>
+        edges.map(({ from, to }) => `${from}->${to}`).sort();
+
+      expect(new Set(built.nodes)).toEqual(new Set(server.nodes));
+      expect(edgeKeys(built.edges)).toEqual(edgeKeys(server.edges));
+    }
+  );
+
+  it('should read back edge labels containing pipes', () => {
+    const graph = mockGraphs.mockGraph;
+    const piped = {
+      nodes: graph.nodes,
+      edges: [{ ...graph.edges[0], relationship: 'causes | enables' }],
+    };
+
+    expect(parseMermaidCode(buildMermaidCode(piped)).edges).toEqual([
+      {
+        from: graph.edges[0].fromNode.nodeKey,
+        to: graph.edges[0].toNode.nodeKey,
+        label: 'causes | enables',
+      },
+    ]);
+  });
+
+  it('should read back subgraphs and the direction', () => {
+    const parsed = parseMermaidCode(
+      buildMermaidCode(mockGraphs.mockWorkspaceGraph, {
+        direction: 'LR',
+        subgraphs: [
+          { id: 'doc_abc123', label: 'Active Learning Research', nodeIds: ['node_1', 'node_2'] },
+        ],
+      })
+    );
+
+    expect(parsed.direction).toBe('LR');
+    expect(parsed.subgraphs).toEqual([
+      {
+        id: 'sg_doc_abc123',
+        label: 'Active Learning Research',
+        nodeKeys: ['A', 'B'],
+        parentId: null,
+      },
+    ]);
+  });
+});
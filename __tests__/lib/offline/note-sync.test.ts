@@ -0,0 +1,350 @@
+/**
+ * Tests for Note Sync Outbox
+ *
+ * Tests local-first writes, outbox coalescing, replay ordering, and
+ * temp ID resolution using the in-memory note store.
+ */
+
+import { createNoteSync, isTempNoteId, type NoteSyncAPI } from '@/lib/offline/note-sync';
+import { createMemoryNoteStore, type NoteStore } from '@/lib/offline/note-store';
+import type { Note } from '@/types/api.types';
+
+// ============================================================================
+// Setup and Helpers
+// ============================================================================
+
+const networkError = { code: 'NETWORK_ERROR', message: 'Offline', status: 0 };
+
+function serverNote(overrides: Partial<Note> = {}): Note {
+  return {
+    id: 'note_server_1',
+    graphId: 'graph_1',
+    nodeId: 'node_1',
+    edgeId: null,
+    content: 'content',
+    createdAt: '2024-01-01T00:00:00.000Z',
+    updatedAt: '2024-01-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+function createMockAPI(): jest.Mocked<NoteSyncAPI> {
+  return {
+    createNote: jest.fn(async (request) =>
+      serverNote({ content: request.content, nodeId: request.nodeId ?? null })
+    ),
+    updateNote: jest.fn(async (noteId, request) =>
+      serverNote({ id: noteId, content: request.content })
+    ),
+    deleteNote: jest.fn(async () => undefined),
+    getNotes: jest.fn(async () => []),
+  };
+}
+
+let store: NoteStore;
+let api: jest.Mocked<NoteSyncAPI>;
+
+beforeEach(() => {
+  store = createMemoryNoteStore();
+  api = createMockAPI();
+});
+
+// ============================================================================
+// Online Writes
+// ============================================================================
+
+describe('createNoteSync - online', () => {
+  it('should create note on server and resolve temp ID', async () => {
+    const sync = createNoteSync(store, api);
+
+    const note = await sync.createNote({
+      graphId: 'graph_1',
+      nodeId: 'node_1',
+      content: 'Hello',
+    });
+
+    expect(api.createNote).toHaveBeenCalledTimes(1);
+    expect(note.id).toBe('note_server_1');
+    expect(sync.getStatus().pendingCount).toBe(0);
+    expect(await store.getOutbox()).toHaveLength(0);
+  });
+
+  it('should translate stale temp IDs on later updates', async () => {
+    api.createNote.mockRejectedValueOnce(networkError);
+    const sync = createNoteSync(store, api);
+
+    const note = await sync.createNote({ graphId: 'graph_1', content: 'A' });
+    expect(isTempNoteId(note.id)).toBe(true);
+
+    await sync.flush();
+    await sync.updateNote(note.id, 'graph_1', 'B');
+
+    expect(api.updateNote).toHaveBeenCalledWith(
+      'note_server_1',
+      expect.objectContaining({ content: 'B' })
+    );
+  });
+});
+
+// ============================================================================
+// Offline Writes
+// ============================================================================
+
+describe('createNoteSync - offline', () => {
+  beforeEach(() => {
+    api.createNote.mockRejectedValue(networkError);
+    api.updateNote.mockRejectedValue(networkError);
+    api.deleteNote.mockRejectedValue(networkError);
+  });
+
+  it('should keep note locally and queue create', async () => {
+    const sync = createNoteSync(store, api);
+
+    const note = await sync.createNote({ graphId: 'graph_1', content: 'Draft' });
+
+    expect(isTempNoteId(note.id)).toBe(true);
+    expect(await store.getNote(note.id)).toMatchObject({ content: 'Draft' });
+    expect(sync.getStatus().pendingCount).toBe(1);
+  });
+
+  it('should fold updates into a pending create', async () => {
+    const sync = createNoteSync(store, api);
+
+    const note = await sync.createNote({ graphId: 'graph_1', content: 'v1' });
+    await sync.updateNote(note.id, 'graph_1', 'v2');
+
+    const outbox = await store.getOutbox();
+    expect(outbox).toHaveLength(1);
+    expect(outbox[0].request?.content).toBe('v2');
+  });
+
+  it('should drop a pending create when the note is deleted', async () => {
+    const sync = createNoteSync(store, api);
+
+    const note = await sync.createNote({ graphId: 'graph_1', content: 'x' });
+    await sync.deleteNote(note.id, 'graph_1');
+
+    expect(await store.getOutbox()).toHaveLength(0);
+    expect(sync.getStatus().pendingCount).toBe(0);
+  });
+
+  it('should replay queued operations in order once online', async () => {
+    await store.putNote(serverNote({ id: 'note_existing' }));
+    const sync = createNoteSync(store, api);
+
+    await sync.updateNote('note_existing', 'graph_1', 'edited');
+    const created = await sync.createNote({ graphId: 'graph_1', content: 'new' });
+    expect(sync.getStatus().pendingCount).toBe(2);
+
+    const calls: string[] = [];
+    api.updateNote.mockImplementation(async (noteId, request) => {
+      calls.push('update');
+      return serverNote({ id: noteId, content: request.content });
+    });
+    api.createNote.mockImplementation(async (request) => {
+      calls.push('create');
+      return serverNote({ id: 'note_new', content: request.content });
+    });
+
+    const result = await sync.flush();
+
+    expect(calls).toEqual(['update', 'create']);
+    expect(result.synced).toBe(2);
+    expect(result.resolvedIds).toEqual({ [created.id]: 'note_new' });
+    expect(await store.getNote(created.id)).toBeUndefined();
+    expect(await store.getNote('note_new')).toMatchObject({ content: 'new' });
+    expect(sync.getStatus().pendingCount).toBe(0);
+  });
+
+  it('should report the node behind each queued operation', async () => {
+    await store.putNote(serverNote({ id: 'note_existing', nodeId: 'node_1' }));
+    const sync = createNoteSync(store, api);
+
+    const created = await sync.createNote({
+      graphId: 'graph_1',
+      nodeId: 'node_2',
+      content: 'new',
+    });
+    await sync.deleteNote('note_existing', 'graph_1');
+
+    expect(sync.getStatus().pendingNotes).toEqual([
+      { noteId: created.id, graphId: 'graph_1', nodeId: 'node_2' },
+      { noteId: 'note_existing', graphId: 'graph_1', nodeId: 'node_1' },
+    ]);
+  });
+
+  it('should drop operations rejected by the server', async () => {
+    const sync = createNoteSync(store, api);
+    await sync.createNote({ graphId: 'graph_1', content: 'x' });
+
+    api.createNote.mockRejectedValueOnce({
+      code: 'VALIDATION_ERROR',
+      message: 'Invalid',
+      status: 400,
+    });
+    await sync.flush();
+
+    expect(await store.getOutbox()).toHaveLength(0);
+    expect(sync.getStatus().lastError).toMatchObject({ status: 400 });
+  });
+});
+
+// ============================================================================
+// Writes During Replay
+// ============================================================================
+
+describe('createNoteSync - writes during replay', () => {
+  /**
+   * Hold an API call open until release() is called
+   */
+  function deferred<T>() {
+    let release!: (value: T) => void;
+    const promise = new Promise<T>((resolve) => {
+      release = resolve;
+    });
+    return { promise, release };
+  }
+
+  it('should send an edit made while an update is in flight', async () => {
+    await store.putNote(serverNote({ id: 'note_a', content: 'v0', version: 1 }));
+    const pending = deferred<Note>();
+    api.updateNote.mockImplementationOnce(() => pending.promise);
+    const sync = createNoteSync(store, api);
+
+    const firstSave = sync.updateNote('note_a', 'graph_1', 'v1');
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    const secondSave = sync.updateNote('note_a', 'graph_1', 'v2');
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    pending.release(serverNote({ id: 'note_a', content: 'v1', version: 2 }));
+    await Promise.all([firstSave, secondSave]);
+
+    expect(api.updateNote).toHaveBeenLastCalledWith(
+      'note_a',
+      expect.objectContaining({ content: 'v2', version: 2 })
+    );
+    expect(await store.getNote('note_a')).toMatchObject({ content: 'v2' });
+    expect(await store.getOutbox()).toHaveLength(0);
+  });
+
+  it('should delete a note on the server when it is deleted while being created', async () => {
+    const pending = deferred<Note>();
+    api.createNote.mockImplementationOnce(() => pending.promise);
+    const sync = createNoteSync(store, api);
+
+    const create = sync.createNote({ graphId: 'graph_1', content: 'x' });
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    const [local] = await store.getNotes('graph_1');
+    const remove = sync.deleteNote(local.id, 'graph_1');
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    pending.release(serverNote({ id: 'note_new', content: 'x' }));
+    await Promise.all([create, remove]);
+
+    expect(api.deleteNote).toHaveBeenCalledWith('note_new');
+    expect(await store.getNotes('graph_1')).toEqual([]);
+    expect(await store.getOutbox()).toHaveLength(0);
+  });
+});
+
+// ============================================================================
+// Reads
+// ============================================================================
+
+describe('createNoteSync - loadNotes', () => {
+  it('should overlay pending changes on server notes', async () => {
+    api.updateNote.mockRejectedValue(networkError);
+    api.getNotes.mockResolvedValue([
+      serverNote({ id: 'note_a', content: 'server' }),
+      serverNote({ id: 'note_b', content: 'kept' }),
+    ]);
+    await store.putNote(serverNote({ id: 'note_a', content: 'server' }));
+    const sync = createNoteSync(store, api);
+
+    await sync.updateNote('note_a', 'graph_1', 'local edit');
+    const notes = await sync.loadNotes('graph_1');
+
+    expect(notes.find((note) => note.id === 'note_a')?.content).toBe('local edit');
+    expect(notes.find((note) => note.id === 'note_b')?.content).toBe('kept');
+  });
+
+  it('should fall back to local notes when the server is unreachable', async () => {
+    api.getNotes.mockRejectedValue(networkError);
+    await store.putNote(serverNote({ id: 'note_local' }));
+    const sync = createNoteSync(store, api);
+
+    const notes = await sync.loadNotes('graph_1');
+
+    expect(notes.map((note) => note.id)).toEqual(['note_local']);
+  });
+});
+
+// ============================================================================
+// Conflicts
+// ============================================================================
+
+describe('createNoteSync - conflicts', () => {
+  const conflictError = (serverNote: Note) => ({
+    code: 'CONFLICT',
+    message: 'Note was modified since it was last loaded',
+    status: 409,
+    details: { serverNote },
+  });
+
+  it('should send the base version with updates', async () => {
+    await store.putNote(serverNote({ id: 'note_a', version: 3 }));
+    const sync = createNoteSync(store, api);
+
+    await sync.updateNote('note_a', 'graph_1', 'edit');
+
+    expect(api.updateNote).toHaveBeenCalledWith('note_a', {
+      content: 'edit',
+      version: 3,
+      updatedAt: expect.any(String),
+    });
+  });
+
+  it('should hold a conflicting update until resolved', async () => {
+    const remote = serverNote({ id: 'note_a', content: 'theirs', version: 4 });
+    await store.putNote(serverNote({ id: 'note_a', version: 3 }));
+    api.updateNote.mockRejectedValueOnce(conflictError(remote));
+    const sync = createNoteSync(store, api);
+
+    await sync.updateNote('note_a', 'graph_1', 'mine');
+
+    expect(sync.getStatus().conflicts).toEqual([
+      {
+        noteId: 'note_a',
+        graphId: 'graph_1',
+        localContent: 'mine',
+        serverNote: remote,
+      },
+    ]);
+    expect(sync.getStatus().pendingCount).toBe(1);
+
+    await sync.resolveConflict('note_a', 'mine + theirs');
+
+    expect(api.updateNote).toHaveBeenLastCalledWith('note_a', {
+      content: 'mine + theirs',
+      version: 4,
+      updatedAt: remote.updatedAt,
+    });
+    expect(sync.getStatus().conflicts).toHaveLength(0);
+    expect(sync.getStatus().pendingCount).toBe(0);
+  });
+
+  it('should keep the server copy without sending it back', async () => {
+    const remote = serverNote({ id: 'note_a', content: 'theirs', version: 4 });
+    await store.putNote(serverNote({ id: 'note_a', version: 3 }));
+    api.updateNote.mockRejectedValueOnce(conflictError(remote));
+    const sync = createNoteSync(store, api);
+
+    await sync.updateNote('note_a', 'graph_1', 'mine');
+    const note = await sync.discardLocal('note_a');
+
+    expect(note).toEqual(remote);
+    expect(api.updateNote).toHaveBeenCalledTimes(1);
+    expect(sync.getStatus().conflicts).toHaveLength(0);
+    expect(sync.getStatus().pendingCount).toBe(0);
+  });
+});
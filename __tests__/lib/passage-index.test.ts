@@ -0,0 +1,141 @@
+/**
+ * Tests for Passage Index
+ *
+ * Tests the reverse index from document passages to the graph nodes citing
+ * them, and the gutter layout built from it.
+ */
+
+import {
+  buildPassageIndex,
+  findNodesAtOffset,
+  findNodesInRange,
+  findNodesAtPoint,
+  findNodesAtLine,
+  getParagraphGutterMarks,
+  getPageGutterMarks,
+} from '@/lib/passage-index';
+import { createNode } from '@/__tests__/fixtures/graph';
+
+// ============================================================================
+// Setup and Helpers
+// ============================================================================
+
+const bbox = (y: number, height = 20) => ({ x: 50, y, width: 400, height });
+
+const textNodes = [
+  createNode('b', { legacyDocumentRefs: [{ start: 20, end: 40, text: '' }] }),
+  createNode('a', { legacyDocumentRefs: [{ start: 0, end: 25, text: '' }] }),
+];
+
+const pdfNodes = [
+  createNode('a', {
+    documentRefs: {
+      references: [
+        { text: 'A', page: 0, coordinates: bbox(700) },
+        { text: 'A2', page: 1, coordinates: bbox(100) },
+      ],
+    },
+  }),
+  createNode('b', {
+    documentRefs: { references: [{ text: 'B', page: 0, coordinates: bbox(700) }] },
+  }),
+  createNode('c', {
+    documentRefs: { references: [{ text: 'C', page: 0, coordinates: bbox(690) }] },
+  }),
+];
+
+// ============================================================================
+// Index and Lookup
+// ============================================================================
+
+describe('buildPassageIndex', () => {
+  it('should collect text and PDF passages in reading order', () => {
+    const index = buildPassageIndex([...textNodes, ...pdfNodes]);
+
+    expect(index.text.map((passage) => passage.nodeId)).toEqual(['a', 'b']);
+    expect(index.pages.map((passage) => [passage.nodeId, passage.page])).toEqual([
+      ['a', 0],
+      ['b', 0],
+      ['c', 0],
+      ['a', 1],
+    ]);
+  });
+});
+
+describe('text lookup', () => {
+  const index = buildPassageIndex(textNodes);
+
+  it('should find nodes citing an offset', () => {
+    expect(findNodesAtOffset(index, 10)).toEqual(['a']);
+    expect(findNodesAtOffset(index, 22)).toEqual(['a', 'b']);
+    expect(findNodesAtOffset(index, 40)).toEqual([]);
+  });
+
+  it('should find nodes citing part of a range', () => {
+    expect(findNodesInRange(index, 30, 50)).toEqual(['b']);
+    expect(findNodesInRange(index, 40, 50)).toEqual([]);
+  });
+});
+
+describe('findNodesAtPoint', () => {
+  const index = buildPassageIndex(pdfNodes);
+
+  it('should find nodes whose region contains the point', () => {
+    expect(findNodesAtPoint(index, 0, { x: 100, y: 705 })).toEqual(['a', 'b', 'c']);
+    expect(findNodesAtPoint(index, 0, { x: 100, y: 715 })).toEqual(['a', 'b']);
+    expect(findNodesAtPoint(index, 0, { x: 10, y: 705 })).toEqual([]);
+    expect(findNodesAtPoint(index, 1, { x: 100, y: 110 })).toEqual(['a']);
+  });
+});
+
+// ============================================================================
+// Gutter Layout
+// ============================================================================
+
+describe('getParagraphGutterMarks', () => {
+  it('should mark each paragraph with the nodes citing it', () => {
+    const content = `${'x'.repeat(10)}\n\n${'y'.repeat(10)}\n\n${'z'.repeat(30)}`;
+    const index = buildPassageIndex(textNodes);
+
+    expect(getParagraphGutterMarks(index, content)).toEqual([
+      { paragraphIndex: 0, nodeIds: ['a'] },
+      { paragraphIndex: 1, nodeIds: ['a', 'b'] },
+      { paragraphIndex: 2, nodeIds: ['a', 'b'] },
+    ]);
+  });
+});
+
+describe('getPageGutterMarks', () => {
+  it('should merge identical regions and put overlapping ones in separate lanes', () => {
+    const marks = getPageGutterMarks(buildPassageIndex(pdfNodes));
+
+    expect(marks).toEqual([
+      { key: '0:720:700', page: 0, top: 720, bottom: 700, nodeIds: ['a', 'b'], lane: 0 },
+      { key: '0:710:690', page: 0, top: 710, bottom: 690, nodeIds: ['c'], lane: 1 },
+      { key: '1:120:100', page: 1, top: 120, bottom: 100, nodeIds: ['a'], lane: 0 },
+    ]);
+  });
+});
+
+// ============================================================================
+// Reading Position
+// ============================================================================
+
+describe('findNodesAtLine', () => {
+  it('should collect nodes from gutter marks spanning the line', () => {
+    const container = document.createElement('div');
+    [
+      { nodeIds: 'a b', top: 0, bottom: 100 },
+      { nodeIds: 'b c', top: 50, bottom: 150 },
+      { nodeIds: 'd', top: 200, bottom: 300 },
+    ].forEach(({ nodeIds, top, bottom }) => {
+      const mark = document.createElement('div');
+      mark.dataset.nodeIds = nodeIds;
+      mark.getBoundingClientRect = () => ({ top, bottom } as DOMRect);
+      container.appendChild(mark);
+    });
+
+    expect(findNodesAtLine(container, 75)).toEqual(['a', 'b', 'c']);
+    expect(findNodesAtLine(container, 175)).toEqual([]);
+  });
+});
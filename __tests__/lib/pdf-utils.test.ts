@@ -0,0 +1,151 @@
+/**
+ * Tests for PDF Utility Functions
+ *
+ * Tests coordinate conversion, reference flattening, remembered highlights
+ * for pages that are not painted yet, text selection, and scrolling to page
+ * placeholders.
+ */
+
+import {
+  pdfToCanvasCoords,
+  canvasToPdfCoords,
+  getReferenceRegions,
+  highlightTextRegion,
+  redrawPageHighlights,
+  clearHighlights,
+  scrollToPage,
+  getPDFTextSelection,
+} from '@/lib/pdf-utils';
+import type { NodeDocumentReference } from '@/types/api.types';
+
+// ============================================================================
+// Setup and Helpers
+// ============================================================================
+
+const bbox = { x: 72, y: 720, width: 400, height: 24 };
+
+function createPagePlaceholder(pageNumber: number): HTMLDivElement {
+  const page = document.createElement('div');
+  page.className = 'pdf-page-container';
+  page.dataset.pageNumber = String(pageNumber);
+  document.body.appendChild(page);
+  return page;
+}
+
+afterEach(() => {
+  clearHighlights();
+  document.body.innerHTML = '';
+});
+
+// ============================================================================
+// getReferenceRegions
+// ============================================================================
+
+describe('getReferenceRegions', () => {
+  it('should flatten single-page and cross-page references', () => {
+    const references = [
+      { text: 'a', page: 0, coordinates: bbox },
+      {
+        text: 'b',
+        pages: [1, 2],
+        coordinates: [
+          { page: 1, bbox },
+          { page: 2, bbox },
+        ],
+      },
+    ] as NodeDocumentReference[];
+
+    expect(getReferenceRegions(references).map((region) => region.page)).toEqual([0, 1, 2]);
+  });
+});
+
+// ============================================================================
+// Remembered highlights
+// ============================================================================
+
+describe('highlightTextRegion', () => {
+  it('should remember highlights for pages that are not painted yet', () => {
+    createPagePlaceholder(3);
+
+    expect(highlightTextRegion(3, bbox, 792, 1.5)).toBe(false);
+    expect(clearHighlights()).toEqual([3]);
+  });
+
+  it('should not draw on a canvas that is still rendering', () => {
+    const page = createPagePlaceholder(0);
+    const canvas = document.createElement('canvas');
+    canvas.dataset.pageNumber = '0';
+    canvas.dataset.rendered = 'false';
+    page.appendChild(canvas);
+    const getContext = jest.spyOn(canvas, 'getContext');
+
+    highlightTextRegion(0, bbox, 792, 1.5);
+
+    expect(getContext).not.toHaveBeenCalled();
+    expect(redrawPageHighlights(0)).toBe(0);
+  });
+});
+
+// ============================================================================
+// scrollToPage
+// ============================================================================
+
+describe('scrollToPage', () => {
+  it('should scroll to the page placeholder before it is painted', () => {
+    const page = createPagePlaceholder(5);
+    page.scrollIntoView = jest.fn();
+
+    scrollToPage(5, 'auto', 'start');
+
+    expect(page.scrollIntoView).toHaveBeenCalledWith({
+      behavior: 'auto',
+      block: 'start',
+      inline: 'nearest',
+    });
+  });
+});
+
+// ============================================================================
+// canvasToPdfCoords
+// ============================================================================
+
+describe('canvasToPdfCoords', () => {
+  it('should invert pdfToCanvasCoords', () => {
+    const canvasCoords = pdfToCanvasCoords(bbox, 792, 1.5);
+
+    expect(canvasToPdfCoords(canvasCoords, 792, 1.5)).toEqual(bbox);
+  });
+});
+
+// ============================================================================
+// getPDFTextSelection
+// ============================================================================
+
+describe('getPDFTextSelection', () => {
+  it('should ignore empty selections and text outside pages', () => {
+    const outside = document.createElement('p');
+    outside.textContent = 'Not on a page';
+    document.body.appendChild(outside);
+    window.getSelection()?.selectAllChildren(outside);
+
+    expect(getPDFTextSelection(null, 792, 1.5)).toBeNull();
+    expect(getPDFTextSelection(window.getSelection(), 792, 1.5)).toBeNull();
+  });
+
+  it('should report the selection in PDF coordinates', () => {
+    const page = createPagePlaceholder(2);
+    const span = document.createElement('span');
+    span.textContent = 'Selected passage';
+    page.appendChild(span);
+    window.getSelection()?.selectAllChildren(span);
+
+    // jsdom has no layout, so stub the page and selection boxes
+    page.getBoundingClientRect = () => ({ left: 0, top: 0, bottom: 1188 }) as DOMRect;
+    Range.prototype.getBoundingClientRect = () =>
+      ({ left: 108, top: 72, bottom: 108, width: 600, height: 36 }) as DOMRect;
+
+    const selected = getPDFTextSelection(window.getSelection(), () => 792, 1.5);
+
+    expect(selected).toEqual({ text: 'Selected passage', page: 2, coordinates: bbox });
+  });
+});
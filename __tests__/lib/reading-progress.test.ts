@@ -0,0 +1,112 @@
+/**
+ * Tests for Reading Progress
+ *
+ * Tests finding cited passages in the viewport (text paragraphs and PDF
+ * page regions) and computing per-node reading progress.
+ */
+
+import {
+  findVisiblePassages,
+  getNodesForPassages,
+  getNodeReadingProgress,
+} from '@/lib/reading-progress';
+import { buildPassageIndex } from '@/lib/passage-index';
+import { createNode } from '@/__tests__/fixtures/graph';
+
+// ============================================================================
+// Setup and Helpers
+// ============================================================================
+
+/**
+ * Give an element a fixed vertical position
+ */
+function placeAt(element: Element, top: number, height: number) {
+  element.getBoundingClientRect = () =>
+    ({ top, bottom: top + height, height, left: 0, right: 600, width: 600 } as DOMRect);
+}
+
+const index = buildPassageIndex([
+  createNode('a', {
+    legacyDocumentRefs: [
+      { start: 0, end: 5, text: '' },
+      { start: 14, end: 18, text: '' },
+    ],
+  }),
+  createNode('b', {
+    documentRefs: {
+      references: [
+        // Top of page 0 and bottom of page 0 (page is 100 points tall)
+        { text: 'top', page: 0, coordinates: { x: 0, y: 80, width: 50, height: 10 } },
+        { text: 'bottom', page: 0, coordinates: { x: 0, y: 0, width: 50, height: 10 } },
+      ],
+    },
+  }),
+]);
+
+afterEach(() => {
+  document.body.innerHTML = '';
+});
+
+// ============================================================================
+// Visibility
+// ============================================================================
+
+describe('findVisiblePassages', () => {
+  it('should find text passages in visible paragraphs', () => {
+    // Paragraphs "First" (0-5) and "Second" (7-13) and "Third" (15-20)
+    const container = document.createElement('div');
+    ['First', 'Second', 'Third'].forEach((text, i) => {
+      const paragraph = document.createElement('p');
+      paragraph.dataset.paragraphIndex = String(i);
+      paragraph.textContent = text;
+      placeAt(paragraph, i * 300, 200);
+      container.appendChild(paragraph);
+    });
+    placeAt(container, 0, 500);
+
+    expect(findVisiblePassages(index, container, [0, 7, 15], 1)).toEqual(['text:0']);
+
+    placeAt(container, 250, 500);
+    expect(findVisiblePassages(index, container, [0, 7, 15], 1)).toEqual(['text:1']);
+  });
+
+  it('should find PDF passages whose page region is in view', () => {
+    const container = document.createElement('div');
+    const page = document.createElement('div');
+    page.className = 'pdf-page-container';
+    page.dataset.pageNumber = '0';
+    // 100-point page at scale 2
+    placeAt(page, 0, 200);
+    container.appendChild(page);
+
+    // Only the top 100px of the page are visible
+    placeAt(container, 0, 100);
+    expect(findVisiblePassages(index, container, [], 2)).toEqual(['page:0']);
+
+    placeAt(container, 150, 100);
+    expect(findVisiblePassages(index, container, [], 2)).toEqual(['page:1']);
+  });
+});
+
+// ============================================================================
+// Progress
+// ============================================================================
+
+describe('getNodesForPassages', () => {
+  it('should map passage keys to unique node IDs', () => {
+    expect(getNodesForPassages(index, ['text:0', 'text:1', 'page:1', 'page:9'])).toEqual([
+      'a',
+      'b',
+    ]);
+  });
+});
+
+describe('getNodeReadingProgress', () => {
+  it('should report the share of each node passages seen', () => {
+    expect(getNodeReadingProgress(index, new Set(['text:1']))).toEqual({ a: 0.5, b: 0 });
+    expect(getNodeReadingProgress(index, new Set(['text:0', 'text:1', 'page:0']))).toEqual({
+      a: 1,
+      b: 0.5,
+    });
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * Tests for the Spaced-Repetition Scheduler
+ *
+ * Tests mapping quiz results onto nodes, SM-2 interval and ease updates,
+ * and the due queue.
+ */
+
+import {
+  getNodeOutcomes,
+  getReviewQuality,
+  scheduleReview,
+  recordQuizOutcomes,
+  getDueReviews,
+  MIN_EASE_FACTOR,
+  type ReviewRecord,
+} from '@/lib/review/scheduler';
+import type { QuizQuestion, QuizQuestionResult } from '@/types/api.types';
+
+// ============================================================================
+// Setup and Helpers
+// ============================================================================
+
+const now = new Date('2025-01-10T12:00:00.000Z');
+const node = { graphId: 'graph_1', nodeId: 'node_1', nodeTitle: 'Retention' };
+
+function createQuestion(id: string, nodeRefs: string[]): QuizQuestion {
+  return {
+    id,
+    questionText: id,
+    options: [],
+    correctAnswer: 0,
+    explanation: '',
+    difficulty: 'medium',
+    nodeRefs,
+  };
+}
+
+function createResult(questionId: string, correct: boolean): QuizQuestionResult {
+  return {
+    questionId,
+    correct,
+    selectedAnswer: correct ? 0 : 1,
+    correctAnswer: 0,
+    explanation: '',
+  };
+}
+
+function daysUntilDue(record: ReviewRecord): number {
+  return (new Date(record.dueAt).getTime() - now.getTime()) / (24 * 60 * 60 * 1000);
+}
+
+// ============================================================================
+// Grading
+// ============================================================================
+
+describe('getNodeOutcomes', () => {
+  it('should count each question towards every node it references', () => {
+    const questions = [createQuestion('q1', ['node_1', 'node_2']), createQuestion('q2', ['node_2'])];
+    const results = [createResult('q1', true), createResult('q2', false)];
+
+    expect(getNodeOutcomes(questions, results)).toEqual([
+      { nodeId: 'node_1', correct: 1, total: 1 },
+      { nodeId: 'node_2', correct: 1, total: 2 },
+    ]);
+  });
+});
+
+describe('getReviewQuality', () => {
+  it('should grade by the share of correct answers', () => {
+    expect(getReviewQuality({ nodeId: 'n', correct: 2, total: 2 })).toBe(5);
+    expect(getReviewQuality({ nodeId: 'n', correct: 1, total: 2 })).toBe(3);
+    expect(getReviewQuality({ nodeId: 'n', correct: 1, total: 3 })).toBe(2);
+    expect(getReviewQuality({ nodeId: 'n', correct: 0, total: 2 })).toBe(1);
+  });
+});
+
+// ============================================================================
+// scheduleReview
+// ============================================================================
+
+describe('scheduleReview', () => {
+  it('should space passing reviews 1 day, 6 days, then interval × ease', () => {
+    const first = scheduleReview(undefined, 5, node, now);
+    const second = scheduleReview(first, 5, node, now);
+    const third = scheduleReview(second, 5, node, now);
+
+    expect(daysUntilDue(first)).toBe(1);
+    expect(daysUntilDue(second)).toBe(6);
+    expect(third.interval).toBe(Math.round(6 * second.easeFactor));
+    expect(third.repetitions).toBe(3);
+  });
+
+  it('should reset a missed node to tomorrow and count a lapse', () => {
+    const learned = scheduleReview(scheduleReview(undefined, 5, node, now), 5, node, now);
+    const missed = scheduleReview(learned, 1, node, now);
+
+    expect(missed.repetitions).toBe(0);
+    expect(daysUntilDue(missed)).toBe(1);
+    expect(missed.lapses).toBe(1);
+    expect(missed.easeFactor).toBeLessThan(learned.easeFactor);
+  });
+
+  it('should never drop the ease factor below the minimum', () => {
+    let record = scheduleReview(undefined, 0, node, now);
+    for (let i = 0; i < 10; i++) {
+      record = scheduleReview(record, 0, node, now);
+    }
+
+    expect(record.easeFactor).toBe(MIN_EASE_FACTOR);
+  });
+});
+
+// ============================================================================
+// Queue
+// ============================================================================
+
+describe('recordQuizOutcomes', () => {
+  it('should create records titled from node info, falling back to the node ID', () => {
+    const records = recordQuizOutcomes(
+      new Map(),
+      'graph_1',
+      [createQuestion('q1', ['node_1', 'node_9'])],
+      [createResult('q1', true)],
+      (nodeId) => (nodeId === 'node_1' ? { nodeTitle: 'Retention', documentTitle: 'Doc' } : undefined),
+      now
+    );
+
+    expect(records.map((record) => [record.id, record.nodeTitle, record.documentTitle])).toEqual([
+      ['graph_1:node_1', 'Retention', 'Doc'],
+      ['graph_1:node_9', 'node_9', null],
+    ]);
+  });
+});
+
+describe('getDueReviews', () => {
+  it('should return due records, most overdue first', () => {
+    const past = new Date('2025-01-01T00:00:00.000Z');
+    const older = scheduleReview(undefined, 5, { ...node, nodeId: 'a' }, past);
+    const newer = scheduleReview(undefined, 5, { ...node, nodeId: 'b' }, new Date('2025-01-05T00:00:00.000Z'));
+    const future = scheduleReview(undefined, 5, { ...node, nodeId: 'c' }, now);
+
+    expect(getDueReviews([newer, future, older], now).map((record) => record.nodeId)).toEqual([
+      'a',
+      'b',
+    ]);
+  });
+});
@@ -15,6 +15,7 @@ import {
   highlightWithFade,
   calculateScrollPercentage,
   isElementVisible,
+  getScrollParent,
 } from '@/lib/scroll-utils';
 
 // ============================================================================
@@ -444,8 +445,65 @@ describe('isElementVisible', () => {
     expect(visible).toBe(false);
   });
 
+  it('counts a partly visible element only when partial is set', () => {
+    const container = document.createElement('div');
+    const element = document.createElement('div');
+
+    jest.spyOn(container, 'getBoundingClientRect').mockReturnValue({
+      top: 0,
+      bottom: 500,
+      left: 0,
+      right: 500,
+      width: 500,
+      height: 500,
+      x: 0,
+      y: 0,
+      toJSON: () => ({}),
+    });
+
+    jest.spyOn(element, 'getBoundingClientRect').mockReturnValue({
+      top: 400,
+      bottom: 900,
+      left: 0,
+      right: 500,
+      width: 500,
+      height: 500,
+      x: 0,
+      y: 400,
+      toJSON: () => ({}),
+    });
+
+    expect(isElementVisible(element, container)).toBe(false);
+    expect(isElementVisible(element, container, true)).toBe(true);
+  });
+
   it('returns false for null elements', () => {
     expect(isElementVisible(null as any, document.createElement('div'))).toBe(false);
     expect(isElementVisible(document.createElement('div'), null as any)).toBe(false);
   });
 });
+
+// ============================================================================
+// Tests: getScrollParent
+// ============================================================================
+
+describe('getScrollParent', () => {
+  afterEach(cleanup);
+
+  it('returns the nearest scrollable ancestor', () => {
+    const container = createMockContainer(['First paragraph']);
+    const wrapper = document.createElement('div');
+    const element = document.createElement('div');
+    wrapper.appendChild(element);
+    container.appendChild(wrapper);
+
+    expect(getScrollParent(element)).toBe(container);
+  });
+
+  it('returns null when no ancestor scrolls', () => {
+    const element = document.createElement('div');
+    document.body.appendChild(element);
+
+    expect(getScrollParent(element)).toBeNull();
+  });
+});
@@ -0,0 +1,153 @@
+/**
+ * Tests for Skeleton Graph
+ *
+ * Tests choosing hidden edges, removing them from Mermaid code, and
+ * checking proposed connections.
+ */
+
+import {
+  selectHiddenEdges,
+  hideMermaidEdges,
+  evaluateProposal,
+} from '@/lib/skeleton-graph';
+import { createEdge, createNode } from '@/__tests__/fixtures/graph';
+
+// ============================================================================
+// Setup and Helpers
+// ============================================================================
+
+/** Nodes keyed as in the Mermaid code below */
+const node = (nodeKey: string) => createNode(`node_${nodeKey}`, { nodeKey, title: nodeKey });
+
+const edges = [
+  createEdge('e1', node('A'), node('B')),
+  createEdge('e2', node('A'), node('C')),
+  createEdge('e3', node('B'), node('D')),
+  createEdge('e4', node('C'), node('D')),
+];
+
+const mermaidCode = `graph TD
+  A[Active Learning] --> B[Engagement]
+  A -->|results in| C(Retention)
+  B --> D{Mastery}
+  C --> D
+  classDef concept fill:#fff`;
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe('selectHiddenEdges', () => {
+  it('should hide the requested share of edges, in graph order', () => {
+    const hidden = selectHiddenEdges(edges, 0.5, 'graph_abc123');
+
+    expect(hidden).toHaveLength(2);
+    expect(hidden).toEqual(edges.map((edge) => edge.id).filter((id) => hidden.includes(id)));
+  });
+
+  it('should pick the same edges for the same seed', () => {
+    expect(selectHiddenEdges(edges, 0.5, 'graph_abc123')).toEqual(
+      selectHiddenEdges(edges, 0.5, 'graph_abc123')
+    );
+  });
+
+  it('should clamp the fraction', () => {
+    expect(selectHiddenEdges(edges, 0, 'seed')).toEqual([]);
+    expect(selectHiddenEdges(edges, 2, 'seed')).toEqual(['e1', 'e2', 'e3', 'e4']);
+  });
+});
+
+describe('hideMermaidEdges', () => {
+  it('should remove hidden edges but keep node declarations', () => {
+    const code = hideMermaidEdges(mermaidCode, edges, ['e1']);
+
+    expect(code).toBe(`graph TD
+  A[Active Learning]
+  B[Engagement]
+  A -->|results in| C(Retention)
+  B --> D{Mastery}
+  C --> D
+  classDef concept fill:#fff`);
+  });
+
+  it('should keep bare nodes that lose all their edges', () => {
+    const code = hideMermaidEdges('graph TD\n  C --> D', edges, ['e4']);
+    expect(code).toBe('graph TD\n  C\n  D');
+  });
+
+  it('should split chained statements', () => {
+    const chain = [
+      createEdge('x1', node('A'), node('B')),
+      createEdge('x2', node('B'), node('C')),
+    ];
+    const code = hideMermaidEdges('graph LR\n  A --> B --> C', chain, ['x1']);
+    expect(code).toBe('graph LR\n  B --> C\n  A');
+  });
+
+  it('should split node groups', () => {
+    const grouped = [
+      createEdge('x1', node('A'), node('C')),
+      createEdge('x2', node('B'), node('C')),
+    ];
+    const code = hideMermaidEdges('graph TD\n  A & B --> C', grouped, ['x2']);
+    expect(code).toBe('graph TD\n  A --> C\n  B');
+  });
+
+  it('should hide only the matching one of parallel edges', () => {
+    const parallel = [
+      createEdge('x1', node('A'), node('B')),
+      createEdge('x2', node('A'), node('B')),
+    ];
+    const code = hideMermaidEdges(
+      'graph TD\n  A -->|causes| B\n  A -->|enables| B',
+      parallel,
+      ['x2']
+    );
+    expect(code).toBe('graph TD\n  A -->|causes| B\n  A\n  B');
+  });
+
+  it('should renumber link styles and drop those of hidden edges', () => {
+    const code = hideMermaidEdges(
+      `${mermaidCode}\n  linkStyle 1 stroke:#f00\n  linkStyle 0,2 stroke-width:2px\n  linkStyle 3 stroke:#0f0`,
+      edges,
+      ['e2']
+    );
+
+    expect(code.split('\n').slice(-2)).toEqual([
+      '  linkStyle 0,1 stroke-width:2px',
+      '  linkStyle 2 stroke:#0f0',
+    ]);
+  });
+
+  it('should leave the code unchanged with nothing hidden', () => {
+    expect(hideMermaidEdges(mermaidCode, edges, [])).toBe(mermaidCode);
+  });
+});
+
+describe('evaluateProposal', () => {
+  const hidden = ['e2', 'e3'];
+
+  it('should accept hidden edges in either direction', () => {
+    expect(evaluateProposal(edges, hidden, 'node_A', 'node_C')).toMatchObject({
+      result: 'correct',
+      edgeId: 'e2',
+    });
+    expect(evaluateProposal(edges, hidden, 'node_D', 'node_B')).toMatchObject({
+      result: 'reversed',
+      edgeId: 'e3',
+    });
+  });
+
+  it('should recognise connections already shown', () => {
+    expect(evaluateProposal(edges, hidden, 'node_A', 'node_B').result).toBe('visible');
+  });
+
+  it('should reject connections not in the graph', () => {
+    expect(evaluateProposal(edges, hidden, 'node_A', 'node_D')).toEqual({
+      from: 'node_A',
+      to: 'node_D',
+      result: 'incorrect',
+      edgeId: null,
+    });
+  });
+});
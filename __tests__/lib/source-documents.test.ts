@@ -0,0 +1,108 @@
+/**
+ * Tests for Source Documents
+ *
+ * Tests the helpers for graphs merged across several documents: listing
+ * sources, assigning nodes to them and color-coding them.
+ */
+
+import {
+  getGraphDocuments,
+  isMultiSourceGraph,
+  getNodeDocumentId,
+  getDocumentNodes,
+  getSourceDocumentColors,
+  getNodeSourceColors,
+} from '@/lib/source-documents';
+import { SOURCE_DOCUMENT_COLORS } from '@/lib/mermaid-theme';
+import type { Graph, GraphSourceDocument } from '@/types/api.types';
+import { createNode } from '@/__tests__/fixtures/graph';
+
+// ============================================================================
+// Setup and Helpers
+// ============================================================================
+
+function createDocument(id: string): GraphSourceDocument {
+  return { id, title: `Document ${id}`, sourceType: 'text', createdAt: '2025-01-12T09:30:00.000Z' };
+}
+
+function createGraph(overrides: Partial<Graph> = {}): Graph {
+  return {
+    id: 'graph_1',
+    status: 'ready',
+    mermaidCode: 'graph TD',
+    generationModel: 'claude-sonnet-4',
+    version: 1,
+    createdAt: '2025-01-12T10:00:00.000Z',
+    document: createDocument('doc_1'),
+    nodes: [],
+    edges: [],
+    ...overrides,
+  };
+}
+
+const mergedGraph = createGraph({
+  documents: [createDocument('doc_1'), createDocument('doc_2')],
+  nodes: [
+    createNode('a', { documentId: 'doc_1' }),
+    createNode('b', { documentId: 'doc_2' }),
+    createNode('c'),
+  ],
+});
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe('getGraphDocuments', () => {
+  it('should return the primary document for single-document graphs', () => {
+    const graph = createGraph();
+
+    expect(getGraphDocuments(graph).map((doc) => doc.id)).toEqual(['doc_1']);
+    expect(isMultiSourceGraph(graph)).toBe(false);
+  });
+
+  it('should list every source once, primary first', () => {
+    expect(getGraphDocuments(mergedGraph).map((doc) => doc.id)).toEqual(['doc_1', 'doc_2']);
+    expect(isMultiSourceGraph(mergedGraph)).toBe(true);
+  });
+});
+
+describe('getDocumentNodes', () => {
+  it('should assign nodes without a source to the primary document', () => {
+    expect(getNodeDocumentId(mergedGraph, mergedGraph.nodes[2])).toBe('doc_1');
+    expect(getDocumentNodes(mergedGraph, 'doc_1').map((node) => node.id)).toEqual(['a', 'c']);
+    expect(getDocumentNodes(mergedGraph, 'doc_2').map((node) => node.id)).toEqual(['b']);
+  });
+});
+
+describe('getSourceDocumentColors', () => {
+  it('should assign palette colors in document order, repeating past the palette', () => {
+    const documents = Array.from({ length: SOURCE_DOCUMENT_COLORS.length + 1 }, (_, i) =>
+      createDocument(`doc_${i}`)
+    );
+    const colors = getSourceDocumentColors(documents);
+
+    expect(colors.doc_0).toBe(SOURCE_DOCUMENT_COLORS[0]);
+    expect(colors.doc_1).toBe(SOURCE_DOCUMENT_COLORS[1]);
+    expect(colors[`doc_${SOURCE_DOCUMENT_COLORS.length}`]).toBe(SOURCE_DOCUMENT_COLORS[0]);
+  });
+});
+
+describe('getNodeSourceColors', () => {
+  it('should color nodes by their source document', () => {
+    const colors = getSourceDocumentColors(getGraphDocuments(mergedGraph));
+
+    expect(getNodeSourceColors(mergedGraph, colors)).toEqual({
+      a: SOURCE_DOCUMENT_COLORS[0],
+      b: SOURCE_DOCUMENT_COLORS[1],
+      c: SOURCE_DOCUMENT_COLORS[0],
+    });
+  });
+
+  it('should not color single-document graphs', () => {
+    const graph = createGraph({ nodes: [createNode('a')] });
+    const colors = getSourceDocumentColors(getGraphDocuments(graph));
+
+    expect(getNodeSourceColors(graph, colors)).toEqual({});
+  });
+});
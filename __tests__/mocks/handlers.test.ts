@@ -238,6 +238,88 @@ describe('MSW Handlers', () => {
     });
   });
 
+  // ============================================================================
+  // Graph Editing
+  // ============================================================================
+
+  describe('Graph Editing Endpoints', () => {
+    const postJson = (path: string, body: unknown, method = 'POST') =>
+      fetch(`${BASE_URL}${path}`, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+
+    it('should add, rename and delete a node', async () => {
+      const created = await (await postJson('/graphs/graph_edit/nodes', { title: 'Metacognition' })).json();
+      expect(created.data.title).toBe('Metacognition');
+      expect(created.data.nodeKey).toBe('U1');
+
+      const renamed = await postJson(
+        `/graphs/graph_edit/nodes/${created.data.id}`,
+        { title: 'Self-Monitoring' },
+        'PUT'
+      );
+      expect((await renamed.json()).data.title).toBe('Self-Monitoring');
+
+      const graph = await (await fetch(`${BASE_URL}/graphs/graph_edit`)).json();
+      expect(graph.data.mermaidCode).toContain('U1["Self-Monitoring"]');
+
+      const deleted = await fetch(`${BASE_URL}/graphs/graph_edit/nodes/${created.data.id}`, {
+        method: 'DELETE',
+      });
+      expect(deleted.status).toBe(204);
+    });
+
+    it('should require a justification for new edges', async () => {
+      const response = await postJson('/graphs/graph_edit/edges', {
+        from: 'node_1',
+        to: 'node_8',
+        relationship: 'deepens',
+      });
+      const data = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(data.error.code).toBe('INVALID_REQUEST');
+    });
+
+    it('should add an edge with its justification', async () => {
+      const response = await postJson('/graphs/graph_edit/edges', {
+        from: 'node_1',
+        to: 'node_8',
+        relationship: 'deepens',
+        justification: 'Active learning leads to deeper processing',
+      });
+      const data = await response.json();
+
+      expect(response.status).toBe(201);
+      expect(data.data.fromNode.nodeKey).toBe('A');
+      expect(data.data.metadata.justification).toBe('Active learning leads to deeper processing');
+    });
+
+    it('should delete a node together with its edges', async () => {
+      await fetch(`${BASE_URL}/graphs/graph_cascade/nodes/node_5`, { method: 'DELETE' });
+      const graph = await (await fetch(`${BASE_URL}/graphs/graph_cascade`)).json();
+
+      expect(graph.data.nodes.some((node: { id: string }) => node.id === 'node_5')).toBe(false);
+      expect(
+        graph.data.edges.some(
+          (edge: { from: string; to: string }) => edge.from === 'node_5' || edge.to === 'node_5'
+        )
+      ).toBe(false);
+    });
+
+    it('should return 404 for unknown nodes and edges', async () => {
+      const node = await postJson('/graphs/graph_edit/nodes/node_missing', { title: 'X' }, 'PUT');
+      const edge = await fetch(`${BASE_URL}/graphs/graph_edit/edges/edge_missing`, {
+        method: 'DELETE',
+      });
+
+      expect((await node.json()).error.code).toBe('NODE_NOT_FOUND');
+      expect((await edge.json()).error.code).toBe('EDGE_NOT_FOUND');
+    });
+  });
+
   // ============================================================================
   // Connections
   // ============================================================================
@@ -452,6 +534,33 @@ describe('MSW Handlers', () => {
       expect(data.data.updatedAt).toBeDefined();
     });
 
+    it('should increment the note version on update', async () => {
+      const response = await fetch(`${BASE_URL}/notes/note_versioned`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ content: 'First edit', version: 1 }),
+      });
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.data.version).toBe(2);
+    });
+
+    it('should reject an update based on a stale version', async () => {
+      const response = await fetch(`${BASE_URL}/notes/note_conflict`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ content: 'My edit', version: 1 }),
+      });
+      const data = await response.json();
+
+      expect(response.status).toBe(409);
+      expect(data.success).toBe(false);
+      expect(data.error.code).toBe('CONFLICT');
+      expect(data.error.details.serverNote.content).toBe('Edited in another tab');
+      expect(data.error.details.serverNote.version).toBe(2);
+    });
+
     it('should delete a note', async () => {
       const response = await fetch(`${BASE_URL}/notes/note_123`, {
         method: 'DELETE',
@@ -462,6 +571,62 @@ describe('MSW Handlers', () => {
     });
   });
 
+  // ============================================================================
+  // Highlight Endpoints
+  // ============================================================================
+
+  describe('Highlight Endpoints', () => {
+    it('should create and list a highlight', async () => {
+      const createResponse = await fetch(`${BASE_URL}/highlights`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          documentId: 'doc_highlights',
+          graphId: 'graph_123',
+          nodeId: 'node_1',
+          text: 'A highlighted passage',
+          color: 'green',
+          anchor: { type: 'text', startOffset: 0, endOffset: 21 },
+        }),
+      });
+      const created = await createResponse.json();
+
+      expect(createResponse.status).toBe(201);
+      expect(created.data.nodeId).toBe('node_1');
+      expect(created.data.comment).toBeNull();
+
+      const listResponse = await fetch(`${BASE_URL}/highlights?documentId=doc_highlights`);
+      const list = await listResponse.json();
+
+      expect(list.data).toHaveLength(1);
+      expect(list.data[0].id).toBe(created.data.id);
+    });
+
+    it('should require graphId to attach a node', async () => {
+      const response = await fetch(`${BASE_URL}/highlights`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          documentId: 'doc_123',
+          nodeId: 'node_1',
+          text: 'A highlighted passage',
+          color: 'yellow',
+          anchor: { type: 'text', startOffset: 0, endOffset: 21 },
+        }),
+      });
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should delete a highlight', async () => {
+      const response = await fetch(`${BASE_URL}/highlights/hl_1`, {
+        method: 'DELETE',
+      });
+
+      expect(response.status).toBe(204);
+    });
+  });
+
   // ============================================================================
   // Error Scenarios
   // ============================================================================
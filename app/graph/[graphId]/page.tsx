@@ -15,20 +15,66 @@
  * - Node click → open NoteModal for note-taking
  * - Edge click → open ConnectionModal for connection explanation
  * - Track node interactions → trigger quiz banner after 5+ nodes
+ * - Export graph, source excerpts and notes as Markdown
+ * - Header links to the document library and the review queue
+ * - Highlight passages in the reading panel and attach them to nodes
+ * - Click or scroll to a passage → outline the nodes citing it; gutter badges select nodes
+ * - "You are here" marks on nodes with passages in view, with per-node reading progress
+ * - Merged workspace graphs: nodes color-coded by source document, with a reading
+ *   panel tab per document that follows the source of the clicked node
+ * - Node mastery from quiz results and hypotheses colors the graph
+ * - Legend filters by node type/state, persisted in the URL query
+ * - Skeleton mode: part of the connections hidden for the reader to propose (drag or pick),
+ *   revealed as they are found or asked for
+ * - Edit mode: add, rename and delete concepts and connections (new connections need a
+ *   justification), saved to the server when done
+ * - Version picker and regenerate (notes carry over to matching concepts); comparing
+ *   with another version marks added/renamed concepts and lists removed ones
+ * - Keyboard navigation of the graph (arrows, Tab, e for connections, n for notes)
  * - Responsive layout (stacks on smaller screens)
  * - Loading and error states
  */
 
 'use client';
 
-import { useState, useCallback, use } from 'react';
-import { useGraph } from '@/hooks/useGraph';
-import { GraphContainer } from '@/components/graph';
+import { useState, useCallback, useMemo, use } from 'react';
+import { useRouter } from 'next/navigation';
+import { useGraph, useGraphVersions, useRegenerateGraph } from '@/hooks/useGraph';
+import { useNotes } from '@/hooks/useNotes';
+import { useGraphFilter } from '@/hooks/useGraphFilter';
+import { useCompareVersion } from '@/hooks/useCompareVersion';
+import { useSkeletonGraph } from '@/hooks/useSkeletonGraph';
+import { useGraphEditor } from '@/hooks/useGraphEditor';
+import { useMastery } from '@/hooks/useMastery';
+import {
+  GraphContainer,
+  GraphVersionBar,
+  GraphDiffSummary,
+  SkeletonPanel,
+  GraphEditPanel,
+} from '@/components/graph';
 import { ReadingPanel } from '@/components/reading';
 import { NotePanel } from '@/components/notes';
 import { ConnectionModal } from '@/components/connections';
 import { QuizModal, QuizTriggerBanner } from '@/components/quiz';
-import type { Graph, GraphNode, GraphEdge } from '@/types/api.types';
+import {
+  graphToMarkdown,
+  downloadTextFile,
+  getExportFilename,
+} from '@/lib/graph-export';
+import type { NodeState } from '@/lib/graph-utils';
+import { getMasteryNodeStates } from '@/lib/mastery';
+import { diffGraphs, getDiffOverlay } from '@/lib/graph-diff';
+import { DEFAULT_HIDDEN_FRACTION } from '@/lib/skeleton-graph';
+import {
+  getGraphDocuments,
+  getDocumentNodes,
+  getNodeDocumentId,
+  getSourceDocumentColors,
+  getNodeSourceColors,
+} from '@/lib/source-documents';
+import type { ReadingProgress } from '@/lib/reading-progress';
+import type { Graph, GraphNode, GraphEdge, Note } from '@/types/api.types';
 
 // ============================================================================
 // Types
@@ -104,9 +150,90 @@ export default function GraphViewPage({ params }: PageProps) {
     });
   }
 
+  // Notes for export, search and node states (shares the cache with NotePanel)
+  const { data: notes } = useNotes(graphId) as { data: Note[] | undefined };
+
+  // Per-node mastery from quizzes and connection hypotheses
+  const { data: mastery } = useMastery(graphId);
+
+  // Legend filter (persisted in the URL query)
+  const { filter, setFilter } = useGraphFilter();
+
+  // Skeleton mode: connections hidden for the reader to complete (persisted in the URL query)
+  const skeleton = useSkeletonGraph(graph);
+
+  // Edit mode: local draft of the graph, saved through the graph mutation endpoints
+  const editor = useGraphEditor(graph);
+  const [editSelection, setEditSelection] = useState<{
+    type: 'node' | 'edge';
+    id: string;
+  } | null>(null);
+  const [editConnection, setEditConnection] = useState({ from: '', to: '' });
+
+  // Versions of the document's graph, and the version compared against (persisted in the URL query)
+  const router = useRouter();
+  const { data: versions = [] } = useGraphVersions(graph?.document.id);
+  const { compareGraphId, setCompareGraphId } = useCompareVersion();
+  const { data: compareGraph } = useGraph(compareGraphId ?? '') as {
+    data: Graph | undefined;
+  };
+  const {
+    mutate: regenerate,
+    isPending: isRegenerating,
+    error: regenerateError,
+  } = useRegenerateGraph();
+
+  // Changes from the compared version to this one, marked on the graph
+  const versionDiff = useMemo(
+    () =>
+      graph && compareGraph && compareGraph.id !== graph.id
+        ? diffGraphs(compareGraph, graph)
+        : null,
+    [graph, compareGraph]
+  );
+  const diffOverlay = useMemo(
+    () => (versionDiff ? getDiffOverlay(versionDiff) : undefined),
+    [versionDiff]
+  );
+
+  // Node states keyed by Mermaid node key, as the rendered SVG identifies nodes
+  const nodeStates = useMemo(() => {
+    const states: Record<string, NodeState> = getMasteryNodeStates(
+      mastery ?? [],
+      graph?.nodes ?? []
+    );
+    const notedNodeIds = new Set((notes ?? []).map((note) => note.nodeId));
+
+    graph?.nodes.forEach((node) => {
+      if (notedNodeIds.has(node.id) || notedNodeIds.has(node.nodeKey)) {
+        states[node.nodeKey] = { ...states[node.nodeKey], hasNotes: true };
+      }
+    });
+
+    return states;
+  }, [graph, notes, mastery]);
+
+  // Source documents (several for a merged workspace graph) and their colors
+  const documents = useMemo(() => (graph ? getGraphDocuments(graph) : []), [graph]);
+  const documentColors = useMemo(() => getSourceDocumentColors(documents), [documents]);
+  const nodeSourceColors = useMemo(
+    () => (graph ? getNodeSourceColors(graph, documentColors) : undefined),
+    [graph, documentColors]
+  );
+
   // Reading panel state
   const [activeNodeId, setActiveNodeId] = useState<string | null>(null);
 
+  // Document open in the reading panel (defaults to the primary document)
+  const [selectedDocumentId, setSelectedDocumentId] = useState<string | null>(null);
+  const activeDocumentId = selectedDocumentId ?? graph?.document.id ?? null;
+
+  // Only nodes drawn from the open document can cite its passages
+  const documentNodes = useMemo(
+    () => (graph && activeDocumentId ? getDocumentNodes(graph, activeDocumentId) : []),
+    [graph, activeDocumentId]
+  );
+
   // Legacy: character-based highlighting (for text documents)
   const [highlightRange, setHighlightRange] = useState<{
     startOffset: number;
@@ -118,6 +245,12 @@ export default function GraphViewPage({ params }: PageProps) {
     import('@/types/api.types').NodeDocumentReference[] | null
   >(null);
 
+  // Nodes citing the passage the user clicked or scrolled to in the reading panel
+  const [passageNodeIds, setPassageNodeIds] = useState<string[]>([]);
+
+  // Nodes with passages in the reading panel's viewport, and how much of each node has been read
+  const [readingProgress, setReadingProgress] = useState<ReadingProgress | null>(null);
+
   // Modal states
   const [noteModalState, setNoteModalState] = useState<NoteModalState>({
     isOpen: false,
@@ -144,6 +277,9 @@ export default function GraphViewPage({ params }: PageProps) {
   const [showQuizBanner, setShowQuizBanner] = useState(false);
   const [hasTriggeredBanner, setHasTriggeredBanner] = useState(false);
 
+  // Bumped to focus the note editor from the keyboard
+  const [noteFocusRequest, setNoteFocusRequest] = useState(0);
+
   /**
    * Handle node click in graph
    * - Updates active node and highlight range for reading panel sync
@@ -155,11 +291,24 @@ export default function GraphViewPage({ params }: PageProps) {
     (nodeId: string) => {
       console.log('[GraphViewPage] Node clicked:', nodeId);
 
+      // In edit mode a click selects the concept for editing
+      // (the SVG reports Mermaid keys; the edit panel looks concepts up by ID)
+      if (editor.isEditing) {
+        const editNode = graph?.nodes.find((n) => n.nodeKey === nodeId || n.id === nodeId);
+        if (editNode) setEditSelection({ type: 'node', id: editNode.id });
+        return;
+      }
+
       // Update reading panel state
       setActiveNodeId(nodeId);
 
       // Find node's document reference
       const node = graph?.nodes.find((n) => n.id === nodeId);
+
+      // Open the node's source document (merged graphs)
+      if (graph && node) {
+        setSelectedDocumentId(getNodeDocumentId(graph, node));
+      }
       console.log('[GraphViewPage] Node data:', {
         nodeId,
         hasNode: !!node,
@@ -211,7 +360,28 @@ export default function GraphViewPage({ params }: PageProps) {
         return updated;
       });
     },
-    [graph?.nodes, hasTriggeredBanner]
+    [graph, hasTriggeredBanner, editor.isEditing]
+  );
+
+  /**
+   * Handle document tab click in the reading panel
+   * Clears the node highlight, which points into the previous document
+   */
+  const handleDocumentChange = useCallback((documentId: string) => {
+    setSelectedDocumentId(documentId);
+    setHighlightRange(null);
+    setHighlightReferences(null);
+  }, []);
+
+  /**
+   * Handle `n` on a focused node: select it and focus the note editor
+   */
+  const handleOpenNotes = useCallback(
+    (nodeId: string) => {
+      handleNodeClick(nodeId);
+      setNoteFocusRequest((count) => count + 1);
+    },
+    [handleNodeClick]
   );
 
   /**
@@ -222,6 +392,12 @@ export default function GraphViewPage({ params }: PageProps) {
     (edgeId: string) => {
       if (!graph) return;
 
+      // In edit mode a click selects the connection for editing
+      if (editor.isEditing) {
+        setEditSelection({ type: 'edge', id: edgeId });
+        return;
+      }
+
       // Find the edge
       const edge = graph.edges.find((e) => e.id === edgeId);
       if (!edge) return;
@@ -237,7 +413,64 @@ export default function GraphViewPage({ params }: PageProps) {
         relationshipLabel: edge.relationship,
       });
     },
-    [graph]
+    [graph, editor.isEditing]
+  );
+
+  /**
+   * Enter or leave edit mode (leaving discards unsaved edits)
+   */
+  const handleToggleEdit = useCallback(() => {
+    setEditSelection(null);
+    setEditConnection({ from: '', to: '' });
+
+    if (editor.isEditing) {
+      editor.cancel();
+      return;
+    }
+
+    // Editing works on the full graph
+    skeleton.setFraction(null);
+    editor.start();
+  }, [editor, skeleton]);
+
+  /**
+   * Handle dragging one concept onto another in edit mode
+   */
+  const handleEditConnect = useCallback((fromNodeId: string, toNodeId: string) => {
+    setEditConnection({ from: fromNodeId, to: toNodeId });
+  }, []);
+
+  /**
+   * Export graph with source excerpts and notes as a Markdown file
+   */
+  const handleExportMarkdown = useCallback(() => {
+    if (!graph) return;
+
+    const markdown = graphToMarkdown(graph, notes ?? []);
+    downloadTextFile(markdown, getExportFilename(graph));
+  }, [graph, notes]);
+
+  /**
+   * Generate a new version, then open it compared against this one
+   */
+  const handleRegenerate = useCallback(() => {
+    if (!graph) return;
+
+    regenerate(graph, {
+      onSuccess: ({ graph: nextGraph }) => {
+        router.push(`/graph/${nextGraph.id}?compare=${graph.id}`);
+      },
+    });
+  }, [graph, regenerate, router]);
+
+  /**
+   * Open another version of the graph
+   */
+  const handleVersionChange = useCallback(
+    (nextGraphId: string) => {
+      router.push(`/graph/${nextGraphId}`);
+    },
+    [router]
   );
 
   /**
@@ -409,6 +642,127 @@ export default function GraphViewPage({ params }: PageProps) {
 
         {/* Right: Actions */}
         <div className="flex items-center gap-3">
+          {/* Edit mode */}
+          <button
+            onClick={handleToggleEdit}
+            className={`p-2 rounded-lg transition-colors ${
+              editor.isEditing
+                ? 'text-primary bg-primary-50'
+                : 'text-text-secondary hover:text-text-primary hover:bg-gray-100'
+            }`}
+            aria-label="Edit graph"
+            aria-pressed={editor.isEditing}
+            title="Edit graph"
+          >
+            <svg
+              className="w-5 h-5"
+              fill="none"
+              stroke="currentColor"
+              viewBox="0 0 24 24"
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z"
+              />
+            </svg>
+          </button>
+
+          {/* Skeleton mode */}
+          <button
+            onClick={() => skeleton.setFraction(skeleton.isActive ? null : DEFAULT_HIDDEN_FRACTION)}
+            disabled={editor.isEditing}
+            className={`p-2 rounded-lg transition-colors ${
+              skeleton.isActive
+                ? 'text-primary bg-primary-50'
+                : 'text-text-secondary hover:text-text-primary hover:bg-gray-100'
+            } disabled:opacity-50 disabled:pointer-events-none`}
+            aria-label="Complete the graph yourself"
+            aria-pressed={skeleton.isActive}
+            title="Complete the graph yourself"
+          >
+            <svg
+              className="w-5 h-5"
+              fill="none"
+              stroke="currentColor"
+              viewBox="0 0 24 24"
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M13.828 10.172a4 4 0 00-5.656 0l-4 4a4 4 0 105.656 5.656l1.102-1.101m-.758-4.899a4 4 0 005.656 0l4-4a4 4 0 00-5.656-5.656l-1.1 1.1"
+              />
+            </svg>
+          </button>
+
+          {/* Document library */}
+          <a
+            href="/library"
+            className="p-2 text-text-secondary hover:text-text-primary hover:bg-gray-100 rounded-lg transition-colors"
+            aria-label="Library"
+            title="Library"
+          >
+            <svg
+              className="w-5 h-5"
+              fill="none"
+              stroke="currentColor"
+              viewBox="0 0 24 24"
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M12 6.253v13m0-13C10.832 5.477 9.246 5 7.5 5S4.168 5.477 3 6.253v13C4.168 18.477 5.754 18 7.5 18s3.332.477 4.5 1.253m0-13C13.168 5.477 14.754 5 16.5 5c1.747 0 3.332.477 4.5 1.253v13C19.832 18.477 18.247 18 16.5 18c-1.746 0-3.332.477-4.5 1.253"
+              />
+            </svg>
+          </a>
+
+          {/* Spaced-repetition review */}
+          <a
+            href="/review"
+            className="p-2 text-text-secondary hover:text-text-primary hover:bg-gray-100 rounded-lg transition-colors"
+            aria-label="Review due concepts"
+            title="Review due concepts"
+          >
+            <svg
+              className="w-5 h-5"
+              fill="none"
+              stroke="currentColor"
+              viewBox="0 0 24 24"
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15"
+              />
+            </svg>
+          </a>
+
+          {/* Export button */}
+          <button
+            onClick={handleExportMarkdown}
+            className="p-2 text-text-secondary hover:text-text-primary hover:bg-gray-100 rounded-lg transition-colors"
+            aria-label="Export as Markdown"
+            title="Export as Markdown"
+          >
+            <svg
+              className="w-5 h-5"
+              fill="none"
+              stroke="currentColor"
+              viewBox="0 0 24 24"
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4"
+              />
+            </svg>
+          </button>
+
           {/* Help button */}
           <button
             className="p-2 text-text-secondary hover:text-text-primary hover:bg-gray-100 rounded-lg transition-colors"
@@ -463,21 +817,98 @@ export default function GraphViewPage({ params }: PageProps) {
       <div className="flex-1 flex overflow-hidden">
         {/* Left: Graph Canvas (60% width) */}
         <div
-          className="w-3/5 border-r border-gray-200"
+          className="w-3/5 border-r border-gray-200 flex flex-col"
           role="region"
           aria-label="Knowledge graph visualization"
         >
-          <GraphContainer
+          <GraphVersionBar
             graphId={graph.id}
-            mermaidCode={graph.mermaidCode}
-            nodes={graph.nodes}
-            edges={graph.edges}
-            onNodeClick={handleNodeClick}
-            onEdgeClick={handleEdgeClick}
-            activeNodeId={activeNodeId}
-            showLegend={true}
-            showControls={true}
+            version={graph.version}
+            versions={versions}
+            compareGraphId={compareGraphId}
+            onVersionChange={handleVersionChange}
+            onCompareChange={setCompareGraphId}
+            onRegenerate={handleRegenerate}
+            isRegenerating={isRegenerating}
+            error={regenerateError?.message}
           />
+          {versionDiff && compareGraph && (
+            <GraphDiffSummary
+              diff={versionDiff}
+              compareVersion={compareGraph.version}
+              onClose={() => setCompareGraphId(null)}
+              onNodeSelect={handleNodeClick}
+            />
+          )}
+          {skeleton.fraction !== null && (
+            <SkeletonPanel
+              nodes={graph.nodes}
+              edges={graph.edges}
+              fraction={skeleton.fraction}
+              totalHidden={skeleton.totalHidden}
+              hiddenCount={skeleton.hiddenEdgeIds.length}
+              proposals={skeleton.proposals}
+              onPropose={skeleton.propose}
+              onFractionChange={skeleton.setFraction}
+              onRevealNext={skeleton.revealNext}
+              onRevealAll={skeleton.revealAll}
+              onExit={() => skeleton.setFraction(null)}
+            />
+          )}
+          {editor.isEditing && (
+            <GraphEditPanel
+              nodes={editor.nodes}
+              edges={editor.edges}
+              selectedNodeId={editSelection?.type === 'node' ? editSelection.id : null}
+              selectedEdgeId={editSelection?.type === 'edge' ? editSelection.id : null}
+              onSelectionClear={() => setEditSelection(null)}
+              connection={editConnection}
+              onConnectionChange={setEditConnection}
+              onAddNode={editor.addNode}
+              onRenameNode={editor.renameNode}
+              onDeleteNode={editor.deleteNode}
+              onAddEdge={editor.addEdge}
+              onRenameEdge={editor.renameEdge}
+              onDeleteEdge={editor.deleteEdge}
+              pendingCount={editor.pendingCount}
+              onSave={editor.save}
+              onCancel={handleToggleEdit}
+              isSaving={editor.isSaving}
+              error={editor.error?.message}
+            />
+          )}
+          <div className="flex-1 min-h-0">
+            <GraphContainer
+              graphId={graph.id}
+              mermaidCode={editor.isEditing ? editor.mermaidCode : skeleton.mermaidCode}
+              nodes={editor.isEditing ? editor.nodes : graph.nodes}
+              edges={editor.isEditing ? editor.edges : skeleton.visibleEdges}
+              onNodeClick={handleNodeClick}
+              onEdgeClick={handleEdgeClick}
+              onNodeNotes={handleOpenNotes}
+              onConnectNodes={
+                editor.isEditing
+                  ? handleEditConnect
+                  : skeleton.isActive
+                    ? skeleton.propose
+                    : undefined
+              }
+              activeNodeId={activeNodeId}
+              nodeStates={nodeStates}
+              citedNodeIds={passageNodeIds}
+              visibleNodeIds={readingProgress?.visibleNodeIds}
+              readingProgress={readingProgress?.nodeProgress}
+              sourceColors={nodeSourceColors}
+              diff={editor.isEditing ? undefined : diffOverlay}
+              showLegend={true}
+              showControls={true}
+              notes={notes}
+              collapsible={!editor.isEditing && !skeleton.isActive}
+              filter={filter}
+              onFilterChange={setFilter}
+              exportFilename={(extension) => getExportFilename(graph, extension)}
+            />
+          </div>
         </div>
 
         {/* Right: Reading Panel (40% width) */}
@@ -487,10 +918,18 @@ export default function GraphViewPage({ params }: PageProps) {
           aria-label="Document reading panel"
         >
           <ReadingPanel
-            documentId={graph.document.id}
+            documentId={activeDocumentId ?? graph.document.id}
             activeNodeId={activeNodeId}
             highlightRange={highlightRange}
             highlightReferences={highlightReferences}
+            graphId={graph.id}
+            nodes={documentNodes}
+            documents={documents}
+            documentColors={documentColors}
+            onDocumentChange={handleDocumentChange}
+            onPassageNodesChange={setPassageNodeIds}
+            onNodeSelect={handleNodeClick}
+            onReadingProgressChange={setReadingProgress}
           />
         </div>
       </div>
@@ -501,8 +940,10 @@ export default function GraphViewPage({ params }: PageProps) {
         role="note"
         aria-label="Keyboard shortcuts"
       >
-        Press Tab to navigate between elements. Press Enter or Space to interact
-        with nodes. Press Escape to close modals.
+        Press Tab to move between concepts and arrow keys to follow connections.
+        Press Enter or Space to open a concept, E to explain its next connection,
+        and N to write a note. Press question mark for all shortcuts. Press
+        Escape to close modals.
       </div>
 
       {/* Quiz Trigger Banner - Fixed at top when triggered */}
@@ -520,6 +961,7 @@ export default function GraphViewPage({ params }: PageProps) {
         graphId={graphId}
         nodeId={noteModalState.nodeId}
         nodeTitle={noteModalState.nodeTitle}
+        focusRequest={noteFocusRequest}
       />
 
       {/* Feature 4: Connection Modal - Opens when edge is clicked */}
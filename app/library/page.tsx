@@ -0,0 +1,45 @@
+/**
+ * Library Page
+ *
+ * Every uploaded document with its graph versions, so earlier graphs can
+ * be reopened.
+ *
+ * Route: /library
+ */
+
+import type { Metadata } from 'next';
+import { DocumentLibrary } from '@/components/library';
+
+export const metadata: Metadata = {
+  title: 'Library | Graphex',
+  description: 'Your uploaded documents and the graphs generated from them',
+};
+
+export default function LibraryPage() {
+  return (
+    <div className="min-h-screen bg-background p-8">
+      <div className="mx-auto w-full max-w-4xl space-y-8">
+        {/* Header */}
+        <div className="flex items-end justify-between gap-4">
+          <div className="space-y-2">
+            <a href="/" className="text-sm text-primary hover:underline">
+              ← Graphex
+            </a>
+            <h1 className="text-3xl font-bold text-text-primary">Library</h1>
+            <p className="text-text-secondary">
+              Your documents and every graph generated from them.
+            </p>
+          </div>
+          <a
+            href="/upload"
+            className="px-4 py-2 bg-primary text-white rounded-lg hover:bg-primary-600 transition-colors font-medium"
+          >
+            Upload
+          </a>
+        </div>
+
+        <DocumentLibrary />
+      </div>
+    </div>
+  );
+}
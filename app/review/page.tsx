@@ -0,0 +1,38 @@
+/**
+ * Review Page
+ *
+ * Spaced-repetition review of concepts that are due, across all graphs
+ * the user has been quizzed on.
+ *
+ * Route: /review
+ */
+
+import type { Metadata } from 'next';
+import { ReviewQueue } from '@/components/review';
+
+export const metadata: Metadata = {
+  title: 'Review | Graphex',
+  description: 'Review the concepts that are due for spaced repetition',
+};
+
+export default function ReviewPage() {
+  return (
+    <div className="min-h-screen bg-background p-8">
+      <div className="mx-auto w-full max-w-3xl space-y-8">
+        {/* Header */}
+        <div className="space-y-2">
+          <a href="/" className="text-sm text-primary hover:underline">
+            ← Graphex
+          </a>
+          <h1 className="text-3xl font-bold text-text-primary">Review</h1>
+          <p className="text-text-secondary">
+            Concepts come back at growing intervals as you remember them, and
+            sooner when you don&apos;t.
+          </p>
+        </div>
+
+        <ReviewQueue />
+      </div>
+    </div>
+  );
+}
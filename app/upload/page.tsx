@@ -67,6 +67,13 @@ export default function UploadPage() {
             </div>
           </div>
 
+          <p className="text-sm text-text-muted">
+            Looking for an earlier graph?{' '}
+            <a href="/library" className="text-primary hover:underline font-medium">
+              Open your library
+            </a>
+          </p>
+
           {/* Sample Document Link (optional - can be implemented later) */}
           {/* <p className="text-sm text-text-muted">
             Not sure where to start?{' '}
@@ -18,7 +18,8 @@
 import { useState } from 'react';
 import { Dialog } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
-import { useExplainConnection, useToast } from '@/hooks';
+import { useExplainConnection, useRecordMastery, useToast } from '@/hooks';
+import { getHypothesisEvidence } from '@/lib/mastery';
 import { ConnectionDetails } from './ConnectionDetails';
 import { HypothesisInput } from './HypothesisInput';
 import { AIExplanation } from './AIExplanation';
@@ -112,10 +113,23 @@ export function ConnectionModal({
   const [shouldShake, setShouldShake] = useState(false);
 
   const { toast } = useToast();
+  const { mutate: recordMastery } = useRecordMastery();
 
   // React Query mutation for getting explanation
   const explainMutation = useExplainConnection({
     onSuccess: (data) => {
+      // The hypothesis evaluation counts towards both concepts' mastery
+      if (data.userHypothesisEvaluation) {
+        recordMastery({
+          graphId,
+          evidence: getHypothesisEvidence(
+            fromNodeId,
+            toNodeId,
+            data.userHypothesisEvaluation.match
+          ),
+        });
+      }
+
       // Move to explanation step on success
       setStep('explanation');
       toast({
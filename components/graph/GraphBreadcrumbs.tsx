@@ -0,0 +1,95 @@
+/**
+ * GraphBreadcrumbs Component
+ *
+ * Trail of expanded clusters for the progressive disclosure view: the
+ * overview, then each expanded cluster. Clicking a crumb collapses the
+ * clusters below it. Also switches between the overview and the full graph.
+ */
+
+'use client';
+
+import { ChevronRight, Layers } from 'lucide-react';
+import type { GraphCluster } from '@/lib/graph-clusters';
+
+/**
+ * Props for GraphBreadcrumbs component
+ */
+export interface GraphBreadcrumbsProps {
+  /** Expanded clusters from the overview down */
+  breadcrumbs: GraphCluster[];
+
+  /** Callback to collapse back to a crumb (-1 for the overview) */
+  onNavigate: (index: number) => void;
+
+  /** Every node is shown instead of the overview */
+  isShowingAll: boolean;
+
+  /** Callback to switch between the full graph and the overview */
+  onShowAllChange: (showAll: boolean) => void;
+
+  /** Number of concepts in the graph */
+  nodeCount: number;
+
+  /** Custom CSS class name */
+  className?: string;
+}
+
+export function GraphBreadcrumbs({
+  breadcrumbs,
+  onNavigate,
+  isShowingAll,
+  onShowAllChange,
+  nodeCount,
+  className = '',
+}: GraphBreadcrumbsProps) {
+  return (
+    <nav
+      className={`absolute bottom-6 left-6 flex items-center gap-1 bg-chrome rounded-lg shadow-lg border border-primary-100 px-3 py-1.5 text-xs ${className}`}
+      aria-label="Graph levels"
+    >
+      <Layers className="w-4 h-4 text-primary-700 mr-1" aria-hidden="true" />
+      {isShowingAll ? (
+        <span className="font-medium text-text-primary">All {nodeCount} concepts</span>
+      ) : (
+        <ol className="flex items-center gap-1">
+          <li>
+            <button
+              onClick={() => onNavigate(-1)}
+              className="font-medium text-primary-700 hover:text-primary-900 hover:underline disabled:text-text-primary disabled:no-underline"
+              disabled={breadcrumbs.length === 0}
+              aria-current={breadcrumbs.length === 0 ? 'location' : undefined}
+            >
+              Overview
+            </button>
+          </li>
+          {breadcrumbs.map((cluster, index) => {
+            const isCurrent = index === breadcrumbs.length - 1;
+            return (
+              <li key={cluster.id} className="flex items-center gap-1">
+                <ChevronRight className="w-3 h-3 text-text-muted" aria-hidden="true" />
+                <button
+                  onClick={() => onNavigate(index)}
+                  className="max-w-40 truncate font-medium text-primary-700 hover:text-primary-900 hover:underline disabled:text-text-primary disabled:no-underline"
+                  disabled={isCurrent}
+                  aria-current={isCurrent ? 'location' : undefined}
+                  title={cluster.label}
+                >
+                  {cluster.label}
+                </button>
+              </li>
+            );
+          })}
+        </ol>
+      )}
+      <span className="mx-1 h-4 w-px bg-primary-100" aria-hidden="true" />
+      <button
+        onClick={() => onShowAllChange(!isShowingAll)}
+        className="font-medium text-primary-700 hover:text-primary-900 hover:underline"
+      >
+        {isShowingAll ? 'Group concepts' : 'Show all'}
+      </button>
+    </nav>
+  );
+}
+
+export default GraphBreadcrumbs;
@@ -12,24 +12,57 @@
 
 'use client';
 
-import { useState, useCallback, useRef } from 'react';
+import { useState, useCallback, useMemo, useRef } from 'react';
 import { MermaidGraph, type MermaidGraphProps, type MermaidGraphHandle } from './MermaidGraph';
 import { GraphControls } from './GraphControls';
 import { NodeLegend } from './NodeLegend';
+import { GraphSearch } from './GraphSearch';
+import { GraphBreadcrumbs } from './GraphBreadcrumbs';
+import { GraphMinimap } from './GraphMinimap';
 import { FileQuestion, AlertCircle } from 'lucide-react';
 import type { NodeState } from '@/lib/graph-utils';
+import { downloadBlob, downloadTextFile } from '@/lib/graph-export';
+import { getPresentEdgeTypes, getWeakEdgeIds, hasEdgeStrengths } from '@/lib/edge-types';
+import type { GraphFilter } from '@/lib/graph-filter';
+import { MINIMAP_MIN_NODES, type GraphViewport } from '@/lib/graph-minimap';
+import { useGraphClusters } from '@/hooks/useGraphClusters';
+import type { Note } from '@/types/api.types';
 
 /**
  * Props for GraphContainer component
  */
 export interface GraphContainerProps
-  extends Omit<MermaidGraphProps, 'className' | 'enableZoom' | 'initialZoom'> {
+  extends Omit<
+    MermaidGraphProps,
+    'className' | 'enableZoom' | 'initialZoom' | 'onShowShortcuts' | 'focusRequest'
+  > {
   /** Show legend (default true) */
   showLegend?: boolean;
 
   /** Show controls (default true) */
   showControls?: boolean;
 
+  /** Show node search (default true) */
+  showSearch?: boolean;
+
+  /** Show a minimap for graphs with 20+ visible nodes (default true) */
+  showMinimap?: boolean;
+
+  /** User notes, searched alongside node content */
+  notes?: Note[];
+
+  /**
+   * Start large graphs at an overview of collapsed clusters that expand on
+   * click (default false)
+   */
+  collapsible?: boolean;
+
+  /** Legend filter applied to the graph */
+  filter?: GraphFilter;
+
+  /** Callback when the legend filter changes (makes the legend interactive) */
+  onFilterChange?: (filter: GraphFilter) => void;
+
   /** Loading state */
   isLoading?: boolean;
 
@@ -39,10 +72,16 @@ export interface GraphContainerProps
   /** Empty state message */
   emptyMessage?: string;
 
+  /** Filename for image exports (defaults to `<graphId>-graph.<extension>`) */
+  exportFilename?: (extension: 'svg' | 'png') => string;
+
   /** Custom CSS class name */
   className?: string;
 }
 
+/** Stable default so MermaidGraph's memo isn't defeated by a new object */
+const NO_NODE_STATES: Record<string, NodeState> = {};
+
 /**
  * Loading skeleton for graph
  */
@@ -127,7 +166,10 @@ function GraphEmpty({ message }: { message?: string }) {
  * Combines all graph-related components into a single container with:
  * - Graph rendering
  * - Zoom/pan controls
- * - Color legend
+ * - Node search with jump-to-node
+ * - Color legend with type/state/connection filters
+ * - Collapsible clusters with breadcrumbs (when `collapsible`)
+ * - Minimap overview for large graphs
  * - Loading/error/empty states
  * - Responsive layout
  *
@@ -169,13 +211,27 @@ export function GraphContainer({
   edges,
   onNodeClick,
   onEdgeClick,
+  onNodeNotes,
+  onConnectNodes,
   activeNodeId,
-  nodeStates = {},
+  nodeStates = NO_NODE_STATES,
+  citedNodeIds,
+  visibleNodeIds,
+  readingProgress,
+  sourceColors,
+  diff,
   showLegend = true,
   showControls = true,
+  showSearch = true,
+  showMinimap = true,
+  notes,
+  collapsible = false,
+  filter,
+  onFilterChange,
   isLoading = false,
   error = null,
   emptyMessage,
+  exportFilename,
   className = '',
 }: GraphContainerProps) {
   console.log('[GraphContainer] Rendering:', {
@@ -190,6 +246,37 @@ export function GraphContainer({
 
   // Pan on by default so users can drag the canvas immediately
   const [panEnabled, setPanEnabled] = useState(true);
+  const [isExporting, setIsExporting] = useState(false);
+  const [showShortcuts, setShowShortcuts] = useState(false);
+
+  // Node types present in this graph, in order of first appearance
+  const nodeTypes = useMemo(
+    () => Array.from(new Set((nodes ?? []).map((node) => node.nodeType))),
+    [nodes]
+  );
+  const edgeTypes = useMemo(() => getPresentEdgeTypes(edges ?? []), [edges]);
+
+  // Progressive disclosure: the graph as drawn, with collapsed clusters
+  const clustering = useGraphClusters(nodes, edges, collapsible);
+  const shownMermaidCode = clustering.view?.mermaidCode ?? mermaidCode;
+  const shownNodes = clustering.view?.nodes ?? nodes;
+  const shownEdges = clustering.view?.edges ?? edges;
+  const showBreadcrumbs = collapsible && clustering.clusters.length > 0;
+
+  // Main view reported by MermaidGraph, drawn in the minimap
+  const hasMinimap = showMinimap && shownNodes.length >= MINIMAP_MIN_NODES;
+  const [viewport, setViewport] = useState<GraphViewport | null>(null);
+
+  // Search result to center once it is drawn (it may sit in a collapsed cluster)
+  const [focusRequest, setFocusRequest] = useState<{ nodeId: string } | null>(null);
+
+  // Kept across re-renders and graph versions; the slider only shows for graphs with strengths
+  const [edgeThreshold, setEdgeThreshold] = useState(0);
+  const showThreshold = useMemo(() => hasEdgeStrengths(edges ?? []), [edges]);
+  const hiddenEdgeCount = useMemo(
+    () => getWeakEdgeIds(shownEdges ?? [], edgeThreshold).size,
+    [shownEdges, edgeThreshold]
+  );
   const containerRef = useRef<HTMLDivElement>(null);
   const graphRef = useRef<MermaidGraphHandle>(null);
 
@@ -221,6 +308,97 @@ export function GraphContainer({
     setPanEnabled(enabled);
   }, []);
 
+  /**
+   * Toggle the keyboard shortcut cheat sheet (from the `?` key or button)
+   */
+  const handleToggleShortcuts = useCallback(() => {
+    setShowShortcuts((open) => !open);
+  }, []);
+
+  /**
+   * Handle node click: a collapsed cluster expands, other nodes are passed on
+   */
+  const { getCollapsedCluster, expand, reveal } = clustering;
+  const handleNodeClick = useCallback(
+    (nodeId: string) => {
+      const cluster = getCollapsedCluster(nodeId);
+      if (cluster) {
+        expand(cluster.id);
+        return;
+      }
+      onNodeClick?.(nodeId);
+    },
+    [getCollapsedCluster, expand, onNodeClick]
+  );
+
+  /**
+   * Handle search result selection: expand the clusters hiding the node,
+   * center it once it is drawn, then select it exactly as a click would
+   * (clicks report the node's Mermaid key, search results its ID)
+   */
+  const handleSearchSelect = useCallback(
+    (nodeId: string) => {
+      reveal(nodeId);
+      setFocusRequest({ nodeId });
+      const node = nodes.find((n) => n.id === nodeId);
+      onNodeClick?.(node?.nodeKey ?? nodeId);
+    },
+    [nodes, reveal, onNodeClick]
+  );
+
+  /**
+   * Handle minimap click or drag: center the main view on that point
+   */
+  const handleMinimapPan = useCallback((x: number, y: number) => {
+    graphRef.current?.panTo(x, y);
+  }, []);
+
+  /**
+   * Get filename for an image export
+   */
+  const getFilename = useCallback(
+    (extension: 'svg' | 'png') =>
+      exportFilename ? exportFilename(extension) : `${graphId}-graph.${extension}`,
+    [exportFilename, graphId]
+  );
+
+  /**
+   * Handle SVG export
+   */
+  const handleExportSvg = useCallback(async () => {
+    if (!graphRef.current) return;
+
+    setIsExporting(true);
+    try {
+      const markup = await graphRef.current.exportSvg();
+      downloadTextFile(markup, getFilename('svg'), 'image/svg+xml;charset=utf-8');
+    } catch (err) {
+      console.error('[GraphContainer] SVG export failed:', err);
+    } finally {
+      setIsExporting(false);
+    }
+  }, [getFilename]);
+
+  /**
+   * Handle PNG export
+   */
+  const handleExportPng = useCallback(
+    async (scale: number) => {
+      if (!graphRef.current) return;
+
+      setIsExporting(true);
+      try {
+        const blob = await graphRef.current.exportPng(scale);
+        downloadBlob(blob, getFilename('png'));
+      } catch (err) {
+        console.error('[GraphContainer] PNG export failed:', err);
+      } finally {
+        setIsExporting(false);
+      }
+    },
+    [getFilename]
+  );
+
   /**
    * Handle retry on error
    */
@@ -271,23 +449,65 @@ export function GraphContainer({
       <MermaidGraph
         ref={graphRef}
         graphId={graphId}
-        mermaidCode={mermaidCode}
-        nodes={nodes}
-        edges={edges}
-        onNodeClick={onNodeClick}
+        mermaidCode={shownMermaidCode}
+        nodes={shownNodes}
+        edges={shownEdges}
+        onNodeClick={handleNodeClick}
         onEdgeClick={onEdgeClick}
+        onNodeNotes={onNodeNotes}
+        onConnectNodes={onConnectNodes}
+        onShowShortcuts={handleToggleShortcuts}
         activeNodeId={activeNodeId}
         nodeStates={nodeStates}
+        citedNodeIds={citedNodeIds}
+        visibleNodeIds={visibleNodeIds}
+        readingProgress={readingProgress}
+        sourceColors={sourceColors}
+        diff={diff}
+        filter={filter}
+        edgeThreshold={edgeThreshold}
         enableZoom={true}
         panEnabled={panEnabled}
+        onViewportChange={hasMinimap ? setViewport : undefined}
+        focusRequest={focusRequest}
       />
 
+      {/* Search */}
+      {showSearch && (
+        <GraphSearch nodes={nodes} notes={notes} onSelectNode={handleSearchSelect} />
+      )}
+
+      {/* Minimap (above the breadcrumbs when both are shown) */}
+      {hasMinimap && viewport && (
+        <GraphMinimap
+          viewport={viewport}
+          onPan={handleMinimapPan}
+          className={showBreadcrumbs ? 'bottom-20' : 'bottom-6'}
+        />
+      )}
+
+      {/* Cluster breadcrumbs */}
+      {showBreadcrumbs && (
+        <GraphBreadcrumbs
+          breadcrumbs={clustering.breadcrumbs}
+          onNavigate={clustering.collapseTo}
+          isShowingAll={clustering.isShowingAll}
+          onShowAllChange={clustering.setShowingAll}
+          nodeCount={nodes.length}
+        />
+      )}
+
       {/* Legend */}
       {showLegend && (
         <NodeLegend
           initiallyExpanded={false}
           showNodeTypes={true}
           showNodeStates={true}
+          showEdgeTypes={true}
+          nodeTypes={nodeTypes}
+          edgeTypes={edgeTypes}
+          filter={filter}
+          onFilterChange={onFilterChange}
         />
       )}
 
@@ -298,8 +518,16 @@ export function GraphContainer({
           onZoomOut={handleZoomOut}
           onFitToScreen={handleFitToScreen}
           onTogglePan={handleTogglePan}
+          onExportSvg={handleExportSvg}
+          onExportPng={handleExportPng}
+          isExporting={isExporting}
           zoomLevel={1.0}
           panEnabled={panEnabled}
+          showShortcuts={showShortcuts}
+          onToggleShortcuts={handleToggleShortcuts}
+          edgeThreshold={edgeThreshold}
+          onEdgeThresholdChange={showThreshold ? setEdgeThreshold : undefined}
+          hiddenEdgeCount={hiddenEdgeCount}
         />
       )}
 
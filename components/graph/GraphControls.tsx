@@ -1,13 +1,15 @@
 /**
  * GraphControls Component
  *
- * Zoom, pan, and view controls for the graph visualization.
+ * Zoom, pan, view, image export and edge strength controls for the graph
+ * visualization.
  */
 
 'use client';
 
-import { ZoomIn, ZoomOut, Maximize2, Move } from 'lucide-react';
+import { ZoomIn, ZoomOut, Maximize2, Move, Download } from 'lucide-react';
 import { useState } from 'react';
+import { GRAPH_KEYBOARD_SHORTCUTS } from '@/lib/graph-navigation';
 
 /**
  * Props for GraphControls component
@@ -25,12 +27,36 @@ export interface GraphControlsProps {
   /** Callback when pan mode is toggled */
   onTogglePan?: (enabled: boolean) => void;
 
+  /** Callback when SVG export is chosen (export menu hidden if neither export callback is set) */
+  onExportSvg?: () => void;
+
+  /** Callback when PNG export is chosen, with the pixel density */
+  onExportPng?: (scale: number) => void;
+
+  /** Whether an export is in progress */
+  isExporting?: boolean;
+
   /** Current zoom level (0.1 to 2.0) */
   zoomLevel?: number;
 
   /** Whether pan mode is enabled */
   panEnabled?: boolean;
 
+  /** Whether the keyboard shortcut cheat sheet is open (uncontrolled if omitted) */
+  showShortcuts?: boolean;
+
+  /** Callback when the cheat sheet is toggled */
+  onToggleShortcuts?: () => void;
+
+  /** Minimum edge strength shown (0-1) */
+  edgeThreshold?: number;
+
+  /** Callback when the strength threshold changes (slider hidden if omitted) */
+  onEdgeThresholdChange?: (threshold: number) => void;
+
+  /** Number of edges hidden by the threshold */
+  hiddenEdgeCount?: number;
+
   /** Custom CSS class name */
   className?: string;
 }
@@ -42,7 +68,10 @@ export interface GraphControlsProps {
  * - Zoom in/out
  * - Fit graph to screen
  * - Toggle pan mode
+ * - Export as SVG / PNG
  * - Visual zoom level indicator
+ * - Keyboard shortcut cheat sheet
+ * - Edge strength threshold (hides weak connections)
  *
  * Positioned in bottom-right corner of graph container.
  *
@@ -62,11 +91,33 @@ export function GraphControls({
   onZoomOut,
   onFitToScreen,
   onTogglePan,
+  onExportSvg,
+  onExportPng,
+  isExporting = false,
   zoomLevel = 1.0,
   panEnabled = false,
+  showShortcuts,
+  onToggleShortcuts,
+  edgeThreshold = 0,
+  onEdgeThresholdChange,
+  hiddenEdgeCount = 0,
   className = '',
 }: GraphControlsProps) {
-  const [isExpanded, setIsExpanded] = useState(false);
+  const [isExpandedState, setIsExpandedState] = useState(false);
+  const isExpanded = showShortcuts ?? isExpandedState;
+  const toggleExpanded = onToggleShortcuts ?? (() => setIsExpandedState(!isExpandedState));
+  const [isExportMenuOpen, setIsExportMenuOpen] = useState(false);
+
+  const canExport = !!(onExportSvg || onExportPng);
+  const exportOptions = [
+    ...(onExportSvg ? [{ label: 'SVG', onSelect: onExportSvg }] : []),
+    ...(onExportPng
+      ? [
+          { label: 'PNG (2×)', onSelect: () => onExportPng(2) },
+          { label: 'PNG (4×)', onSelect: () => onExportPng(4) },
+        ]
+      : []),
+  ];
 
   const zoomPercentage = Math.round(zoomLevel * 100);
   const canZoomIn = zoomLevel < 2.0;
@@ -78,6 +129,34 @@ export function GraphControls({
       role="toolbar"
       aria-label="Graph controls"
     >
+      {/* Edge Strength Threshold */}
+      {onEdgeThresholdChange && (
+        <div className="bg-chrome px-3 py-2 rounded-lg shadow-lg border border-primary-100 w-48">
+          <label
+            htmlFor="edge-threshold"
+            className="flex justify-between text-xs font-medium text-text-primary"
+          >
+            <span>Min. strength</span>
+            <span className="text-text-secondary">{Math.round(edgeThreshold * 100)}%</span>
+          </label>
+          <input
+            id="edge-threshold"
+            type="range"
+            min={0}
+            max={1}
+            step={0.05}
+            value={edgeThreshold}
+            onChange={(event) => onEdgeThresholdChange(Number(event.target.value))}
+            className="w-full accent-primary-700"
+          />
+          <div className="text-xs text-text-secondary" aria-live="polite">
+            {hiddenEdgeCount === 0
+              ? 'All connections shown'
+              : `${hiddenEdgeCount} weak connection${hiddenEdgeCount === 1 ? '' : 's'} hidden`}
+          </div>
+        </div>
+      )}
+
       {/* Zoom Level Indicator */}
       <div className="bg-chrome px-3 py-1.5 rounded-lg shadow-lg border border-primary-100">
         <div className="text-xs font-medium text-text-secondary">
@@ -153,40 +232,87 @@ export function GraphControls({
         >
           <Move className="w-5 h-5" />
         </button>
+
+        {/* Export Menu */}
+        {canExport && (
+          <div className="relative">
+            <button
+              onClick={() => setIsExportMenuOpen(!isExportMenuOpen)}
+              disabled={isExporting}
+              className={`
+                p-2 rounded-md transition-colors
+                ${
+                  isExporting
+                    ? 'text-text-muted cursor-wait'
+                    : 'hover:bg-primary-50 text-primary-700 hover:text-primary-900'
+                }
+              `}
+              aria-label="Export image"
+              title="Export image"
+              aria-haspopup="menu"
+              aria-expanded={isExportMenuOpen}
+            >
+              <Download className="w-5 h-5" />
+            </button>
+
+            {isExportMenuOpen && (
+              <div
+                className="absolute right-full bottom-0 mr-2 bg-chrome rounded-lg shadow-lg border border-primary-100 p-1 w-28"
+                role="menu"
+                aria-label="Export format"
+              >
+                {exportOptions.map(({ label, onSelect }) => (
+                  <button
+                    key={label}
+                    onClick={() => {
+                      setIsExportMenuOpen(false);
+                      onSelect();
+                    }}
+                    className="w-full text-left px-3 py-1.5 rounded-md text-xs font-medium text-primary-700 hover:bg-primary-50 hover:text-primary-900 transition-colors"
+                    role="menuitem"
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
       </div>
 
-      {/* Keyboard Shortcuts Hint */}
+      {/* Keyboard Shortcuts Cheat Sheet */}
       {isExpanded && (
-        <div className="bg-chrome rounded-lg shadow-lg border border-primary-100 p-3 w-48">
+        <div
+          id="graph-shortcuts"
+          className="bg-chrome rounded-lg shadow-lg border border-primary-100 p-3 w-56"
+        >
           <div className="text-xs font-semibold text-text-primary mb-2">
             Keyboard Shortcuts
           </div>
           <div className="space-y-1.5 text-xs text-text-secondary">
-            <div className="flex justify-between">
-              <span className="font-mono bg-primary-50 px-1.5 py-0.5 rounded">+</span>
-              <span>Zoom in</span>
-            </div>
-            <div className="flex justify-between">
-              <span className="font-mono bg-primary-50 px-1.5 py-0.5 rounded">-</span>
-              <span>Zoom out</span>
-            </div>
-            <div className="flex justify-between">
-              <span className="font-mono bg-primary-50 px-1.5 py-0.5 rounded">0</span>
-              <span>Fit to screen</span>
-            </div>
-            <div className="flex justify-between">
-              <span className="font-mono bg-primary-50 px-1.5 py-0.5 rounded">Space</span>
-              <span>Pan mode</span>
-            </div>
+            {GRAPH_KEYBOARD_SHORTCUTS.map(({ keys, description }) => (
+              <div key={description} className="flex justify-between gap-2">
+                <span className="flex gap-1">
+                  {keys.map((key) => (
+                    <kbd key={key} className="font-mono bg-primary-50 px-1.5 py-0.5 rounded">
+                      {key}
+                    </kbd>
+                  ))}
+                </span>
+                <span className="text-right">{description}</span>
+              </div>
+            ))}
           </div>
         </div>
       )}
 
       {/* Help Toggle Button */}
       <button
-        onClick={() => setIsExpanded(!isExpanded)}
+        onClick={toggleExpanded}
         className="bg-chrome px-3 py-1.5 rounded-lg shadow-lg border border-primary-100 hover:bg-primary-50 transition-colors"
         aria-label={isExpanded ? 'Hide keyboard shortcuts' : 'Show keyboard shortcuts'}
+        aria-expanded={isExpanded}
+        aria-controls="graph-shortcuts"
       >
         <span className="text-xs font-medium text-primary-700">
           {isExpanded ? '✕' : '?'}
@@ -0,0 +1,160 @@
+/**
+ * GraphDiffSummary Component
+ *
+ * Summary of the changes between the open graph version and a compared
+ * one. Added and renamed concepts are marked on the graph itself; removed
+ * ones only exist in the compared version, so they are listed here.
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { ChevronDown, ChevronUp, X } from 'lucide-react';
+import { DIFF_COLORS } from '@/lib/mermaid-theme';
+import { hasGraphChanges, type GraphDiff } from '@/lib/graph-diff';
+
+/**
+ * Props for GraphDiffSummary component
+ */
+export interface GraphDiffSummaryProps {
+  /** Changes from the compared version to the open one */
+  diff: GraphDiff;
+
+  /** Version number of the compared version */
+  compareVersion: number;
+
+  /** Callback to stop comparing */
+  onClose: () => void;
+
+  /** Callback when an added or renamed concept is clicked */
+  onNodeSelect?: (nodeId: string) => void;
+
+  /** Custom CSS class name */
+  className?: string;
+}
+
+/**
+ * "3 concepts" / "1 connection"
+ */
+function count(value: number, noun: string): string {
+  return `${value} ${noun}${value === 1 ? '' : 's'}`;
+}
+
+export function GraphDiffSummary({
+  diff,
+  compareVersion,
+  onClose,
+  onNodeSelect,
+  className = '',
+}: GraphDiffSummaryProps) {
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  const totals = [
+    { label: 'added', color: DIFF_COLORS.added, nodes: diff.addedNodes.length, edges: diff.addedEdges.length },
+    { label: 'renamed', color: DIFF_COLORS.renamed, nodes: diff.renamedNodes.length, edges: diff.renamedEdges.length },
+    { label: 'removed', color: DIFF_COLORS.removed, nodes: diff.removedNodes.length, edges: diff.removedEdges.length },
+  ].filter((total) => total.nodes + total.edges > 0);
+
+  const nodeButton = (nodeId: string, title: string) =>
+    onNodeSelect ? (
+      <button onClick={() => onNodeSelect(nodeId)} className="hover:text-primary hover:underline">
+        {title}
+      </button>
+    ) : (
+      title
+    );
+
+  return (
+    <div
+      className={`border-b border-gray-200 bg-background px-4 py-2 text-sm ${className}`}
+      role="region"
+      aria-label={`Changes since version ${compareVersion}`}
+    >
+      <div className="flex items-center gap-3">
+        <span className="font-medium text-text-primary">
+          Compared with version {compareVersion}
+        </span>
+
+        {hasGraphChanges(diff) ? (
+          <ul className="flex flex-wrap items-center gap-3 text-text-secondary">
+            {totals.map((total) => (
+              <li key={total.label} className="flex items-center gap-1.5">
+                <span
+                  className="inline-block h-2.5 w-2.5 rounded-full"
+                  style={{ backgroundColor: total.color }}
+                  aria-hidden="true"
+                />
+                {total.label}: {count(total.nodes, 'concept')}, {count(total.edges, 'connection')}
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <span className="text-text-secondary">No changes</span>
+        )}
+
+        <div className="ml-auto flex items-center gap-1">
+          {hasGraphChanges(diff) && (
+            <button
+              onClick={() => setIsExpanded((expanded) => !expanded)}
+              className="flex items-center gap-1 rounded-md px-2 py-1 text-text-secondary hover:bg-primary-50"
+              aria-expanded={isExpanded}
+            >
+              {isExpanded ? 'Hide details' : 'Details'}
+              {isExpanded ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+            </button>
+          )}
+          <button
+            onClick={onClose}
+            className="rounded-md p-1 text-text-muted hover:bg-primary-50 hover:text-text-primary"
+            aria-label="Stop comparing"
+            title="Stop comparing"
+          >
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+      </div>
+
+      {isExpanded && (
+        <ul className="mt-2 max-h-48 space-y-1 overflow-y-auto text-text-secondary custom-scrollbar">
+          {diff.addedNodes.map((node) => (
+            <li key={`added-${node.id}`}>
+              <span style={{ color: DIFF_COLORS.added }}>Added</span> {nodeButton(node.id, node.title)}
+            </li>
+          ))}
+          {diff.renamedNodes.map(({ from, to }) => (
+            <li key={`renamed-${to.id}`}>
+              <span style={{ color: DIFF_COLORS.renamed }}>Renamed</span> {from.title} →{' '}
+              {nodeButton(to.id, to.title)}
+            </li>
+          ))}
+          {diff.removedNodes.map((node) => (
+            <li key={`removed-${node.id}`}>
+              <span style={{ color: DIFF_COLORS.removed }}>Removed</span>{' '}
+              <span className="line-through">{node.title}</span>
+            </li>
+          ))}
+          {diff.addedEdges.map((edge) => (
+            <li key={`added-${edge.id}`}>
+              <span style={{ color: DIFF_COLORS.added }}>Added</span> {edge.fromNode.title} →{' '}
+              {edge.toNode.title} ({edge.relationship})
+            </li>
+          ))}
+          {diff.renamedEdges.map(({ from, to }) => (
+            <li key={`renamed-${to.id}`}>
+              <span style={{ color: DIFF_COLORS.renamed }}>Relabeled</span> {to.fromNode.title} →{' '}
+              {to.toNode.title}: {from.relationship} → {to.relationship}
+            </li>
+          ))}
+          {diff.removedEdges.map((edge) => (
+            <li key={`removed-${edge.id}`}>
+              <span style={{ color: DIFF_COLORS.removed }}>Removed</span>{' '}
+              <span className="line-through">
+                {edge.fromNode.title} → {edge.toNode.title} ({edge.relationship})
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
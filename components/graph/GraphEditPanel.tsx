@@ -0,0 +1,423 @@
+/**
+ * GraphEditPanel Component
+ *
+ * Controls for edit mode: add a concept, rename or delete the selected
+ * concept or connection, and connect two concepts (dragging one onto
+ * another in the graph fills in the pair). New connections need a short
+ * justification before they can be added. Edits stay local until saved.
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { Link2, Plus, Save, Trash2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { DEFAULT_NODE_TYPE, type EdgeInput } from '@/lib/graph-editor';
+import type { GraphEdge, GraphNode, GraphNodeCreateRequest } from '@/types/api.types';
+
+/**
+ * Props for GraphEditPanel component
+ */
+export interface GraphEditPanelProps {
+  /** Nodes of the draft */
+  nodes: GraphNode[];
+
+  /** Edges of the draft */
+  edges: GraphEdge[];
+
+  /** Concept selected in the graph */
+  selectedNodeId: string | null;
+
+  /** Connection selected in the graph */
+  selectedEdgeId: string | null;
+
+  /** Callback to clear the selection */
+  onSelectionClear: () => void;
+
+  /** Pair of concepts to connect (filled in by dragging in the graph) */
+  connection: { from: string; to: string };
+
+  /** Callback when the pair to connect changes */
+  onConnectionChange: (connection: { from: string; to: string }) => void;
+
+  /** Callback to add a concept */
+  onAddNode: (request: GraphNodeCreateRequest) => void;
+
+  /** Callback to rename a concept */
+  onRenameNode: (nodeId: string, title: string) => void;
+
+  /** Callback to delete a concept and its connections */
+  onDeleteNode: (nodeId: string) => void;
+
+  /** Callback to connect two concepts; returns an error message for invalid input */
+  onAddEdge: (input: EdgeInput) => string | null;
+
+  /** Callback to relabel a connection */
+  onRenameEdge: (edgeId: string, relationship: string) => void;
+
+  /** Callback to delete a connection */
+  onDeleteEdge: (edgeId: string) => void;
+
+  /** Number of unsaved edits */
+  pendingCount: number;
+
+  /** Callback to save the edits */
+  onSave: () => void;
+
+  /** Callback to discard the edits and leave edit mode */
+  onCancel: () => void;
+
+  /** Edits are being saved */
+  isSaving?: boolean;
+
+  /** Error message from the last save */
+  error?: string | null;
+
+  /** Custom CSS class name */
+  className?: string;
+}
+
+const SELECT_CLASS =
+  'h-8 min-w-0 flex-1 rounded-md border border-gray-200 bg-white px-2 text-sm text-text-primary focus:outline-none focus:ring-2 focus:ring-primary';
+
+/**
+ * Rename and delete the selected concept
+ */
+function SelectedNodeEditor({
+  node,
+  edgeCount,
+  onRename,
+  onDelete,
+}: {
+  node: GraphNode;
+  edgeCount: number;
+  onRename: (title: string) => void;
+  onDelete: () => void;
+}) {
+  const [title, setTitle] = useState(node.title);
+
+  return (
+    <form
+      className="flex items-end gap-2"
+      onSubmit={(event) => {
+        event.preventDefault();
+        onRename(title);
+      }}
+    >
+      <Input
+        label="Selected concept"
+        value={title}
+        onChange={(event) => setTitle(event.target.value)}
+        containerClassName="flex-1"
+      />
+      <Button
+        type="submit"
+        size="sm"
+        variant="secondary"
+        disabled={!title.trim() || title.trim() === node.title}
+      >
+        Rename
+      </Button>
+      <Button
+        type="button"
+        size="sm"
+        variant="ghost"
+        onClick={onDelete}
+        leftIcon={<Trash2 className="h-4 w-4" />}
+        title={
+          edgeCount > 0
+            ? `Also deletes ${edgeCount} connection${edgeCount === 1 ? '' : 's'}`
+            : undefined
+        }
+      >
+        Delete
+      </Button>
+    </form>
+  );
+}
+
+/**
+ * Relabel and delete the selected connection
+ */
+function SelectedEdgeEditor({
+  edge,
+  onRename,
+  onDelete,
+}: {
+  edge: GraphEdge;
+  onRename: (relationship: string) => void;
+  onDelete: () => void;
+}) {
+  const [relationship, setRelationship] = useState(edge.relationship);
+  const justification = edge.metadata?.justification;
+
+  return (
+    <form
+      onSubmit={(event) => {
+        event.preventDefault();
+        onRename(relationship);
+      }}
+    >
+      <div className="flex items-end gap-2">
+        <Input
+          label={`${edge.fromNode.title} → ${edge.toNode.title}`}
+          value={relationship}
+          onChange={(event) => setRelationship(event.target.value)}
+          containerClassName="flex-1"
+        />
+        <Button
+          type="submit"
+          size="sm"
+          variant="secondary"
+          disabled={!relationship.trim() || relationship.trim() === edge.relationship}
+        >
+          Relabel
+        </Button>
+        <Button
+          type="button"
+          size="sm"
+          variant="ghost"
+          onClick={onDelete}
+          leftIcon={<Trash2 className="h-4 w-4" />}
+        >
+          Delete
+        </Button>
+      </div>
+      {typeof justification === 'string' && (
+        <p className="mt-1 text-text-secondary">Why: {justification}</p>
+      )}
+    </form>
+  );
+}
+
+export function GraphEditPanel({
+  nodes,
+  edges,
+  selectedNodeId,
+  selectedEdgeId,
+  onSelectionClear,
+  connection,
+  onConnectionChange,
+  onAddNode,
+  onRenameNode,
+  onDeleteNode,
+  onAddEdge,
+  onRenameEdge,
+  onDeleteEdge,
+  pendingCount,
+  onSave,
+  onCancel,
+  isSaving = false,
+  error,
+  className = '',
+}: GraphEditPanelProps) {
+  const [newTitle, setNewTitle] = useState('');
+  const [newType, setNewType] = useState(DEFAULT_NODE_TYPE);
+  const [relationship, setRelationship] = useState('');
+  const [justification, setJustification] = useState('');
+  const [connectError, setConnectError] = useState<string | null>(null);
+
+  const nodeTypes = Array.from(new Set([DEFAULT_NODE_TYPE, ...nodes.map((node) => node.nodeType)]));
+  const selectedNode = nodes.find((node) => node.id === selectedNodeId);
+  const selectedEdge = edges.find((edge) => edge.id === selectedEdgeId);
+
+  const handleAddNode = () => {
+    if (!newTitle.trim()) return;
+    onAddNode({ title: newTitle, nodeType: newType });
+    setNewTitle('');
+  };
+
+  const handleConnect = () => {
+    const validationError = onAddEdge({ ...connection, relationship, justification });
+    setConnectError(validationError);
+    if (validationError) return;
+
+    onConnectionChange({ from: '', to: '' });
+    setRelationship('');
+    setJustification('');
+  };
+
+  return (
+    <div
+      className={`border-b border-gray-200 bg-background px-4 py-3 text-sm ${className}`}
+      role="region"
+      aria-label="Edit graph"
+    >
+      <div className="flex items-center gap-3">
+        <span className="font-medium text-text-primary">Edit graph</span>
+        <span className="text-text-secondary">
+          {pendingCount === 0
+            ? 'No unsaved changes'
+            : `${pendingCount} unsaved change${pendingCount === 1 ? '' : 's'}`}
+        </span>
+        <div className="ml-auto flex items-center gap-2">
+          <Button
+            size="sm"
+            onClick={onSave}
+            isLoading={isSaving}
+            disabled={pendingCount === 0}
+            leftIcon={<Save className="h-4 w-4" />}
+          >
+            Save
+          </Button>
+          <Button size="sm" variant="ghost" onClick={onCancel} disabled={isSaving}>
+            Cancel
+          </Button>
+        </div>
+      </div>
+      {error && (
+        <p className="mt-1 text-error" role="alert">
+          {error}
+        </p>
+      )}
+
+      {/* Add a concept */}
+      <form
+        className="mt-3 flex items-center gap-2"
+        onSubmit={(event) => {
+          event.preventDefault();
+          handleAddNode();
+        }}
+      >
+        <input
+          value={newTitle}
+          onChange={(event) => setNewTitle(event.target.value)}
+          placeholder="New concept…"
+          className={SELECT_CLASS}
+          aria-label="New concept title"
+        />
+        <select
+          value={newType}
+          onChange={(event) => setNewType(event.target.value)}
+          className="h-8 rounded-md border border-gray-200 bg-white px-2 text-sm text-text-primary focus:outline-none focus:ring-2 focus:ring-primary"
+          aria-label="New concept type"
+        >
+          {nodeTypes.map((type) => (
+            <option key={type} value={type}>
+              {type}
+            </option>
+          ))}
+        </select>
+        <Button
+          type="submit"
+          size="sm"
+          variant="secondary"
+          disabled={!newTitle.trim()}
+          leftIcon={<Plus className="h-4 w-4" />}
+        >
+          Add
+        </Button>
+      </form>
+
+      {/* Selected concept or connection */}
+      {(selectedNode || selectedEdge) && (
+        <div className="mt-3 flex items-start gap-2 rounded-md border border-gray-200 bg-white p-2">
+          <div className="min-w-0 flex-1">
+            {selectedNode ? (
+              <SelectedNodeEditor
+                key={selectedNode.id}
+                node={selectedNode}
+                edgeCount={
+                  edges.filter((edge) => edge.from === selectedNode.id || edge.to === selectedNode.id)
+                    .length
+                }
+                onRename={(title) => onRenameNode(selectedNode.id, title)}
+                onDelete={() => {
+                  onDeleteNode(selectedNode.id);
+                  onSelectionClear();
+                }}
+              />
+            ) : (
+              selectedEdge && (
+                <SelectedEdgeEditor
+                  key={selectedEdge.id}
+                  edge={selectedEdge}
+                  onRename={(label) => onRenameEdge(selectedEdge.id, label)}
+                  onDelete={() => {
+                    onDeleteEdge(selectedEdge.id);
+                    onSelectionClear();
+                  }}
+                />
+              )
+            )}
+          </div>
+          <button
+            onClick={onSelectionClear}
+            className="rounded-md p-1 text-text-muted hover:bg-primary-50 hover:text-text-primary"
+            aria-label="Clear selection"
+            title="Clear selection"
+          >
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+      )}
+
+      {/* Connect two concepts */}
+      <p className="mt-3 text-text-secondary">
+        Drag one concept onto another in the graph, or pick two to connect:
+      </p>
+      <div className="mt-1 flex items-center gap-2">
+        <select
+          value={connection.from}
+          onChange={(event) => onConnectionChange({ ...connection, from: event.target.value })}
+          className={SELECT_CLASS}
+          aria-label="Connect from"
+        >
+          <option value="">From…</option>
+          {nodes.map((node) => (
+            <option key={node.id} value={node.id}>
+              {node.title}
+            </option>
+          ))}
+        </select>
+        <span aria-hidden="true">→</span>
+        <select
+          value={connection.to}
+          onChange={(event) => onConnectionChange({ ...connection, to: event.target.value })}
+          className={SELECT_CLASS}
+          aria-label="Connect to"
+        >
+          <option value="">To…</option>
+          {nodes
+            .filter((node) => node.id !== connection.from)
+            .map((node) => (
+              <option key={node.id} value={node.id}>
+                {node.title}
+              </option>
+            ))}
+        </select>
+        <input
+          value={relationship}
+          onChange={(event) => setRelationship(event.target.value)}
+          placeholder="Relationship…"
+          className={SELECT_CLASS}
+          aria-label="Relationship"
+        />
+      </div>
+      {connection.from && connection.to && (
+        <div className="mt-2">
+          <Textarea
+            label="Why does this connection make sense?"
+            value={justification}
+            onChange={(event) => setJustification(event.target.value)}
+            rows={2}
+            required
+            error={connectError ?? undefined}
+          />
+          <div className="mt-2 flex justify-end">
+            <Button
+              size="sm"
+              onClick={handleConnect}
+              disabled={!relationship.trim() || !justification.trim()}
+              leftIcon={<Link2 className="h-4 w-4" />}
+            >
+              Connect
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
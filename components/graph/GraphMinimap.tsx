@@ -0,0 +1,121 @@
+/**
+ * GraphMinimap Component
+ *
+ * Overview of a large graph: a scaled-down clone of the rendered SVG with
+ * a rectangle marking the part shown in the main view. Clicking or
+ * dragging on the minimap pans the main view there.
+ */
+
+'use client';
+
+import { useEffect, useRef } from 'react';
+import {
+  getMinimapLayout,
+  getVisibleRegion,
+  minimapToGraphPoint,
+  type GraphViewport,
+} from '@/lib/graph-minimap';
+
+/**
+ * Props for GraphMinimap component
+ */
+export interface GraphMinimapProps {
+  /** Main view state from MermaidGraph's onViewportChange */
+  viewport: GraphViewport;
+
+  /** Callback to center the main view on a point in graph coordinates */
+  onPan: (x: number, y: number) => void;
+
+  /** Custom CSS class name */
+  className?: string;
+}
+
+export function GraphMinimap({ viewport, onPan, className = '' }: GraphMinimapProps) {
+  const cloneRef = useRef<HTMLDivElement>(null);
+  const isDraggingRef = useRef(false);
+
+  const { svgElement, bounds, transform } = viewport;
+  const layout = getMinimapLayout(bounds);
+  const region = getVisibleRegion(transform, viewport);
+
+  /**
+   * Clone the rendered graph whenever it is re-rendered
+   */
+  useEffect(() => {
+    const container = cloneRef.current;
+    if (!container) return;
+
+    const clone = svgElement.cloneNode(true) as SVGSVGElement;
+    // Draw the whole graph, without the main view's zoom/pan
+    clone.querySelector('g')?.removeAttribute('transform');
+    clone.setAttribute('viewBox', `${bounds.x} ${bounds.y} ${bounds.width} ${bounds.height}`);
+    clone.setAttribute('preserveAspectRatio', 'xMidYMid meet');
+    clone.setAttribute('aria-hidden', 'true');
+    clone.setAttribute('focusable', 'false');
+    clone.style.width = '100%';
+    clone.style.height = '100%';
+    clone.style.maxWidth = 'none';
+    clone.style.pointerEvents = 'none';
+    clone.querySelectorAll('[tabindex]').forEach((element) => element.removeAttribute('tabindex'));
+
+    container.replaceChildren(clone);
+    return () => container.replaceChildren();
+  }, [svgElement, bounds]);
+
+  /**
+   * Pan the main view to the pointer position
+   */
+  const panToPointer = (event: React.PointerEvent<HTMLDivElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    const point = minimapToGraphPoint(
+      { x: event.clientX - rect.left, y: event.clientY - rect.top },
+      bounds,
+      layout.scale
+    );
+    onPan(point.x, point.y);
+  };
+
+  return (
+    <div
+      className={`absolute left-6 bg-chrome rounded-lg shadow-lg border border-primary-100 p-1 ${className}`}
+      role="group"
+      aria-label="Graph overview"
+    >
+      <div
+        className="relative overflow-hidden cursor-pointer touch-none"
+        style={{ width: layout.width, height: layout.height }}
+        title="Click or drag to move the view"
+        onPointerDown={(event) => {
+          isDraggingRef.current = true;
+          event.currentTarget.setPointerCapture(event.pointerId);
+          panToPointer(event);
+        }}
+        onPointerMove={(event) => {
+          if (isDraggingRef.current) panToPointer(event);
+        }}
+        onPointerUp={(event) => {
+          isDraggingRef.current = false;
+          event.currentTarget.releasePointerCapture(event.pointerId);
+        }}
+        onPointerCancel={() => {
+          isDraggingRef.current = false;
+        }}
+      >
+        <div ref={cloneRef} className="absolute inset-0" />
+        {/* Part of the graph shown in the main view */}
+        <div
+          className="absolute border-2 border-primary-700 bg-primary-700/10 rounded-sm pointer-events-none"
+          style={{
+            left: (region.x - bounds.x) * layout.scale,
+            top: (region.y - bounds.y) * layout.scale,
+            width: region.width * layout.scale,
+            height: region.height * layout.scale,
+          }}
+          aria-hidden="true"
+        />
+      </div>
+    </div>
+  );
+}
+
+export default GraphMinimap;
@@ -0,0 +1,215 @@
+/**
+ * GraphSearch Component
+ *
+ * Search box overlaid on the graph. Fuzzy-matches node titles and searches
+ * summaries, source snippets and the user's notes, then jumps to the chosen
+ * node.
+ */
+
+'use client';
+
+import { Search, X } from 'lucide-react';
+import { useMemo, useState, useId, type KeyboardEvent } from 'react';
+import {
+  searchGraphNodes,
+  getHighlightSegments,
+  type GraphSearchField,
+} from '@/lib/graph-search';
+import type { GraphNode, Note } from '@/types/api.types';
+
+/**
+ * Props for GraphSearch component
+ */
+export interface GraphSearchProps {
+  /** Graph nodes to search */
+  nodes: GraphNode[];
+
+  /** User notes (matched with the node they're attached to) */
+  notes?: Note[];
+
+  /** Callback when a result is chosen */
+  onSelectNode: (nodeId: string) => void;
+
+  /** Custom CSS class name */
+  className?: string;
+}
+
+/**
+ * Label shown for results that didn't match on the title
+ */
+const FIELD_LABELS: Record<GraphSearchField, string> = {
+  title: 'Title',
+  summary: 'Summary',
+  contentSnippet: 'Source',
+  note: 'Your note',
+};
+
+/**
+ * Text with matched ranges wrapped in <mark>
+ */
+function HighlightedText({ text, ranges }: { text: string; ranges: Array<[number, number]> }) {
+  return (
+    <>
+      {getHighlightSegments(text, ranges).map((segment, index) =>
+        segment.isMatch ? (
+          <mark key={index} className="bg-warning/40 text-inherit rounded-sm">
+            {segment.text}
+          </mark>
+        ) : (
+          <span key={index}>{segment.text}</span>
+        )
+      )}
+    </>
+  );
+}
+
+/**
+ * GraphSearch - Find a concept and jump to it
+ *
+ * Arrow keys move through results, Enter selects, Escape clears.
+ * Positioned in the top-left corner of the graph container.
+ *
+ * @example
+ * ```tsx
+ * <GraphSearch
+ *   nodes={graph.nodes}
+ *   notes={notes}
+ *   onSelectNode={(nodeId) => graphRef.current?.focusNode(nodeId)}
+ * />
+ * ```
+ */
+export function GraphSearch({ nodes, notes = [], onSelectNode, className = '' }: GraphSearchProps) {
+  const [query, setQuery] = useState('');
+  const [isOpen, setIsOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const listboxId = useId();
+
+  const results = useMemo(() => searchGraphNodes(nodes, notes, query), [nodes, notes, query]);
+  const showResults = isOpen && query.trim().length > 0;
+
+  const clear = () => {
+    setQuery('');
+    setActiveIndex(0);
+  };
+
+  const select = (nodeId: string) => {
+    onSelectNode(nodeId);
+    setIsOpen(false);
+  };
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    switch (event.key) {
+      case 'ArrowDown':
+        event.preventDefault();
+        setIsOpen(true);
+        setActiveIndex((index) => Math.min(index + 1, results.length - 1));
+        break;
+      case 'ArrowUp':
+        event.preventDefault();
+        setActiveIndex((index) => Math.max(index - 1, 0));
+        break;
+      case 'Enter':
+        if (results[activeIndex]) {
+          event.preventDefault();
+          select(results[activeIndex].node.id);
+        }
+        break;
+      case 'Escape':
+        if (query) {
+          event.preventDefault();
+          clear();
+        } else {
+          event.currentTarget.blur();
+        }
+        break;
+    }
+  };
+
+  return (
+    <div className={`absolute top-6 left-6 w-80 ${className}`}>
+      <div className="bg-chrome rounded-lg shadow-lg border border-primary-100 flex items-center gap-2 px-3">
+        <Search className="w-4 h-4 text-text-muted flex-shrink-0" aria-hidden="true" />
+        <input
+          type="text"
+          role="combobox"
+          value={query}
+          onChange={(event) => {
+            setQuery(event.target.value);
+            setActiveIndex(0);
+            setIsOpen(true);
+          }}
+          onFocus={() => setIsOpen(true)}
+          onBlur={() => setIsOpen(false)}
+          onKeyDown={handleKeyDown}
+          placeholder="Search concepts and notes…"
+          className="flex-1 bg-transparent py-2 text-sm text-text-primary placeholder:text-text-muted focus:outline-none"
+          aria-label="Search graph"
+          aria-expanded={showResults}
+          aria-controls={listboxId}
+          aria-activedescendant={
+            showResults && results[activeIndex] ? `${listboxId}-${activeIndex}` : undefined
+          }
+          aria-autocomplete="list"
+        />
+        {query && (
+          <button
+            onClick={clear}
+            className="p-1 rounded-md text-text-muted hover:text-text-primary hover:bg-primary-50 transition-colors"
+            aria-label="Clear search"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+
+      {showResults && (
+        <ul
+          id={listboxId}
+          role="listbox"
+          aria-label="Search results"
+          className="mt-2 bg-chrome rounded-lg shadow-lg border border-primary-100 p-1 max-h-96 overflow-y-auto"
+        >
+          {results.length === 0 ? (
+            <li className="px-3 py-2 text-sm text-text-muted">No matching concepts</li>
+          ) : (
+            results.map((result, index) => (
+              <li
+                key={result.node.id}
+                id={`${listboxId}-${index}`}
+                role="option"
+                aria-selected={index === activeIndex}
+                // Select before the input's blur closes the list
+                onMouseDown={(event) => {
+                  event.preventDefault();
+                  select(result.node.id);
+                }}
+                onMouseEnter={() => setActiveIndex(index)}
+                className={`px-3 py-2 rounded-md cursor-pointer transition-colors ${
+                  index === activeIndex ? 'bg-primary-50' : ''
+                }`}
+              >
+                <div className="text-sm font-medium text-text-primary truncate">
+                  {result.field === 'title' ? (
+                    <HighlightedText text={result.text} ranges={result.ranges} />
+                  ) : (
+                    result.node.title
+                  )}
+                </div>
+                {result.field !== 'title' && (
+                  <div className="text-xs text-text-secondary mt-0.5 line-clamp-2">
+                    <span className="font-medium text-text-muted">
+                      {FIELD_LABELS[result.field]}:{' '}
+                    </span>
+                    <HighlightedText text={result.text} ranges={result.ranges} />
+                  </div>
+                )}
+              </li>
+            ))
+          )}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export default GraphSearch;
@@ -0,0 +1,132 @@
+/**
+ * GraphVersionBar Component
+ *
+ * Version controls above the graph: switch between the versions generated
+ * from the same document, pick a version to compare against, and
+ * regenerate the graph as a new version.
+ */
+
+'use client';
+
+import { RefreshCw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import type { GraphListItem } from '@/types/api.types';
+
+/**
+ * Props for GraphVersionBar component
+ */
+export interface GraphVersionBarProps {
+  /** Graph ID of the open version */
+  graphId: string;
+
+  /** Version number of the open version */
+  version: number;
+
+  /** Versions of the document's graph, newest first */
+  versions: GraphListItem[];
+
+  /** Graph ID of the compared version (null when not comparing) */
+  compareGraphId: string | null;
+
+  /** Callback to open another version */
+  onVersionChange: (graphId: string) => void;
+
+  /** Callback to compare against a version, or stop comparing with null */
+  onCompareChange: (graphId: string | null) => void;
+
+  /** Callback to generate a new version */
+  onRegenerate: () => void;
+
+  /** A new version is being generated */
+  isRegenerating?: boolean;
+
+  /** Regeneration error message */
+  error?: string | null;
+
+  /** Custom CSS class name */
+  className?: string;
+}
+
+const SELECT_CLASS =
+  'h-8 rounded-md border border-gray-200 bg-white px-2 text-sm text-text-primary focus:outline-none focus:ring-2 focus:ring-primary';
+
+export function GraphVersionBar({
+  graphId,
+  version,
+  versions,
+  compareGraphId,
+  onVersionChange,
+  onCompareChange,
+  onRegenerate,
+  isRegenerating = false,
+  error,
+  className = '',
+}: GraphVersionBarProps) {
+  // The open graph may be missing from the list (e.g. still being indexed)
+  const options: Pick<GraphListItem, 'id' | 'version'>[] = versions.some(
+    (item) => item.id === graphId
+  )
+    ? versions
+    : [{ id: graphId, version }, ...versions];
+  const compareOptions = options.filter((item) => item.id !== graphId);
+
+  return (
+    <div
+      className={`flex flex-wrap items-center gap-3 border-b border-gray-200 bg-chrome px-4 py-2 text-sm ${className}`}
+    >
+      <label className="flex items-center gap-2 text-text-secondary">
+        Version
+        <select
+          value={graphId}
+          onChange={(event) => onVersionChange(event.target.value)}
+          className={SELECT_CLASS}
+          aria-label="Graph version"
+        >
+          {options.map((item) => (
+            <option key={item.id} value={item.id}>
+              {item.version}
+              {item === options[0] && options.length > 1 ? ' (latest)' : ''}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      {compareOptions.length > 0 && (
+        <label className="flex items-center gap-2 text-text-secondary">
+          Compare with
+          <select
+            value={compareGraphId ?? ''}
+            onChange={(event) => onCompareChange(event.target.value || null)}
+            className={SELECT_CLASS}
+            aria-label="Compare with version"
+          >
+            <option value="">None</option>
+            {compareOptions.map((item) => (
+              <option key={item.id} value={item.id}>
+                Version {item.version}
+              </option>
+            ))}
+          </select>
+        </label>
+      )}
+
+      <div className="ml-auto flex items-center gap-3">
+        {error && (
+          <span className="text-error" role="alert">
+            {error}
+          </span>
+        )}
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={onRegenerate}
+          disabled={isRegenerating}
+          aria-busy={isRegenerating}
+          leftIcon={<RefreshCw className={`h-4 w-4 ${isRegenerating ? 'animate-spin' : ''}`} />}
+        >
+          {isRegenerating ? 'Regenerating...' : 'Regenerate'}
+        </Button>
+      </div>
+    </div>
+  );
+}
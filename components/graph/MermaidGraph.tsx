@@ -7,18 +7,54 @@
 
 'use client';
 
-import { useEffect, useRef, useCallback, useState, useImperativeHandle, forwardRef, memo } from 'react';
+import {
+  useEffect,
+  useRef,
+  useCallback,
+  useState,
+  useImperativeHandle,
+  forwardRef,
+  memo,
+  type KeyboardEvent,
+} from 'react';
 import mermaid from 'mermaid';
 import { getMermaidTheme } from '@/lib/mermaid-theme';
+import { serializeGraphSvg, svgToPng } from '@/lib/graph-export';
+import { getFilteredEdgeIds, getFilteredNodeIds, type GraphFilter } from '@/lib/graph-filter';
+import {
+  getEdgeStrength,
+  getEdgeType,
+  getWeakEdgeIds,
+  isSymmetricRelationship,
+} from '@/lib/edge-types';
+import {
+  ARROW_KEY_DIRECTIONS,
+  getNeighbor,
+  getNextOutgoingEdge,
+  getTabOrder,
+} from '@/lib/graph-navigation';
 import {
   attachGraphEventHandlers,
   applyNodeStyles,
   highlightConnectedNodes,
+  applyReadingProgress,
+  applySourceColors,
+  applyDiffOverlay,
+  applyEdgeStyles,
+  applyEdgeThreshold,
   addSVGFilters,
   getGraphBounds,
+  findNodeElement,
+  getNodeCenter,
+  applyNodeFilter,
+  getNodeIdFromElement,
+  tagRenderedEdges,
+  type EdgeStyle,
   type NodeState,
   type GraphEventHandlers,
 } from '@/lib/graph-utils';
+import type { GraphChange, GraphDiffOverlay } from '@/lib/graph-diff';
+import { getCenteredTransform, type GraphViewport } from '@/lib/graph-minimap';
 import type { GraphNode, GraphEdge } from '@/types/api.types';
 
 /**
@@ -40,15 +76,45 @@ export interface MermaidGraphProps {
   /** Callback when node is clicked */
   onNodeClick?: (nodeId: string) => void;
 
-  /** Callback when edge is clicked */
+  /** Callback when edge is clicked (or chosen with the `e` key) */
   onEdgeClick?: (edgeId: string) => void;
 
+  /** Callback when `n` is pressed on a focused node */
+  onNodeNotes?: (nodeId: string) => void;
+
+  /** Callback when a node is dragged onto another (enables drag-to-connect) */
+  onConnectNodes?: (fromNodeId: string, toNodeId: string) => void;
+
+  /** Callback when `?` is pressed inside the graph */
+  onShowShortcuts?: () => void;
+
   /** Currently active/selected node ID */
   activeNodeId?: string | null;
 
   /** Node states for dynamic styling */
   nodeStates?: Record<string, NodeState>;
 
+  /** Nodes citing the passage open in the reading panel (outlined) */
+  citedNodeIds?: string[];
+
+  /** Nodes with a cited passage in the reading panel's viewport (softly marked) */
+  visibleNodeIds?: string[];
+
+  /** Share of each node's cited passages read so far (0-1), drawn as a bar */
+  readingProgress?: Record<string, number>;
+
+  /** Source document color of each node in a merged graph, drawn as a stripe */
+  sourceColors?: Record<string, string>;
+
+  /** Nodes and edges changed since a compared graph version (see getDiffOverlay) */
+  diff?: GraphDiffOverlay;
+
+  /** Legend filter - non-matching nodes and their edges are dimmed or hidden */
+  filter?: GraphFilter;
+
+  /** Minimum edge strength (0-1) - weaker edges are hidden */
+  edgeThreshold?: number;
+
   /** Custom CSS class name */
   className?: string;
 
@@ -60,6 +126,15 @@ export interface MermaidGraphProps {
 
   /** Whether pan mode is enabled */
   panEnabled?: boolean;
+
+  /** Callback when the view is rendered, zoomed or panned (for the minimap) */
+  onViewportChange?: (viewport: GraphViewport) => void;
+
+  /**
+   * Node to center, once it is rendered - for nodes the parent is about to
+   * reveal (e.g. inside a collapsed cluster). Pass a new object per request.
+   */
+  focusRequest?: { nodeId: string } | null;
 }
 
 /**
@@ -70,6 +145,14 @@ export interface MermaidGraphHandle {
   zoomOut: () => void;
   fitToScreen: () => void;
   resetTransform: () => void;
+  /** Pan (and zoom in if far out) so the node is centered; returns false if it isn't rendered */
+  focusNode: (nodeId: string) => boolean;
+  /** Pan so a point in graph coordinates is centered, keeping the zoom level */
+  panTo: (x: number, y: number) => void;
+  /** Serialize the rendered graph (with current node states) as standalone SVG markup */
+  exportSvg: () => Promise<string>;
+  /** Rasterize the rendered graph to a PNG at the given pixel density (default 2) */
+  exportPng: (scale?: number) => Promise<Blob>;
 }
 
 /**
@@ -83,7 +166,7 @@ export interface MermaidGraphHandle {
  * - Mouse wheel zoom
  * - Dynamic node state visualization (notes, mastery, etc.)
  * - Connected node highlighting on hover
- * - Keyboard accessibility
+ * - Keyboard navigation along edges (arrows, topological Tab order, e/n/+/-/0)
  *
  * @example
  * ```tsx
@@ -110,12 +193,24 @@ const MermaidGraphComponent = forwardRef<MermaidGraphHandle, MermaidGraphProps>(
       edges,
       onNodeClick,
       onEdgeClick,
+      onNodeNotes,
+      onConnectNodes,
+      onShowShortcuts,
       activeNodeId,
       nodeStates = {},
+      citedNodeIds,
+      visibleNodeIds,
+      readingProgress,
+      sourceColors,
+      diff,
+      filter,
+      edgeThreshold = 0,
       className = '',
       enableZoom = true,
       zoomLevel = 1.0,
       panEnabled = false,
+      onViewportChange,
+      focusRequest,
     },
     ref
   ) {
@@ -133,6 +228,8 @@ const MermaidGraphComponent = forwardRef<MermaidGraphHandle, MermaidGraphProps>(
     const svgRef = useRef<SVGSVGElement | null>(null);
     const gRef = useRef<SVGGElement | null>(null);
     const cleanupRef = useRef<(() => void) | null>(null);
+    // Last edge chosen with `e`, so repeated presses cycle
+    const lastEdgeRef = useRef<{ nodeId: string; edgeId: string } | null>(null);
     const [isRendered, setIsRendered] = useState(false);
     const [renderError, setRenderError] = useState<string | null>(null);
     const [hoveredNodeId, setHoveredNodeId] = useState<string | null>(null);
@@ -156,6 +253,10 @@ const MermaidGraphComponent = forwardRef<MermaidGraphHandle, MermaidGraphProps>(
     const isDraggingRef = useRef(false);
     const dragStartRef = useRef({ x: 0, y: 0 });
     const dragStartTransformRef = useRef({ translateX: 0, translateY: 0 });
+    // SVG node ID a connection is being dragged from
+    const connectFromRef = useRef<string | null>(null);
+    // Last focus request already centered
+    const handledFocusRef = useRef<{ nodeId: string } | null>(null);
 
     console.log('[MermaidGraph] State:', {
       isRendered,
@@ -246,6 +347,190 @@ const MermaidGraphComponent = forwardRef<MermaidGraphHandle, MermaidGraphProps>(
       fitToScreen();
     }, [fitToScreen]);
 
+    /**
+     * Get the rendered element for a node
+     *
+     * Accepts either the graph node ID or its Mermaid node key.
+     */
+    const getNodeElement = useCallback(
+      (nodeId: string) => {
+        if (!svgRef.current) return null;
+        const nodeKey = nodes.find((n) => n.id === nodeId)?.nodeKey;
+        return (
+          findNodeElement(svgRef.current, nodeId) ??
+          (nodeKey ? findNodeElement(svgRef.current, nodeKey) : null)
+        );
+      },
+      [nodes]
+    );
+
+    /**
+     * Center a node in the viewport
+     *
+     * Accepts either the graph node ID or its Mermaid node key.
+     */
+    const focusNode = useCallback(
+      (nodeId: string) => {
+        if (!gRef.current || !wrapperRef.current) return false;
+
+        const element = getNodeElement(nodeId);
+        if (!element) return false;
+
+        const center = getNodeCenter(element, gRef.current);
+        if (!center) return false;
+
+        const { clientWidth, clientHeight } = wrapperRef.current;
+        setTransform((prev) => {
+          const scale = Math.max(prev.scale, 1.0);
+          const newTransform = {
+            scale,
+            translateX: clientWidth / 2 - center.x * scale,
+            translateY: clientHeight / 2 - center.y * scale,
+          };
+          applyTransform(newTransform);
+          return newTransform;
+        });
+        return true;
+      },
+      [getNodeElement, applyTransform]
+    );
+
+    /**
+     * Move keyboard focus to a node (roving tabindex) and bring it into view
+     */
+    const moveKeyboardFocus = useCallback(
+      (nodeId: string) => {
+        const element = getNodeElement(nodeId);
+        if (!element || !svgRef.current) return false;
+
+        svgRef.current
+          .querySelectorAll('.node[tabindex="0"]')
+          .forEach((el) => el.setAttribute('tabindex', '-1'));
+        element.setAttribute('tabindex', '0');
+        element.focus({ preventScroll: true });
+        focusNode(nodeId);
+        return true;
+      },
+      [getNodeElement, focusNode]
+    );
+
+    /**
+     * Keyboard shortcuts for the canvas and the focused node
+     */
+    const handleKeyDown = useCallback(
+      (event: KeyboardEvent<HTMLDivElement>) => {
+        if (event.ctrlKey || event.metaKey || event.altKey) return;
+
+        // Canvas shortcuts
+        const canvasActions: Record<string, (() => void) | undefined> = {
+          '+': zoomIn,
+          '=': zoomIn,
+          '-': zoomOut,
+          '0': fitToScreen,
+          '?': onShowShortcuts,
+        };
+        const canvasAction = canvasActions[event.key];
+        if (canvasAction) {
+          event.preventDefault();
+          canvasAction();
+          return;
+        }
+
+        // Node shortcuts
+        const nodeElement = (event.target as Element).closest('.node');
+        const svgNodeId = nodeElement ? getNodeIdFromElement(nodeElement) : null;
+        const node = svgNodeId
+          ? nodes.find((n) => n.nodeKey === svgNodeId) ?? nodes.find((n) => n.id === svgNodeId)
+          : undefined;
+        if (!svgNodeId || !node) return;
+
+        const direction = ARROW_KEY_DIRECTIONS[event.key];
+        if (direction) {
+          event.preventDefault();
+          const neighborId = getNeighbor(node.id, direction, nodes, edges);
+          if (neighborId) moveKeyboardFocus(neighborId);
+          return;
+        }
+
+        switch (event.key) {
+          case 'Tab': {
+            // Past either end, let the browser move focus out of the graph
+            const tabOrder = getTabOrder(nodes, edges);
+            const nextId = tabOrder[tabOrder.indexOf(node.id) + (event.shiftKey ? -1 : 1)];
+            if (nextId && moveKeyboardFocus(nextId)) {
+              event.preventDefault();
+            }
+            break;
+          }
+          case 'e': {
+            event.preventDefault();
+            const previousEdgeId =
+              lastEdgeRef.current?.nodeId === node.id ? lastEdgeRef.current.edgeId : null;
+            const edge = getNextOutgoingEdge(node.id, edges, previousEdgeId);
+            if (edge) {
+              lastEdgeRef.current = { nodeId: node.id, edgeId: edge.id };
+              onEdgeClick?.(edge.id);
+            }
+            break;
+          }
+          case 'n':
+            event.preventDefault();
+            onNodeNotes?.(svgNodeId);
+            break;
+        }
+      },
+      [
+        nodes,
+        edges,
+        zoomIn,
+        zoomOut,
+        fitToScreen,
+        moveKeyboardFocus,
+        onEdgeClick,
+        onNodeNotes,
+        onShowShortcuts,
+      ]
+    );
+
+    /**
+     * Center the view on a point in graph coordinates
+     */
+    const panTo = useCallback(
+      (x: number, y: number) => {
+        if (!wrapperRef.current) return;
+
+        const { clientWidth, clientHeight } = wrapperRef.current;
+        setTransform((prev) => {
+          const newTransform = getCenteredTransform(
+            prev,
+            { x, y },
+            { width: clientWidth, height: clientHeight }
+          );
+          applyTransform(newTransform);
+          return newTransform;
+        });
+      },
+      [applyTransform]
+    );
+
+    /**
+     * Export current SVG (zoom/pan is dropped, node state styling is kept)
+     */
+    const exportSvg = useCallback(async () => {
+      if (!svgRef.current) {
+        throw new Error('Graph has not been rendered yet');
+      }
+      return serializeGraphSvg(svgRef.current);
+    }, []);
+
+    /**
+     * Export current graph as PNG
+     */
+    const exportPng = useCallback(
+      async (scale = 2) => svgToPng(await exportSvg(), scale),
+      [exportSvg]
+    );
+
     /**
      * Expose imperative methods to parent
      */
@@ -256,8 +541,12 @@ const MermaidGraphComponent = forwardRef<MermaidGraphHandle, MermaidGraphProps>(
         zoomOut,
         fitToScreen,
         resetTransform,
+        focusNode,
+        panTo,
+        exportSvg,
+        exportPng,
       }),
-      [zoomIn, zoomOut, fitToScreen, resetTransform]
+      [zoomIn, zoomOut, fitToScreen, resetTransform, focusNode, panTo, exportSvg, exportPng]
     );
 
     /**
@@ -267,6 +556,17 @@ const MermaidGraphComponent = forwardRef<MermaidGraphHandle, MermaidGraphProps>(
       (e: React.MouseEvent) => {
         console.log('[MermaidGraph] handleMouseDown:', { panEnabled, button: e.button });
 
+        // Drag from one node onto another to connect them
+        const nodeElement = (e.target as Element).closest('.node');
+        if (onConnectNodes && nodeElement && e.button === 0) {
+          e.preventDefault();
+          connectFromRef.current = getNodeIdFromElement(nodeElement);
+          if (wrapperRef.current) {
+            wrapperRef.current.style.cursor = 'crosshair';
+          }
+          return;
+        }
+
         // Only pan if pan mode is enabled or middle mouse button
         if (!panEnabled && e.button !== 1) {
           console.log('[MermaidGraph] Pan not enabled and not middle button, ignoring');
@@ -298,7 +598,7 @@ const MermaidGraphComponent = forwardRef<MermaidGraphHandle, MermaidGraphProps>(
           wrapperRef.current.style.cursor = 'grabbing';
         }
       },
-      [panEnabled, transform]
+      [panEnabled, transform, onConnectNodes]
     );
 
     /**
@@ -324,16 +624,27 @@ const MermaidGraphComponent = forwardRef<MermaidGraphHandle, MermaidGraphProps>(
     );
 
     /**
-     * Handle mouse up for pan
+     * Handle mouse up for pan, and for dropping a dragged connection
      */
-    const handleMouseUp = useCallback(() => {
+    const handleMouseUp = useCallback((e: MouseEvent) => {
       isDraggingRef.current = false;
 
+      const fromSvgId = connectFromRef.current;
+      connectFromRef.current = null;
+      const targetElement = e.type === 'mouseup' ? (e.target as Element).closest('.node') : null;
+      const toSvgId = targetElement ? getNodeIdFromElement(targetElement) : null;
+      if (fromSvgId && toSvgId && fromSvgId !== toSvgId) {
+        // The SVG identifies nodes by Mermaid key
+        const toNodeId = (svgId: string) =>
+          nodes.find((node) => node.nodeKey === svgId || node.id === svgId)?.id ?? svgId;
+        onConnectNodes?.(toNodeId(fromSvgId), toNodeId(toSvgId));
+      }
+
       // Reset cursor
       if (wrapperRef.current) {
         wrapperRef.current.style.cursor = panEnabled ? 'grab' : 'default';
       }
-    }, [panEnabled]);
+    }, [panEnabled, nodes, onConnectNodes]);
 
     /**
      * Handle mouse wheel for zoom
@@ -520,6 +831,14 @@ const MermaidGraphComponent = forwardRef<MermaidGraphHandle, MermaidGraphProps>(
       }
     }, [graphId, mermaidCode]);
 
+    /**
+     * Mark rendered edges with their graph edge, for the edge effects below
+     */
+    useEffect(() => {
+      if (!isRendered || !svgRef.current) return;
+      tagRenderedEdges(svgRef.current, edges);
+    }, [isRendered, edges]);
+
     /**
      * Attach event handlers after rendering
      */
@@ -550,12 +869,21 @@ const MermaidGraphComponent = forwardRef<MermaidGraphHandle, MermaidGraphProps>(
       // Attach handlers and store cleanup function
       cleanupRef.current = attachGraphEventHandlers(svgRef.current, handlers);
 
+      // Roving tabindex: one node is in the page Tab sequence, Tab between
+      // nodes follows the graph topology (see handleKeyDown)
+      svgRef.current
+        .querySelectorAll('.node')
+        .forEach((el) => el.setAttribute('tabindex', '-1'));
+      const [firstNodeId] = getTabOrder(nodes, edges);
+      const entryElement = firstNodeId ? getNodeElement(firstNodeId) : null;
+      entryElement?.setAttribute('tabindex', '0');
+
       return () => {
         if (cleanupRef.current) {
           cleanupRef.current();
         }
       };
-    }, [isRendered, onNodeClick, onEdgeClick]);
+    }, [isRendered, onNodeClick, onEdgeClick, nodes, edges, getNodeElement]);
 
     /**
      * Apply dynamic node styling based on state
@@ -574,6 +902,19 @@ const MermaidGraphComponent = forwardRef<MermaidGraphHandle, MermaidGraphProps>(
         };
       }
 
+      // Mark nodes following the reading panel (the SVG identifies nodes by key)
+      nodes.forEach((node) => {
+        const isCited = !!citedNodeIds?.includes(node.id);
+        const isInView = !!visibleNodeIds?.includes(node.id);
+        if (!isCited && !isInView) return;
+
+        completeNodeStates[node.nodeKey] = {
+          ...completeNodeStates[node.nodeKey],
+          isCited,
+          isInView,
+        };
+      });
+
       // Mark hovered node
       if (hoveredNodeId) {
         completeNodeStates[hoveredNodeId] = {
@@ -584,7 +925,138 @@ const MermaidGraphComponent = forwardRef<MermaidGraphHandle, MermaidGraphProps>(
 
       // Apply styles
       applyNodeStyles(svgRef.current, completeNodeStates);
-    }, [isRendered, nodeStates, activeNodeId, hoveredNodeId]);
+    }, [isRendered, nodeStates, activeNodeId, hoveredNodeId, citedNodeIds, visibleNodeIds, nodes]);
+
+    /**
+     * Draw reading progress bars
+     */
+    useEffect(() => {
+      if (!isRendered || !svgRef.current) return;
+
+      const progressByKey: Record<string, number> = {};
+      nodes.forEach((node) => {
+        const progress = readingProgress?.[node.id];
+        if (progress !== undefined) {
+          progressByKey[node.nodeKey] = progress;
+        }
+      });
+
+      applyReadingProgress(svgRef.current, progressByKey);
+    }, [isRendered, readingProgress, nodes]);
+
+    /**
+     * Mark nodes with their source document color
+     */
+    useEffect(() => {
+      if (!isRendered || !svgRef.current) return;
+
+      const colorsByKey: Record<string, string> = {};
+      nodes.forEach((node) => {
+        const color = sourceColors?.[node.id];
+        if (color) {
+          colorsByKey[node.nodeKey] = color;
+        }
+      });
+
+      applySourceColors(svgRef.current, colorsByKey);
+    }, [isRendered, sourceColors, nodes]);
+
+    /**
+     * Style edges by relationship category and strength
+     */
+    useEffect(() => {
+      if (!isRendered || !svgRef.current) return;
+
+      const edgeStyles: Record<string, EdgeStyle> = {};
+      edges.forEach((edge) => {
+        edgeStyles[edge.id] = {
+          edgeType: getEdgeType(edge),
+          bidirectional: isSymmetricRelationship(edge.relationship ?? ''),
+          strength: getEdgeStrength(edge),
+        };
+      });
+
+      applyEdgeStyles(svgRef.current, edgeStyles);
+    }, [isRendered, edges]);
+
+    /**
+     * Mark nodes and edges changed since the compared version
+     */
+    useEffect(() => {
+      if (!isRendered || !svgRef.current) return;
+
+      const keyById = new Map(nodes.map((node) => [node.id, node.nodeKey]));
+      const nodeChanges: Record<string, GraphChange> = {};
+
+      Object.entries(diff?.nodes ?? {}).forEach(([nodeId, change]) => {
+        const nodeKey = keyById.get(nodeId);
+        if (nodeKey) nodeChanges[nodeKey] = change;
+      });
+
+      // Rendered edges are tagged with their edge ID
+      applyDiffOverlay(svgRef.current, nodeChanges, diff?.edges ?? {});
+    }, [isRendered, diff, nodes, edges]);
+
+    /**
+     * Apply legend filter
+     *
+     * Re-runs on hover because highlightConnectedNodes resets node opacity.
+     */
+    useEffect(() => {
+      if (!isRendered || !svgRef.current) return;
+
+      const matchingIds = filter ? getFilteredNodeIds(nodes, nodeStates, filter) : null;
+      // The SVG identifies nodes by Mermaid key; accept either
+      const visibleIds = matchingIds
+        ? new Set(
+            nodes
+              .filter((node) => matchingIds.has(node.id))
+              .flatMap((node) => [node.id, node.nodeKey])
+          )
+        : null;
+
+      const visibleEdgeIds = filter ? getFilteredEdgeIds(edges, filter) : null;
+
+      applyNodeFilter(svgRef.current, visibleIds, filter?.mode ?? 'dim', visibleEdgeIds);
+    }, [isRendered, filter, nodes, edges, nodeStates, hoveredNodeId]);
+
+    /**
+     * Hide edges below the strength threshold
+     */
+    useEffect(() => {
+      if (!isRendered || !svgRef.current) return;
+
+      applyEdgeThreshold(svgRef.current, getWeakEdgeIds(edges, edgeThreshold));
+    }, [isRendered, edges, edgeThreshold]);
+
+    /**
+     * Report the view to the minimap
+     */
+    useEffect(() => {
+      if (!isRendered || !svgRef.current || !wrapperRef.current || !initialBoundsRef.current) {
+        return;
+      }
+
+      onViewportChange?.({
+        svgElement: svgRef.current,
+        bounds: initialBoundsRef.current,
+        transform,
+        width: wrapperRef.current.clientWidth,
+        height: wrapperRef.current.clientHeight,
+      });
+    }, [isRendered, transform, onViewportChange]);
+
+    /**
+     * Center a requested node once a render shows it
+     */
+    useEffect(() => {
+      if (!isRendered || !focusRequest || handledFocusRef.current === focusRequest) return;
+
+      // Not drawn yet: retried when the pending re-render completes
+      if (focusNode(focusRequest.nodeId)) {
+        handledFocusRef.current = focusRequest;
+      }
+    }, [isRendered, focusRequest, focusNode]);
 
     /**
      * Render graph when mermaidCode changes
@@ -624,7 +1096,7 @@ const MermaidGraphComponent = forwardRef<MermaidGraphHandle, MermaidGraphProps>(
       <div
         ref={wrapperRef}
         className={`w-full h-full bg-canvas overflow-hidden ${className}`}
-        role={isRendered ? 'img' : 'status'}
+        role={isRendered ? 'application' : 'status'}
         aria-label={
           isRendered
             ? `Knowledge graph with ${nodes.length} concepts and ${edges.length} connections`
@@ -632,6 +1104,7 @@ const MermaidGraphComponent = forwardRef<MermaidGraphHandle, MermaidGraphProps>(
         }
         aria-live={isRendered ? undefined : 'polite'}
         onMouseDown={handleMouseDown}
+        onKeyDown={handleKeyDown}
       >
         {/* Show loading state while rendering */}
         {!isRendered && (
@@ -665,7 +1138,18 @@ function arePropsEqual(
     prevProps.graphId === nextProps.graphId &&
     prevProps.mermaidCode === nextProps.mermaidCode &&
     prevProps.activeNodeId === nextProps.activeNodeId &&
+    prevProps.nodeStates === nextProps.nodeStates &&
+    prevProps.citedNodeIds === nextProps.citedNodeIds &&
+    prevProps.visibleNodeIds === nextProps.visibleNodeIds &&
+    prevProps.readingProgress === nextProps.readingProgress &&
+    prevProps.sourceColors === nextProps.sourceColors &&
+    prevProps.diff === nextProps.diff &&
+    prevProps.onConnectNodes === nextProps.onConnectNodes &&
+    prevProps.filter === nextProps.filter &&
+    prevProps.edgeThreshold === nextProps.edgeThreshold &&
     prevProps.panEnabled === nextProps.panEnabled &&
+    prevProps.onViewportChange === nextProps.onViewportChange &&
+    prevProps.focusRequest === nextProps.focusRequest &&
     prevProps.enableZoom === nextProps.enableZoom
   );
 }
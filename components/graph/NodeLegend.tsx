@@ -1,14 +1,25 @@
 /**
  * NodeLegend Component
  *
- * Displays legend explaining node type colors and node state indicators.
+ * Displays legend explaining node type colors, node state indicators and
+ * connection styles. When given a filter, legend entries toggle which nodes
+ * and connections are emphasized.
  */
 
 'use client';
 
 import { useState } from 'react';
 import { ChevronDown, ChevronUp, Info } from 'lucide-react';
-import { NODE_TYPE_COLORS, NODE_STATE_COLORS } from '@/lib/mermaid-theme';
+import { NODE_TYPE_COLORS, NODE_STATE_COLORS, EDGE_STYLES } from '@/lib/mermaid-theme';
+import { EDGE_TYPE_LEGEND, type EdgeType } from '@/lib/edge-types';
+import {
+  EMPTY_GRAPH_FILTER,
+  isGraphFilterActive,
+  toggleFilterValue,
+  type GraphFilter,
+  type GraphFilterMode,
+  type NodeStateFilter,
+} from '@/lib/graph-filter';
 
 /**
  * Props for NodeLegend component
@@ -26,8 +37,96 @@ export interface NodeLegendProps {
   /** Show node states section (default true) */
   showNodeStates?: boolean;
 
-  /** Show edge types section (default false, can be added later) */
+  /** Show edge types section (default false) */
   showEdgeTypes?: boolean;
+
+  /**
+   * Edge types present in the graph. When set, the edge types section lists
+   * these instead of every type.
+   */
+  edgeTypes?: EdgeType[];
+
+  /**
+   * Node types present in the graph. When set, the node types section lists
+   * these instead of the full palette.
+   */
+  nodeTypes?: string[];
+
+  /** Current filter (legend entries are only toggleable with onFilterChange) */
+  filter?: GraphFilter;
+
+  /** Callback when a legend entry or the filter mode is toggled */
+  onFilterChange?: (filter: GraphFilter) => void;
+}
+
+/**
+ * Labels for the known node types
+ */
+const NODE_TYPE_LEGEND: Array<{
+  type: keyof typeof NODE_TYPE_COLORS;
+  label: string;
+  description: string;
+}> = [
+  { type: 'root', label: 'Root Concept', description: 'Foundation concepts' },
+  { type: 'supporting', label: 'Supporting Concept', description: 'Secondary ideas' },
+  { type: 'example', label: 'Example', description: 'Practical applications' },
+  { type: 'definition', label: 'Definition', description: 'Terminology nodes' },
+  { type: 'question', label: 'Question', description: 'Areas to explore' },
+];
+
+/**
+ * Legend entries for node states
+ */
+const NODE_STATE_LEGEND: Array<{
+  state: NodeStateFilter;
+  color: string;
+  borderColor?: string;
+  isBorderOnly?: boolean;
+  label: string;
+  description: string;
+}> = [
+  {
+    state: 'hasNotes',
+    color: '#FFFFFF',
+    borderColor: NODE_STATE_COLORS.withNotes,
+    isBorderOnly: true,
+    label: 'Has Notes',
+    description: "You've added notes",
+  },
+  {
+    state: 'mastered',
+    color: NODE_STATE_COLORS.mastered,
+    label: 'Mastered',
+    description: 'Confirmed understanding',
+  },
+  {
+    state: 'needsReview',
+    color: NODE_STATE_COLORS.needsReview,
+    label: 'Needs Review',
+    description: 'Requires attention',
+  },
+];
+
+/**
+ * Build legend entries for the node types in a graph
+ */
+function getNodeTypeEntries(nodeTypes?: string[]) {
+  if (!nodeTypes) {
+    return NODE_TYPE_LEGEND.map((entry) => ({
+      ...entry,
+      color: NODE_TYPE_COLORS[entry.type] as string,
+    }));
+  }
+
+  return nodeTypes.map((type) => {
+    const known = NODE_TYPE_LEGEND.find((entry) => entry.type === type);
+    return {
+      type,
+      label: known?.label ?? type.charAt(0).toUpperCase() + type.slice(1),
+      description: known?.description,
+      color: (known ? NODE_TYPE_COLORS[known.type] : NODE_TYPE_COLORS.default) as string,
+    };
+  });
 }
 
 /**
@@ -39,6 +138,14 @@ interface LegendItemProps {
   description?: string;
   borderColor?: string;
   isBorderOnly?: boolean;
+  /** Draw the swatch as a line with this dash pattern ('none' for solid) */
+  lineDash?: string;
+  /** Whether the entry is selected in the filter */
+  isSelected?: boolean;
+  /** Whether other entries in the section are selected but not this one */
+  isMuted?: boolean;
+  /** Toggle handler - renders the entry as a toggle button */
+  onToggle?: () => void;
 }
 
 function LegendItem({
@@ -47,24 +154,60 @@ function LegendItem({
   description,
   borderColor,
   isBorderOnly = false,
+  lineDash,
+  isSelected = false,
+  isMuted = false,
+  onToggle,
 }: LegendItemProps) {
-  return (
-    <div className="flex items-start gap-2">
-      <div
-        className="w-5 h-5 rounded flex-shrink-0 mt-0.5"
-        style={{
-          backgroundColor: isBorderOnly ? 'transparent' : color,
-          border: `2px solid ${borderColor || color}`,
-        }}
-        aria-hidden="true"
-      />
+  const content = (
+    <>
+      {lineDash ? (
+        <svg className="w-5 h-5 flex-shrink-0 mt-0.5" viewBox="0 0 20 20" aria-hidden="true">
+          <line
+            x1="0"
+            y1="10"
+            x2="20"
+            y2="10"
+            stroke={color}
+            strokeWidth={2.5}
+            strokeDasharray={lineDash === 'none' ? undefined : lineDash}
+          />
+        </svg>
+      ) : (
+        <div
+          className="w-5 h-5 rounded flex-shrink-0 mt-0.5"
+          style={{
+            backgroundColor: isBorderOnly ? 'transparent' : color,
+            border: `2px solid ${borderColor || color}`,
+          }}
+          aria-hidden="true"
+        />
+      )}
       <div className="flex-1 min-w-0">
         <div className="text-sm font-medium text-text-primary">{label}</div>
         {description && (
           <div className="text-xs text-text-secondary mt-0.5">{description}</div>
         )}
       </div>
-    </div>
+    </>
+  );
+
+  if (!onToggle) {
+    return <div className="flex items-start gap-2">{content}</div>;
+  }
+
+  return (
+    <button
+      onClick={onToggle}
+      className={`
+        w-full flex items-start gap-2 text-left px-2 py-1 rounded-md transition-colors
+        ${isSelected ? 'bg-primary-50 ring-1 ring-primary-300' : 'hover:bg-primary-50'}
+        ${isMuted ? 'opacity-50' : ''}
+      `}
+      aria-pressed={isSelected}
+    >
+      {content}
+    </button>
   );
 }
 
@@ -74,6 +217,10 @@ function LegendItem({
  * Shows meaning of colors used in the graph:
  * - Node types (root, supporting, example, definition, question)
  * - Node states (has notes, mastered, needs review)
+ * - Connection types (causal, definitional, example, contrast, related)
+ *
+ * With `onFilterChange`, clicking a type, state or connection type filters
+ * the graph to it; non-matching nodes and connections are dimmed or hidden.
  *
  * Can be collapsed/expanded. Positioned in top-right corner of graph.
  *
@@ -92,9 +239,27 @@ export function NodeLegend({
   showNodeTypes = true,
   showNodeStates = true,
   showEdgeTypes = false,
+  nodeTypes,
+  edgeTypes,
+  filter = EMPTY_GRAPH_FILTER,
+  onFilterChange,
 }: NodeLegendProps) {
   const [isExpanded, setIsExpanded] = useState(initiallyExpanded);
 
+  const isFilterActive = isGraphFilterActive(filter);
+  const typeEntries = getNodeTypeEntries(nodeTypes);
+  const edgeEntries = edgeTypes
+    ? EDGE_TYPE_LEGEND.filter((entry) => edgeTypes.includes(entry.type))
+    : EDGE_TYPE_LEGEND;
+
+  const toggleType = (type: string) =>
+    onFilterChange?.({ ...filter, nodeTypes: toggleFilterValue(filter.nodeTypes, type) });
+  const toggleState = (state: NodeStateFilter) =>
+    onFilterChange?.({ ...filter, nodeStates: toggleFilterValue(filter.nodeStates, state) });
+  const toggleEdgeType = (type: EdgeType) =>
+    onFilterChange?.({ ...filter, edgeTypes: toggleFilterValue(filter.edgeTypes, type) });
+  const setMode = (mode: GraphFilterMode) => onFilterChange?.({ ...filter, mode });
+
   return (
     <div
       className={`absolute top-6 right-6 bg-chrome rounded-lg shadow-lg border border-primary-100 ${className}`}
@@ -113,6 +278,11 @@ export function NodeLegend({
           <span className="text-sm font-semibold text-text-primary">
             Graph Legend
           </span>
+          {isFilterActive && (
+            <span className="text-xs font-medium text-primary-700 bg-primary-50 px-1.5 py-0.5 rounded">
+              Filtered
+            </span>
+          )}
         </div>
         {isExpanded ? (
           <ChevronUp className="w-4 h-4 text-text-secondary" />
@@ -131,31 +301,17 @@ export function NodeLegend({
                 Node Types
               </div>
               <div className="space-y-2">
-                <LegendItem
-                  color={NODE_TYPE_COLORS.root}
-                  label="Root Concept"
-                  description="Foundation concepts"
-                />
-                <LegendItem
-                  color={NODE_TYPE_COLORS.supporting}
-                  label="Supporting Concept"
-                  description="Secondary ideas"
-                />
-                <LegendItem
-                  color={NODE_TYPE_COLORS.example}
-                  label="Example"
-                  description="Practical applications"
-                />
-                <LegendItem
-                  color={NODE_TYPE_COLORS.definition}
-                  label="Definition"
-                  description="Terminology nodes"
-                />
-                <LegendItem
-                  color={NODE_TYPE_COLORS.question}
-                  label="Question"
-                  description="Areas to explore"
-                />
+                {typeEntries.map(({ type, color, label, description }) => (
+                  <LegendItem
+                    key={type}
+                    color={color}
+                    label={label}
+                    description={description}
+                    isSelected={filter.nodeTypes.includes(type)}
+                    isMuted={filter.nodeTypes.length > 0 && !filter.nodeTypes.includes(type)}
+                    onToggle={onFilterChange ? () => toggleType(type) : undefined}
+                  />
+                ))}
               </div>
             </div>
           )}
@@ -167,64 +323,74 @@ export function NodeLegend({
                 Node States
               </div>
               <div className="space-y-2">
-                <LegendItem
-                  color="#FFFFFF"
-                  borderColor={NODE_STATE_COLORS.withNotes}
-                  label="Has Notes"
-                  description="You've added notes"
-                  isBorderOnly={true}
-                />
-                <LegendItem
-                  color={NODE_STATE_COLORS.mastered}
-                  label="Mastered"
-                  description="Confirmed understanding"
-                />
-                <LegendItem
-                  color={NODE_STATE_COLORS.needsReview}
-                  label="Needs Review"
-                  description="Requires attention"
-                />
+                {NODE_STATE_LEGEND.map(({ state, ...entry }) => (
+                  <LegendItem
+                    key={state}
+                    {...entry}
+                    isSelected={filter.nodeStates.includes(state)}
+                    isMuted={filter.nodeStates.length > 0 && !filter.nodeStates.includes(state)}
+                    onToggle={onFilterChange ? () => toggleState(state) : undefined}
+                  />
+                ))}
               </div>
             </div>
           )}
 
-          {/* Edge Types (optional, for future) */}
-          {showEdgeTypes && (
+          {/* Edge Types */}
+          {showEdgeTypes && edgeEntries.length > 0 && (
             <div>
               <div className="text-xs font-bold text-text-secondary uppercase tracking-wide mb-2">
                 Connections
               </div>
-              <div className="space-y-2 text-xs text-text-secondary">
-                <div className="flex items-center gap-2">
-                  <div className="w-8 h-0.5 bg-primary" />
-                  <span>Causal (leads to)</span>
-                </div>
-                <div className="flex items-center gap-2">
-                  <div className="w-8 h-0.5 bg-edge-definitional" />
-                  <span>Definitional (is a)</span>
-                </div>
-                <div className="flex items-center gap-2">
-                  <div
-                    className="w-8 h-0.5 bg-edge-example"
-                    style={{ backgroundImage: 'repeating-linear-gradient(to right, #00BCD4 0, #00BCD4 4px, transparent 4px, transparent 8px)' }}
-                  />
-                  <span>Example (such as)</span>
-                </div>
-                <div className="flex items-center gap-2">
-                  <div
-                    className="w-8 h-0.5 bg-edge-contrast"
-                    style={{ backgroundImage: 'repeating-linear-gradient(to right, #FF9800 0, #FF9800 2px, transparent 2px, transparent 4px)' }}
+              <div className="space-y-2">
+                {edgeEntries.map(({ type, label, description }) => (
+                  <LegendItem
+                    key={type}
+                    color={EDGE_STYLES[type].stroke}
+                    lineDash={EDGE_STYLES[type].strokeDasharray}
+                    label={label}
+                    description={description}
+                    isSelected={filter.edgeTypes.includes(type)}
+                    isMuted={filter.edgeTypes.length > 0 && !filter.edgeTypes.includes(type)}
+                    onToggle={onFilterChange ? () => toggleEdgeType(type) : undefined}
                   />
-                  <span>Contrasts with</span>
-                </div>
-                <div className="flex items-center gap-2">
-                  <div className="w-8 h-0.5 bg-edge-related" />
-                  <span>Related to</span>
-                </div>
+                ))}
               </div>
             </div>
           )}
 
+          {/* Filter Options */}
+          {onFilterChange && isFilterActive && (
+            <div className="flex items-center justify-between gap-2 pt-2 border-t border-primary-100">
+              <div
+                className="flex rounded-md border border-primary-100 overflow-hidden text-xs font-medium"
+                role="group"
+                aria-label="Non-matching nodes and connections"
+              >
+                {(['dim', 'hide'] as const).map((mode) => (
+                  <button
+                    key={mode}
+                    onClick={() => setMode(mode)}
+                    className={`px-2 py-1 transition-colors ${
+                      filter.mode === mode
+                        ? 'bg-primary-700 text-white'
+                        : 'text-primary-700 hover:bg-primary-50'
+                    }`}
+                    aria-pressed={filter.mode === mode}
+                  >
+                    {mode === 'dim' ? 'Dim others' : 'Hide others'}
+                  </button>
+                ))}
+              </div>
+              <button
+                onClick={() => onFilterChange({ ...EMPTY_GRAPH_FILTER, mode: filter.mode })}
+                className="text-xs font-medium text-primary-700 hover:text-primary-900 hover:underline"
+              >
+                Clear
+              </button>
+            </div>
+          )}
+
           {/* Quick Guide */}
           <div className="pt-2 border-t border-primary-100">
             <div className="text-xs text-text-secondary space-y-1">
@@ -236,6 +402,12 @@ export function NodeLegend({
                 <span className="text-primary-700 font-medium">•</span>
                 <span>Hover to highlight connections</span>
               </div>
+              {onFilterChange && (
+                <div className="flex items-start gap-1.5">
+                  <span className="text-primary-700 font-medium">•</span>
+                  <span>Click a type, state or connection to filter</span>
+                </div>
+              )}
               <div className="flex items-start gap-1.5">
                 <span className="text-primary-700 font-medium">•</span>
                 <span>Use controls to zoom and pan</span>
@@ -0,0 +1,241 @@
+/**
+ * SkeletonPanel Component
+ *
+ * Controls for skeleton mode: how much of the graph is hidden, a picker
+ * for proposing a connection (dragging one node onto another in the graph
+ * works too), feedback on each proposal, and hints that reveal hidden
+ * connections one at a time or all at once.
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { Check, Eye, Lightbulb, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import {
+  HIDDEN_FRACTION_OPTIONS,
+  type ProposalResult,
+  type SkeletonProposal,
+} from '@/lib/skeleton-graph';
+import type { GraphEdge, GraphNode } from '@/types/api.types';
+
+/**
+ * Props for SkeletonPanel component
+ */
+export interface SkeletonPanelProps {
+  /** Graph nodes */
+  nodes: GraphNode[];
+
+  /** Graph edges */
+  edges: GraphEdge[];
+
+  /** Share of edges hidden */
+  fraction: number;
+
+  /** Edges hidden when the mode started */
+  totalHidden: number;
+
+  /** Edges still hidden */
+  hiddenCount: number;
+
+  /** Proposed connections, newest first */
+  proposals: SkeletonProposal[];
+
+  /** Callback to propose a connection */
+  onPropose: (fromNodeId: string, toNodeId: string) => void;
+
+  /** Callback to change the hidden share (restarts) */
+  onFractionChange: (fraction: number) => void;
+
+  /** Callback to reveal the next hidden connection */
+  onRevealNext: () => void;
+
+  /** Callback to reveal the full graph */
+  onRevealAll: () => void;
+
+  /** Callback to leave skeleton mode */
+  onExit: () => void;
+
+  /** Custom CSS class name */
+  className?: string;
+}
+
+const SELECT_CLASS =
+  'h-8 min-w-0 flex-1 rounded-md border border-gray-200 bg-white px-2 text-sm text-text-primary focus:outline-none focus:ring-2 focus:ring-primary';
+
+const RESULT_STYLES: Record<ProposalResult, { className: string; label: string }> = {
+  correct: { className: 'text-success', label: 'Found' },
+  reversed: { className: 'text-success', label: 'Found (reversed)' },
+  visible: { className: 'text-text-muted', label: 'Already shown' },
+  incorrect: { className: 'text-error', label: 'Not in the graph' },
+};
+
+export function SkeletonPanel({
+  nodes,
+  edges,
+  fraction,
+  totalHidden,
+  hiddenCount,
+  proposals,
+  onPropose,
+  onFractionChange,
+  onRevealNext,
+  onRevealAll,
+  onExit,
+  className = '',
+}: SkeletonPanelProps) {
+  const [fromNodeId, setFromNodeId] = useState('');
+  const [toNodeId, setToNodeId] = useState('');
+
+  const titles = new Map(nodes.map((node) => [node.id, node.title]));
+  const relationships = new Map(edges.map((edge) => [edge.id, edge]));
+  const found = proposals.filter(
+    (proposal) => proposal.result === 'correct' || proposal.result === 'reversed'
+  ).length;
+  const revealed = totalHidden - hiddenCount;
+  const isComplete = totalHidden > 0 && hiddenCount === 0;
+
+  const handlePropose = () => {
+    if (!fromNodeId || !toNodeId) return;
+    onPropose(fromNodeId, toNodeId);
+    setToNodeId('');
+  };
+
+  /**
+   * "A → B (leads to)" for a proposal, using the actual edge direction when found
+   */
+  const describe = (proposal: SkeletonProposal) => {
+    const edge = proposal.edgeId ? relationships.get(proposal.edgeId) : undefined;
+    if (!edge) return `${titles.get(proposal.from)} → ${titles.get(proposal.to)}`;
+    return `${edge.fromNode.title} → ${edge.toNode.title} (${edge.relationship})`;
+  };
+
+  return (
+    <div
+      className={`border-b border-gray-200 bg-background px-4 py-3 text-sm ${className}`}
+      role="region"
+      aria-label="Skeleton mode"
+    >
+      <div className="flex items-center gap-3">
+        <span className="font-medium text-text-primary">Complete the graph</span>
+        <label className="flex items-center gap-2 text-text-secondary">
+          Hidden
+          <select
+            value={fraction}
+            onChange={(event) => onFractionChange(Number(event.target.value))}
+            className="h-8 rounded-md border border-gray-200 bg-white px-2 text-sm text-text-primary focus:outline-none focus:ring-2 focus:ring-primary"
+            aria-label="Share of connections hidden"
+          >
+            {HIDDEN_FRACTION_OPTIONS.map((option) => (
+              <option key={option} value={option}>
+                {Math.round(option * 100)}%
+              </option>
+            ))}
+          </select>
+        </label>
+        <button
+          onClick={onExit}
+          className="ml-auto rounded-md p-1 text-text-muted hover:bg-primary-50 hover:text-text-primary"
+          aria-label="Show full graph"
+          title="Show full graph"
+        >
+          <X className="h-4 w-4" />
+        </button>
+      </div>
+
+      <Progress
+        className="mt-2"
+        value={totalHidden > 0 ? (revealed / totalHidden) * 100 : 100}
+        variant="success"
+        label={
+          isComplete
+            ? `Graph complete - you found ${found} of ${totalHidden} connections`
+            : `${revealed} of ${totalHidden} hidden connections revealed (${found} found by you)`
+        }
+      />
+
+      {!isComplete && (
+        <>
+          <p className="mt-3 text-text-secondary">
+            Drag one concept onto another in the graph, or pick two:
+          </p>
+          <div className="mt-1 flex items-center gap-2">
+            <select
+              value={fromNodeId}
+              onChange={(event) => setFromNodeId(event.target.value)}
+              className={SELECT_CLASS}
+              aria-label="Connect from"
+            >
+              <option value="">From…</option>
+              {nodes.map((node) => (
+                <option key={node.id} value={node.id}>
+                  {node.title}
+                </option>
+              ))}
+            </select>
+            <span aria-hidden="true">→</span>
+            <select
+              value={toNodeId}
+              onChange={(event) => setToNodeId(event.target.value)}
+              className={SELECT_CLASS}
+              aria-label="Connect to"
+            >
+              <option value="">To…</option>
+              {nodes
+                .filter((node) => node.id !== fromNodeId)
+                .map((node) => (
+                  <option key={node.id} value={node.id}>
+                    {node.title}
+                  </option>
+                ))}
+            </select>
+            <Button
+              size="sm"
+              onClick={handlePropose}
+              disabled={!fromNodeId || !toNodeId}
+              leftIcon={<Check className="h-4 w-4" />}
+            >
+              Connect
+            </Button>
+          </div>
+        </>
+      )}
+
+      {proposals.length > 0 && (
+        <ul className="mt-3 max-h-32 space-y-1 overflow-y-auto custom-scrollbar" aria-live="polite">
+          {proposals.map((proposal, index) => {
+            const style = RESULT_STYLES[proposal.result];
+            return (
+              <li key={`${proposals.length - index}`} className="flex gap-2">
+                <span className={`shrink-0 font-medium ${style.className}`}>{style.label}</span>
+                <span className="text-text-secondary">{describe(proposal)}</span>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {!isComplete && (
+        <div className="mt-3 flex items-center gap-2">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={onRevealNext}
+            leftIcon={<Lightbulb className="h-4 w-4" />}
+          >
+            Reveal one
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={onRevealAll}
+            leftIcon={<Eye className="h-4 w-4" />}
+          >
+            Reveal all
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
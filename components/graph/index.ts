@@ -13,8 +13,29 @@ export type { GraphControlsProps } from './GraphControls';
 export { NodeLegend } from './NodeLegend';
 export type { NodeLegendProps } from './NodeLegend';
 
+export { GraphSearch } from './GraphSearch';
+export type { GraphSearchProps } from './GraphSearch';
+
 export { GraphContainer } from './GraphContainer';
 export type { GraphContainerProps } from './GraphContainer';
 
+export { GraphVersionBar } from './GraphVersionBar';
+export type { GraphVersionBarProps } from './GraphVersionBar';
+
+export { GraphDiffSummary } from './GraphDiffSummary';
+export type { GraphDiffSummaryProps } from './GraphDiffSummary';
+
+export { SkeletonPanel } from './SkeletonPanel';
+export type { SkeletonPanelProps } from './SkeletonPanel';
+
+export { GraphEditPanel } from './GraphEditPanel';
+export type { GraphEditPanelProps } from './GraphEditPanel';
+
+export { GraphBreadcrumbs } from './GraphBreadcrumbs';
+export type { GraphBreadcrumbsProps } from './GraphBreadcrumbs';
+
+export { GraphMinimap } from './GraphMinimap';
+export type { GraphMinimapProps } from './GraphMinimap';
+
 // Re-export types from utilities
 export type { NodeState, GraphEventHandlers } from '@/lib/graph-utils';
@@ -0,0 +1,335 @@
+'use client';
+
+import * as React from 'react';
+import { Search, Trash2 } from 'lucide-react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Dialog } from '@/components/ui/dialog';
+import { Spinner } from '@/components/ui/spinner';
+import { useDocuments, useDeleteDocument } from '@/hooks/useDocument';
+import { useGraphs } from '@/hooks/useGraph';
+import {
+  buildLibraryEntries,
+  filterLibraryEntries,
+  sortLibraryEntries,
+  DEFAULT_LIBRARY_FILTER,
+  type LibraryEntry,
+  type LibraryFilter,
+  type LibrarySort,
+} from '@/lib/library';
+import type { DocumentStatus } from '@/types/api.types';
+
+/**
+ * Document Library Component
+ *
+ * Every uploaded document with its processing status, size and quality,
+ * and the graph versions generated from it (with note counts), so earlier
+ * graphs can be reopened without keeping their URLs. Documents can be
+ * searched, filtered by status and type, sorted, and deleted.
+ *
+ * @example
+ * <DocumentLibrary />
+ */
+
+export interface DocumentLibraryProps {
+  /**
+   * Initial sort order
+   * @default 'lastOpened'
+   */
+  defaultSort?: LibrarySort;
+}
+
+const SORT_OPTIONS: { value: LibrarySort; label: string }[] = [
+  { value: 'lastOpened', label: 'Last opened' },
+  { value: 'created', label: 'Date added' },
+  { value: 'title', label: 'Title' },
+  { value: 'quality', label: 'Quality' },
+];
+
+const STATUS_BADGES: Record<DocumentStatus, { variant: 'success' | 'info' | 'error'; label: string }> = {
+  ready: { variant: 'success', label: 'Ready' },
+  processing: { variant: 'info', label: 'Processing' },
+  failed: { variant: 'error', label: 'Failed' },
+};
+
+const SELECT_CLASS =
+  'h-10 rounded-md border border-gray-200 bg-white px-2 text-sm text-text-primary focus:outline-none focus:ring-2 focus:ring-primary';
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+/**
+ * Describe when something was last opened, relative to now
+ */
+function formatLastOpened(openedAt: string | null, now: Date): string {
+  if (!openedAt) return 'Never opened';
+
+  const elapsed = now.getTime() - new Date(openedAt).getTime();
+  if (elapsed < MINUTE_MS) return 'Opened just now';
+  if (elapsed < HOUR_MS) return `Opened ${Math.floor(elapsed / MINUTE_MS)} min ago`;
+  if (elapsed < DAY_MS) return `Opened ${Math.floor(elapsed / HOUR_MS)} h ago`;
+
+  const days = Math.floor(elapsed / DAY_MS);
+  if (days === 1) return 'Opened yesterday';
+  if (days < 30) return `Opened ${days} days ago`;
+  return `Opened ${new Date(openedAt).toLocaleDateString()}`;
+}
+
+/**
+ * Size and quality facts shown under the title
+ */
+function describeDocument({ document }: LibraryEntry): string {
+  const facts = [document.sourceType.toUpperCase()];
+
+  if (document.pageCount) {
+    facts.push(`${document.pageCount} ${document.pageCount === 1 ? 'page' : 'pages'}`);
+  }
+  if (document.wordCount) {
+    facts.push(`${document.wordCount.toLocaleString()} words`);
+  }
+  if (document.qualityScore !== null) {
+    facts.push(`Quality ${document.qualityScore}`);
+  }
+
+  return facts.join(' · ');
+}
+
+export function DocumentLibrary({ defaultSort = 'lastOpened' }: DocumentLibraryProps) {
+  const documentsQuery = useDocuments();
+  const graphsQuery = useGraphs();
+  const deleteDocumentMutation = useDeleteDocument();
+
+  const [filter, setFilter] = React.useState<LibraryFilter>(DEFAULT_LIBRARY_FILTER);
+  const [sort, setSort] = React.useState<LibrarySort>(defaultSort);
+  const [pendingDelete, setPendingDelete] = React.useState<LibraryEntry | null>(null);
+
+  const entries = React.useMemo(
+    () => buildLibraryEntries(documentsQuery.data ?? [], graphsQuery.data ?? []),
+    [documentsQuery.data, graphsQuery.data]
+  );
+  const visibleEntries = React.useMemo(
+    () => sortLibraryEntries(filterLibraryEntries(entries, filter), sort),
+    [entries, filter, sort]
+  );
+  const now = new Date();
+
+  const updateFilter = (changes: Partial<LibraryFilter>) => {
+    setFilter((previous) => ({ ...previous, ...changes }));
+  };
+
+  const handleConfirmDelete = () => {
+    if (!pendingDelete) return;
+    deleteDocumentMutation.mutate(pendingDelete.document.id);
+    setPendingDelete(null);
+  };
+
+  if (documentsQuery.isLoading || graphsQuery.isLoading) {
+    return (
+      <div className="flex justify-center py-16">
+        <Spinner size="lg" variant="primary" />
+      </div>
+    );
+  }
+
+  if (documentsQuery.error || graphsQuery.error) {
+    return (
+      <Card>
+        <Card.Body className="py-12 text-center">
+          <h2 className="text-xl font-semibold text-text-primary">
+            Couldn&apos;t load your library
+          </h2>
+          <p className="mt-2 text-text-secondary">
+            {(documentsQuery.error ?? graphsQuery.error)?.message}
+          </p>
+        </Card.Body>
+      </Card>
+    );
+  }
+
+  if (entries.length === 0) {
+    return (
+      <Card>
+        <Card.Body className="py-12 text-center">
+          <h2 className="text-xl font-semibold text-text-primary">Your library is empty</h2>
+          <p className="mt-2 text-text-secondary">
+            <a href="/upload" className="text-primary hover:underline">
+              Upload a document
+            </a>{' '}
+            to generate your first graph.
+          </p>
+        </Card.Body>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Search, filters and sort */}
+      <div className="flex flex-wrap items-end gap-3">
+        <div className="min-w-[16rem] flex-1">
+          <Input
+            type="search"
+            value={filter.query}
+            onChange={(event) => updateFilter({ query: event.target.value })}
+            placeholder="Search documents"
+            aria-label="Search documents"
+            leftIcon={<Search className="h-4 w-4" />}
+          />
+        </div>
+        <select
+          value={filter.status}
+          onChange={(event) =>
+            updateFilter({ status: event.target.value as LibraryFilter['status'] })
+          }
+          className={SELECT_CLASS}
+          aria-label="Filter by status"
+        >
+          <option value="all">All statuses</option>
+          <option value="ready">Ready</option>
+          <option value="processing">Processing</option>
+          <option value="failed">Failed</option>
+        </select>
+        <select
+          value={filter.sourceType}
+          onChange={(event) =>
+            updateFilter({ sourceType: event.target.value as LibraryFilter['sourceType'] })
+          }
+          className={SELECT_CLASS}
+          aria-label="Filter by type"
+        >
+          <option value="all">All types</option>
+          <option value="pdf">PDF</option>
+          <option value="text">Text</option>
+          <option value="markdown">Markdown</option>
+          <option value="url">Web page</option>
+        </select>
+        <select
+          value={sort}
+          onChange={(event) => setSort(event.target.value as LibrarySort)}
+          className={SELECT_CLASS}
+          aria-label="Sort by"
+        >
+          {SORT_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {visibleEntries.length === 0 ? (
+        <p className="py-8 text-center text-text-secondary">No documents match these filters.</p>
+      ) : (
+        <ul className="space-y-4">
+          {visibleEntries.map((entry) => {
+            const { document, graphs } = entry;
+            const status = STATUS_BADGES[document.status];
+            const latestGraph = graphs[0];
+
+            return (
+              <li key={document.id}>
+                <Card>
+                  <Card.Header>
+                    <div className="flex items-start justify-between gap-4">
+                      <div className="min-w-0">
+                        <div className="flex items-center gap-2">
+                          <Card.Title className="truncate">
+                            {latestGraph ? (
+                              <a
+                                href={`/graph/${latestGraph.id}`}
+                                className="hover:text-primary hover:underline"
+                              >
+                                {document.title}
+                              </a>
+                            ) : (
+                              document.title
+                            )}
+                          </Card.Title>
+                          <Badge variant={status.variant}>{status.label}</Badge>
+                        </div>
+                        <Card.Description>{describeDocument(entry)}</Card.Description>
+                      </div>
+                      <button
+                        onClick={() => setPendingDelete(entry)}
+                        className="p-2 rounded-md text-text-muted hover:text-error hover:bg-primary-50 transition-colors"
+                        aria-label={`Delete ${document.title}`}
+                        title="Delete document"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    </div>
+                  </Card.Header>
+                  <Card.Body>
+                    {graphs.length === 0 ? (
+                      <p className="text-sm text-text-secondary">No graph generated yet.</p>
+                    ) : (
+                      <ul className="divide-y divide-gray-200">
+                        {graphs.map((graph) => (
+                          <li
+                            key={graph.id}
+                            className="flex items-center justify-between gap-4 py-2 text-sm"
+                          >
+                            <a
+                              href={`/graph/${graph.id}`}
+                              className="text-text-primary hover:text-primary hover:underline"
+                            >
+                              Version {graph.version}
+                            </a>
+                            <span className="flex items-center gap-3 text-text-secondary">
+                              <span>
+                                {graph.nodeCount} {graph.nodeCount === 1 ? 'concept' : 'concepts'}
+                              </span>
+                              {graph.noteCount > 0 && (
+                                <Badge variant="with-notes">
+                                  {graph.noteCount} {graph.noteCount === 1 ? 'note' : 'notes'}
+                                </Badge>
+                              )}
+                              <span>{formatLastOpened(graph.lastOpenedAt, now)}</span>
+                            </span>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                    <p className="mt-3 text-xs text-text-muted">
+                      {formatLastOpened(entry.lastOpenedAt, now)}
+                      {entry.noteCount > 0 &&
+                        ` · ${entry.noteCount} ${entry.noteCount === 1 ? 'note' : 'notes'} in total`}
+                    </p>
+                  </Card.Body>
+                </Card>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {deleteDocumentMutation.error && (
+        <p className="text-sm text-error" role="alert">
+          Couldn&apos;t delete the document: {deleteDocumentMutation.error.message}
+        </p>
+      )}
+
+      <Dialog open={pendingDelete !== null} onOpenChange={(open) => !open && setPendingDelete(null)}>
+        <Dialog.Content>
+          <Dialog.Header>
+            <Dialog.Title>Delete &ldquo;{pendingDelete?.document.title}&rdquo;?</Dialog.Title>
+            <Dialog.Description>
+              Its graphs, notes and highlights are deleted with it. This can&apos;t be undone.
+            </Dialog.Description>
+          </Dialog.Header>
+          <Dialog.Footer>
+            <Button variant="secondary" onClick={() => setPendingDelete(null)}>
+              Cancel
+            </Button>
+            <Button variant="error" onClick={handleConfirmDelete}>
+              Delete
+            </Button>
+          </Dialog.Footer>
+        </Dialog.Content>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,8 @@
+/**
+ * Library Components
+ *
+ * Uploaded documents and the graphs generated from them.
+ */
+
+export { DocumentLibrary } from './DocumentLibrary';
+export type { DocumentLibraryProps } from './DocumentLibrary';
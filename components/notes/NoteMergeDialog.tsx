@@ -0,0 +1,191 @@
+/**
+ * NoteMergeDialog Component
+ *
+ * Side-by-side merge dialog shown when a note was changed elsewhere
+ * (another tab or device) while the user was editing it. The user can keep
+ * their version, take the server version, or combine both in an editor.
+ *
+ * @example
+ * ```tsx
+ * <NoteMergeDialog
+ *   isOpen={!!conflict}
+ *   localContent={conflict.localContent}
+ *   serverNote={conflict.serverNote}
+ *   onResolve={(content) => resolveConflict(content)}
+ *   onDiscard={() => discardLocal()}
+ * />
+ * ```
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Dialog } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { NoteContent } from './NoteContent';
+import { cn } from '@/lib/utils';
+import type { Note } from '@/types/api.types';
+
+export interface NoteMergeDialogProps {
+  /**
+   * Whether the dialog is open
+   */
+  isOpen: boolean;
+  /**
+   * Content written in this tab
+   */
+  localContent: string;
+  /**
+   * Current server copy of the note
+   */
+  serverNote: Note;
+  /**
+   * Called with the content to keep
+   */
+  onResolve: (content: string) => void | Promise<void>;
+  /**
+   * Called to drop the local edit and keep the server copy as is
+   */
+  onDiscard: () => void | Promise<void>;
+  /**
+   * Whether the resolution is being saved
+   */
+  isResolving?: boolean;
+}
+
+/**
+ * Combine both versions for manual editing
+ *
+ * Identical versions collapse to one; otherwise the server copy comes first
+ * so the user's newer text reads as an addendum.
+ */
+function combineVersions(localContent: string, serverContent: string): string {
+  if (localContent.trim() === serverContent.trim()) {
+    return localContent;
+  }
+  return `${serverContent.trimEnd()}\n\n${localContent.trimStart()}`;
+}
+
+/**
+ * Merge dialog for concurrently edited notes
+ *
+ * Cannot be dismissed without a decision: closing would leave the local
+ * edit stuck in the sync outbox.
+ */
+export function NoteMergeDialog({
+  isOpen,
+  localContent,
+  serverNote,
+  onResolve,
+  onDiscard,
+  isResolving = false,
+}: NoteMergeDialogProps) {
+  const [isCombining, setIsCombining] = useState(false);
+  const [combined, setCombined] = useState('');
+
+  // Reset when a new conflict is shown
+  useEffect(() => {
+    if (isOpen) {
+      setIsCombining(false);
+      setCombined(combineVersions(localContent, serverNote.content));
+    }
+  }, [isOpen, localContent, serverNote.content]);
+
+  const serverEditedAt = new Date(serverNote.updatedAt).toLocaleString();
+
+  return (
+    <Dialog open={isOpen}>
+      <Dialog.Content
+        className="max-w-4xl"
+        hideCloseButton
+        onEscapeKeyDown={(event) => event.preventDefault()}
+        onPointerDownOutside={(event) => event.preventDefault()}
+      >
+        <Dialog.Header>
+          <Dialog.Title>This note was edited elsewhere</Dialog.Title>
+          <Dialog.Description>
+            Someone saved a different version (last edited {serverEditedAt}).
+            Choose which version to keep, or combine them.
+          </Dialog.Description>
+        </Dialog.Header>
+
+        <Dialog.Body>
+          {isCombining ? (
+            <NoteContent
+              value={combined}
+              onChange={setCombined}
+              autoFocus
+              disabled={isResolving}
+            />
+          ) : (
+            <div className="grid grid-cols-2 gap-4">
+              {[
+                { label: 'Your version', content: localContent, highlight: true },
+                { label: 'Saved version', content: serverNote.content, highlight: false },
+              ].map(({ label, content, highlight }) => (
+                <section key={label} aria-label={label} className="flex flex-col gap-2">
+                  <h4 className="text-sm font-semibold text-text-primary">{label}</h4>
+                  <div
+                    className={cn(
+                      'min-h-[160px] max-h-[320px] overflow-y-auto whitespace-pre-wrap',
+                      'rounded-md border p-3 text-sm text-text-primary',
+                      highlight ? 'border-primary-300 bg-primary-50' : 'border-gray-300 bg-gray-50'
+                    )}
+                  >
+                    {content || <span className="text-text-muted">(empty)</span>}
+                  </div>
+                </section>
+              ))}
+            </div>
+          )}
+        </Dialog.Body>
+
+        <Dialog.Footer>
+          {isCombining ? (
+            <>
+              <Button
+                variant="ghost"
+                onClick={() => setIsCombining(false)}
+                disabled={isResolving}
+              >
+                Back
+              </Button>
+              <Button
+                variant="primary"
+                onClick={() => onResolve(combined)}
+                isLoading={isResolving}
+              >
+                Save combined
+              </Button>
+            </>
+          ) : (
+            <>
+              <Button
+                variant="ghost"
+                onClick={() => setIsCombining(true)}
+                disabled={isResolving}
+                className="mr-auto"
+              >
+                Combine…
+              </Button>
+              <Button
+                variant="secondary"
+                onClick={() => onDiscard()}
+                disabled={isResolving}
+              >
+                Keep saved version
+              </Button>
+              <Button
+                variant="primary"
+                onClick={() => onResolve(localContent)}
+                isLoading={isResolving}
+              >
+                Keep mine
+              </Button>
+            </>
+          )}
+        </Dialog.Footer>
+      </Dialog.Content>
+    </Dialog>
+  );
+}
@@ -8,13 +8,14 @@
 
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { Button } from '@/components/ui/button';
 import { X, Minimize2, Maximize2, Trash2 } from 'lucide-react';
 import { useNodeNotes } from '@/hooks/useNotes';
 import { useAutoSave } from '@/hooks/useAutoSave';
 import { NoteContent } from './NoteContent';
 import { SaveStatus } from './SaveStatus';
+import { NoteMergeDialog } from './NoteMergeDialog';
 import { cn } from '@/lib/utils';
 
 export interface NotePanelProps {
@@ -28,6 +29,8 @@ export interface NotePanelProps {
   nodeId: string | null;
   /** Node title */
   nodeTitle: string | null;
+  /** Incremented to expand the panel and focus the editor (e.g. from the `n` key) */
+  focusRequest?: number;
 }
 
 /**
@@ -42,7 +45,9 @@ export function NotePanel({
   graphId,
   nodeId,
   nodeTitle,
+  focusRequest = 0,
 }: NotePanelProps) {
+  const panelRef = useRef<HTMLDivElement>(null);
   const [isMinimized, setIsMinimized] = useState(false);
   const [content, setContent] = useState('');
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
@@ -59,6 +64,10 @@ export function NotePanel({
     isCreating,
     isUpdating,
     isDeleting,
+    isPendingSync,
+    conflict,
+    resolveConflict,
+    discardLocal,
   } = useNodeNotes(graphId, nodeId) as {
     notes: import('@/types/api.types').Note[] | undefined;
     isLoading: boolean;
@@ -69,7 +78,12 @@ export function NotePanel({
     isCreating: boolean;
     isUpdating: boolean;
     isDeleting: boolean;
+    isPendingSync: boolean;
+    conflict: import('@/lib/offline/note-sync').NoteConflict | null;
+    resolveConflict: (content: string) => Promise<void>;
+    discardLocal: () => Promise<void>;
   };
+  const [isResolving, setIsResolving] = useState(false);
 
   // Only render when a node is selected and panel is visible
   const isActive = isVisible && !!nodeId;
@@ -87,11 +101,24 @@ export function NotePanel({
     setShowDeleteConfirm(false);
   }, [nodeId, existingNote?.id, existingNote?.content]);
 
+  // Expand and focus the editor when requested
+  useEffect(() => {
+    if (focusRequest === 0) return;
+
+    setIsMinimized(false);
+    const frame = requestAnimationFrame(() => {
+      panelRef.current?.querySelector('textarea')?.focus();
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [focusRequest]);
+
   // Auto-save setup
   const handleSave = async (contentToSave: string) => {
     try {
       setSaveError(null);
       if (!nodeId) return; // Safety: shouldn't happen when inactive
+      // Already stored (e.g. the saved version was kept in a merge)
+      if (existingNote?.content === contentToSave) return;
       if (existingNote) {
         await updateNoteMutation.mutateAsync({
           noteId: existingNote.id,
@@ -148,6 +175,39 @@ export function NotePanel({
     }
   };
 
+  // Handle merge decision for a concurrent edit
+  const handleResolveConflict = async (mergedContent: string) => {
+    setIsResolving(true);
+    try {
+      await resolveConflict(mergedContent);
+      setContent(mergedContent);
+    } catch (error) {
+      console.error('Failed to resolve note conflict:', error);
+      setSaveError(
+        error instanceof Error ? error.message : 'Failed to save merged note'
+      );
+    } finally {
+      setIsResolving(false);
+    }
+  };
+
+  // Drop the local edit in favor of the saved version
+  const handleDiscardLocal = async () => {
+    if (!conflict) return;
+    setIsResolving(true);
+    try {
+      // The refetched note refills the editor with the saved version
+      await discardLocal();
+    } catch (error) {
+      console.error('Failed to discard local note edit:', error);
+      setSaveError(
+        error instanceof Error ? error.message : 'Failed to keep saved note'
+      );
+    } finally {
+      setIsResolving(false);
+    }
+  };
+
   const isSaving = isAutoSaving || isCreating || isUpdating;
 
   if (!isActive) {
@@ -156,6 +216,7 @@ export function NotePanel({
 
   return (
     <div
+      ref={panelRef}
       className={cn(
         'fixed bottom-6 left-6 z-40 bg-chrome rounded-lg shadow-2xl border border-gray-300',
         'transition-all duration-300 ease-in-out',
@@ -192,6 +253,7 @@ export function NotePanel({
               isSaving={isSaving}
               lastSaved={lastSaved}
               error={saveError}
+              isPendingSync={isPendingSync}
               onRetry={saveNow}
             />
           )}
@@ -282,6 +344,17 @@ export function NotePanel({
           )}
         </div>
       )}
+
+      {conflict && (
+        <NoteMergeDialog
+          isOpen
+          localContent={conflict.localContent}
+          serverNote={conflict.serverNote}
+          onResolve={handleResolveConflict}
+          onDiscard={handleDiscardLocal}
+          isResolving={isResolving}
+        />
+      )}
     </div>
   );
 }
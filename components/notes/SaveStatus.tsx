@@ -2,7 +2,8 @@
  * SaveStatus Component
  *
  * Displays auto-save status indicator with smooth transitions.
- * Shows saving state, success state with checkmark, and error state with retry option.
+ * Shows saving state, success state with checkmark, error state with retry option,
+ * and a pending-sync state for changes saved locally but not yet on the server.
  *
  * @example
  * ```tsx
@@ -10,7 +11,7 @@
  * ```
  */
 
-import { Check, AlertCircle, Loader2 } from 'lucide-react';
+import { Check, AlertCircle, Loader2, CloudOff } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { useEffect, useState } from 'react';
 
@@ -27,6 +28,10 @@ export interface SaveStatusProps {
    * Error message if save failed
    */
   error?: string | null;
+  /**
+   * Whether changes are saved locally but still waiting to sync
+   */
+  isPendingSync?: boolean;
   /**
    * Callback to retry after error
    */
@@ -47,6 +52,7 @@ export function SaveStatus({
   isSaving,
   lastSaved,
   error,
+  isPendingSync = false,
   onRetry,
   className,
 }: SaveStatusProps) {
@@ -64,7 +70,7 @@ export function SaveStatus({
   }, [lastSaved, isSaving, error]);
 
   // Don't show anything if idle
-  if (!isSaving && !showSaved && !error) {
+  if (!isSaving && !showSaved && !error && !isPendingSync) {
     return null;
   }
 
@@ -87,8 +93,16 @@ export function SaveStatus({
         </>
       )}
 
+      {/* Pending sync state (persists until the outbox is replayed) */}
+      {isPendingSync && !isSaving && !error && (
+        <>
+          <CloudOff className="h-3.5 w-3.5 text-warning" aria-hidden="true" />
+          <span className="text-warning">Pending sync</span>
+        </>
+      )}
+
       {/* Success state */}
-      {showSaved && !isSaving && !error && (
+      {showSaved && !isSaving && !error && !isPendingSync && (
         <>
           <Check className="h-3.5 w-3.5 text-success" aria-hidden="true" />
           <span className="text-success">Saved</span>
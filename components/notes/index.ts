@@ -8,7 +8,9 @@ export { NoteModal } from './NoteModal';
 export { NotePanel } from './NotePanel';
 export { NoteContent } from './NoteContent';
 export { SaveStatus } from './SaveStatus';
+export { NoteMergeDialog } from './NoteMergeDialog';
 
 export type { NoteModalProps } from './NoteModal';
 export type { NoteContentProps } from './NoteContent';
 export type { SaveStatusProps } from './SaveStatus';
+export type { NoteMergeDialogProps } from './NoteMergeDialog';
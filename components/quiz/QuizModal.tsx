@@ -8,6 +8,9 @@ import { QuizProgress } from './QuizProgress';
 import { QuizQuestion } from './QuizQuestion';
 import { QuizResults, type QuizResultsData } from './QuizResults';
 import { useQuizFlow } from '@/hooks/useQuiz';
+import { useRecordQuizReview } from '@/hooks/useReview';
+import { useRecordMastery } from '@/hooks/useMastery';
+import { getQuizEvidence, summarizeMastery } from '@/lib/mastery';
 import type { QuizAnswer, QuizQuestion as APIQuizQuestion } from '@/types/api.types';
 
 /**
@@ -19,6 +22,8 @@ import type { QuizAnswer, QuizQuestion as APIQuizQuestion } from '@/types/api.ty
  * - Answer tracking
  * - Quiz submission
  * - Results display
+ * - Scheduling covered nodes for spaced-repetition review
+ * - Updating node mastery and summarizing it in the results
  *
  * Features:
  * - Full-screen modal for focused experience
@@ -69,6 +74,15 @@ export interface QuizModalProps {
    * Callback to navigate to a specific node
    */
   onViewNode?: (nodeId: string) => void;
+  /**
+   * Only ask about these nodes (review sessions)
+   */
+  nodeIds?: string[];
+  /**
+   * Dialog title
+   * @default "Comprehension Check"
+   */
+  title?: string;
 }
 
 interface AnswerState {
@@ -85,6 +99,8 @@ export function QuizModal({
   questionCount = 5,
   difficulty = 'medium',
   onViewNode,
+  nodeIds,
+  title = 'Comprehension Check',
 }: QuizModalProps) {
   const {
     generateQuiz,
@@ -95,21 +111,29 @@ export function QuizModal({
     isSubmitting,
     error,
   } = useQuizFlow(graphId);
+  const { mutate: recordReview } = useRecordQuizReview();
+  const { mutate: recordMastery, data: masteryRecords } = useRecordMastery();
 
   const [currentQuestionIndex, setCurrentQuestionIndex] = React.useState(0);
   const [answers, setAnswers] = React.useState<AnswerState[]>([]);
   const [hasAnsweredCurrent, setHasAnsweredCurrent] = React.useState(false);
 
+  const quizRequest = React.useMemo(
+    () => ({
+      graphId,
+      difficulty,
+      count: questionCount,
+      nodeIds,
+    }),
+    [graphId, difficulty, questionCount, nodeIds]
+  );
+
   // Generate quiz when modal opens
   React.useEffect(() => {
     if (isOpen && !quiz && !isGenerating) {
-      generateQuiz({
-        graphId,
-        difficulty,
-        count: questionCount,
-      });
+      generateQuiz(quizRequest);
     }
-  }, [isOpen, quiz, isGenerating, generateQuiz, graphId, difficulty, questionCount]);
+  }, [isOpen, quiz, isGenerating, generateQuiz, quizRequest]);
 
   // Reset state when quiz changes
   React.useEffect(() => {
@@ -120,6 +144,16 @@ export function QuizModal({
     }
   }, [quiz?.quizId]);
 
+  // Schedule the covered nodes for review and update their mastery
+  React.useEffect(() => {
+    if (results && quiz) {
+      recordReview({ graphId, questions: quiz.questions, results: results.results });
+      recordMastery({ graphId, evidence: getQuizEvidence(quiz.questions, results.results) });
+    }
+    // Record each submission once
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [results]);
+
   // Call onComplete when results are available
   React.useEffect(() => {
     if (results && onComplete) {
@@ -163,11 +197,7 @@ export function QuizModal({
     setCurrentQuestionIndex(0);
     setAnswers([]);
     setHasAnsweredCurrent(false);
-    generateQuiz({
-      graphId,
-      difficulty,
-      count: questionCount,
-    });
+    generateQuiz(quizRequest);
   };
 
   const handleClose = () => {
@@ -230,13 +260,7 @@ export function QuizModal({
               </Button>
               <Button
                 variant="primary"
-                onClick={() =>
-                  generateQuiz({
-                    graphId,
-                    difficulty,
-                    count: questionCount,
-                  })
-                }
+                onClick={() => generateQuiz(quizRequest)}
               >
                 Try Again
               </Button>
@@ -248,7 +272,7 @@ export function QuizModal({
         {quiz && !results && !isSubmitting && currentQuestion && (
           <>
             <Dialog.Header>
-              <Dialog.Title>Comprehension Check</Dialog.Title>
+              <Dialog.Title>{title}</Dialog.Title>
               <Dialog.Description>
                 Test your understanding of the concepts you've learned
               </Dialog.Description>
@@ -313,6 +337,7 @@ export function QuizModal({
                 onRetake={handleRetake}
                 onReviewGraph={handleClose}
                 onViewNode={onViewNode}
+                masterySummary={masteryRecords ? summarizeMastery(masteryRecords) : undefined}
               />
             </Dialog.Body>
           </>
@@ -13,6 +13,7 @@ import { Card } from '@/components/ui/card';
  * - Score percentage with color coding
  * - List of questions with correct/incorrect indicators
  * - Concepts to review (nodes with incorrect answers)
+ * - Mastery summary for the concepts the quiz covered
  * - Actions: Review Graph, Retake Quiz
  *
  * Color coding:
@@ -39,6 +40,7 @@ import type {
   QuizSubmissionResponse,
   QuizQuestionResult
 } from '@/types/api.types';
+import type { MasterySummary } from '@/lib/mastery';
 
 export interface QuizAnswer {
   questionId: string;
@@ -78,6 +80,22 @@ export interface QuizResultsProps {
    * Callback to navigate to a specific node
    */
   onViewNode?: (nodeId: string) => void;
+  /**
+   * Mastery of the concepts this quiz covered
+   */
+  masterySummary?: MasterySummary;
+}
+
+/**
+ * Describe a mastery summary, e.g. "3 nodes mastered, 2 need review"
+ */
+function formatMasterySummary({ mastered, learning, needsReview }: MasterySummary): string {
+  const parts = [
+    `${mastered} ${mastered === 1 ? 'node' : 'nodes'} mastered`,
+    `${needsReview} ${needsReview === 1 ? 'needs' : 'need'} review`,
+  ];
+  if (learning > 0) parts.push(`${learning} in progress`);
+  return parts.join(', ');
 }
 
 export function QuizResults({
@@ -85,6 +103,7 @@ export function QuizResults({
   onRetake,
   onReviewGraph,
   onViewNode,
+  masterySummary,
 }: QuizResultsProps) {
   const { score, total, correct, results: questionResults } = results;
 
@@ -131,6 +150,13 @@ export function QuizResults({
             {getScoreMessage(score)}
           </p>
 
+          {/* Mastery summary */}
+          {masterySummary && (
+            <p className="mt-2 text-sm text-text-secondary" role="status">
+              {formatMasterySummary(masterySummary)}
+            </p>
+          )}
+
           {/* Progress circle visualization */}
           <div className="mt-6 flex justify-center">
             <svg className="h-32 w-32" viewBox="0 0 120 120">
@@ -0,0 +1,110 @@
+/**
+ * DocumentTabs Component
+ *
+ * Tabs above the reading panel for graphs merged from several documents.
+ * Each tab carries its document's source color, so the tabs double as the
+ * key to the colored stripes on the graph's nodes.
+ */
+
+'use client';
+
+import React from 'react';
+import type { GraphSourceDocument } from '@/types/api.types';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface DocumentTabsProps {
+  /**
+   * Source documents, in tab order
+   */
+  documents: GraphSourceDocument[];
+
+  /**
+   * Document shown in the reading panel
+   */
+  activeDocumentId: string;
+
+  /**
+   * Source color by document ID
+   */
+  colors?: Record<string, string>;
+
+  /**
+   * Callback when a tab is clicked
+   */
+  onSelect: (documentId: string) => void;
+
+  /**
+   * Additional CSS classes
+   */
+  className?: string;
+}
+
+// ============================================================================
+// Component
+// ============================================================================
+
+/**
+ * DocumentTabs - Switch between the source documents of a merged graph
+ *
+ * @example
+ * ```tsx
+ * <DocumentTabs
+ *   documents={getGraphDocuments(graph)}
+ *   activeDocumentId={documentId}
+ *   colors={documentColors}
+ *   onSelect={setDocumentId}
+ * />
+ * ```
+ */
+export function DocumentTabs({
+  documents,
+  activeDocumentId,
+  colors = {},
+  onSelect,
+  className = '',
+}: DocumentTabsProps) {
+  return (
+    <div
+      role="tablist"
+      aria-label="Source documents"
+      className={`flex items-end gap-1 overflow-x-auto bg-background border-b border-gray-200 px-4 pt-2 ${className}`}
+    >
+      {documents.map((document) => {
+        const isActive = document.id === activeDocumentId;
+
+        return (
+          <button
+            key={document.id}
+            role="tab"
+            aria-selected={isActive}
+            onClick={() => onSelect(document.id)}
+            className={`flex items-center gap-2 max-w-[12rem] px-3 py-1.5 -mb-px rounded-t-md border text-sm transition-colors focus:outline-none focus-visible:ring-2 focus-visible:ring-primary ${
+              isActive
+                ? 'bg-chrome border-gray-200 border-b-chrome text-text-primary font-medium'
+                : 'border-transparent text-text-muted hover:text-text-primary hover:bg-primary-50'
+            }`}
+            title={document.title}
+          >
+            {colors[document.id] && (
+              <span
+                className="w-2.5 h-2.5 rounded-full shrink-0"
+                style={{ backgroundColor: colors[document.id] }}
+                aria-hidden="true"
+              />
+            )}
+            <span className="truncate">{document.title}</span>
+          </button>
+        );
+      })}
+    </div>
+  );
+}
+
+// ============================================================================
+// Display Name (for DevTools)
+// ============================================================================
+
+DocumentTabs.displayName = 'DocumentTabs';
@@ -7,6 +7,8 @@
  * Features:
  * - Splits content into paragraphs
  * - Applies highlight to specific character range
+ * - Renders user highlights and reports text selections
+ * - Optional gutter beside paragraphs cited by graph nodes
  * - Serif font for readability
  * - Responsive layout
  */
@@ -15,6 +17,15 @@
 
 import React, { useEffect, useRef } from 'react';
 import { highlightWithFade } from '@/lib/scroll-utils';
+import { splitParagraphs } from '@/lib/document-search';
+import {
+  applyTextHighlights,
+  getContentOffset,
+  getTextSelectionRange,
+  type TextHighlightMark,
+  type TextSelectionRange,
+} from '@/lib/highlights';
+import type { ParagraphGutterMark } from '@/lib/passage-index';
 
 // ============================================================================
 // Types
@@ -39,6 +50,36 @@ export interface DocumentViewerProps {
    */
   onHighlightApplied?: () => void;
 
+  /**
+   * Persistent user highlights to render
+   */
+  userHighlights?: TextHighlightMark[];
+
+  /**
+   * Callback when the user finishes selecting text
+   */
+  onTextSelect?: (selection: TextSelectionRange) => void;
+
+  /**
+   * Callback when a user highlight is clicked
+   */
+  onUserHighlightClick?: (highlightId: string) => void;
+
+  /**
+   * Callback with the content offset of a plain click in the text
+   */
+  onPassageClick?: (offset: number) => void;
+
+  /**
+   * Paragraphs to mark in the gutter
+   */
+  gutterMarks?: ParagraphGutterMark[];
+
+  /**
+   * Gutter content for a mark (e.g. node badges)
+   */
+  renderGutterMark?: (mark: ParagraphGutterMark) => React.ReactNode;
+
   /**
    * Additional CSS classes
    */
@@ -65,24 +106,30 @@ export function DocumentViewer({
   content,
   highlightRange,
   onHighlightApplied,
+  userHighlights,
+  onTextSelect,
+  onUserHighlightClick,
+  onPassageClick,
+  gutterMarks,
+  renderGutterMark,
   className = '',
 }: DocumentViewerProps) {
   const containerRef = useRef<HTMLDivElement>(null);
   const cleanupRef = useRef<(() => void) | null>(null);
 
   // Split content into paragraphs (by double newline or single newline)
-  const paragraphs = React.useMemo(() => {
-    if (!content) return [];
+  const paragraphs = React.useMemo(() => splitParagraphs(content), [content]);
 
-    // Split by double newline first, then fallback to single newline
-    let parts = content.split(/\n\n+/);
-    if (parts.length === 1) {
-      parts = content.split(/\n/);
-    }
+  const marksByParagraph = React.useMemo(
+    () => new Map((gutterMarks ?? []).map((mark) => [mark.paragraphIndex, mark])),
+    [gutterMarks]
+  );
 
-    // Filter out empty paragraphs
-    return parts.filter((p) => p.trim().length > 0);
-  }, [content]);
+  // Render user highlights (before the fading highlight, which snapshots the markup)
+  useEffect(() => {
+    if (!containerRef.current || !userHighlights?.length) return;
+    return applyTextHighlights(containerRef.current, content, userHighlights);
+  }, [userHighlights, content]);
 
   // Apply highlight when highlightRange changes
   useEffect(() => {
@@ -129,6 +176,24 @@ export function DocumentViewer({
   return (
     <div
       ref={containerRef}
+      onMouseUp={() => {
+        if (!onTextSelect) return;
+        const selection = getTextSelectionRange(window.getSelection(), content);
+        if (selection) onTextSelect(selection);
+      }}
+      onClick={(event) => {
+        const mark = (event.target as Element).closest?.('mark[data-highlight-id]');
+        if (mark instanceof HTMLElement && mark.dataset.highlightId) {
+          onUserHighlightClick?.(mark.dataset.highlightId);
+          return;
+        }
+
+        // A plain click leaves a collapsed selection at the caret
+        const selection = window.getSelection();
+        if (!onPassageClick || !selection?.isCollapsed || !selection.anchorNode) return;
+        const offset = getContentOffset(selection.anchorNode, selection.anchorOffset, content);
+        if (offset !== null) onPassageClick(offset);
+      }}
       className={`
         document-viewer
         font-serif text-base leading-relaxed
@@ -136,15 +201,38 @@ export function DocumentViewer({
         ${className}
       `}
     >
-      {paragraphs.map((paragraph, index) => (
-        <p
-          key={index}
-          className="mb-4 last:mb-0"
-          data-paragraph-index={index}
-        >
-          {paragraph}
-        </p>
-      ))}
+      {paragraphs.map((paragraph, index) => {
+        const mark = renderGutterMark && marksByParagraph.get(index);
+
+        if (!mark) {
+          return (
+            <p
+              key={index}
+              className="mb-4 last:mb-0"
+              data-paragraph-index={index}
+            >
+              {paragraph}
+            </p>
+          );
+        }
+
+        // Gutter spans the paragraph so its position marks the cited passage
+        return (
+          <div key={index} className="relative mb-4 last:mb-0">
+            <p data-paragraph-index={index}>{paragraph}</p>
+            <div
+              data-node-ids={mark.nodeIds.join(' ')}
+              className="absolute top-0 bottom-0 right-full mr-2 w-5 flex justify-center"
+            >
+              <div
+                className="absolute inset-y-0 left-1/2 w-0.5 -translate-x-1/2 rounded-full bg-primary-100"
+                aria-hidden="true"
+              />
+              <div className="relative">{renderGutterMark(mark)}</div>
+            </div>
+          </div>
+        );
+      })}
     </div>
   );
 }
@@ -0,0 +1,189 @@
+/**
+ * FindBar Component
+ *
+ * In-document find for the reading panel, opened with Ctrl+F / Cmd+F.
+ * Shows the match count and steps through matches; the panel does the
+ * searching and highlighting.
+ *
+ * Keyboard:
+ * - Enter: next match
+ * - Shift+Enter: previous match
+ * - Escape: close
+ */
+
+'use client';
+
+import React, { useEffect, useRef, type KeyboardEvent } from 'react';
+import { ChevronDown, ChevronUp, Search, X } from 'lucide-react';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface FindBarProps {
+  /**
+   * Current search text
+   */
+  query: string;
+
+  /**
+   * Callback when the search text changes
+   */
+  onQueryChange: (query: string) => void;
+
+  /**
+   * Number of matches for the query
+   */
+  matchCount: number;
+
+  /**
+   * Index of the highlighted match
+   */
+  activeIndex: number;
+
+  /**
+   * Go to the next match
+   */
+  onNext: () => void;
+
+  /**
+   * Go to the previous match
+   */
+  onPrevious: () => void;
+
+  /**
+   * Close the find bar
+   */
+  onClose: () => void;
+
+  /**
+   * Bumped to focus and select the input (e.g. on a repeat Ctrl+F)
+   */
+  focusRequest?: number;
+
+  /**
+   * Additional CSS classes
+   */
+  className?: string;
+}
+
+// ============================================================================
+// Component
+// ============================================================================
+
+/**
+ * FindBar - Search box with match count and next/previous controls
+ *
+ * @example
+ * ```tsx
+ * <FindBar
+ *   query={query}
+ *   onQueryChange={setQuery}
+ *   matchCount={matches.length}
+ *   activeIndex={activeIndex}
+ *   onNext={() => step(1)}
+ *   onPrevious={() => step(-1)}
+ *   onClose={closeFind}
+ * />
+ * ```
+ */
+export function FindBar({
+  query,
+  onQueryChange,
+  matchCount,
+  activeIndex,
+  onNext,
+  onPrevious,
+  onClose,
+  focusRequest = 0,
+  className = '',
+}: FindBarProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    inputRef.current?.focus();
+    inputRef.current?.select();
+  }, [focusRequest]);
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    switch (event.key) {
+      case 'Enter':
+        event.preventDefault();
+        if (event.shiftKey) {
+          onPrevious();
+        } else {
+          onNext();
+        }
+        break;
+      case 'Escape':
+        event.preventDefault();
+        onClose();
+        break;
+    }
+  };
+
+  const hasQuery = query.trim().length > 0;
+  const status = !hasQuery
+    ? ''
+    : matchCount === 0
+      ? 'No matches'
+      : `${activeIndex + 1} of ${matchCount}`;
+
+  return (
+    <div
+      role="search"
+      className={`flex items-center gap-2 bg-chrome rounded-lg shadow-lg border border-primary-100 px-3 ${className}`}
+    >
+      <Search className="w-4 h-4 text-text-muted flex-shrink-0" aria-hidden="true" />
+      <input
+        ref={inputRef}
+        type="text"
+        value={query}
+        onChange={(event) => onQueryChange(event.target.value)}
+        onKeyDown={handleKeyDown}
+        placeholder="Find in document…"
+        className="flex-1 min-w-0 bg-transparent py-2 text-sm text-text-primary placeholder:text-text-muted focus:outline-none"
+        aria-label="Find in document"
+      />
+      <span
+        className={`text-xs whitespace-nowrap ${
+          hasQuery && matchCount === 0 ? 'text-error' : 'text-text-muted'
+        }`}
+        aria-live="polite"
+      >
+        {status}
+      </span>
+      <div className="flex items-center">
+        <button
+          onClick={onPrevious}
+          disabled={matchCount === 0}
+          className="p-1 rounded-md text-text-muted hover:text-text-primary hover:bg-primary-50 disabled:opacity-40 disabled:hover:bg-transparent transition-colors"
+          aria-label="Previous match"
+        >
+          <ChevronUp className="w-4 h-4" />
+        </button>
+        <button
+          onClick={onNext}
+          disabled={matchCount === 0}
+          className="p-1 rounded-md text-text-muted hover:text-text-primary hover:bg-primary-50 disabled:opacity-40 disabled:hover:bg-transparent transition-colors"
+          aria-label="Next match"
+        >
+          <ChevronDown className="w-4 h-4" />
+        </button>
+        <button
+          onClick={onClose}
+          className="p-1 rounded-md text-text-muted hover:text-text-primary hover:bg-primary-50 transition-colors"
+          aria-label="Close find"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+    </div>
+  );
+}
+
+// ============================================================================
+// Display Name (for DevTools)
+// ============================================================================
+
+FindBar.displayName = 'FindBar';
@@ -0,0 +1,201 @@
+/**
+ * HighlightComposer Component
+ *
+ * Shown in the reading panel after the user selects a passage. Picks a
+ * color, adds an optional comment and optionally attaches the passage to a
+ * graph node as a new source reference.
+ */
+
+'use client';
+
+import React, { useState, useId } from 'react';
+import { Button } from '@/components/ui/button';
+import { HIGHLIGHT_COLORS } from '@/lib/highlights';
+import type { GraphNode, HighlightColor } from '@/types/api.types';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Values chosen in the composer
+ */
+export interface HighlightComposerValues {
+  color: HighlightColor;
+  comment: string;
+  /** Node to attach the passage to, or null */
+  nodeId: string | null;
+}
+
+export interface HighlightComposerProps {
+  /**
+   * Selected passage
+   */
+  text: string;
+
+  /**
+   * Graph nodes the passage can be attached to
+   */
+  nodes?: GraphNode[];
+
+  /**
+   * Node preselected for attachment (usually the active node)
+   */
+  defaultNodeId?: string | null;
+
+  /**
+   * Whether the highlight is being saved
+   */
+  isSaving?: boolean;
+
+  /**
+   * Error from the last save attempt
+   */
+  error?: string | null;
+
+  /**
+   * Callback to save the highlight
+   */
+  onSave: (values: HighlightComposerValues) => void;
+
+  /**
+   * Callback to discard the selection
+   */
+  onCancel: () => void;
+
+  /**
+   * Additional CSS classes
+   */
+  className?: string;
+}
+
+// ============================================================================
+// Component
+// ============================================================================
+
+/**
+ * HighlightComposer - Color, comment and node attachment for a new highlight
+ *
+ * @example
+ * ```tsx
+ * <HighlightComposer
+ *   text={selection.text}
+ *   nodes={graph.nodes}
+ *   defaultNodeId={activeNodeId}
+ *   onSave={handleSave}
+ *   onCancel={() => setSelection(null)}
+ * />
+ * ```
+ */
+export function HighlightComposer({
+  text,
+  nodes = [],
+  defaultNodeId = null,
+  isSaving = false,
+  error = null,
+  onSave,
+  onCancel,
+  className = '',
+}: HighlightComposerProps) {
+  const [color, setColor] = useState<HighlightColor>('yellow');
+  const [comment, setComment] = useState('');
+  const [nodeId, setNodeId] = useState<string | null>(defaultNodeId);
+  const commentId = useId();
+  const nodeSelectId = useId();
+
+  return (
+    <div
+      role="dialog"
+      aria-label="New highlight"
+      className={`bg-chrome rounded-lg shadow-lg border border-primary-100 p-4 space-y-3 ${className}`}
+      onKeyDown={(event) => {
+        if (event.key === 'Escape') {
+          event.preventDefault();
+          onCancel();
+        }
+      }}
+    >
+      <blockquote className="text-sm text-text-secondary font-serif italic line-clamp-3 border-l-2 border-primary-100 pl-3">
+        {text}
+      </blockquote>
+
+      {/* Color */}
+      <div className="flex items-center gap-2" role="radiogroup" aria-label="Highlight color">
+        {(Object.keys(HIGHLIGHT_COLORS) as HighlightColor[]).map((option) => (
+          <button
+            key={option}
+            role="radio"
+            aria-checked={color === option}
+            aria-label={HIGHLIGHT_COLORS[option].label}
+            onClick={() => setColor(option)}
+            className={`w-6 h-6 rounded-full border-2 transition-transform ${
+              HIGHLIGHT_COLORS[option].className
+            } ${color === option ? 'border-text-primary scale-110' : 'border-transparent'}`}
+          />
+        ))}
+      </div>
+
+      {/* Comment */}
+      <div>
+        <label htmlFor={commentId} className="sr-only">
+          Comment
+        </label>
+        <textarea
+          id={commentId}
+          value={comment}
+          onChange={(event) => setComment(event.target.value)}
+          placeholder="Add a comment (optional)"
+          rows={2}
+          className="w-full rounded-md border border-gray-200 bg-white px-3 py-2 text-sm text-text-primary placeholder:text-text-muted focus:outline-none focus:ring-2 focus:ring-primary"
+        />
+      </div>
+
+      {/* Node attachment */}
+      {nodes.length > 0 && (
+        <div className="flex items-center gap-2">
+          <label htmlFor={nodeSelectId} className="text-sm text-text-secondary whitespace-nowrap">
+            Attach to
+          </label>
+          <select
+            id={nodeSelectId}
+            value={nodeId ?? ''}
+            onChange={(event) => setNodeId(event.target.value || null)}
+            className="flex-1 min-w-0 rounded-md border border-gray-200 bg-white px-2 py-1.5 text-sm text-text-primary focus:outline-none focus:ring-2 focus:ring-primary"
+          >
+            <option value="">No concept</option>
+            {nodes.map((node) => (
+              <option key={node.id} value={node.id}>
+                {node.title}
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      {error && (
+        <p className="text-xs text-error" role="alert">
+          {error}
+        </p>
+      )}
+
+      <div className="flex justify-end gap-2">
+        <Button variant="ghost" size="sm" onClick={onCancel} disabled={isSaving}>
+          Cancel
+        </Button>
+        <Button
+          size="sm"
+          isLoading={isSaving}
+          onClick={() => onSave({ color, comment: comment.trim(), nodeId })}
+        >
+          Save highlight
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+// ============================================================================
+// Display Name (for DevTools)
+// ============================================================================
+
+HighlightComposer.displayName = 'HighlightComposer';
@@ -0,0 +1,186 @@
+/**
+ * HighlightSidebar Component
+ *
+ * Lists the user's highlights for the current document, in reading order,
+ * with their comments and attached concepts. Clicking one scrolls the
+ * reading panel to it.
+ */
+
+'use client';
+
+import React, { useMemo } from 'react';
+import { Trash2, X } from 'lucide-react';
+import { HIGHLIGHT_COLORS } from '@/lib/highlights';
+import { getFirstPageNumber } from '@/lib/pdf-utils';
+import type { GraphNode, Highlight } from '@/types/api.types';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface HighlightSidebarProps {
+  /**
+   * Highlights for the document
+   */
+  highlights: Highlight[];
+
+  /**
+   * Graph nodes (for attached concept titles)
+   */
+  nodes?: GraphNode[];
+
+  /**
+   * Highlight to mark as selected
+   */
+  selectedId?: string | null;
+
+  /**
+   * Callback when a highlight is chosen
+   */
+  onSelect: (highlight: Highlight) => void;
+
+  /**
+   * Callback to delete a highlight
+   */
+  onDelete: (highlight: Highlight) => void;
+
+  /**
+   * Callback to close the sidebar
+   */
+  onClose: () => void;
+
+  /**
+   * Additional CSS classes
+   */
+  className?: string;
+}
+
+/**
+ * Sort key placing highlights in reading order
+ */
+function getReadingPosition(highlight: Highlight): number {
+  if (highlight.anchor.type === 'text') {
+    return highlight.anchor.startOffset;
+  }
+  const page = getFirstPageNumber([highlight.anchor.reference]) ?? 0;
+  const coordinates = highlight.anchor.reference.coordinates;
+  const bbox = Array.isArray(coordinates) ? coordinates[0]?.bbox : coordinates;
+  // Pages first, then top-to-bottom (PDF y grows upward)
+  return page * 1e6 - (bbox?.y ?? 0);
+}
+
+// ============================================================================
+// Component
+// ============================================================================
+
+/**
+ * HighlightSidebar - The document's highlights and annotations
+ *
+ * @example
+ * ```tsx
+ * <HighlightSidebar
+ *   highlights={highlights}
+ *   nodes={graph.nodes}
+ *   onSelect={scrollToHighlight}
+ *   onDelete={(highlight) => deleteHighlight.mutate({ highlightId: highlight.id, documentId })}
+ *   onClose={() => setIsSidebarOpen(false)}
+ * />
+ * ```
+ */
+export function HighlightSidebar({
+  highlights,
+  nodes = [],
+  selectedId = null,
+  onSelect,
+  onDelete,
+  onClose,
+  className = '',
+}: HighlightSidebarProps) {
+  const nodeTitles = useMemo(
+    () => new Map(nodes.map((node) => [node.id, node.title])),
+    [nodes]
+  );
+  const sorted = useMemo(
+    () => [...highlights].sort((a, b) => getReadingPosition(a) - getReadingPosition(b)),
+    [highlights]
+  );
+
+  return (
+    <aside
+      aria-label="Highlights"
+      className={`flex flex-col bg-chrome border-l border-gray-200 shadow-lg ${className}`}
+    >
+      <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200">
+        <h3 className="text-sm font-semibold text-text-primary">
+          Highlights <span className="text-text-muted font-normal">({highlights.length})</span>
+        </h3>
+        <button
+          onClick={onClose}
+          className="p-1 rounded-md text-text-muted hover:text-text-primary hover:bg-primary-50 transition-colors"
+          aria-label="Close highlights"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      {sorted.length === 0 ? (
+        <p className="px-4 py-6 text-sm text-text-muted text-center">
+          Select text in the document to highlight it.
+        </p>
+      ) : (
+        <ul className="flex-1 overflow-y-auto divide-y divide-gray-200">
+          {sorted.map((highlight) => {
+            const nodeTitle = highlight.nodeId ? nodeTitles.get(highlight.nodeId) : null;
+
+            return (
+              <li
+                key={highlight.id}
+                className={`group relative px-4 py-3 ${
+                  highlight.id === selectedId ? 'bg-primary-50' : ''
+                }`}
+              >
+                <button
+                  onClick={() => onSelect(highlight)}
+                  className="w-full text-left focus:outline-none focus-visible:ring-2 focus-visible:ring-primary rounded-sm"
+                >
+                  <span className="flex gap-2">
+                    <span
+                      className={`w-1 flex-shrink-0 rounded-full ${
+                        HIGHLIGHT_COLORS[highlight.color].className
+                      }`}
+                      aria-hidden="true"
+                    />
+                    <span className="text-sm font-serif text-text-primary line-clamp-3">
+                      {highlight.text}
+                    </span>
+                  </span>
+                  {highlight.comment && (
+                    <span className="block mt-1 text-xs text-text-secondary">
+                      {highlight.comment}
+                    </span>
+                  )}
+                  {nodeTitle && (
+                    <span className="inline-block mt-1 text-xs text-primary">↳ {nodeTitle}</span>
+                  )}
+                </button>
+                <button
+                  onClick={() => onDelete(highlight)}
+                  className="absolute top-2 right-2 p-1 rounded-md text-text-muted opacity-0 group-hover:opacity-100 focus:opacity-100 hover:text-error hover:bg-red-50 transition"
+                  aria-label="Delete highlight"
+                >
+                  <Trash2 className="w-3.5 h-3.5" />
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </aside>
+  );
+}
+
+// ============================================================================
+// Display Name (for DevTools)
+// ============================================================================
+
+HighlightSidebar.displayName = 'HighlightSidebar';
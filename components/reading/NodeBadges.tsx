@@ -0,0 +1,130 @@
+/**
+ * NodeBadges Component
+ *
+ * Compact badges for the graph nodes that cite a passage, shown in the
+ * reading panel's gutter. Each badge is colored by node type and selects
+ * its node in the graph when clicked.
+ */
+
+'use client';
+
+import React, { useMemo } from 'react';
+import { NODE_TYPE_COLORS } from '@/lib/mermaid-theme';
+import type { GraphNode } from '@/types/api.types';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface NodeBadgesProps {
+  /**
+   * Nodes citing the passage, in display order
+   */
+  nodeIds: string[];
+
+  /**
+   * Graph nodes (for titles and types)
+   */
+  nodes: GraphNode[];
+
+  /**
+   * Nodes to emphasize (e.g. the active node)
+   */
+  activeNodeIds?: string[];
+
+  /**
+   * Badges shown before collapsing the rest into "+N" (default: 3)
+   */
+  maxVisible?: number;
+
+  /**
+   * Callback when a badge is clicked
+   */
+  onSelect?: (nodeId: string) => void;
+
+  /**
+   * Additional CSS classes
+   */
+  className?: string;
+}
+
+// ============================================================================
+// Component
+// ============================================================================
+
+/**
+ * NodeBadges - Gutter badges for the nodes citing a passage
+ *
+ * @example
+ * ```tsx
+ * <NodeBadges
+ *   nodeIds={['node_1', 'node_4']}
+ *   nodes={graph.nodes}
+ *   activeNodeIds={activeNodeId ? [activeNodeId] : []}
+ *   onSelect={selectNode}
+ * />
+ * ```
+ */
+export function NodeBadges({
+  nodeIds,
+  nodes,
+  activeNodeIds = [],
+  maxVisible = 3,
+  onSelect,
+  className = '',
+}: NodeBadgesProps) {
+  const nodesById = useMemo(() => new Map(nodes.map((node) => [node.id, node])), [nodes]);
+
+  const cited = nodeIds.flatMap((nodeId) => {
+    const node = nodesById.get(nodeId);
+    return node ? [node] : [];
+  });
+  if (cited.length === 0) return null;
+
+  const visible = cited.slice(0, maxVisible);
+  const hidden = cited.slice(maxVisible);
+
+  return (
+    <div className={`flex flex-col items-center gap-1 ${className}`}>
+      {visible.map((node) => {
+        const color =
+          NODE_TYPE_COLORS[node.nodeType as keyof typeof NODE_TYPE_COLORS] ??
+          NODE_TYPE_COLORS.default;
+        const isActive = activeNodeIds.includes(node.id);
+
+        return (
+          <button
+            key={node.id}
+            onClick={(event) => {
+              event.stopPropagation();
+              onSelect?.(node.id);
+            }}
+            className={`w-5 h-5 rounded-full text-[10px] font-semibold leading-none text-white flex items-center justify-center shadow-sm transition-transform hover:scale-110 focus:outline-none focus-visible:ring-2 focus-visible:ring-primary ${
+              isActive ? 'ring-2 ring-offset-1 ring-primary' : ''
+            }`}
+            style={{ backgroundColor: color }}
+            aria-label={`Show ${node.title} in graph`}
+            aria-pressed={isActive}
+            title={node.title}
+          >
+            {node.title.charAt(0).toUpperCase()}
+          </button>
+        );
+      })}
+      {hidden.length > 0 && (
+        <span
+          className="text-[10px] text-text-muted leading-none"
+          title={hidden.map((node) => node.title).join(', ')}
+        >
+          +{hidden.length}
+        </span>
+      )}
+    </div>
+  );
+}
+
+// ============================================================================
+// Display Name (for DevTools)
+// ============================================================================
+
+NodeBadges.displayName = 'NodeBadges';
@@ -6,10 +6,15 @@
  *
  * Features:
  * - PDF rendering with PDF.js
- * - Coordinate-based text highlighting
+ * - Virtualized pages: placeholders sized from each page's own viewport,
+ *   painted when they approach the viewport and released when far away
+ * - Selectable pdf.js text layer aligned with each canvas
+ * - Coordinate-based text highlighting (kept across repaints)
+ * - Find-in-document match overlay and user highlight overlays
+ * - Optional gutter beside regions cited by graph nodes
  * - Single-page and cross-page reference support
- * - Smooth scrolling to highlighted sections
- * - Auto-cleanup of highlights
+ * - Smooth scrolling to highlighted sections, painted or not
+ * - Render cancellation on unmount
  */
 
 'use client';
@@ -19,9 +24,19 @@ import * as pdfjsLib from 'pdfjs-dist';
 import type { NodeDocumentReference } from '@/types/api.types';
 import {
   highlightAllReferences,
+  redrawPageHighlights,
+  clearHighlights,
   scrollToPage,
   getFirstPageNumber,
+  getPDFTextSelection,
+  createHighlightOverlay,
+  canvasToPdfCoords,
+  type PDFTextSelection,
+  type PageRegion,
+  type OverlayRegion,
 } from '@/lib/pdf-utils';
+import { getScrollParent } from '@/lib/scroll-utils';
+import type { PageGutterMark } from '@/lib/passage-index';
 
 // Configure PDF.js worker
 if (typeof window !== 'undefined') {
@@ -46,6 +61,16 @@ export interface PDFViewerProps {
    */
   highlightReferences?: NodeDocumentReference[] | null;
 
+  /**
+   * Find-in-document match to outline and scroll to
+   */
+  findHighlight?: PageRegion | null;
+
+  /**
+   * User highlights, drawn as overlays that stay above the text layer
+   */
+  userHighlights?: OverlayRegion[];
+
   /**
    * Rendering scale (default: 1.5)
    */
@@ -65,8 +90,59 @@ export interface PDFViewerProps {
    * Callback when PDF fails to load
    */
   onError?: (error: Error) => void;
+
+  /**
+   * Callback when the user finishes selecting text on a page
+   */
+  onTextSelect?: (selection: PDFTextSelection) => void;
+
+  /**
+   * Callback with the page and PDF coordinates of a plain click on a page
+   */
+  onPageClick?: (page: number, point: { x: number; y: number }) => void;
+
+  /**
+   * Page regions to mark in the gutter
+   */
+  gutterMarks?: PageGutterMark[];
+
+  /**
+   * Gutter content for a mark (e.g. node badges)
+   */
+  renderGutterMark?: (mark: PageGutterMark) => React.ReactNode;
+}
+
+/**
+ * Placeholder and paint state for one page
+ */
+interface PageSlot {
+  container: HTMLDivElement;
+  /** Page height in PDF points (for highlight coordinates) */
+  pdfHeight: number;
+  /** Render in progress, if any */
+  renderTask: pdfjsLib.RenderTask | null;
+  /** Text layer being built or shown, if any */
+  textLayer: pdfjsLib.TextLayer | null;
+  /** Whether a canvas is attached */
+  isPainted: boolean;
 }
 
+/**
+ * Placeholder position, for laying out the gutter
+ */
+interface PageLayout {
+  /** Offset from the top of the page stack in CSS pixels */
+  top: number;
+  /** Page height in PDF points */
+  pdfHeight: number;
+}
+
+/** Paint pages within one viewport height above and below the visible area */
+const PAINT_MARGIN = '100% 0px';
+
+/** Horizontal space taken by one gutter lane in CSS pixels */
+const GUTTER_LANE_WIDTH = 24;
+
 // ============================================================================
 // Component
 // ============================================================================
@@ -86,10 +162,16 @@ export interface PDFViewerProps {
 export function PDFViewer({
   pdfUrl,
   highlightReferences,
+  findHighlight,
+  userHighlights,
   scale = 1.5,
   className = '',
   onLoad,
   onError,
+  onTextSelect,
+  onPageClick,
+  gutterMarks,
+  renderGutterMark,
 }: PDFViewerProps) {
   console.log('[PDFViewer] Component rendered, pdfUrl:', pdfUrl);
 
@@ -97,19 +179,171 @@ export function PDFViewer({
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<Error | null>(null);
   const [pageCount, setPageCount] = useState(0);
-  const [pageHeight, setPageHeight] = useState(792); // Default to letter size
+  const [pageLayouts, setPageLayouts] = useState<PageLayout[]>([]);
   const pdfDocRef = useRef<pdfjsLib.PDFDocumentProxy | null>(null);
+  const slotsRef = useRef<Map<number, PageSlot>>(new Map());
+  const observerRef = useRef<IntersectionObserver | null>(null);
+  // Overlays by group ('find', 'highlights'); re-attached whenever a page repaints
+  const overlaysRef = useRef<Map<string, HTMLDivElement[]>>(new Map());
+  // Bumped on every load and on unmount so stale async work bails out
+  const loadIdRef = useRef(0);
 
   // ============================================================================
-  // PDF Rendering
+  // Page Painting
   // ============================================================================
 
   /**
-   * Load and render the PDF document
+   * Overlays that live in a page container and must survive repaints
+   */
+  const getPageOverlays = useCallback(
+    (pageNumber: number): HTMLElement[] =>
+      Array.from(overlaysRef.current.values())
+        .flat()
+        .filter((overlay) => overlay.dataset.pageNumber === String(pageNumber)),
+    []
+  );
+
+  /**
+   * Replace a group of overlays, attaching each to its page placeholder
+   */
+  const setOverlays = useCallback(
+    (group: string, regions: OverlayRegion[]): HTMLDivElement[] => {
+      overlaysRef.current.get(group)?.forEach((overlay) => overlay.remove());
+
+      const overlays = regions.flatMap((region) => {
+        const slot = slotsRef.current.get(region.page);
+        if (!slot) return [];
+
+        const overlay = createHighlightOverlay(
+          region.page,
+          region.bbox,
+          slot.pdfHeight,
+          scale,
+          region.config
+        );
+        overlay.dataset.highlightId = region.id;
+        slot.container.appendChild(overlay);
+        return [overlay];
+      });
+
+      overlaysRef.current.set(group, overlays);
+      return overlays;
+    },
+    [scale]
+  );
+
+  /**
+   * Render a page onto a fresh canvas with its text layer, then redraw its highlights
+   */
+  const paintPage = useCallback(
+    async (pageNumber: number) => {
+      const pdf = pdfDocRef.current;
+      const slot = slotsRef.current.get(pageNumber);
+      if (!pdf || !slot) return;
+
+      const loadId = loadIdRef.current;
+      slot.renderTask?.cancel();
+      slot.textLayer?.cancel();
+
+      const page = await pdf.getPage(pageNumber + 1);
+      if (loadId !== loadIdRef.current) return;
+      const viewport = page.getViewport({ scale });
+
+      // New canvas each paint so old highlights never linger
+      const canvas = document.createElement('canvas');
+      canvas.width = viewport.width;
+      canvas.height = viewport.height;
+      canvas.dataset.pageNumber = String(pageNumber); // 0-indexed
+      canvas.dataset.rendered = 'false';
+      canvas.className = 'pdf-page';
+
+      const context = canvas.getContext('2d');
+      if (!context) return;
+
+      // Transparent text positioned over the canvas so it can be selected
+      const textLayerDiv = document.createElement('div');
+      textLayerDiv.className = 'textLayer';
+      const textLayer = new pdfjsLib.TextLayer({
+        textContentSource: page.streamTextContent(),
+        container: textLayerDiv,
+        viewport,
+      });
+
+      const renderTask = page.render({ canvasContext: context, canvas, viewport });
+      slot.renderTask = renderTask;
+      slot.textLayer = textLayer;
+
+      try {
+        await Promise.all([renderTask.promise, textLayer.render()]);
+      } catch (err) {
+        // Cancelled because the page was released, repainted or unmounted
+        if (
+          err instanceof pdfjsLib.RenderingCancelledException ||
+          err instanceof pdfjsLib.AbortException
+        ) {
+          return;
+        }
+        throw err;
+      }
+
+      if (loadId !== loadIdRef.current || slot.renderTask !== renderTask) return;
+      slot.renderTask = null;
+      slot.container.replaceChildren(canvas, textLayerDiv, ...getPageOverlays(pageNumber));
+      slot.isPainted = true;
+      canvas.dataset.rendered = 'true';
+      redrawPageHighlights(pageNumber);
+    },
+    [scale, getPageOverlays]
+  );
+
+  /**
+   * Drop a page's canvas (keeping its placeholder size) to free memory
+   */
+  const releasePage = useCallback((pageNumber: number) => {
+    const slot = slotsRef.current.get(pageNumber);
+    if (!slot) return;
+
+    slot.renderTask?.cancel();
+    slot.renderTask = null;
+    slot.textLayer?.cancel();
+    slot.textLayer = null;
+    slot.container.replaceChildren(...getPageOverlays(pageNumber));
+    slot.isPainted = false;
+  }, [getPageOverlays]);
+
+  /**
+   * Cancel pending work and tear down the current document
+   */
+  const teardown = useCallback(() => {
+    loadIdRef.current += 1;
+    observerRef.current?.disconnect();
+    observerRef.current = null;
+    slotsRef.current.forEach((slot) => {
+      slot.renderTask?.cancel();
+      slot.textLayer?.cancel();
+    });
+    slotsRef.current.clear();
+    clearHighlights();
+    pdfDocRef.current?.destroy();
+    pdfDocRef.current = null;
+  }, []);
+
+  // ============================================================================
+  // PDF Loading
+  // ============================================================================
+
+  /**
+   * Load the PDF and lay out a sized placeholder for every page
+   *
+   * Pages are painted by the IntersectionObserver as they come near the
+   * viewport, so the viewer is usable as soon as the layout is known.
    */
   const loadPDF = useCallback(async () => {
     if (!containerRef.current || !pdfUrl) return;
 
+    teardown();
+    const loadId = loadIdRef.current;
+
     console.log('[PDFViewer] Starting PDF load:', pdfUrl);
     setIsLoading(true);
     setError(null);
@@ -127,62 +361,84 @@ export function PDFViewer({
 
       console.log('[PDFViewer] Waiting for PDF promise...');
       const pdf = await loadingTask.promise;
+      if (loadId !== loadIdRef.current) {
+        pdf.destroy();
+        return;
+      }
       console.log('[PDFViewer] PDF loaded successfully, pages:', pdf.numPages);
       pdfDocRef.current = pdf;
 
       const numPages = pdf.numPages;
       setPageCount(numPages);
 
+      // Page sizes only - nothing is rendered yet
+      const pages = await Promise.all(
+        Array.from({ length: numPages }, (_, index) => pdf.getPage(index + 1))
+      );
+      if (loadId !== loadIdRef.current) return;
+
       // Clear container (safety check in case ref became null)
-      if (!containerRef.current) {
+      const container = containerRef.current;
+      if (!container) {
         console.error('[PDFViewer] containerRef became null after PDF load');
         return;
       }
-      containerRef.current.innerHTML = '';
+      container.innerHTML = '';
+
+      const observer = new IntersectionObserver(
+        (entries) => {
+          entries.forEach((entry) => {
+            const pageNumber = Number((entry.target as HTMLElement).dataset.pageNumber);
+            const slot = slotsRef.current.get(pageNumber);
+            if (!slot) return;
+
+            if (entry.isIntersecting && !slot.isPainted && !slot.renderTask) {
+              paintPage(pageNumber).catch((err) => {
+                console.error('[PDFViewer] Failed to render page', pageNumber, err);
+              });
+            } else if (!entry.isIntersecting && (slot.isPainted || slot.renderTask)) {
+              releasePage(pageNumber);
+            }
+          });
+        },
+        { root: getScrollParent(container), rootMargin: PAINT_MARGIN }
+      );
+      observerRef.current = observer;
 
-      // Render each page
-      for (let pageNum = 1; pageNum <= numPages; pageNum++) {
-        const page = await pdf.getPage(pageNum);
+      pages.forEach((page, index) => {
         const viewport = page.getViewport({ scale });
 
-        // Store page height (all pages assumed same height)
-        if (pageNum === 1) {
-          setPageHeight(page.view[3]); // view[3] is page height in PDF points
-        }
-
-        // Create canvas
-        const canvas = document.createElement('canvas');
-        canvas.width = viewport.width;
-        canvas.height = viewport.height;
-        canvas.dataset.pageNumber = String(pageNum - 1); // 0-indexed
-        canvas.className = 'pdf-page mb-4 shadow-md';
-
-        // Create page container
+        // Placeholder sized from this page's own viewport
         const pageContainer = document.createElement('div');
-        pageContainer.className = 'pdf-page-container relative';
-        pageContainer.dataset.pageNumber = String(pageNum - 1);
-        pageContainer.appendChild(canvas);
-
-        // Safety check before appending
-        if (!containerRef.current) {
-          console.error('[PDFViewer] containerRef became null during page rendering');
-          break;
-        }
-        containerRef.current.appendChild(pageContainer);
-
-        // Render PDF page
-        const context = canvas.getContext('2d');
-        if (context) {
-          await page.render({
-            canvasContext: context,
-            viewport,
-          }).promise;
-        }
-      }
+        pageContainer.className = 'pdf-page-container relative bg-white shadow-md';
+        pageContainer.dataset.pageNumber = String(index); // 0-indexed
+        pageContainer.style.width = `${viewport.width}px`;
+        pageContainer.style.height = `${viewport.height}px`;
+        // Text layer spans are sized from this variable
+        pageContainer.style.setProperty('--total-scale-factor', String(scale));
+        container.appendChild(pageContainer);
+
+        slotsRef.current.set(index, {
+          container: pageContainer,
+          pdfHeight: page.view[3], // view[3] is page height in PDF points
+          renderTask: null,
+          textLayer: null,
+          isPainted: false,
+        });
+        observer.observe(pageContainer);
+      });
 
+      setPageLayouts(
+        pages.map((page, index) => ({
+          top: slotsRef.current.get(index)?.container.offsetTop ?? 0,
+          pdfHeight: page.view[3],
+        }))
+      );
       setIsLoading(false);
       onLoad?.(numPages);
     } catch (err) {
+      if (loadId !== loadIdRef.current) return;
+
       const error = err instanceof Error ? err : new Error('Failed to load PDF');
       console.error('[PDFViewer] Error loading PDF:', {
         error,
@@ -194,19 +450,16 @@ export function PDFViewer({
       setIsLoading(false);
       onError?.(error);
     }
-  }, [pdfUrl, scale, onLoad, onError]);
+  }, [pdfUrl, scale, onLoad, onError, teardown, paintPage, releasePage]);
 
   // Load PDF on mount and when URL changes
   useEffect(() => {
     console.log('[PDFViewer] useEffect triggered, pdfUrl:', pdfUrl, 'containerRef:', !!containerRef.current);
     loadPDF();
 
-    // Cleanup on unmount
-    return () => {
-      pdfDocRef.current?.destroy();
-      pdfDocRef.current = null;
-    };
-  }, [loadPDF]);
+    // Cancel in-flight loads and renders on unmount
+    return teardown;
+  }, [loadPDF, teardown]);
 
   // ============================================================================
   // Highlighting
@@ -214,6 +467,8 @@ export function PDFViewer({
 
   /**
    * Apply highlights when references change
+   *
+   * Highlights on pages that are not painted yet are drawn when they are.
    */
   useEffect(() => {
     console.log('[PDFViewer] Highlight useEffect triggered:', {
@@ -221,7 +476,6 @@ export function PDFViewer({
       hasHighlightReferences: !!highlightReferences,
       highlightReferencesLength: highlightReferences?.length || 0,
       highlightReferences: highlightReferences,
-      pageHeight,
       scale,
     });
 
@@ -231,20 +485,27 @@ export function PDFViewer({
       return;
     }
 
+    // Repaint pages that show the previous node's highlights
+    clearHighlights().forEach((pageNumber) => {
+      if (slotsRef.current.get(pageNumber)?.isPainted) {
+        paintPage(pageNumber).catch((err) => {
+          console.error('[PDFViewer] Failed to repaint page', pageNumber, err);
+        });
+      }
+    });
+
     if (!highlightReferences || highlightReferences.length === 0) {
       console.log('[PDFViewer] Skipping highlights - no references to highlight');
       return;
     }
 
-    // Small delay to ensure canvas rendering is complete
+    // Small delay so scrolling starts after the layout settles
     const timer = setTimeout(() => {
       console.log('[PDFViewer] Applying highlights to', highlightReferences.length, 'references');
-      console.log('[PDFViewer] First reference:', highlightReferences[0]);
 
-      // Highlight all references
-      const result = highlightAllReferences(
+      highlightAllReferences(
         highlightReferences,
-        pageHeight,
+        (pageNumber) => slotsRef.current.get(pageNumber)?.pdfHeight ?? 792, // Letter size fallback
         scale,
         {
           fillColor: 'rgba(212, 165, 116, 0.3)', // Warm amber
@@ -254,9 +515,7 @@ export function PDFViewer({
         100 // 100ms stagger between highlights
       );
 
-      console.log('[PDFViewer] highlightAllReferences returned:', result);
-
-      // Scroll to first reference
+      // Scroll to first reference (its page paints once it is in view)
       const firstPage = getFirstPageNumber(highlightReferences);
       if (firstPage !== null) {
         console.log('[PDFViewer] Scrolling to page:', firstPage);
@@ -267,7 +526,87 @@ export function PDFViewer({
     }, 100);
 
     return () => clearTimeout(timer);
-  }, [highlightReferences, isLoading, pageHeight, scale]);
+  }, [highlightReferences, isLoading, scale, paintPage]);
+
+  /**
+   * Outline the active find match and bring it into view
+   */
+  useEffect(() => {
+    if (isLoading || !findHighlight) return;
+
+    const [overlay] = setOverlays('find', [
+      {
+        ...findHighlight,
+        id: 'find-match',
+        config: {
+          fillColor: 'rgba(250, 204, 21, 0.25)',
+          strokeColor: 'rgba(202, 138, 4, 0.8)',
+          strokeWidth: 2,
+        },
+      },
+    ]);
+    overlay?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+
+    return () => {
+      setOverlays('find', []);
+    };
+  }, [findHighlight, isLoading, setOverlays]);
+
+  /**
+   * Draw user highlights
+   */
+  useEffect(() => {
+    if (isLoading || !userHighlights) return;
+
+    setOverlays('highlights', userHighlights);
+    return () => {
+      setOverlays('highlights', []);
+    };
+  }, [userHighlights, isLoading, setOverlays]);
+
+  // ============================================================================
+  // Text Selection
+  // ============================================================================
+
+  /**
+   * Report text selected on a page's text layer
+   */
+  const handleMouseUp = useCallback(() => {
+    if (!onTextSelect) return;
+
+    const selection = getPDFTextSelection(
+      window.getSelection(),
+      (pageNumber) => slotsRef.current.get(pageNumber)?.pdfHeight ?? 792,
+      scale
+    );
+    if (selection) {
+      onTextSelect(selection);
+    }
+  }, [onTextSelect, scale]);
+
+  /**
+   * Report where on a page the user clicked (ignoring the end of a text selection)
+   */
+  const handleClick = useCallback(
+    (event: React.MouseEvent<HTMLDivElement>) => {
+      if (!onPageClick || !window.getSelection()?.isCollapsed) return;
+
+      const pageElement = (event.target as Element).closest<HTMLElement>(
+        '.pdf-page-container[data-page-number]'
+      );
+      if (!pageElement) return;
+
+      const pageNumber = Number(pageElement.dataset.pageNumber);
+      const rect = pageElement.getBoundingClientRect();
+      const { x, y } = canvasToPdfCoords(
+        { x: event.clientX - rect.left, y: event.clientY - rect.top, width: 0, height: 0 },
+        slotsRef.current.get(pageNumber)?.pdfHeight ?? 792,
+        scale
+      );
+      onPageClick(pageNumber, { x, y });
+    },
+    [onPageClick, scale]
+  );
 
   // ============================================================================
   // Render
@@ -314,15 +653,47 @@ export function PDFViewer({
         </div>
       )}
 
-      {/* PDF container - always rendered so ref is available */}
       <div
-        ref={containerRef}
-        className="pdf-container space-y-4"
+        className="relative"
         style={{
           maxWidth: `${(scale * 612)}px`, // 612 points = letter width
           margin: '0 auto',
         }}
-      />
+      >
+        {/* PDF container - always rendered so ref is available */}
+        <div
+          ref={containerRef}
+          onMouseUp={handleMouseUp}
+          onClick={handleClick}
+          className="pdf-container space-y-4"
+        />
+
+        {/* Gutter - each mark spans its region, left of the page */}
+        {renderGutterMark &&
+          gutterMarks?.map((mark) => {
+            const layout = pageLayouts[mark.page];
+            if (!layout) return null;
+
+            return (
+              <div
+                key={mark.key}
+                data-node-ids={mark.nodeIds.join(' ')}
+                className="absolute w-5 flex justify-center"
+                style={{
+                  top: layout.top + (layout.pdfHeight - mark.top) * scale,
+                  height: Math.max((mark.top - mark.bottom) * scale, 20),
+                  right: `calc(100% + ${8 + mark.lane * GUTTER_LANE_WIDTH}px)`,
+                }}
+              >
+                <div
+                  className="absolute inset-y-0 left-1/2 w-0.5 -translate-x-1/2 rounded-full bg-primary-100"
+                  aria-hidden="true"
+                />
+                <div className="relative">{renderGutterMark(mark)}</div>
+              </div>
+            );
+          })}
+      </div>
 
       {/* Page count indicator */}
       {pageCount > 0 && (
@@ -11,18 +11,71 @@
  * - Scrolls to node references on click
  * - Highlights relevant passages
  * - Shows scroll position indicator
+ * - Find in document (Ctrl+F / Cmd+F) for text and PDF documents
+ * - User highlights with comments, optionally attached to graph nodes
+ * - Reverse navigation: clicking or scrolling to a cited passage reports the
+ *   nodes citing it, and a gutter of node badges marks cited passages
+ * - Reading progress: nodes with passages in view and the share of each
+ *   node's passages seen so far, plus the current section in the indicator
+ * - Document tabs for graphs merged from several source documents
  */
 
 'use client';
 
-import React, { useEffect, useRef, useState, useCallback } from 'react';
+import React, { useEffect, useRef, useState, useCallback, useMemo } from 'react';
 import dynamic from 'next/dynamic';
+import { Highlighter, Search } from 'lucide-react';
 import { useDocument } from '@/hooks/useDocument';
+import { useHighlights, useCreateHighlight, useDeleteHighlight } from '@/hooks/useHighlights';
 import { DocumentViewer } from './DocumentViewer';
 import { ScrollIndicator } from './ScrollIndicator';
-import { scrollToPosition, calculateScrollPosition } from '@/lib/scroll-utils';
+import { FindBar } from './FindBar';
+import { HighlightComposer, type HighlightComposerValues } from './HighlightComposer';
+import { HighlightSidebar } from './HighlightSidebar';
+import { NodeBadges } from './NodeBadges';
+import { DocumentTabs } from './DocumentTabs';
+import {
+  scrollToPosition,
+  calculateScrollPosition,
+  highlightTextRange,
+} from '@/lib/scroll-utils';
+import {
+  splitParagraphs,
+  findInParagraphs,
+  findInTextBlocks,
+  stepMatchIndex,
+} from '@/lib/document-search';
+import {
+  getParagraphStarts,
+  getTextHighlightMarks,
+  getPDFHighlightOverlays,
+  type TextSelectionRange,
+} from '@/lib/highlights';
+import { getFirstPageNumber, scrollToPage, type PDFTextSelection } from '@/lib/pdf-utils';
+import {
+  buildPassageIndex,
+  findNodesAtOffset,
+  findNodesAtPoint,
+  findNodesAtLine,
+  getParagraphGutterMarks,
+  getPageGutterMarks,
+  type ParagraphGutterMark,
+  type PageGutterMark,
+} from '@/lib/passage-index';
+import {
+  findVisiblePassages,
+  getNodesForPassages,
+  getNodeReadingProgress,
+  type ReadingProgress,
+} from '@/lib/reading-progress';
 import { getDocumentFile } from '@/lib/api/documents';
-import type { NodeDocumentReference } from '@/types/api.types';
+import type {
+  GraphNode,
+  GraphSourceDocument,
+  Highlight,
+  HighlightAnchor,
+  NodeDocumentReference,
+} from '@/types/api.types';
 
 // Dynamically import PDFViewer with no SSR to avoid DOMMatrix errors
 const PDFViewer = dynamic(
@@ -51,7 +104,7 @@ export interface ReadingPanelProps {
   documentId: string;
 
   /**
-   * Currently active node ID (from graph click)
+   * Currently active node (from graph click): its Mermaid key or ID
    */
   activeNodeId?: string | null;
 
@@ -68,12 +121,72 @@ export interface ReadingPanelProps {
    */
   highlightReferences?: NodeDocumentReference[] | null;
 
+  /**
+   * Graph the document belongs to (enables attaching highlights to nodes)
+   */
+  graphId?: string;
+
+  /**
+   * Graph nodes highlights can be attached to
+   */
+  nodes?: GraphNode[];
+
+  /**
+   * Callback with the nodes citing the passage the user clicked or scrolled to
+   */
+  onPassageNodesChange?: (nodeIds: string[]) => void;
+
+  /**
+   * Callback when a node badge in the gutter is clicked
+   */
+  onNodeSelect?: (nodeId: string) => void;
+
+  /**
+   * Callback with the nodes whose passages are in view and each node's reading progress
+   */
+  onReadingProgressChange?: (progress: ReadingProgress) => void;
+
+  /**
+   * Source documents of a merged graph; shown as tabs when there are several
+   * (`documentId` is the open tab, and `nodes` should be the nodes citing it)
+   */
+  documents?: GraphSourceDocument[];
+
+  /**
+   * Source color by document ID, shown on the tabs
+   */
+  documentColors?: Record<string, string>;
+
+  /**
+   * Callback when a document tab is clicked
+   */
+  onDocumentChange?: (documentId: string) => void;
+
   /**
    * Additional CSS classes
    */
   className?: string;
 }
 
+/** Stable default so the passage index isn't rebuilt every render */
+const NO_NODES: GraphNode[] = [];
+
+/** Fraction of the panel height where the reader's line of sight is assumed */
+const READING_LINE = 1 / 3;
+
+/** Rendering scale for PDF pages */
+const PDF_SCALE = 1.5;
+
+/**
+ * Selection waiting to be saved as a highlight
+ */
+interface PendingHighlight {
+  text: string;
+  anchor: HighlightAnchor;
+  /** Resets the composer for each new selection */
+  key: number;
+}
+
 // ============================================================================
 // Component
 // ============================================================================
@@ -99,6 +212,15 @@ export interface ReadingPanelProps {
  *   activeNodeId={selectedNodeId}
  *   highlightReferences={selectedNode?.documentRefs?.references}
  * />
+ *
+ * // Merged graph (one tab per source document)
+ * <ReadingPanel
+ *   documentId={activeDocumentId}
+ *   documents={getGraphDocuments(graph)}
+ *   documentColors={documentColors}
+ *   onDocumentChange={setActiveDocumentId}
+ *   nodes={getDocumentNodes(graph, activeDocumentId)}
+ * />
  * ```
  */
 export function ReadingPanel({
@@ -106,6 +228,14 @@ export function ReadingPanel({
   activeNodeId,
   highlightRange,
   highlightReferences,
+  graphId,
+  nodes = NO_NODES,
+  onPassageNodesChange,
+  onNodeSelect,
+  onReadingProgressChange,
+  documents,
+  documentColors,
+  onDocumentChange,
   className = '',
 }: ReadingPanelProps) {
   const containerRef = useRef<HTMLDivElement>(null);
@@ -126,9 +256,92 @@ export function ReadingPanel({
   const [pdfError, setPdfError] = useState<Error | null>(null);
   const [isPdfLoading, setIsPdfLoading] = useState(false);
 
+  // User highlights
+  const { data: highlights = [] } = useHighlights(documentId);
+  const createHighlightMutation = useCreateHighlight();
+  const deleteHighlightMutation = useDeleteHighlight();
+  const [pendingHighlight, setPendingHighlight] = useState<PendingHighlight | null>(null);
+  const [isHighlightsOpen, setIsHighlightsOpen] = useState(false);
+  const [selectedHighlightId, setSelectedHighlightId] = useState<string | null>(null);
+
+  // A selection made in one document tab can't be saved against another
+  useEffect(() => {
+    setPendingHighlight(null);
+    setSelectedHighlightId(null);
+  }, [documentId]);
+
+  const textHighlightMarks = useMemo(() => getTextHighlightMarks(highlights), [highlights]);
+  const pdfHighlightOverlays = useMemo(() => getPDFHighlightOverlays(highlights), [highlights]);
+
+  // Reverse index from cited passages to nodes
+  const passageIndex = useMemo(() => buildPassageIndex(nodes), [nodes]);
+
+  // Graph clicks report Mermaid keys; badges and highlights refer to nodes by ID
+  const activeGraphNodeId = useMemo(
+    () =>
+      nodes.find((node) => node.nodeKey === activeNodeId || node.id === activeNodeId)?.id ??
+      null,
+    [nodes, activeNodeId]
+  );
+  const paragraphGutterMarks = useMemo(
+    () => getParagraphGutterMarks(passageIndex, document?.content ?? ''),
+    [passageIndex, document?.content]
+  );
+  const pageGutterMarks = useMemo(() => getPageGutterMarks(passageIndex), [passageIndex]);
+  const paragraphStarts = useMemo(
+    () => getParagraphStarts(document?.content ?? ''),
+    [document?.content]
+  );
+  const lastPassageNodesRef = useRef<string | null>(null);
+
+  // Passages seen so far, for reading progress (reset with the index)
+  const seenPassagesRef = useRef<Set<string>>(new Set());
+  const lastVisiblePassagesRef = useRef<string | null>(null);
+  const [currentSection, setCurrentSection] = useState<string | null>(null);
+  const [pdfPageCount, setPdfPageCount] = useState(0);
+
+  useEffect(() => {
+    seenPassagesRef.current = new Set();
+    lastVisiblePassagesRef.current = null;
+    setCurrentSection(null);
+  }, [passageIndex, documentId]);
+
+  // Find-in-document state
+  const [isFindOpen, setIsFindOpen] = useState(false);
+  const [findQuery, setFindQuery] = useState('');
+  const [activeMatchIndex, setActiveMatchIndex] = useState(0);
+  const [findFocusRequest, setFindFocusRequest] = useState(0);
+
+  // PDFs are searched through their text blocks while the canvas view is shown
+  const searchesTextBlocks = isPDF && !!pdfUrl && !pdfError;
+  const paragraphs = useMemo(() => splitParagraphs(document?.content ?? ''), [document?.content]);
+
+  const paragraphMatches = useMemo(
+    () => (isFindOpen && !searchesTextBlocks ? findInParagraphs(paragraphs, findQuery) : []),
+    [isFindOpen, searchesTextBlocks, paragraphs, findQuery]
+  );
+  const textBlockMatches = useMemo(
+    () =>
+      isFindOpen && searchesTextBlocks
+        ? findInTextBlocks(document?.metadata?.textBlocks ?? [], findQuery)
+        : [],
+    [isFindOpen, searchesTextBlocks, document?.metadata?.textBlocks, findQuery]
+  );
+  const matchCount = searchesTextBlocks ? textBlockMatches.length : paragraphMatches.length;
+
+  const activeTextBlockMatch = textBlockMatches[activeMatchIndex];
+  const findHighlight = useMemo(
+    () =>
+      activeTextBlockMatch
+        ? { page: activeTextBlockMatch.page, bbox: activeTextBlockMatch.bbox }
+        : null,
+    [activeTextBlockMatch]
+  );
+
   // Memoized PDF load handler (prevents PDFViewer from re-rendering)
   const handlePdfLoad = useCallback((pageCount: number) => {
     console.log(`[ReadingPanel] PDF loaded: ${pageCount} pages`);
+    setPdfPageCount(pageCount);
   }, []);
 
   // Memoized PDF error handler (prevents PDFViewer from re-rendering)
@@ -182,6 +395,228 @@ export function ReadingPanel({
     };
   }, [isPDF, documentId]);
 
+  // Mark and scroll to the active match in a text document
+  useEffect(() => {
+    const match = paragraphMatches[activeMatchIndex];
+    if (!match || !containerRef.current) return;
+
+    const paragraph = containerRef.current.querySelector<HTMLElement>(
+      `[data-paragraph-index="${match.paragraphIndex}"]`
+    );
+    if (!paragraph) return;
+
+    const cleanup = highlightTextRange(
+      paragraph,
+      match.startOffset,
+      match.endOffset,
+      'find-match bg-warning/40 rounded-sm'
+    );
+    paragraph.querySelector('mark.find-match')?.scrollIntoView({
+      behavior: 'smooth',
+      block: 'center',
+    });
+
+    return cleanup;
+  }, [paragraphMatches, activeMatchIndex]);
+
+  const openFind = () => {
+    setIsFindOpen(true);
+    setFindFocusRequest((request) => request + 1);
+  };
+
+  const closeFind = () => {
+    setIsFindOpen(false);
+    setActiveMatchIndex(0);
+  };
+
+  const handleFindQueryChange = (query: string) => {
+    setFindQuery(query);
+    setActiveMatchIndex(0);
+  };
+
+  const stepMatch = (direction: 1 | -1) => {
+    setActiveMatchIndex((index) => stepMatchIndex(index, matchCount, direction));
+  };
+
+  const handleTextSelect = useCallback((selection: TextSelectionRange) => {
+    setPendingHighlight((previous) => ({
+      text: selection.text,
+      anchor: {
+        type: 'text',
+        startOffset: selection.startOffset,
+        endOffset: selection.endOffset,
+      },
+      key: (previous?.key ?? 0) + 1,
+    }));
+  }, []);
+
+  const handlePdfTextSelect = useCallback((selection: PDFTextSelection) => {
+    setPendingHighlight((previous) => ({
+      text: selection.text,
+      anchor: {
+        type: 'pdf',
+        reference: {
+          text: selection.text,
+          page: selection.page,
+          coordinates: selection.coordinates,
+        },
+      },
+      key: (previous?.key ?? 0) + 1,
+    }));
+  }, []);
+
+  const handleSaveHighlight = (values: HighlightComposerValues) => {
+    if (!pendingHighlight) return;
+
+    createHighlightMutation.mutate(
+      {
+        documentId,
+        graphId,
+        nodeId: graphId && values.nodeId ? values.nodeId : undefined,
+        text: pendingHighlight.text,
+        color: values.color,
+        comment: values.comment || undefined,
+        anchor: pendingHighlight.anchor,
+      },
+      {
+        onSuccess: () => {
+          setPendingHighlight(null);
+          window.getSelection()?.removeAllRanges();
+        },
+      }
+    );
+  };
+
+  const handleCancelHighlight = () => {
+    setPendingHighlight(null);
+    createHighlightMutation.reset();
+  };
+
+  /**
+   * Scroll to a highlight's mark (text) or overlay (PDF)
+   */
+  const showHighlight = (highlight: Highlight) => {
+    setSelectedHighlightId(highlight.id);
+
+    const element = containerRef.current?.querySelector(
+      `[data-highlight-id="${highlight.id}"]`
+    );
+    if (element) {
+      element.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    } else if (highlight.anchor.type === 'pdf') {
+      const page = getFirstPageNumber([highlight.anchor.reference]);
+      if (page !== null) scrollToPage(page);
+    }
+  };
+
+  const handleUserHighlightClick = useCallback((highlightId: string) => {
+    setIsHighlightsOpen(true);
+    setSelectedHighlightId(highlightId);
+  }, []);
+
+  const handleDeleteHighlight = (highlight: Highlight) => {
+    deleteHighlightMutation.mutate({ highlightId: highlight.id, documentId });
+  };
+
+  /**
+   * Report the nodes behind a passage, skipping repeats while scrolling
+   */
+  const reportPassageNodes = useCallback(
+    (nodeIds: string[]) => {
+      const key = nodeIds.join(' ');
+      if (key === lastPassageNodesRef.current) return;
+      lastPassageNodesRef.current = key;
+      onPassageNodesChange?.(nodeIds);
+    },
+    [onPassageNodesChange]
+  );
+
+  const handlePassageClick = useCallback(
+    (offset: number) => reportPassageNodes(findNodesAtOffset(passageIndex, offset)),
+    [passageIndex, reportPassageNodes]
+  );
+
+  const handlePageClick = useCallback(
+    (page: number, point: { x: number; y: number }) =>
+      reportPassageNodes(findNodesAtPoint(passageIndex, page, point)),
+    [passageIndex, reportPassageNodes]
+  );
+
+  const renderGutterMark = useCallback(
+    (mark: ParagraphGutterMark | PageGutterMark) => (
+      <NodeBadges
+        nodeIds={mark.nodeIds}
+        nodes={nodes}
+        activeNodeIds={activeGraphNodeId ? [activeGraphNodeId] : []}
+        onSelect={onNodeSelect}
+      />
+    ),
+    [nodes, activeGraphNodeId, onNodeSelect]
+  );
+
+  /**
+   * Track the passages in view: the reading line picks the current passage,
+   * and everything on screen counts toward reading progress
+   */
+  const updateReadingPosition = useCallback(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    if (onPassageNodesChange) {
+      const rect = container.getBoundingClientRect();
+      reportPassageNodes(findNodesAtLine(container, rect.top + rect.height * READING_LINE));
+    }
+
+    const visible = findVisiblePassages(passageIndex, container, paragraphStarts, PDF_SCALE);
+    const key = visible.join(' ');
+    if (key === lastVisiblePassagesRef.current) return;
+    lastVisiblePassagesRef.current = key;
+    visible.forEach((passage) => seenPassagesRef.current.add(passage));
+
+    const visibleNodeIds = getNodesForPassages(passageIndex, visible);
+    const currentNode = nodes.find((node) => node.id === visibleNodeIds[0]);
+    setCurrentSection(currentNode?.title ?? null);
+    onReadingProgressChange?.({
+      visibleNodeIds,
+      nodeProgress: getNodeReadingProgress(passageIndex, seenPassagesRef.current),
+    });
+  }, [
+    nodes,
+    passageIndex,
+    paragraphStarts,
+    onPassageNodesChange,
+    onReadingProgressChange,
+    reportPassageNodes,
+  ]);
+
+  // Follow the reader as the panel scrolls (and once pages are laid out)
+  const hasPassages = passageIndex.text.length > 0 || passageIndex.pages.length > 0;
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container || !hasPassages) return;
+
+    let frame = requestAnimationFrame(updateReadingPosition);
+    const handleScroll = () => {
+      cancelAnimationFrame(frame);
+      frame = requestAnimationFrame(updateReadingPosition);
+    };
+
+    container.addEventListener('scroll', handleScroll, { passive: true });
+    return () => {
+      container.removeEventListener('scroll', handleScroll);
+      cancelAnimationFrame(frame);
+    };
+  }, [document, pdfPageCount, hasPassages, updateReadingPosition]);
+
+  // Ctrl+F / Cmd+F inside the panel opens find instead of browser find,
+  // which can't see text painted onto PDF canvases
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLDivElement>) => {
+    if ((event.ctrlKey || event.metaKey) && event.key.toLowerCase() === 'f') {
+      event.preventDefault();
+      openFind();
+    }
+  };
+
   // Scroll to highlighted section when highlightRange changes
   useEffect(() => {
     if (!contentRef.current || !highlightRange) return;
@@ -202,9 +637,31 @@ export function ReadingPanel({
     document?.content ?? null,
   ]);
 
+  // Tabs for the source documents of a merged graph, kept above every panel state
+  const documentTabs =
+    documents && documents.length > 1 ? (
+      <DocumentTabs
+        documents={documents}
+        activeDocumentId={documentId}
+        colors={documentColors}
+        onSelect={(nextDocumentId) => onDocumentChange?.(nextDocumentId)}
+        className="shrink-0"
+      />
+    ) : null;
+
+  const withTabs = (panel: React.ReactElement) =>
+    documentTabs ? (
+      <div className="flex flex-col h-full">
+        {documentTabs}
+        <div className="flex-1 min-h-0">{panel}</div>
+      </div>
+    ) : (
+      panel
+    );
+
   // Loading state
   if (isLoading) {
-    return (
+    return withTabs(
       <div className={`reading-panel ${className}`}>
         <div className="flex items-center justify-center h-full">
           <div className="text-center">
@@ -218,7 +675,7 @@ export function ReadingPanel({
 
   // Error state
   if (error) {
-    return (
+    return withTabs(
       <div className={`reading-panel ${className}`}>
         <div className="flex items-center justify-center h-full">
           <div className="text-center text-error">
@@ -245,7 +702,7 @@ export function ReadingPanel({
 
   // No document state
   if (!document) {
-    return (
+    return withTabs(
       <div className={`reading-panel ${className}`}>
         <div className="flex items-center justify-center h-full">
           <div className="text-center text-text-muted">
@@ -269,22 +726,49 @@ export function ReadingPanel({
     );
   }
 
-  return (
+  return withTabs(
     <div
+      tabIndex={-1}
+      onKeyDown={handleKeyDown}
       className={`
         reading-panel
         relative
         h-full
         bg-chrome
         overflow-hidden
+        focus:outline-none
         ${className}
       `}
     >
       {/* Header */}
       <div className="sticky top-0 z-10 bg-chrome border-b border-gray-200 px-8 py-4">
-        <h2 className="text-lg font-semibold text-text-primary line-clamp-1">
-          {document.title}
-        </h2>
+        <div className="flex items-start justify-between gap-4">
+          <h2 className="text-lg font-semibold text-text-primary line-clamp-1">
+            {document.title}
+          </h2>
+          <div className="flex items-center gap-1">
+            <button
+              onClick={openFind}
+              className="p-1 rounded-md text-text-muted hover:text-text-primary hover:bg-primary-50 transition-colors"
+              aria-label="Find in document"
+              title="Find in document (Ctrl+F)"
+            >
+              <Search className="w-4 h-4" />
+            </button>
+            <button
+              onClick={() => setIsHighlightsOpen((open) => !open)}
+              className={`flex items-center gap-1 p-1 rounded-md text-xs transition-colors hover:bg-primary-50 ${
+                isHighlightsOpen ? 'text-primary' : 'text-text-muted hover:text-text-primary'
+              }`}
+              aria-label="Highlights"
+              aria-pressed={isHighlightsOpen}
+              title="Highlights"
+            >
+              <Highlighter className="w-4 h-4" />
+              {highlights.length > 0 && <span>{highlights.length}</span>}
+            </button>
+          </div>
+        </div>
         {document.sourceType && (
           <p className="text-xs text-text-muted mt-1">
             {document.sourceType.toUpperCase()} document
@@ -297,6 +781,49 @@ export function ReadingPanel({
         )}
       </div>
 
+      {/* Find bar */}
+      {isFindOpen && (
+        <FindBar
+          query={findQuery}
+          onQueryChange={handleFindQueryChange}
+          matchCount={matchCount}
+          activeIndex={activeMatchIndex}
+          onNext={() => stepMatch(1)}
+          onPrevious={() => stepMatch(-1)}
+          onClose={closeFind}
+          focusRequest={findFocusRequest}
+          className="absolute top-20 right-8 z-20 w-80"
+        />
+      )}
+
+      {/* Highlights sidebar */}
+      {isHighlightsOpen && (
+        <HighlightSidebar
+          highlights={highlights}
+          nodes={nodes}
+          selectedId={selectedHighlightId}
+          onSelect={showHighlight}
+          onDelete={handleDeleteHighlight}
+          onClose={() => setIsHighlightsOpen(false)}
+          className="absolute top-20 right-0 bottom-0 z-20 w-72"
+        />
+      )}
+
+      {/* New highlight */}
+      {pendingHighlight && (
+        <HighlightComposer
+          key={pendingHighlight.key}
+          text={pendingHighlight.text}
+          nodes={graphId ? nodes : undefined}
+          defaultNodeId={graphId ? activeGraphNodeId : null}
+          isSaving={createHighlightMutation.isPending}
+          error={createHighlightMutation.error?.message}
+          onSave={handleSaveHighlight}
+          onCancel={handleCancelHighlight}
+          className="absolute bottom-6 left-8 right-8 z-30 max-w-md mx-auto"
+        />
+      )}
+
       {/* Scrollable content */}
       <div
         ref={containerRef}
@@ -331,9 +858,15 @@ export function ReadingPanel({
               <PDFViewer
                 pdfUrl={pdfUrl}
                 highlightReferences={highlightReferences}
-                scale={1.5}
+                findHighlight={findHighlight}
+                userHighlights={pdfHighlightOverlays}
+                scale={PDF_SCALE}
                 onLoad={handlePdfLoad}
                 onError={handlePdfError}
+                onTextSelect={handlePdfTextSelect}
+                onPageClick={handlePageClick}
+                gutterMarks={pageGutterMarks}
+                renderGutterMark={renderGutterMark}
               />
             )}
 
@@ -347,6 +880,12 @@ export function ReadingPanel({
                   <DocumentViewer
                     content={document.content}
                     highlightRange={highlightRange}
+                    userHighlights={textHighlightMarks}
+                    onTextSelect={handleTextSelect}
+                    onUserHighlightClick={handleUserHighlightClick}
+                    onPassageClick={handlePassageClick}
+                    gutterMarks={paragraphGutterMarks}
+                    renderGutterMark={renderGutterMark}
                   />
                 </div>
               </div>
@@ -361,6 +900,12 @@ export function ReadingPanel({
             <DocumentViewer
               content={document.content}
               highlightRange={highlightRange}
+              userHighlights={textHighlightMarks}
+              onTextSelect={handleTextSelect}
+              onUserHighlightClick={handleUserHighlightClick}
+              onPassageClick={handlePassageClick}
+              gutterMarks={paragraphGutterMarks}
+              renderGutterMark={renderGutterMark}
             />
           </div>
         )}
@@ -371,6 +916,7 @@ export function ReadingPanel({
         <ScrollIndicator
           containerRef={containerRef as React.RefObject<HTMLElement>}
           position="bottom-right"
+          sectionLabel={currentSection}
         />
       )}
 
@@ -2,7 +2,8 @@
  * ScrollIndicator Component
  *
  * Displays scroll position as a percentage and provides visual feedback.
- * Updates in real-time as user scrolls through document content.
+ * Updates in real-time as user scrolls through document content. Can also
+ * name the section being read (e.g. the concept whose passage is in view).
  */
 
 'use client';
@@ -30,6 +31,11 @@ export interface ScrollIndicatorProps {
    */
   position?: 'top-right' | 'bottom-right' | 'top-left' | 'bottom-left';
 
+  /**
+   * Current section, shown before the percentage
+   */
+  sectionLabel?: string | null;
+
   /**
    * Additional CSS classes
    */
@@ -57,6 +63,7 @@ export function ScrollIndicator({
   containerRef,
   showPercentage = true,
   position = 'bottom-right',
+  sectionLabel = null,
   className = '',
 }: ScrollIndicatorProps) {
   const [scrollPercent, setScrollPercent] = useState(0);
@@ -105,7 +112,11 @@ export function ScrollIndicator({
         ${className}
       `}
       role="status"
-      aria-label={`Scroll progress: ${scrollPercent}%`}
+      aria-label={
+        sectionLabel
+          ? `Reading ${sectionLabel}, scroll progress: ${scrollPercent}%`
+          : `Scroll progress: ${scrollPercent}%`
+      }
     >
       {/* Progress circle */}
       <svg
@@ -137,6 +148,13 @@ export function ScrollIndicator({
         />
       </svg>
 
+      {/* Current section */}
+      {sectionLabel && (
+        <span className="max-w-[12rem] truncate text-xs text-text-primary" title={sectionLabel}>
+          {sectionLabel}
+        </span>
+      )}
+
       {/* Percentage text */}
       {showPercentage && (
         <span className="text-xs font-medium text-text-secondary tabular-nums">
@@ -12,3 +12,18 @@ export type { DocumentViewerProps } from './DocumentViewer';
 
 export { ScrollIndicator } from './ScrollIndicator';
 export type { ScrollIndicatorProps } from './ScrollIndicator';
+
+export { FindBar } from './FindBar';
+export type { FindBarProps } from './FindBar';
+
+export { HighlightComposer } from './HighlightComposer';
+export type { HighlightComposerProps, HighlightComposerValues } from './HighlightComposer';
+
+export { HighlightSidebar } from './HighlightSidebar';
+export type { HighlightSidebarProps } from './HighlightSidebar';
+
+export { NodeBadges } from './NodeBadges';
+export type { NodeBadgesProps } from './NodeBadges';
+
+export { DocumentTabs } from './DocumentTabs';
+export type { DocumentTabsProps } from './DocumentTabs';
@@ -0,0 +1,143 @@
+'use client';
+
+import * as React from 'react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Spinner } from '@/components/ui/spinner';
+import { QuizModal } from '@/components/quiz';
+import { useDueReviews } from '@/hooks/useReview';
+import { groupReviewsByGraph, type ReviewRecord } from '@/lib/review/scheduler';
+
+/**
+ * Review Queue Component
+ *
+ * Spaced-repetition review across every graph (PRODUCT.md Feature 8).
+ * Lists the nodes that are due, grouped by source document, and runs a
+ * quiz focused on one group's nodes. Finishing the quiz reschedules those
+ * nodes, so they drop out of the queue.
+ *
+ * @example
+ * <ReviewQueue />
+ */
+
+export interface ReviewQueueProps {
+  /**
+   * Most questions to ask in one session
+   * @default 10
+   */
+  maxQuestions?: number;
+}
+
+interface ReviewSession {
+  graphId: string;
+  nodeIds: string[];
+  /** Distinguishes repeat sessions on the same graph so the quiz starts fresh */
+  key: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Describe a due date relative to today
+ */
+function formatDue(dueAt: string, now: Date): string {
+  const days = Math.round((new Date(dueAt).getTime() - now.getTime()) / DAY_MS);
+
+  if (days === 0) return 'today';
+  if (days === 1) return 'tomorrow';
+  if (days === -1) return 'yesterday';
+  return days > 0 ? `in ${days} days` : `${-days} days overdue`;
+}
+
+export function ReviewQueue({ maxQuestions = 10 }: ReviewQueueProps) {
+  const { dueRecords, nextReview, isLoading } = useDueReviews();
+  const [session, setSession] = React.useState<ReviewSession | null>(null);
+
+  const groups = React.useMemo(
+    () => Array.from(groupReviewsByGraph(dueRecords).entries()),
+    [dueRecords]
+  );
+  const now = new Date();
+
+  const handleStart = (graphId: string, records: ReviewRecord[]) => {
+    setSession((previous) => ({
+      graphId,
+      nodeIds: records.map((record) => record.nodeId),
+      key: (previous?.key ?? 0) + 1,
+    }));
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-16">
+        <Spinner size="lg" variant="primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {groups.length === 0 ? (
+        <Card>
+          <Card.Body className="py-12 text-center">
+            <h2 className="text-xl font-semibold text-text-primary">
+              You&apos;re all caught up
+            </h2>
+            <p className="mt-2 text-text-secondary">
+              {nextReview
+                ? `Next review: "${nextReview.nodeTitle}" ${formatDue(nextReview.dueAt, now)}.`
+                : 'Take a quiz on a graph to start scheduling reviews.'}
+            </p>
+          </Card.Body>
+        </Card>
+      ) : (
+        groups.map(([graphId, records]) => (
+          <Card key={graphId}>
+            <Card.Header>
+              <div className="flex items-start justify-between gap-4">
+                <div>
+                  <Card.Title>{records[0].documentTitle ?? 'Untitled document'}</Card.Title>
+                  <Card.Description>
+                    {records.length} {records.length === 1 ? 'concept' : 'concepts'} due
+                  </Card.Description>
+                </div>
+                <Button onClick={() => handleStart(graphId, records)}>Start review</Button>
+              </div>
+            </Card.Header>
+            <Card.Body>
+              <ul className="divide-y divide-gray-200">
+                {records.map((record) => (
+                  <li key={record.id} className="flex items-center justify-between py-2">
+                    <a
+                      href={`/graph/${record.graphId}`}
+                      className="text-text-primary hover:text-primary hover:underline"
+                    >
+                      {record.nodeTitle}
+                    </a>
+                    <span className="flex items-center gap-2 text-sm text-text-secondary">
+                      {record.lapses > 0 && <Badge variant="needs-review">Struggling</Badge>}
+                      {formatDue(record.dueAt, now)}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </Card.Body>
+          </Card>
+        ))
+      )}
+
+      {session && (
+        <QuizModal
+          key={session.key}
+          isOpen={true}
+          onClose={() => setSession(null)}
+          graphId={session.graphId}
+          nodeIds={session.nodeIds}
+          questionCount={Math.min(Math.max(session.nodeIds.length, 3), maxQuestions)}
+          title="Review Session"
+        />
+      )}
+    </div>
+  );
+}
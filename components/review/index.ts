@@ -0,0 +1,8 @@
+/**
+ * Review Components
+ *
+ * Spaced-repetition review queue across all graphs.
+ */
+
+export { ReviewQueue } from './ReviewQueue';
+export type { ReviewQueueProps } from './ReviewQueue';
@@ -11,12 +11,18 @@ export {
   useDocumentStatus,
   useUploadDocument,
   useUploadDocumentFromUrl,
+  useDocuments,
+  useDeleteDocument,
   documentKeys,
 } from './useDocument';
 
 // Graph hooks
 export {
   useGraph,
+  useGraphs,
+  useGraphVersions,
+  useRegenerateGraph,
+  useSaveGraphEdits,
   useGenerateGraph,
   useJobStatus,
   useGraphGeneration,
@@ -37,6 +43,21 @@ export {
   quizKeys,
 } from './useQuiz';
 
+// Review hooks
+export {
+  useReviewRecords,
+  useDueReviews,
+  useRecordQuizReview,
+  reviewKeys,
+} from './useReview';
+
+// Mastery hooks
+export {
+  useMastery,
+  useRecordMastery,
+  masteryKeys,
+} from './useMastery';
+
 // Note hooks
 export {
   useNotes,
@@ -45,8 +66,33 @@ export {
   useDeleteNote,
   useNodeNotes,
   useEdgeNotes,
+  useNoteSync,
   noteKeys,
 } from './useNotes';
 
+// Highlight hooks
+export {
+  useHighlights,
+  useCreateHighlight,
+  useUpdateHighlight,
+  useDeleteHighlight,
+  highlightKeys,
+} from './useHighlights';
+
+// Workspace hooks
+export {
+  useWorkspace,
+  useCreateWorkspace,
+  useUpdateWorkspace,
+  workspaceKeys,
+} from './useWorkspace';
+
+// Graph view hooks
+export { useGraphFilter } from './useGraphFilter';
+export { useCompareVersion } from './useCompareVersion';
+export { useSkeletonGraph } from './useSkeletonGraph';
+export { useGraphEditor } from './useGraphEditor';
+export { useGraphClusters } from './useGraphClusters';
+
 // Toast hook
 export { useToast, ToastProvider } from './useToast';
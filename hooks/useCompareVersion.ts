@@ -0,0 +1,57 @@
+/**
+ * useCompareVersion Hook
+ *
+ * Graph version the graph view is compared against, stored in the URL query
+ * (`?compare=graph_abc123`) so a diff view survives reloads and can be
+ * shared.
+ *
+ * @example
+ * ```typescript
+ * const { compareGraphId, setCompareGraphId } = useCompareVersion();
+ * const { data: compareGraph } = useGraph(compareGraphId ?? '');
+ * ```
+ */
+
+'use client';
+
+import { useCallback } from 'react';
+import { usePathname, useRouter, useSearchParams } from 'next/navigation';
+
+const COMPARE_PARAM = 'compare';
+
+export interface UseCompareVersionReturn {
+  /**
+   * Graph ID of the compared version (null when not comparing)
+   */
+  compareGraphId: string | null;
+  /**
+   * Compare against another version, or stop comparing with null
+   * (updates the URL without adding a history entry)
+   */
+  setCompareGraphId: (graphId: string | null) => void;
+}
+
+export function useCompareVersion(): UseCompareVersionReturn {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+
+  const query = searchParams.toString();
+  const compareGraphId = searchParams.get(COMPARE_PARAM);
+
+  const setCompareGraphId = useCallback(
+    (graphId: string | null) => {
+      const params = new URLSearchParams(query);
+      if (graphId) {
+        params.set(COMPARE_PARAM, graphId);
+      } else {
+        params.delete(COMPARE_PARAM);
+      }
+      const nextQuery = params.toString();
+      router.replace(nextQuery ? `${pathname}?${nextQuery}` : pathname, { scroll: false });
+    },
+    [router, pathname, query]
+  );
+
+  return { compareGraphId, setCompareGraphId };
+}
@@ -6,6 +6,8 @@
  * - useDocumentStatus: Poll document processing status
  * - useUploadDocument: Upload document file mutation
  * - useUploadDocumentFromUrl: Upload from URL mutation
+ * - useDocuments: List all documents (library)
+ * - useDeleteDocument: Delete document mutation
  */
 
 import { useQuery, useMutation, useQueryClient, type UseQueryOptions, type UseMutationOptions } from '@tanstack/react-query';
@@ -14,9 +16,13 @@ import {
   getDocumentStatus,
   uploadDocument,
   uploadDocumentFromUrl,
+  listDocuments,
+  deleteDocument,
 } from '@/lib/api/documents';
+import { graphKeys } from './useGraph';
 import type {
   Document,
+  DocumentListItem,
   DocumentStatusResponse,
   DocumentUploadResponse,
   DocumentFromUrlRequest,
@@ -33,6 +39,7 @@ import type { NormalizedAPIError } from '@/lib/api-client';
  */
 export const documentKeys = {
   all: ['documents'] as const,
+  list: () => [...documentKeys.all, 'list'] as const,
   detail: (id: string) => [...documentKeys.all, id] as const,
   status: (id: string) => [...documentKeys.all, id, 'status'] as const,
 };
@@ -263,3 +270,91 @@ export function useUploadDocumentFromUrl(
     ...options,
   });
 }
+
+// ============================================================================
+// useDocuments - List Documents
+// ============================================================================
+
+/**
+ * List all uploaded documents
+ *
+ * @param options - React Query options
+ * @returns Query result with the library's documents
+ *
+ * @example
+ * ```typescript
+ * const { data: documents = [], isLoading } = useDocuments();
+ * ```
+ */
+export function useDocuments(
+  options?: Omit<
+    UseQueryOptions<DocumentListItem[], NormalizedAPIError>,
+    'queryKey' | 'queryFn'
+  >
+) {
+  return useQuery<DocumentListItem[], NormalizedAPIError>({
+    queryKey: documentKeys.list(),
+    queryFn: listDocuments,
+    staleTime: 30 * 1000, // 30 seconds - processing status and last-opened times change
+    ...options,
+  });
+}
+
+// ============================================================================
+// useDeleteDocument - Delete Document Mutation
+// ============================================================================
+
+/**
+ * Delete document mutation
+ *
+ * Removes the document from the library list right away (restoring it if
+ * the request fails), then refetches the graph list, since the document's
+ * graphs are deleted with it.
+ *
+ * @param options - React Query mutation options
+ * @returns Mutation function and state
+ *
+ * @example
+ * ```typescript
+ * const deleteDocumentMutation = useDeleteDocument();
+ *
+ * deleteDocumentMutation.mutate(document.id);
+ * ```
+ */
+export function useDeleteDocument(
+  options?: UseMutationOptions<
+    void,
+    NormalizedAPIError,
+    string,
+    { previous?: DocumentListItem[] }
+  >
+) {
+  const queryClient = useQueryClient();
+
+  return useMutation<void, NormalizedAPIError, string, { previous?: DocumentListItem[] }>({
+    mutationFn: deleteDocument,
+    onMutate: async (documentId) => {
+      await queryClient.cancelQueries({ queryKey: documentKeys.list() });
+      const previous = queryClient.getQueryData<DocumentListItem[]>(documentKeys.list());
+
+      queryClient.setQueryData<DocumentListItem[]>(documentKeys.list(), (items = []) =>
+        items.filter((item) => item.id !== documentId)
+      );
+
+      return { previous };
+    },
+    onError: (_error, _documentId, context) => {
+      if (context?.previous) {
+        queryClient.setQueryData(documentKeys.list(), context.previous);
+      }
+    },
+    onSuccess: (_data, documentId) => {
+      queryClient.removeQueries({ queryKey: documentKeys.detail(documentId) });
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: documentKeys.list() });
+      queryClient.invalidateQueries({ queryKey: graphKeys.list() });
+    },
+    ...options,
+  });
+}
@@ -5,6 +5,10 @@
  * - useGraph: Fetch graph data
  * - useGenerateGraph: Generate graph mutation
  * - useJobStatus: Poll job status for async operations
+ * - useGraphs: List generated graphs (library)
+ * - useGraphVersions: List the versions of a document's graph
+ * - useRegenerateGraph: Generate a new version and carry notes over
+ * - useSaveGraphEdits: Persist edit-mode changes to nodes and edges
  */
 
 import { useQuery, useMutation, useQueryClient, type UseQueryOptions, type UseMutationOptions } from '@tanstack/react-query';
@@ -12,12 +16,27 @@ import {
   getGraph,
   generateGraph,
   getJobStatus,
+  listGraphs,
+  regenerateGraph,
+  createGraphNode,
+  updateGraphNode,
+  deleteGraphNode,
+  createGraphEdge,
+  updateGraphEdge,
+  deleteGraphEdge,
 } from '@/lib/api/graphs';
+import { reattachNotes } from '@/lib/api/notes';
+import { diffGraphs, type GraphDiff } from '@/lib/graph-diff';
+import { getNoteSync } from '@/lib/offline/note-sync';
+import type { GraphEditOperation } from '@/lib/graph-editor';
+import { noteKeys } from './useNotes';
 import type {
   Graph,
   GraphGenerationRequest,
   GraphGenerationResponse,
+  GraphListItem,
   JobStatusResponse,
+  Note,
 } from '@/types/api.types';
 import type { NormalizedAPIError } from '@/lib/api-client';
 
@@ -30,6 +49,8 @@ import type { NormalizedAPIError } from '@/lib/api-client';
  */
 export const graphKeys = {
   all: ['graphs'] as const,
+  list: () => [...graphKeys.all, 'list'] as const,
+  versions: (documentId: string) => [...graphKeys.list(), documentId] as const,
   detail: (id: string) => [...graphKeys.all, id] as const,
 };
 
@@ -92,6 +113,234 @@ export function useGraph(
   });
 }
 
+// ============================================================================
+// useGraphs - List Graphs
+// ============================================================================
+
+/**
+ * List generated graphs, one entry per version
+ *
+ * @param options - React Query options
+ * @returns Query result with the library's graphs
+ *
+ * @example
+ * ```typescript
+ * const { data: graphs = [] } = useGraphs();
+ * const versions = graphs.filter((graph) => graph.documentId === documentId);
+ * ```
+ */
+export function useGraphs(
+  options?: Omit<
+    UseQueryOptions<GraphListItem[], NormalizedAPIError>,
+    'queryKey' | 'queryFn'
+  >
+) {
+  return useQuery<GraphListItem[], NormalizedAPIError>({
+    queryKey: graphKeys.list(),
+    queryFn: () => listGraphs(),
+    staleTime: 30 * 1000, // 30 seconds - note counts and last-opened times change
+    ...options,
+  });
+}
+
+// ============================================================================
+// useGraphVersions - List Graph Versions
+// ============================================================================
+
+/**
+ * List the graph versions generated from a document
+ *
+ * @param documentId - Source document ID
+ * @param options - React Query options
+ * @returns Query result with the document's graphs, newest version first
+ *
+ * @example
+ * ```typescript
+ * const { data: versions = [] } = useGraphVersions(graph.document.id);
+ * const latest = versions[0];
+ * ```
+ */
+export function useGraphVersions(
+  documentId: string | undefined,
+  options?: Omit<
+    UseQueryOptions<GraphListItem[], NormalizedAPIError>,
+    'queryKey' | 'queryFn'
+  >
+) {
+  return useQuery<GraphListItem[], NormalizedAPIError>({
+    queryKey: graphKeys.versions(documentId!),
+    queryFn: async () => {
+      const graphs = await listGraphs(documentId);
+      return [...graphs].sort((a, b) => b.version - a.version);
+    },
+    enabled: !!documentId,
+    staleTime: 30 * 1000, // 30 seconds
+    ...options,
+  });
+}
+
+// ============================================================================
+// useRegenerateGraph - Regenerate Graph Mutation
+// ============================================================================
+
+/**
+ * Result of regenerating a graph
+ */
+export interface GraphRegenerationResult {
+  /** New version */
+  graph: Graph;
+  /** Changes from the regenerated version to the new one */
+  diff: GraphDiff;
+  /** Notes carried over to the new version */
+  notes: Note[];
+}
+
+/**
+ * Generate a new version of a graph and re-attach its notes
+ *
+ * Nodes and edges of the new version are matched to the old one (see
+ * diffGraphs) and notes are copied onto the matches, once notes queued
+ * offline are sent. The old version keeps its notes.
+ *
+ * @param options - React Query mutation options
+ * @returns Mutation function and state
+ *
+ * @example
+ * ```typescript
+ * const regenerateMutation = useRegenerateGraph();
+ *
+ * regenerateMutation.mutate(previousGraph, {
+ *   onSuccess: ({ graph }) => {
+ *     router.push(`/graph/${graph.id}?compare=${previousGraph.id}`);
+ *   },
+ * });
+ * ```
+ */
+export function useRegenerateGraph(
+  options?: UseMutationOptions<GraphRegenerationResult, NormalizedAPIError, Graph>
+) {
+  const queryClient = useQueryClient();
+
+  return useMutation<GraphRegenerationResult, NormalizedAPIError, Graph>({
+    mutationFn: async (previous) => {
+      const { graphId } = await regenerateGraph(previous.id);
+      const graph = await queryClient.fetchQuery({
+        queryKey: graphKeys.detail(graphId),
+        queryFn: () => getGraph(graphId),
+      });
+
+      // Notes queued offline must reach the server before they can be copied
+      await getNoteSync().flush();
+
+      const diff = diffGraphs(previous, graph);
+      const notes = await reattachNotes(graph.id, {
+        fromGraphId: previous.id,
+        // Node notes may be stored under the node's ID or its Mermaid key
+        nodeIds: { ...diff.nodeMatches, ...diff.nodeKeyMatches },
+        edgeIds: diff.edgeMatches,
+      });
+
+      return { graph, diff, notes };
+    },
+    onSuccess: ({ graph, notes }) => {
+      queryClient.setQueryData<Note[]>(noteKeys.list(graph.id), notes);
+    },
+    onSettled: () => {
+      // New version (and note counts) in the library and version lists
+      queryClient.invalidateQueries({ queryKey: graphKeys.list() });
+    },
+    retry: false, // Don't retry graph generation requests
+    ...options,
+  });
+}
+
+// ============================================================================
+// useSaveGraphEdits - Save Graph Edits Mutation
+// ============================================================================
+
+/**
+ * Variables for saving graph edits
+ */
+export interface SaveGraphEditsVariables {
+  graphId: string;
+  /** Pending edits from the draft, in order */
+  operations: GraphEditOperation[];
+}
+
+/**
+ * Send edit-mode changes to the server and refresh the graph
+ *
+ * Operations are applied one at a time in draft order. Temporary IDs of
+ * nodes created in the draft are swapped for the server's IDs before the
+ * edges that use them are created.
+ *
+ * @param options - React Query mutation options
+ * @returns Mutation function and state (data is the saved graph)
+ *
+ * @example
+ * ```typescript
+ * const saveMutation = useSaveGraphEdits();
+ *
+ * saveMutation.mutate({ graphId: graph.id, operations: draft.operations });
+ * ```
+ */
+export function useSaveGraphEdits(
+  options?: UseMutationOptions<Graph, NormalizedAPIError, SaveGraphEditsVariables>
+) {
+  const queryClient = useQueryClient();
+
+  return useMutation<Graph, NormalizedAPIError, SaveGraphEditsVariables>({
+    mutationFn: async ({ graphId, operations }) => {
+      const ids = new Map<string, string>();
+      const resolve = (id: string) => ids.get(id) ?? id;
+
+      for (const operation of operations) {
+        switch (operation.type) {
+          case 'addNode': {
+            const node = await createGraphNode(graphId, operation.request);
+            ids.set(operation.nodeId, node.id);
+            break;
+          }
+          case 'updateNode':
+            await updateGraphNode(graphId, resolve(operation.nodeId), operation.request);
+            break;
+          case 'deleteNode':
+            await deleteGraphNode(graphId, resolve(operation.nodeId));
+            break;
+          case 'addEdge': {
+            const edge = await createGraphEdge(graphId, {
+              ...operation.request,
+              from: resolve(operation.request.from),
+              to: resolve(operation.request.to),
+            });
+            ids.set(operation.edgeId, edge.id);
+            break;
+          }
+          case 'updateEdge':
+            await updateGraphEdge(graphId, resolve(operation.edgeId), operation.request);
+            break;
+          case 'deleteEdge':
+            await deleteGraphEdge(graphId, resolve(operation.edgeId));
+            break;
+        }
+      }
+
+      return getGraph(graphId);
+    },
+    onSuccess: (graph) => {
+      queryClient.setQueryData<Graph>(graphKeys.detail(graph.id), graph);
+    },
+    onError: (_error, { graphId }) => {
+      // A failed save may have applied some of the operations
+      queryClient.invalidateQueries({ queryKey: graphKeys.detail(graphId) });
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: graphKeys.list() });
+    },
+    ...options,
+  });
+}
+
 // ============================================================================
 // useGenerateGraph - Generate Graph Mutation
 // ============================================================================
@@ -0,0 +1,141 @@
+/**
+ * useGraphClusters Hook
+ *
+ * Progressive disclosure for the graph view: starts large graphs at a
+ * high-level overview of collapsed clusters, expands a cluster in place on
+ * click, and tracks the expanded clusters as a breadcrumb trail.
+ *
+ * @example
+ * ```typescript
+ * const clustering = useGraphClusters(nodes, edges, true);
+ *
+ * <MermaidGraph
+ *   mermaidCode={clustering.view?.mermaidCode ?? mermaidCode}
+ *   nodes={clustering.view?.nodes ?? nodes}
+ *   ...
+ * />
+ * ```
+ */
+
+'use client';
+
+import { useCallback, useMemo, useState } from 'react';
+import {
+  buildClusteredGraph,
+  getClusterPath,
+  getGraphClusters,
+  getNodeClusterPath,
+  type ClusteredGraphView,
+  type GraphCluster,
+} from '@/lib/graph-clusters';
+import type { GraphEdge, GraphNode } from '@/types/api.types';
+
+export interface UseGraphClustersReturn {
+  /**
+   * Clusters of the graph (empty for small graphs)
+   */
+  clusters: GraphCluster[];
+  /**
+   * Graph with collapsed clusters, or null when the full graph is shown
+   */
+  view: ClusteredGraphView | null;
+  /**
+   * Expanded clusters from the overview down
+   */
+  breadcrumbs: GraphCluster[];
+  /**
+   * Every node is shown (clustering turned off)
+   */
+  isShowingAll: boolean;
+  /**
+   * Get the collapsed cluster drawn as a node, by its node ID or key
+   */
+  getCollapsedCluster: (nodeId: string) => GraphCluster | null;
+  /**
+   * Expand a cluster (collapsing any expanded clusters outside its path)
+   */
+  expand: (clusterId: string) => void;
+  /**
+   * Collapse back to a breadcrumb (-1 for the overview)
+   */
+  collapseTo: (index: number) => void;
+  /**
+   * Expand the clusters containing a node so it is visible
+   */
+  reveal: (nodeId: string) => void;
+  /**
+   * Switch between the full graph and the clustered overview
+   */
+  setShowingAll: (showAll: boolean) => void;
+}
+
+export function useGraphClusters(
+  nodes: GraphNode[],
+  edges: GraphEdge[],
+  enabled: boolean
+): UseGraphClustersReturn {
+  const [storedPath, setStoredPath] = useState<string[]>([]);
+  const [isShowingAll, setShowingAll] = useState(false);
+
+  const clusters = useMemo(() => getGraphClusters({ nodes, edges }), [nodes, edges]);
+
+  // Clusters gone from a new version of the graph are dropped from the path
+  const expandedPath = useMemo(
+    () => storedPath.filter((clusterId) => clusters.some((cluster) => cluster.id === clusterId)),
+    [storedPath, clusters]
+  );
+
+  const isClustered = enabled && !isShowingAll && clusters.length > 0;
+  const view = useMemo(
+    () => (isClustered ? buildClusteredGraph({ nodes, edges }, clusters, expandedPath) : null),
+    [isClustered, nodes, edges, clusters, expandedPath]
+  );
+
+  const breadcrumbs = useMemo(
+    () =>
+      isClustered
+        ? expandedPath.flatMap((clusterId) =>
+            clusters.filter((cluster) => cluster.id === clusterId)
+          )
+        : [],
+    [isClustered, expandedPath, clusters]
+  );
+
+  const getCollapsedCluster = useCallback(
+    (nodeId: string) => view?.collapsedClusters[nodeId] ?? null,
+    [view]
+  );
+
+  const expand = useCallback(
+    (clusterId: string) => setStoredPath(getClusterPath(clusters, clusterId)),
+    [clusters]
+  );
+
+  const collapseTo = useCallback(
+    (index: number) => setStoredPath(expandedPath.slice(0, index + 1)),
+    [expandedPath]
+  );
+
+  const reveal = useCallback(
+    (nodeId: string) => {
+      const path = getNodeClusterPath(clusters, nodeId);
+      // Keep the current path when the node is already visible in it
+      if (path.some((clusterId) => !expandedPath.includes(clusterId))) {
+        setStoredPath(path);
+      }
+    },
+    [clusters, expandedPath]
+  );
+
+  return {
+    clusters,
+    view,
+    breadcrumbs,
+    isShowingAll,
+    getCollapsedCluster,
+    expand,
+    collapseTo,
+    reveal,
+    setShowingAll,
+  };
+}
@@ -0,0 +1,214 @@
+/**
+ * useGraphEditor Hook
+ *
+ * Edit mode for the graph view: keeps a local draft of the graph's nodes
+ * and edges, rebuilds the Mermaid code as it changes, and saves the
+ * pending edits through the graph mutation endpoints.
+ *
+ * @example
+ * ```typescript
+ * const editor = useGraphEditor(graph);
+ *
+ * <GraphContainer
+ *   mermaidCode={editor.isEditing ? editor.mermaidCode : graph.mermaidCode}
+ *   onConnectNodes={editor.isEditing ? handleConnect : undefined}
+ *   ...
+ * />
+ * ```
+ */
+
+'use client';
+
+import { useCallback, useMemo, useState } from 'react';
+import {
+  addEdge,
+  addNode,
+  createDraft,
+  deleteEdge,
+  deleteNode,
+  renameEdge,
+  renameNode,
+  validateEdgeInput,
+  type EdgeInput,
+  type GraphDraft,
+} from '@/lib/graph-editor';
+import { buildMermaidCode } from '@/lib/mermaid-builder';
+import { useSaveGraphEdits } from './useGraph';
+import type { NormalizedAPIError } from '@/lib/api-client';
+import type { Graph, GraphEdge, GraphNode, GraphNodeCreateRequest } from '@/types/api.types';
+
+export interface UseGraphEditorReturn {
+  /**
+   * Edit mode is on
+   */
+  isEditing: boolean;
+  /**
+   * Enter edit mode with a fresh draft of the graph
+   */
+  start: () => void;
+  /**
+   * Leave edit mode, discarding unsaved edits
+   */
+  cancel: () => void;
+  /**
+   * Nodes of the draft (the graph's nodes outside edit mode)
+   */
+  nodes: GraphNode[];
+  /**
+   * Edges of the draft (the graph's edges outside edit mode)
+   */
+  edges: GraphEdge[];
+  /**
+   * Mermaid code built from the draft (the graph's code outside edit mode)
+   */
+  mermaidCode: string;
+  /**
+   * Number of unsaved edits
+   */
+  pendingCount: number;
+  /**
+   * Add a concept, returning its draft ID (null for a blank title)
+   */
+  addNode: (request: GraphNodeCreateRequest) => string | null;
+  /**
+   * Rename a concept
+   */
+  renameNode: (nodeId: string, title: string) => void;
+  /**
+   * Delete a concept and its connections
+   */
+  deleteNode: (nodeId: string) => void;
+  /**
+   * Connect two concepts, returning an error message when the input is invalid
+   */
+  addEdge: (input: EdgeInput) => string | null;
+  /**
+   * Relabel a connection
+   */
+  renameEdge: (edgeId: string, relationship: string) => void;
+  /**
+   * Delete a connection
+   */
+  deleteEdge: (edgeId: string) => void;
+  /**
+   * Save the pending edits and leave edit mode
+   */
+  save: () => void;
+  /**
+   * Edits are being saved
+   */
+  isSaving: boolean;
+  /**
+   * Error from the last save
+   */
+  error: NormalizedAPIError | null;
+}
+
+interface StoredDraft extends GraphDraft {
+  /** Graph the draft belongs to */
+  graphId: string;
+}
+
+export function useGraphEditor(graph: Graph | undefined): UseGraphEditorReturn {
+  const [storedDraft, setStoredDraft] = useState<StoredDraft | null>(null);
+  const { mutate, isPending: isSaving, error, reset } = useSaveGraphEdits();
+
+  // A draft of another graph (after navigating between versions) is dropped
+  const draft = graph && storedDraft?.graphId === graph.id ? storedDraft : null;
+
+  const start = useCallback(() => {
+    if (!graph) return;
+    reset();
+    setStoredDraft({ graphId: graph.id, ...createDraft(graph) });
+  }, [graph, reset]);
+
+  const cancel = useCallback(() => {
+    reset();
+    setStoredDraft(null);
+  }, [reset]);
+
+  /**
+   * Apply an edit to the current draft
+   */
+  const update = useCallback((edit: (current: GraphDraft) => GraphDraft) => {
+    setStoredDraft((current) => (current ? { ...current, ...edit(current) } : current));
+  }, []);
+
+  const mermaidCode = useMemo(
+    () => (draft ? buildMermaidCode(draft) : graph?.mermaidCode ?? ''),
+    [draft, graph]
+  );
+
+  const handleAddNode = useCallback(
+    (request: GraphNodeCreateRequest) => {
+      if (!draft || !request.title.trim()) return null;
+      const next = addNode(draft, request);
+      update(() => next);
+      return next.nodes[next.nodes.length - 1].id;
+    },
+    [draft, update]
+  );
+
+  const handleRenameNode = useCallback(
+    (nodeId: string, title: string) => update((current) => renameNode(current, nodeId, title)),
+    [update]
+  );
+
+  const handleDeleteNode = useCallback(
+    (nodeId: string) => update((current) => deleteNode(current, nodeId)),
+    [update]
+  );
+
+  const handleAddEdge = useCallback(
+    (input: EdgeInput) => {
+      if (!draft) return null;
+      const validationError = validateEdgeInput(draft.edges, input);
+      if (!validationError) update((current) => addEdge(current, input));
+      return validationError;
+    },
+    [draft, update]
+  );
+
+  const handleRenameEdge = useCallback(
+    (edgeId: string, relationship: string) =>
+      update((current) => renameEdge(current, edgeId, relationship)),
+    [update]
+  );
+
+  const handleDeleteEdge = useCallback(
+    (edgeId: string) => update((current) => deleteEdge(current, edgeId)),
+    [update]
+  );
+
+  const save = useCallback(() => {
+    if (!draft) return;
+    if (draft.operations.length === 0) {
+      setStoredDraft(null);
+      return;
+    }
+
+    mutate(
+      { graphId: draft.graphId, operations: draft.operations },
+      { onSuccess: () => setStoredDraft(null) }
+    );
+  }, [draft, mutate]);
+
+  return {
+    isEditing: draft !== null,
+    start,
+    cancel,
+    nodes: draft?.nodes ?? graph?.nodes ?? [],
+    edges: draft?.edges ?? graph?.edges ?? [],
+    mermaidCode,
+    pendingCount: draft?.operations.length ?? 0,
+    addNode: handleAddNode,
+    renameNode: handleRenameNode,
+    deleteNode: handleDeleteNode,
+    addEdge: handleAddEdge,
+    renameEdge: handleRenameEdge,
+    deleteEdge: handleDeleteEdge,
+    save,
+    isSaving,
+    error,
+  };
+}
@@ -0,0 +1,51 @@
+/**
+ * useGraphFilter Hook
+ *
+ * Legend filter state for the graph view, stored in the URL query
+ * (`?types=concept&states=needsReview&filterMode=hide`) so a filtered view
+ * survives reloads and can be shared.
+ *
+ * @example
+ * ```typescript
+ * const { filter, setFilter } = useGraphFilter();
+ *
+ * <GraphContainer filter={filter} onFilterChange={setFilter} ... />
+ * ```
+ */
+
+'use client';
+
+import { useCallback, useMemo } from 'react';
+import { usePathname, useRouter, useSearchParams } from 'next/navigation';
+import { parseGraphFilter, writeGraphFilter, type GraphFilter } from '@/lib/graph-filter';
+
+export interface UseGraphFilterReturn {
+  /**
+   * Current filter parsed from the URL
+   */
+  filter: GraphFilter;
+  /**
+   * Replace the filter (updates the URL without adding a history entry)
+   */
+  setFilter: (filter: GraphFilter) => void;
+}
+
+export function useGraphFilter(): UseGraphFilterReturn {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+
+  // Keyed on the query string so the filter object is stable between renders
+  const query = searchParams.toString();
+  const filter = useMemo(() => parseGraphFilter(new URLSearchParams(query)), [query]);
+
+  const setFilter = useCallback(
+    (nextFilter: GraphFilter) => {
+      const nextQuery = writeGraphFilter(new URLSearchParams(query), nextFilter).toString();
+      router.replace(nextQuery ? `${pathname}?${nextQuery}` : pathname, { scroll: false });
+    },
+    [router, pathname, query]
+  );
+
+  return { filter, setFilter };
+}
@@ -0,0 +1,236 @@
+/**
+ * Highlights React Query Hooks
+ *
+ * React Query hooks for user highlights on document passages:
+ * - useHighlights: Fetch all highlights for a document
+ * - useCreateHighlight: Create highlight mutation (optionally attached to a node)
+ * - useUpdateHighlight: Change a highlight's color or comment
+ * - useDeleteHighlight: Delete highlight mutation
+ */
+
+import {
+  useQuery,
+  useMutation,
+  useQueryClient,
+  type UseQueryOptions,
+  type UseMutationOptions,
+} from '@tanstack/react-query';
+import {
+  createHighlight,
+  getHighlights,
+  updateHighlight,
+  deleteHighlight,
+} from '@/lib/api/highlights';
+import { graphKeys } from './useGraph';
+import type {
+  Highlight,
+  HighlightCreateRequest,
+  HighlightUpdateRequest,
+} from '@/types/api.types';
+import type { NormalizedAPIError } from '@/lib/api-client';
+
+// ============================================================================
+// Query Keys
+// ============================================================================
+
+/**
+ * Query key factory for highlight queries
+ */
+export const highlightKeys = {
+  all: ['highlights'] as const,
+  list: (documentId: string) => [...highlightKeys.all, documentId] as const,
+};
+
+/**
+ * Variables for useUpdateHighlight
+ */
+export interface HighlightUpdateVariables extends HighlightUpdateRequest {
+  highlightId: string;
+  documentId: string;
+}
+
+/**
+ * Variables for useDeleteHighlight
+ */
+export interface HighlightDeleteVariables {
+  highlightId: string;
+  documentId: string;
+}
+
+// ============================================================================
+// useHighlights - Fetch Highlights for Document
+// ============================================================================
+
+/**
+ * Fetch all highlights for a document
+ *
+ * @param documentId - Document ID
+ * @param options - React Query options
+ * @returns Query result with array of highlights
+ *
+ * @example
+ * ```typescript
+ * const { data: highlights = [] } = useHighlights(documentId);
+ * ```
+ */
+export function useHighlights(
+  documentId: string,
+  options?: Omit<
+    UseQueryOptions<Highlight[], NormalizedAPIError>,
+    'queryKey' | 'queryFn'
+  >
+) {
+  return useQuery<Highlight[], NormalizedAPIError>({
+    queryKey: highlightKeys.list(documentId),
+    queryFn: () => getHighlights(documentId),
+    enabled: !!documentId,
+    staleTime: 2 * 60 * 1000, // 2 minutes
+    retry: false,
+    ...options,
+  });
+}
+
+// ============================================================================
+// useCreateHighlight - Create Highlight Mutation
+// ============================================================================
+
+/**
+ * Create highlight mutation
+ *
+ * Adds the highlight to the document's cached list. When the highlight is
+ * attached to a node, the graph is refetched so the node picks up its new
+ * document reference.
+ *
+ * @param options - React Query mutation options
+ * @returns Mutation function and state
+ *
+ * @example
+ * ```typescript
+ * const createHighlightMutation = useCreateHighlight();
+ *
+ * createHighlightMutation.mutate({
+ *   documentId,
+ *   graphId,
+ *   nodeId: activeNodeId ?? undefined,
+ *   text: selection.text,
+ *   color: 'yellow',
+ *   anchor: { type: 'text', startOffset, endOffset },
+ * });
+ * ```
+ */
+export function useCreateHighlight(
+  options?: UseMutationOptions<Highlight, NormalizedAPIError, HighlightCreateRequest>
+) {
+  const queryClient = useQueryClient();
+
+  return useMutation<Highlight, NormalizedAPIError, HighlightCreateRequest>({
+    mutationFn: createHighlight,
+    onSuccess: (highlight, variables) => {
+      queryClient.setQueryData<Highlight[]>(
+        highlightKeys.list(variables.documentId),
+        (previous = []) => [...previous, highlight]
+      );
+      queryClient.invalidateQueries({ queryKey: highlightKeys.list(variables.documentId) });
+
+      if (variables.graphId && variables.nodeId) {
+        queryClient.invalidateQueries({ queryKey: graphKeys.detail(variables.graphId) });
+      }
+    },
+    ...options,
+  });
+}
+
+// ============================================================================
+// useUpdateHighlight - Update Highlight Mutation
+// ============================================================================
+
+/**
+ * Update a highlight's color or comment
+ *
+ * @param options - React Query mutation options
+ * @returns Mutation function and state
+ *
+ * @example
+ * ```typescript
+ * const updateHighlightMutation = useUpdateHighlight();
+ *
+ * updateHighlightMutation.mutate({
+ *   highlightId: highlight.id,
+ *   documentId: highlight.documentId,
+ *   comment: 'Key definition',
+ * });
+ * ```
+ */
+export function useUpdateHighlight(
+  options?: UseMutationOptions<Highlight, NormalizedAPIError, HighlightUpdateVariables>
+) {
+  const queryClient = useQueryClient();
+
+  return useMutation<Highlight, NormalizedAPIError, HighlightUpdateVariables>({
+    mutationFn: ({ highlightId, color, comment }) =>
+      updateHighlight(highlightId, { color, comment }),
+    onSuccess: (highlight, { documentId }) => {
+      queryClient.setQueryData<Highlight[]>(highlightKeys.list(documentId), (previous = []) =>
+        previous.map((item) => (item.id === highlight.id ? { ...item, ...highlight } : item))
+      );
+    },
+    ...options,
+  });
+}
+
+// ============================================================================
+// useDeleteHighlight - Delete Highlight Mutation
+// ============================================================================
+
+/**
+ * Delete highlight mutation
+ *
+ * Removes the highlight from the cache right away and restores it if the
+ * request fails.
+ *
+ * @param options - React Query mutation options
+ * @returns Mutation function and state
+ *
+ * @example
+ * ```typescript
+ * const deleteHighlightMutation = useDeleteHighlight();
+ *
+ * deleteHighlightMutation.mutate({
+ *   highlightId: highlight.id,
+ *   documentId: highlight.documentId,
+ * });
+ * ```
+ */
+export function useDeleteHighlight(
+  options?: UseMutationOptions<
+    void,
+    NormalizedAPIError,
+    HighlightDeleteVariables,
+    { previous?: Highlight[] }
+  >
+) {
+  const queryClient = useQueryClient();
+
+  return useMutation<void, NormalizedAPIError, HighlightDeleteVariables, { previous?: Highlight[] }>({
+    mutationFn: ({ highlightId }) => deleteHighlight(highlightId),
+    onMutate: async ({ highlightId, documentId }) => {
+      await queryClient.cancelQueries({ queryKey: highlightKeys.list(documentId) });
+      const previous = queryClient.getQueryData<Highlight[]>(highlightKeys.list(documentId));
+
+      queryClient.setQueryData<Highlight[]>(highlightKeys.list(documentId), (items = []) =>
+        items.filter((item) => item.id !== highlightId)
+      );
+
+      return { previous };
+    },
+    onError: (_error, { documentId }, context) => {
+      if (context?.previous) {
+        queryClient.setQueryData(highlightKeys.list(documentId), context.previous);
+      }
+    },
+    onSettled: (_data, _error, { documentId }) => {
+      queryClient.invalidateQueries({ queryKey: highlightKeys.list(documentId) });
+    },
+    ...options,
+  });
+}
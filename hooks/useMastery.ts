@@ -0,0 +1,115 @@
+/**
+ * Mastery React Query Hooks
+ *
+ * React Query hooks for per-node mastery:
+ * - useMastery: Mastery records for a graph
+ * - useRecordMastery: Fold new evidence (quiz results, hypothesis evaluations) into mastery
+ */
+
+import {
+  useQuery,
+  useMutation,
+  useQueryClient,
+  type UseQueryOptions,
+  type UseMutationOptions,
+} from '@tanstack/react-query';
+import { getReviewStore } from '@/lib/review/review-store';
+import { applyMasteryEvidence, type MasteryEvidence, type MasteryRecord } from '@/lib/mastery';
+import type { NormalizedAPIError } from '@/lib/api-client';
+
+// ============================================================================
+// Query Keys
+// ============================================================================
+
+/**
+ * Query key factory for mastery queries
+ */
+export const masteryKeys = {
+  all: ['mastery'] as const,
+  graph: (graphId: string) => [...masteryKeys.all, graphId] as const,
+};
+
+/**
+ * Evidence to record for a graph
+ */
+export interface MasteryEvidenceRequest {
+  graphId: string;
+  evidence: MasteryEvidence[];
+}
+
+// ============================================================================
+// useMastery - Mastery Records for a Graph
+// ============================================================================
+
+/**
+ * Fetch mastery records for a graph
+ *
+ * @param graphId - Graph ID
+ * @param options - React Query options
+ * @returns Query result with one record per node that has evidence
+ *
+ * @example
+ * ```typescript
+ * const { data: mastery = [] } = useMastery(graphId);
+ * const masteryStates = getMasteryNodeStates(mastery, graph.nodes);
+ * ```
+ */
+export function useMastery(
+  graphId: string,
+  options?: Omit<
+    UseQueryOptions<MasteryRecord[], NormalizedAPIError>,
+    'queryKey' | 'queryFn'
+  >
+) {
+  return useQuery<MasteryRecord[], NormalizedAPIError>({
+    queryKey: masteryKeys.graph(graphId),
+    queryFn: () => getReviewStore().getMastery(graphId),
+    enabled: !!graphId,
+    ...options,
+  });
+}
+
+// ============================================================================
+// useRecordMastery - Record Mastery Evidence
+// ============================================================================
+
+/**
+ * Fold evidence into the graph's mastery records
+ *
+ * @param options - React Query mutation options
+ * @returns Mutation function and state; resolves to the updated records
+ *
+ * @example
+ * ```typescript
+ * const recordMastery = useRecordMastery();
+ *
+ * recordMastery.mutate({
+ *   graphId,
+ *   evidence: getHypothesisEvidence(fromNodeId, toNodeId, 'partial'),
+ * });
+ * ```
+ */
+export function useRecordMastery(
+  options?: UseMutationOptions<MasteryRecord[], NormalizedAPIError, MasteryEvidenceRequest>
+) {
+  const queryClient = useQueryClient();
+
+  return useMutation<MasteryRecord[], NormalizedAPIError, MasteryEvidenceRequest>({
+    mutationFn: async ({ graphId, evidence }) => {
+      const store = getReviewStore();
+      const existing = await store.getMastery(graphId);
+      const records = applyMasteryEvidence(
+        new Map(existing.map((record) => [record.id, record])),
+        graphId,
+        evidence
+      );
+
+      await store.putMastery(records);
+      return records;
+    },
+    onSuccess: (_records, { graphId }) => {
+      queryClient.invalidateQueries({ queryKey: masteryKeys.graph(graphId) });
+    },
+    ...options,
+  });
+}
@@ -6,19 +6,19 @@
  * - useCreateNote: Create note mutation
  * - useUpdateNote: Update note mutation
  * - useDeleteNote: Delete note mutation
+ * - useNoteSync: Offline outbox status and replay
+ *
+ * Notes are offline-first: writes land in IndexedDB and a sync outbox
+ * (lib/offline) before reaching the server, so mutations succeed while
+ * offline and are replayed once the connection returns.
  */
 
+import { useEffect, useSyncExternalStore } from 'react';
 import { useQuery, useMutation, useQueryClient, type UseQueryOptions, type UseMutationOptions } from '@tanstack/react-query';
-import {
-  getNotes,
-  createNote,
-  updateNote,
-  deleteNote,
-} from '@/lib/api/notes';
+import { getNoteSync, type NoteSyncStatus } from '@/lib/offline/note-sync';
 import type {
   Note,
   NoteCreateRequest,
-  NoteUpdateRequest,
 } from '@/types/api.types';
 import type { NormalizedAPIError } from '@/lib/api-client';
 
@@ -45,6 +45,8 @@ export const noteKeys = {
  * Fetch all notes for a graph
  *
  * Returns all notes attached to the graph, its nodes, and its edges.
+ * Queued offline changes are overlaid on the server response, and the
+ * locally stored copy is returned when the server is unreachable.
  * Use the `select` option to filter by nodeId or edgeId if needed.
  *
  * @param graphId - Graph ID
@@ -79,7 +81,7 @@ export function useNotes(
 ) {
   return useQuery<Note[], NormalizedAPIError>({
     queryKey: noteKeys.list(graphId),
-    queryFn: () => getNotes(graphId),
+    queryFn: () => getNoteSync().loadNotes(graphId),
     enabled: !!graphId,
     staleTime: 2 * 60 * 1000, // 2 minutes - notes may change frequently
     cacheTime: 5 * 60 * 1000, // 5 minutes
@@ -95,6 +97,8 @@ export function useNotes(
 /**
  * Create new note mutation
  *
+ * Saves locally and queues the create; the returned note keeps its `temp_`
+ * ID until the outbox reaches the server.
  * Optimistically updates the cache and invalidates queries on success.
  *
  * @param options - React Query mutation options
@@ -167,7 +171,7 @@ export function useCreateNote(
     NoteCreateRequest,
     { previousNotes: Note[] | undefined }
   >({
-    mutationFn: (request) => createNote(request),
+    mutationFn: (request) => getNoteSync().createNote(request),
     onMutate: async (newNote) => {
       // Cancel outgoing refetches to avoid overwriting optimistic update
       await queryClient.cancelQueries({ queryKey: noteKeys.list(newNote.graphId) });
@@ -289,7 +293,8 @@ export function useUpdateNote(
     { noteId: string; graphId: string; content: string },
     { previousNotes: Note[] | undefined }
   >({
-    mutationFn: ({ noteId, content }) => updateNote(noteId, { content }),
+    mutationFn: ({ noteId, graphId, content }) =>
+      getNoteSync().updateNote(noteId, graphId, content),
     onMutate: async ({ noteId, graphId, content }) => {
       // Cancel outgoing refetches
       await queryClient.cancelQueries({ queryKey: noteKeys.list(graphId) });
@@ -413,7 +418,7 @@ export function useDeleteNote(
     { noteId: string; graphId: string },
     { previousNotes: Note[] | undefined }
   >({
-    mutationFn: ({ noteId }) => deleteNote(noteId),
+    mutationFn: ({ noteId, graphId }) => getNoteSync().deleteNote(noteId, graphId),
     onMutate: async ({ noteId, graphId }) => {
       // Cancel outgoing refetches
       await queryClient.cancelQueries({ queryKey: noteKeys.list(graphId) });
@@ -452,6 +457,82 @@ export function useDeleteNote(
   });
 }
 
+// ============================================================================
+// useNoteSync - Offline Outbox Status
+// ============================================================================
+
+/**
+ * Subscribe to the note sync outbox
+ *
+ * Replays queued note operations on mount and whenever the browser comes
+ * back online, then refetches notes so `temp_` IDs are replaced by server IDs.
+ * Updates rejected with a CONFLICT are listed in `conflicts` until merged
+ * with `resolveConflict` or dropped in favor of the server copy with
+ * `discardLocal`.
+ *
+ * @returns Current sync status, a manual flush trigger and conflict resolver
+ *
+ * @example
+ * ```typescript
+ * const { pendingCount, isSyncing, flush } = useNoteSync();
+ *
+ * return pendingCount > 0 ? (
+ *   <button onClick={flush}>{pendingCount} changes pending sync</button>
+ * ) : null;
+ * ```
+ */
+export function useNoteSync(): NoteSyncStatus & {
+  isPendingSync: boolean;
+  flush: () => Promise<void>;
+  resolveConflict: (noteId: string, content: string) => Promise<void>;
+  discardLocal: (noteId: string) => Promise<void>;
+} {
+  const queryClient = useQueryClient();
+  const sync = getNoteSync();
+
+  const status = useSyncExternalStore(
+    sync.subscribe,
+    sync.getStatus,
+    sync.getStatus
+  );
+
+  useEffect(() => {
+    const replay = async () => {
+      const result = await sync.flush();
+      if (result.synced > 0) {
+        queryClient.invalidateQueries({ queryKey: noteKeys.all });
+      }
+    };
+
+    const handleOnline = () => {
+      replay().catch((error) => {
+        console.error('[NoteSync] Replay failed:', error);
+      });
+    };
+
+    handleOnline();
+    window.addEventListener('online', handleOnline);
+    return () => window.removeEventListener('online', handleOnline);
+  }, [sync, queryClient]);
+
+  return {
+    ...status,
+    isPendingSync: status.pendingCount > 0,
+    flush: async () => {
+      await sync.flush();
+      queryClient.invalidateQueries({ queryKey: noteKeys.all });
+    },
+    resolveConflict: async (noteId: string, content: string) => {
+      await sync.resolveConflict(noteId, content);
+      queryClient.invalidateQueries({ queryKey: noteKeys.all });
+    },
+    discardLocal: async (noteId: string) => {
+      await sync.discardLocal(noteId);
+      queryClient.invalidateQueries({ queryKey: noteKeys.all });
+    },
+  };
+}
+
 // ============================================================================
 // Composite Hook: useNodeNotes
 // ============================================================================
@@ -504,6 +585,12 @@ export function useNodeNotes(graphId: string, nodeId: string | null) {
   const createNoteMutation = useCreateNote();
   const updateNoteMutation = useUpdateNote();
   const deleteNoteMutation = useDeleteNote();
+  const noteSync = useNoteSync();
+  const noteIds = new Set(
+    ((notesQuery.data as Note[] | undefined) ?? []).map((note) => note.id)
+  );
+  const conflict =
+    noteSync.conflicts.find((item) => noteIds.has(item.noteId)) ?? null;
 
   return {
     // Query state
@@ -531,6 +618,21 @@ export function useNodeNotes(graphId: string, nodeId: string | null) {
     isCreating: createNoteMutation.isLoading,
     isUpdating: updateNoteMutation.isLoading,
     isDeleting: deleteNoteMutation.isLoading,
+
+    // Offline sync state (this node's notes only)
+    isPendingSync:
+      hasNode &&
+      noteSync.pendingNotes.some(
+        (pending) => pending.graphId === graphId && pending.nodeId === nodeId
+      ),
+    syncError: noteSync.lastError,
+
+    // Concurrent edit awaiting a merge decision
+    conflict,
+    resolveConflict: (content: string) =>
+      conflict ? noteSync.resolveConflict(conflict.noteId, content) : Promise.resolve(),
+    discardLocal: () =>
+      conflict ? noteSync.discardLocal(conflict.noteId) : Promise.resolve(),
   };
 }
 
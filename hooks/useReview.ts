@@ -0,0 +1,162 @@
+/**
+ * Review React Query Hooks
+ *
+ * React Query hooks for spaced-repetition review:
+ * - useReviewRecords: All scheduled nodes across graphs
+ * - useDueReviews: Nodes due now, plus the next upcoming review
+ * - useRecordQuizReview: Schedule nodes from a submitted quiz
+ */
+
+import { useMemo } from 'react';
+import {
+  useQuery,
+  useMutation,
+  useQueryClient,
+  type UseQueryOptions,
+  type UseMutationOptions,
+} from '@tanstack/react-query';
+import { getReviewStore } from '@/lib/review/review-store';
+import { getDueReviews, recordQuizOutcomes, type ReviewRecord } from '@/lib/review/scheduler';
+import { graphKeys } from './useGraph';
+import type { Graph, QuizQuestion, QuizQuestionResult } from '@/types/api.types';
+import type { NormalizedAPIError } from '@/lib/api-client';
+
+// ============================================================================
+// Query Keys
+// ============================================================================
+
+/**
+ * Query key factory for review-related queries
+ */
+export const reviewKeys = {
+  all: ['reviews'] as const,
+  list: () => [...reviewKeys.all, 'list'] as const,
+};
+
+/**
+ * Submitted quiz to record
+ */
+export interface QuizReviewRequest {
+  graphId: string;
+  questions: QuizQuestion[];
+  results: QuizQuestionResult[];
+}
+
+// ============================================================================
+// useReviewRecords - All Review Records
+// ============================================================================
+
+/**
+ * Fetch every review record stored in this browser
+ *
+ * @param options - React Query options
+ * @returns Query result with review records
+ */
+export function useReviewRecords(
+  options?: Omit<
+    UseQueryOptions<ReviewRecord[], NormalizedAPIError>,
+    'queryKey' | 'queryFn'
+  >
+) {
+  return useQuery<ReviewRecord[], NormalizedAPIError>({
+    queryKey: reviewKeys.list(),
+    queryFn: () => getReviewStore().getAll(),
+    ...options,
+  });
+}
+
+// ============================================================================
+// useDueReviews - Due Review Queue
+// ============================================================================
+
+/**
+ * Get nodes that are due for review across all graphs
+ *
+ * @returns Due records (most overdue first), the next upcoming record and query state
+ *
+ * @example
+ * ```typescript
+ * const { dueRecords, nextReview, isLoading } = useDueReviews();
+ *
+ * if (dueRecords.length === 0 && nextReview) {
+ *   return <p>Next review {formatDate(nextReview.dueAt)}</p>;
+ * }
+ * ```
+ */
+export function useDueReviews() {
+  const { data: records = [], isLoading, error } = useReviewRecords();
+
+  return useMemo(() => {
+    const now = new Date();
+    const dueRecords = getDueReviews(records, now);
+    const nextReview =
+      records
+        .filter((record) => new Date(record.dueAt).getTime() > now.getTime())
+        .sort((a, b) => a.dueAt.localeCompare(b.dueAt))[0] ?? null;
+
+    return {
+      records,
+      dueRecords,
+      nextReview,
+      isLoading,
+      error,
+    };
+  }, [records, isLoading, error]);
+}
+
+// ============================================================================
+// useRecordQuizReview - Schedule From Quiz Results
+// ============================================================================
+
+/**
+ * Record a submitted quiz against the nodes its questions cover
+ *
+ * Node and document titles are taken from the cached graph when available.
+ *
+ * @param options - React Query mutation options
+ * @returns Mutation function and state
+ *
+ * @example
+ * ```typescript
+ * const recordReview = useRecordQuizReview();
+ *
+ * recordReview.mutate({
+ *   graphId: 'graph_abc123',
+ *   questions: quiz.questions,
+ *   results: results.results,
+ * });
+ * ```
+ */
+export function useRecordQuizReview(
+  options?: UseMutationOptions<ReviewRecord[], NormalizedAPIError, QuizReviewRequest>
+) {
+  const queryClient = useQueryClient();
+
+  return useMutation<ReviewRecord[], NormalizedAPIError, QuizReviewRequest>({
+    mutationFn: async ({ graphId, questions, results }) => {
+      const store = getReviewStore();
+      const existing = await store.getForGraph(graphId);
+      const graph = queryClient.getQueryData<Graph>(graphKeys.detail(graphId));
+
+      const records = recordQuizOutcomes(
+        new Map(existing.map((record) => [record.id, record])),
+        graphId,
+        questions,
+        results,
+        (nodeId) => {
+          const node = graph?.nodes.find((n) => n.id === nodeId);
+          return node
+            ? { nodeTitle: node.title, documentTitle: graph?.document.title }
+            : undefined;
+        }
+      );
+
+      await store.putRecords(records);
+      return records;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: reviewKeys.all });
+    },
+    ...options,
+  });
+}
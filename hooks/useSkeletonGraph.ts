@@ -0,0 +1,210 @@
+/**
+ * useSkeletonGraph Hook
+ *
+ * Skeleton mode for the graph view: hides a share of the edges (stored in
+ * the URL query as `?skeleton=0.5`, so the mode survives reloads), checks
+ * connections the reader proposes against them, and reveals edges as they
+ * are found or given up on.
+ *
+ * @example
+ * ```typescript
+ * const skeleton = useSkeletonGraph(graph);
+ *
+ * <GraphContainer
+ *   mermaidCode={skeleton.mermaidCode}
+ *   onConnectNodes={skeleton.isActive ? skeleton.propose : undefined}
+ *   ...
+ * />
+ * ```
+ */
+
+'use client';
+
+import { useCallback, useMemo, useState } from 'react';
+import { usePathname, useRouter, useSearchParams } from 'next/navigation';
+import {
+  DEFAULT_HIDDEN_FRACTION,
+  evaluateProposal,
+  hideMermaidEdges,
+  selectHiddenEdges,
+  type SkeletonProposal,
+} from '@/lib/skeleton-graph';
+import type { Graph, GraphEdge } from '@/types/api.types';
+
+const SKELETON_PARAM = 'skeleton';
+
+export interface UseSkeletonGraphReturn {
+  /**
+   * Skeleton mode is on
+   */
+  isActive: boolean;
+  /**
+   * Share of edges hidden (null when skeleton mode is off)
+   */
+  fraction: number | null;
+  /**
+   * Start skeleton mode with a hidden share, or leave it with null
+   * (updates the URL without adding a history entry; progress restarts)
+   */
+  setFraction: (fraction: number | null) => void;
+  /**
+   * Mermaid code to render: without the still-hidden edges in skeleton mode
+   */
+  mermaidCode: string;
+  /**
+   * Edges shown in the graph (all edges outside skeleton mode)
+   */
+  visibleEdges: GraphEdge[];
+  /**
+   * Edges still hidden
+   */
+  hiddenEdgeIds: string[];
+  /**
+   * Edges hidden when the mode started
+   */
+  totalHidden: number;
+  /**
+   * Proposed connections, newest first
+   */
+  proposals: SkeletonProposal[];
+  /**
+   * Propose a connection between two nodes (by ID); reveals the edge when
+   * it exists
+   */
+  propose: (fromNodeId: string, toNodeId: string) => void;
+  /**
+   * Reveal the next hidden edge
+   */
+  revealNext: () => void;
+  /**
+   * Reveal every hidden edge (the full graph)
+   */
+  revealAll: () => void;
+}
+
+interface SkeletonProgress {
+  /** Graph and fraction the progress belongs to */
+  key: string;
+  revealedEdgeIds: string[];
+  proposals: SkeletonProposal[];
+}
+
+const NO_REVEALED_EDGES: string[] = [];
+const NO_PROPOSALS: SkeletonProposal[] = [];
+
+/**
+ * Parse the hidden share from the URL (a bare `?skeleton` uses the default)
+ */
+function parseFraction(value: string | null): number | null {
+  if (value === null) return null;
+  const fraction = Number.parseFloat(value);
+  return Number.isFinite(fraction) && fraction > 0 && fraction <= 1
+    ? fraction
+    : DEFAULT_HIDDEN_FRACTION;
+}
+
+export function useSkeletonGraph(graph: Graph | undefined): UseSkeletonGraphReturn {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+
+  const query = searchParams.toString();
+  const fraction = parseFraction(searchParams.get(SKELETON_PARAM));
+
+  const setFraction = useCallback(
+    (nextFraction: number | null) => {
+      const params = new URLSearchParams(query);
+      if (nextFraction === null) {
+        params.delete(SKELETON_PARAM);
+      } else {
+        params.set(SKELETON_PARAM, String(nextFraction));
+      }
+      const nextQuery = params.toString();
+      router.replace(nextQuery ? `${pathname}?${nextQuery}` : pathname, { scroll: false });
+    },
+    [router, pathname, query]
+  );
+
+  const allHiddenEdgeIds = useMemo(
+    () => (graph && fraction !== null ? selectHiddenEdges(graph.edges, fraction, graph.id) : []),
+    [graph, fraction]
+  );
+
+  // Progress restarts when the graph or the hidden share changes
+  const progressKey = `${graph?.id}:${fraction}`;
+  const [storedProgress, setProgress] = useState<SkeletonProgress>({
+    key: progressKey,
+    revealedEdgeIds: NO_REVEALED_EDGES,
+    proposals: NO_PROPOSALS,
+  });
+  const progress =
+    storedProgress.key === progressKey
+      ? storedProgress
+      : { key: progressKey, revealedEdgeIds: NO_REVEALED_EDGES, proposals: NO_PROPOSALS };
+
+  const hiddenEdgeIds = useMemo(
+    () => allHiddenEdgeIds.filter((id) => !progress.revealedEdgeIds.includes(id)),
+    [allHiddenEdgeIds, progress.revealedEdgeIds]
+  );
+
+  const { mermaidCode, visibleEdges } = useMemo(() => {
+    if (!graph) return { mermaidCode: '', visibleEdges: [] };
+    if (hiddenEdgeIds.length === 0) {
+      return { mermaidCode: graph.mermaidCode, visibleEdges: graph.edges };
+    }
+
+    const hidden = new Set(hiddenEdgeIds);
+    return {
+      mermaidCode: hideMermaidEdges(graph.mermaidCode, graph.edges, hiddenEdgeIds),
+      visibleEdges: graph.edges.filter((edge) => !hidden.has(edge.id)),
+    };
+  }, [graph, hiddenEdgeIds]);
+
+  const reveal = useCallback(
+    (edgeIds: string[], proposal?: SkeletonProposal) => {
+      setProgress((previous) => {
+        const current =
+          previous.key === progressKey
+            ? previous
+            : { key: progressKey, revealedEdgeIds: NO_REVEALED_EDGES, proposals: NO_PROPOSALS };
+        return {
+          key: progressKey,
+          revealedEdgeIds: [...current.revealedEdgeIds, ...edgeIds],
+          proposals: proposal ? [proposal, ...current.proposals] : current.proposals,
+        };
+      });
+    },
+    [progressKey]
+  );
+
+  const propose = useCallback(
+    (fromNodeId: string, toNodeId: string) => {
+      if (!graph || fromNodeId === toNodeId) return;
+
+      const proposal = evaluateProposal(graph.edges, hiddenEdgeIds, fromNodeId, toNodeId);
+      const found = proposal.result === 'correct' || proposal.result === 'reversed';
+      reveal(found && proposal.edgeId ? [proposal.edgeId] : [], proposal);
+    },
+    [graph, hiddenEdgeIds, reveal]
+  );
+
+  const revealNext = useCallback(() => {
+    if (hiddenEdgeIds.length > 0) reveal([hiddenEdgeIds[0]]);
+  }, [hiddenEdgeIds, reveal]);
+
+  const revealAll = useCallback(() => reveal(hiddenEdgeIds), [hiddenEdgeIds, reveal]);
+
+  return {
+    isActive: fraction !== null,
+    fraction,
+    setFraction,
+    mermaidCode,
+    visibleEdges,
+    hiddenEdgeIds,
+    totalHidden: allHiddenEdgeIds.length,
+    proposals: progress.proposals,
+    propose,
+    revealNext,
+    revealAll,
+  };
+}
@@ -0,0 +1,149 @@
+/**
+ * Workspace React Query Hooks
+ *
+ * React Query hooks for multi-document workspaces:
+ * - useWorkspace: Fetch a workspace with its documents
+ * - useCreateWorkspace: Create workspace mutation
+ * - useUpdateWorkspace: Rename a workspace or change its documents
+ */
+
+import {
+  useQuery,
+  useMutation,
+  useQueryClient,
+  type UseQueryOptions,
+  type UseMutationOptions,
+} from '@tanstack/react-query';
+import { createWorkspace, getWorkspace, updateWorkspace } from '@/lib/api/workspaces';
+import type {
+  Workspace,
+  WorkspaceCreateRequest,
+  WorkspaceUpdateRequest,
+} from '@/types/api.types';
+import type { NormalizedAPIError } from '@/lib/api-client';
+
+// ============================================================================
+// Query Keys
+// ============================================================================
+
+/**
+ * Query key factory for workspace queries
+ */
+export const workspaceKeys = {
+  all: ['workspaces'] as const,
+  detail: (id: string) => [...workspaceKeys.all, id] as const,
+};
+
+/**
+ * Variables for useUpdateWorkspace
+ */
+export interface WorkspaceUpdateVariables extends WorkspaceUpdateRequest {
+  workspaceId: string;
+}
+
+// ============================================================================
+// useWorkspace - Fetch Workspace
+// ============================================================================
+
+/**
+ * Fetch a workspace with its documents
+ *
+ * @param workspaceId - Workspace ID
+ * @param options - React Query options
+ * @returns Query result with the workspace
+ *
+ * @example
+ * ```typescript
+ * const { data: workspace } = useWorkspace(workspaceId);
+ *
+ * if (workspace?.graphId) router.push(`/graph/${workspace.graphId}`);
+ * ```
+ */
+export function useWorkspace(
+  workspaceId: string,
+  options?: Omit<
+    UseQueryOptions<Workspace, NormalizedAPIError>,
+    'queryKey' | 'queryFn'
+  >
+) {
+  return useQuery<Workspace, NormalizedAPIError>({
+    queryKey: workspaceKeys.detail(workspaceId),
+    queryFn: () => getWorkspace(workspaceId),
+    enabled: !!workspaceId,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+    retry: false,
+    ...options,
+  });
+}
+
+// ============================================================================
+// useCreateWorkspace - Create Workspace Mutation
+// ============================================================================
+
+/**
+ * Create workspace mutation
+ *
+ * @param options - React Query mutation options
+ * @returns Mutation function and state
+ *
+ * @example
+ * ```typescript
+ * const createWorkspaceMutation = useCreateWorkspace({
+ *   onSuccess: (workspace) => {
+ *     generateMutation.mutate({
+ *       documentIds: workspace.documents.map((doc) => doc.id),
+ *       workspaceId: workspace.id,
+ *     });
+ *   },
+ * });
+ *
+ * createWorkspaceMutation.mutate({ title: 'Learning science', documentIds });
+ * ```
+ */
+export function useCreateWorkspace(
+  options?: UseMutationOptions<Workspace, NormalizedAPIError, WorkspaceCreateRequest>
+) {
+  const queryClient = useQueryClient();
+
+  return useMutation<Workspace, NormalizedAPIError, WorkspaceCreateRequest>({
+    mutationFn: createWorkspace,
+    onSuccess: (workspace) => {
+      queryClient.setQueryData(workspaceKeys.detail(workspace.id), workspace);
+    },
+    ...options,
+  });
+}
+
+// ============================================================================
+// useUpdateWorkspace - Update Workspace Mutation
+// ============================================================================
+
+/**
+ * Update workspace mutation
+ *
+ * @param options - React Query mutation options
+ * @returns Mutation function and state
+ *
+ * @example
+ * ```typescript
+ * const updateWorkspaceMutation = useUpdateWorkspace();
+ *
+ * updateWorkspaceMutation.mutate({
+ *   workspaceId: workspace.id,
+ *   documentIds: [...documentIds, newDocumentId],
+ * });
+ * ```
+ */
+export function useUpdateWorkspace(
+  options?: UseMutationOptions<Workspace, NormalizedAPIError, WorkspaceUpdateVariables>
+) {
+  const queryClient = useQueryClient();
+
+  return useMutation<Workspace, NormalizedAPIError, WorkspaceUpdateVariables>({
+    mutationFn: ({ workspaceId, ...request }) => updateWorkspace(workspaceId, request),
+    onSuccess: (workspace) => {
+      queryClient.setQueryData(workspaceKeys.detail(workspace.id), workspace);
+    },
+    ...options,
+  });
+}
@@ -1,12 +1,14 @@
 /**
  * Document API Functions
  *
- * API functions for document upload, retrieval, and status checking.
+ * API functions for document upload, retrieval, status checking, listing
+ * and deletion.
  */
 
 import apiClient, { UPLOAD_TIMEOUT } from '@/lib/api-client';
 import type {
   Document,
+  DocumentListItem,
   DocumentUploadResponse,
   DocumentFromUrlRequest,
   DocumentStatusResponse,
@@ -164,3 +166,38 @@ export async function getDocumentFile(documentId: string): Promise<Blob> {
   });
   return response as unknown as Blob;
 }
+
+// ============================================================================
+// List Documents
+// ============================================================================
+
+/**
+ * List all uploaded documents (without their content)
+ *
+ * @returns Library entries, most recently uploaded first
+ *
+ * @example
+ * ```typescript
+ * const documents = await listDocuments();
+ * const ready = documents.filter((doc) => doc.status === 'ready');
+ * ```
+ */
+export async function listDocuments(): Promise<DocumentListItem[]> {
+  return apiClient.get<never, DocumentListItem[]>('/documents');
+}
+
+// ============================================================================
+// Delete Document
+// ============================================================================
+
+/**
+ * Delete a document
+ *
+ * Its graphs, notes and highlights are deleted with it.
+ *
+ * @param documentId - Document ID
+ * @returns void (204 No Content)
+ */
+export async function deleteDocument(documentId: string): Promise<void> {
+  return apiClient.delete<never, void>(`/documents/${documentId}`);
+}
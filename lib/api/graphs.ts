@@ -1,14 +1,22 @@
 /**
  * Graph API Functions
  *
- * API functions for graph generation, retrieval, and job status polling.
+ * API functions for graph generation and regeneration, retrieval, listing,
+ * node and edge editing, and job status polling.
  */
 
 import apiClient, { GRAPH_GENERATION_TIMEOUT } from '@/lib/api-client';
 import type {
   Graph,
+  GraphEdge,
+  GraphEdgeCreateRequest,
+  GraphEdgeUpdateRequest,
+  GraphNode,
+  GraphNodeCreateRequest,
+  GraphNodeUpdateRequest,
   GraphGenerationRequest,
   GraphGenerationResponse,
+  GraphListItem,
   JobStatusResponse,
 } from '@/types/api.types';
 
@@ -22,7 +30,7 @@ import type {
  * This initiates an async job. Use the returned jobId to poll for completion
  * with getJobStatus().
  *
- * @param request - Graph generation request with document ID
+ * @param request - Graph generation request with document ID (or IDs, for a merged graph)
  * @returns Job ID and initial status
  *
  * @example
@@ -30,6 +38,9 @@ import type {
  * const response = await generateGraph({ documentId: 'doc_abc123' });
  * console.log(response.jobId); // "job_graph_123"
  * // Now poll getJobStatus(jobId) until status is "completed"
+ *
+ * // Merge several documents of a workspace into one graph
+ * await generateGraph({ documentIds: ['doc_abc123', 'doc_def456'], workspaceId: 'ws_abc123' });
  * ```
  */
 export async function generateGraph(
@@ -44,6 +55,35 @@ export async function generateGraph(
   );
 }
 
+// ============================================================================
+// Regenerate Graph
+// ============================================================================
+
+/**
+ * Generate a new version of a graph from the same source document(s)
+ *
+ * The earlier version is kept (with its notes); the new one gets its own ID
+ * and the next version number.
+ *
+ * @param graphId - Graph to regenerate (any version)
+ * @returns Generation result for the new version
+ *
+ * @example
+ * ```typescript
+ * const { graphId } = await regenerateGraph('graph_abc123');
+ * const next = await getGraph(graphId); // next.version === 2
+ * ```
+ */
+export async function regenerateGraph(graphId: string): Promise<GraphGenerationResponse> {
+  return apiClient.post<never, GraphGenerationResponse>(
+    `/graphs/${graphId}/regenerate`,
+    undefined,
+    {
+      timeout: GRAPH_GENERATION_TIMEOUT,
+    }
+  );
+}
+
 // ============================================================================
 // Get Graph
 // ============================================================================
@@ -68,6 +108,162 @@ export async function getGraph(graphId: string): Promise<Graph> {
   return result;
 }
 
+// ============================================================================
+// List Graphs
+// ============================================================================
+
+/**
+ * List generated graphs, one entry per version
+ *
+ * @param documentId - Only list graphs of this document (optional)
+ * @returns Library entries, newest first
+ *
+ * @example
+ * ```typescript
+ * const graphs = await listGraphs();
+ * const versions = await listGraphs('doc_abc123');
+ * ```
+ */
+export async function listGraphs(documentId?: string): Promise<GraphListItem[]> {
+  return apiClient.get<never, GraphListItem[]>(
+    documentId ? `/graphs?documentId=${documentId}` : '/graphs'
+  );
+}
+
+// ============================================================================
+// Edit Nodes
+// ============================================================================
+
+/**
+ * Add a user-created node to a graph
+ *
+ * The server assigns the node ID and Mermaid key and updates the graph's
+ * Mermaid code.
+ *
+ * @param graphId - Graph ID
+ * @param request - Node title and optional type and summary
+ * @returns Created node
+ *
+ * @example
+ * ```typescript
+ * const node = await createGraphNode('graph_abc123', { title: 'Metacognition' });
+ * ```
+ */
+export async function createGraphNode(
+  graphId: string,
+  request: GraphNodeCreateRequest
+): Promise<GraphNode> {
+  return apiClient.post<GraphNodeCreateRequest, GraphNode>(`/graphs/${graphId}/nodes`, request);
+}
+
+/**
+ * Update a node
+ *
+ * @param graphId - Graph ID
+ * @param nodeId - Node ID
+ * @param request - Fields to change
+ * @returns Updated node
+ *
+ * @example
+ * ```typescript
+ * await updateGraphNode('graph_abc123', 'node_3', { title: 'Long-Term Retention' });
+ * ```
+ */
+export async function updateGraphNode(
+  graphId: string,
+  nodeId: string,
+  request: GraphNodeUpdateRequest
+): Promise<GraphNode> {
+  return apiClient.put<GraphNodeUpdateRequest, GraphNode>(
+    `/graphs/${graphId}/nodes/${nodeId}`,
+    request
+  );
+}
+
+/**
+ * Delete a node along with its edges
+ *
+ * @param graphId - Graph ID
+ * @param nodeId - Node ID
+ * @returns void (204 No Content)
+ *
+ * @example
+ * ```typescript
+ * await deleteGraphNode('graph_abc123', 'node_8');
+ * ```
+ */
+export async function deleteGraphNode(graphId: string, nodeId: string): Promise<void> {
+  return apiClient.delete<never, void>(`/graphs/${graphId}/nodes/${nodeId}`);
+}
+
+// ============================================================================
+// Edit Edges
+// ============================================================================
+
+/**
+ * Add a user-created edge to a graph
+ *
+ * @param graphId - Graph ID
+ * @param request - Endpoints, relationship label and the required justification
+ * @returns Created edge (justification in `metadata.justification`)
+ *
+ * @example
+ * ```typescript
+ * const edge = await createGraphEdge('graph_abc123', {
+ *   from: 'node_5',
+ *   to: 'node_8',
+ *   relationship: 'deepens',
+ *   justification: 'Evaluating arguments pushes past surface recall',
+ * });
+ * ```
+ */
+export async function createGraphEdge(
+  graphId: string,
+  request: GraphEdgeCreateRequest
+): Promise<GraphEdge> {
+  return apiClient.post<GraphEdgeCreateRequest, GraphEdge>(`/graphs/${graphId}/edges`, request);
+}
+
+/**
+ * Relabel an edge
+ *
+ * @param graphId - Graph ID
+ * @param edgeId - Edge ID
+ * @param request - New relationship label
+ * @returns Updated edge
+ *
+ * @example
+ * ```typescript
+ * await updateGraphEdge('graph_abc123', 'edge_5', { relationship: 'reinforces' });
+ * ```
+ */
+export async function updateGraphEdge(
+  graphId: string,
+  edgeId: string,
+  request: GraphEdgeUpdateRequest
+): Promise<GraphEdge> {
+  return apiClient.put<GraphEdgeUpdateRequest, GraphEdge>(
+    `/graphs/${graphId}/edges/${edgeId}`,
+    request
+  );
+}
+
+/**
+ * Delete an edge
+ *
+ * @param graphId - Graph ID
+ * @param edgeId - Edge ID
+ * @returns void (204 No Content)
+ *
+ * @example
+ * ```typescript
+ * await deleteGraphEdge('graph_abc123', 'edge_9');
+ * ```
+ */
+export async function deleteGraphEdge(graphId: string, edgeId: string): Promise<void> {
+  return apiClient.delete<never, void>(`/graphs/${graphId}/edges/${edgeId}`);
+}
+
 // ============================================================================
 // Get Job Status
 // ============================================================================
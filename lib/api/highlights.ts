@@ -0,0 +1,116 @@
+/**
+ * Highlights API Functions
+ *
+ * API functions for user highlights on document passages. Highlights live
+ * alongside notes: notes annotate the graph, highlights annotate the source.
+ */
+
+import apiClient from '@/lib/api-client';
+import type {
+  Highlight,
+  HighlightCreateRequest,
+  HighlightUpdateRequest,
+} from '@/types/api.types';
+
+// ============================================================================
+// Create Highlight
+// ============================================================================
+
+/**
+ * Create a highlight on a document passage
+ *
+ * Passing `graphId` and `nodeId` also attaches the passage to that node as a
+ * new document reference.
+ *
+ * @param request - Highlight creation request with text, color and anchor
+ * @returns Created highlight object
+ *
+ * @example
+ * ```typescript
+ * // Highlight a passage in a text document
+ * const highlight = await createHighlight({
+ *   documentId: 'doc_abc123',
+ *   text: 'Active learning improves retention',
+ *   color: 'yellow',
+ *   anchor: { type: 'text', startOffset: 120, endOffset: 154 },
+ * });
+ *
+ * // Highlight a PDF passage and attach it to a node
+ * const attached = await createHighlight({
+ *   documentId: 'doc_abc123',
+ *   graphId: 'graph_abc123',
+ *   nodeId: 'node_2',
+ *   text: 'Students participate actively',
+ *   color: 'green',
+ *   comment: 'Good definition',
+ *   anchor: {
+ *     type: 'pdf',
+ *     reference: { text: 'Students participate actively', page: 0, coordinates: bbox },
+ *   },
+ * });
+ * ```
+ */
+export async function createHighlight(
+  request: HighlightCreateRequest
+): Promise<Highlight> {
+  return apiClient.post<HighlightCreateRequest, Highlight>('/highlights', request);
+}
+
+// ============================================================================
+// Get Highlights
+// ============================================================================
+
+/**
+ * Get all highlights for a document
+ *
+ * @param documentId - Document ID
+ * @returns Array of highlights
+ *
+ * @example
+ * ```typescript
+ * const highlights = await getHighlights('doc_abc123');
+ * const attached = highlights.filter(highlight => highlight.nodeId !== null);
+ * ```
+ */
+export async function getHighlights(documentId: string): Promise<Highlight[]> {
+  return apiClient.get<never, Highlight[]>(`/highlights?documentId=${documentId}`);
+}
+
+// ============================================================================
+// Update Highlight
+// ============================================================================
+
+/**
+ * Update a highlight's color or comment
+ *
+ * @param highlightId - Highlight ID
+ * @param request - Fields to change
+ * @returns Updated highlight object
+ *
+ * @example
+ * ```typescript
+ * await updateHighlight('hl_abc123', { comment: 'Revisit before the exam' });
+ * ```
+ */
+export async function updateHighlight(
+  highlightId: string,
+  request: HighlightUpdateRequest
+): Promise<Highlight> {
+  return apiClient.put<HighlightUpdateRequest, Highlight>(`/highlights/${highlightId}`, request);
+}
+
+// ============================================================================
+// Delete Highlight
+// ============================================================================
+
+/**
+ * Delete a highlight
+ *
+ * References already added to a node stay on the node.
+ *
+ * @param highlightId - Highlight ID
+ * @returns void (204 No Content)
+ */
+export async function deleteHighlight(highlightId: string): Promise<void> {
+  return apiClient.delete<never, void>(`/highlights/${highlightId}`);
+}
@@ -12,12 +12,22 @@ export {
   getDocument,
   getDocumentStatus,
   getDocumentFile,
+  listDocuments,
+  deleteDocument,
 } from './documents';
 
 // Graph operations
 export {
   generateGraph,
+  regenerateGraph,
   getGraph,
+  listGraphs,
+  createGraphNode,
+  updateGraphNode,
+  deleteGraphNode,
+  createGraphEdge,
+  updateGraphEdge,
+  deleteGraphEdge,
   getJobStatus,
 } from './graphs';
 
@@ -31,3 +41,18 @@ export {
   generateQuiz,
   submitQuiz,
 } from './quizzes';
+
+// Highlight operations
+export {
+  createHighlight,
+  getHighlights,
+  updateHighlight,
+  deleteHighlight,
+} from './highlights';
+
+// Workspace operations
+export {
+  createWorkspace,
+  getWorkspace,
+  updateWorkspace,
+} from './workspaces';
@@ -4,11 +4,14 @@
  * API functions for note CRUD operations on nodes, edges, and graphs.
  */
 
-import apiClient from '@/lib/api-client';
-import type {
-  Note,
-  NoteCreateRequest,
-  NoteUpdateRequest,
+import apiClient, { type NormalizedAPIError } from '@/lib/api-client';
+import {
+  APIErrorCode,
+  type Note,
+  type NoteConflictDetails,
+  type NoteCreateRequest,
+  type NoteReattachRequest,
+  type NoteUpdateRequest,
 } from '@/types/api.types';
 
 // ============================================================================
@@ -86,14 +89,20 @@ export async function getNotes(graphId: string): Promise<Note[]> {
 /**
  * Update note content
  *
+ * Pass the `version` (or `updatedAt`) of the note the edit was based on to
+ * detect concurrent edits. If the server copy has moved on, the request is
+ * rejected with a CONFLICT error carrying the current server note
+ * (see getNoteConflict).
+ *
  * @param noteId - Note ID
- * @param request - Note update request with new content
+ * @param request - Note update request with new content and base version
  * @returns Updated note object
  *
  * @example
  * ```typescript
  * const updated = await updateNote('note_abc123', {
- *   content: 'Updated note content with more details'
+ *   content: 'Updated note content with more details',
+ *   version: note.version,
  * });
  * console.log(updated.updatedAt); // New timestamp
  * ```
@@ -124,3 +133,67 @@ export async function updateNote(
 export async function deleteNote(noteId: string): Promise<void> {
   return apiClient.delete<never, void>(`/notes/${noteId}`);
 }
+
+// ============================================================================
+// Reattach Notes
+// ============================================================================
+
+/**
+ * Copy notes from an earlier graph version onto matching nodes and edges
+ *
+ * The earlier version keeps its notes. Notes on nodes or edges missing from
+ * the maps are not copied; graph-level notes always are.
+ *
+ * @param graphId - Newer graph version
+ * @param request - Earlier version and node/edge ID matches (see diffGraphs)
+ * @returns Notes created on the newer version
+ *
+ * @example
+ * ```typescript
+ * const diff = diffGraphs(previous, next);
+ * const notes = await reattachNotes(next.id, {
+ *   fromGraphId: previous.id,
+ *   nodeIds: { ...diff.nodeMatches, ...diff.nodeKeyMatches },
+ *   edgeIds: diff.edgeMatches,
+ * });
+ * ```
+ */
+export async function reattachNotes(
+  graphId: string,
+  request: NoteReattachRequest
+): Promise<Note[]> {
+  return apiClient.post<NoteReattachRequest, Note[]>(
+    `/graphs/${graphId}/notes/reattach`,
+    request
+  );
+}
+
+// ============================================================================
+// Conflict Helpers
+// ============================================================================
+
+/**
+ * Extract the server copy of a note from a CONFLICT error
+ *
+ * @param error - Error thrown by updateNote
+ * @returns Current server note, or null if the error is not a note conflict
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await updateNote(note.id, { content, version: note.version });
+ * } catch (error) {
+ *   const serverNote = getNoteConflict(error);
+ *   if (serverNote) openMergeDialog(content, serverNote);
+ * }
+ * ```
+ */
+export function getNoteConflict(error: unknown): Note | null {
+  const apiError = error as Partial<NormalizedAPIError> | undefined;
+  if (apiError?.code !== APIErrorCode.CONFLICT && apiError?.status !== 409) {
+    return null;
+  }
+
+  const details = apiError.details as Partial<NoteConflictDetails> | undefined;
+  return details?.serverNote ?? null;
+}
@@ -0,0 +1,83 @@
+/**
+ * Workspace API Functions
+ *
+ * API functions for workspaces: named groups of documents that are read
+ * together and merged into a single cross-source graph.
+ */
+
+import apiClient from '@/lib/api-client';
+import type {
+  Workspace,
+  WorkspaceCreateRequest,
+  WorkspaceUpdateRequest,
+} from '@/types/api.types';
+
+// ============================================================================
+// Create Workspace
+// ============================================================================
+
+/**
+ * Create a workspace from uploaded documents
+ *
+ * @param request - Workspace title and document IDs
+ * @returns Created workspace (without a graph until one is generated)
+ *
+ * @example
+ * ```typescript
+ * const workspace = await createWorkspace({
+ *   title: 'Learning science',
+ *   documentIds: ['doc_abc123', 'doc_def456'],
+ * });
+ * await generateGraph({ documentIds: ['doc_abc123', 'doc_def456'], workspaceId: workspace.id });
+ * ```
+ */
+export async function createWorkspace(
+  request: WorkspaceCreateRequest
+): Promise<Workspace> {
+  return apiClient.post<WorkspaceCreateRequest, Workspace>('/workspaces', request);
+}
+
+// ============================================================================
+// Get Workspace
+// ============================================================================
+
+/**
+ * Get a workspace with its documents
+ *
+ * @param workspaceId - Workspace ID
+ * @returns Workspace object
+ *
+ * @example
+ * ```typescript
+ * const workspace = await getWorkspace('ws_abc123');
+ * console.log(workspace.documents.map((doc) => doc.title));
+ * ```
+ */
+export async function getWorkspace(workspaceId: string): Promise<Workspace> {
+  return apiClient.get<never, Workspace>(`/workspaces/${workspaceId}`);
+}
+
+// ============================================================================
+// Update Workspace
+// ============================================================================
+
+/**
+ * Rename a workspace or change its documents
+ *
+ * Changing the documents does not regenerate the merged graph.
+ *
+ * @param workspaceId - Workspace ID
+ * @param request - Fields to change
+ * @returns Updated workspace object
+ *
+ * @example
+ * ```typescript
+ * await updateWorkspace('ws_abc123', { documentIds: ['doc_abc123', 'doc_ghi789'] });
+ * ```
+ */
+export async function updateWorkspace(
+  workspaceId: string,
+  request: WorkspaceUpdateRequest
+): Promise<Workspace> {
+  return apiClient.put<WorkspaceUpdateRequest, Workspace>(`/workspaces/${workspaceId}`, request);
+}
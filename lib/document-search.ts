@@ -0,0 +1,151 @@
+/**
+ * Document Search Utilities
+ *
+ * Find-in-document for the reading panel. Browser find can't see text
+ * painted onto PDF canvases, so the panel searches the document data
+ * itself: paragraphs of `Document.content` for text documents, and the
+ * extracted `metadata.textBlocks` (with their bounding boxes) for PDFs.
+ * Matching is literal and case-insensitive.
+ */
+
+import type { TextBlock } from '@/types/api.types';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * A match inside one paragraph of a text document
+ */
+export interface ParagraphMatch {
+  /** Index into the paragraphs rendered by DocumentViewer */
+  paragraphIndex: number;
+  /** Start offset within the paragraph */
+  startOffset: number;
+  /** End offset within the paragraph (exclusive) */
+  endOffset: number;
+}
+
+/**
+ * A match inside a PDF text block
+ */
+export interface TextBlockMatch {
+  /** Index into `metadata.textBlocks` */
+  blockIndex: number;
+  /** 0-indexed page number */
+  page: number;
+  /** Bounding box of the block in PDF coordinates */
+  bbox: TextBlock['bbox'];
+}
+
+// ============================================================================
+// Paragraphs
+// ============================================================================
+
+/**
+ * Split document content into the paragraphs DocumentViewer renders
+ *
+ * Splits on blank lines, falling back to single newlines for content
+ * without them, and drops empty paragraphs.
+ *
+ * @param content - Full document text
+ * @returns Paragraph strings in document order
+ */
+export function splitParagraphs(content: string): string[] {
+  if (!content) return [];
+
+  let parts = content.split(/\n\n+/);
+  if (parts.length === 1) {
+    parts = content.split(/\n/);
+  }
+
+  return parts.filter((part) => part.trim().length > 0);
+}
+
+// ============================================================================
+// Matching
+// ============================================================================
+
+/**
+ * Find every start offset of a query in some text
+ *
+ * Matches don't overlap, so "aa" occurs twice in "aaaa".
+ */
+function findOffsets(text: string, query: string): number[] {
+  const haystack = text.toLowerCase();
+  const needle = query.toLowerCase();
+  const offsets: number[] = [];
+
+  let index = haystack.indexOf(needle);
+  while (index !== -1) {
+    offsets.push(index);
+    index = haystack.indexOf(needle, index + needle.length);
+  }
+
+  return offsets;
+}
+
+/**
+ * Search paragraphs for a query
+ *
+ * @param paragraphs - Paragraphs from `splitParagraphs`
+ * @param query - Text to find (blank queries match nothing)
+ * @returns Matches in document order
+ *
+ * @example
+ * ```typescript
+ * const matches = findInParagraphs(splitParagraphs(document.content), 'entropy');
+ * // [{ paragraphIndex: 2, startOffset: 14, endOffset: 21 }, ...]
+ * ```
+ */
+export function findInParagraphs(paragraphs: string[], query: string): ParagraphMatch[] {
+  const trimmed = query.trim();
+  if (!trimmed) return [];
+
+  return paragraphs.flatMap((paragraph, paragraphIndex) =>
+    findOffsets(paragraph, trimmed).map((startOffset) => ({
+      paragraphIndex,
+      startOffset,
+      endOffset: startOffset + trimmed.length,
+    }))
+  );
+}
+
+/**
+ * Search PDF text blocks for a query
+ *
+ * Each occurrence counts as a match, but blocks only carry one bounding
+ * box, so every match in a block highlights the whole block.
+ *
+ * @param blocks - Text blocks from `Document.metadata.textBlocks`
+ * @param query - Text to find (blank queries match nothing)
+ * @returns Matches in page order
+ */
+export function findInTextBlocks(blocks: TextBlock[], query: string): TextBlockMatch[] {
+  const trimmed = query.trim();
+  if (!trimmed) return [];
+
+  return blocks
+    .map((block, blockIndex) => ({ block, blockIndex }))
+    .sort((a, b) => a.block.page - b.block.page || a.blockIndex - b.blockIndex)
+    .flatMap(({ block, blockIndex }) =>
+      findOffsets(block.text, trimmed).map(() => ({
+        blockIndex,
+        page: block.page,
+        bbox: block.bbox,
+      }))
+    );
+}
+
+/**
+ * Step to the next or previous match, wrapping around
+ *
+ * @param index - Current match index
+ * @param count - Number of matches
+ * @param direction - 1 for next, -1 for previous
+ * @returns New match index (0 when there are no matches)
+ */
+export function stepMatchIndex(index: number, count: number, direction: 1 | -1): number {
+  if (count === 0) return 0;
+  return (index + direction + count) % count;
+}
@@ -0,0 +1,190 @@
+/**
+ * Edge Type Utilities
+ *
+ * Maps free-text edge relationships ("leads to", "is a", "such as") to the
+ * relationship categories styled in mermaid-theme, detects symmetric
+ * relationships ("related to", "contrasts with") that are drawn with
+ * arrowheads at both ends, and scales edges by their strength.
+ */
+
+import type { GraphEdge } from '@/types/api.types';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Relationship category of an edge
+ */
+export type EdgeType = 'causal' | 'definitional' | 'example' | 'contrast' | 'related';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * Legend entries for the edge types, in display order
+ */
+export const EDGE_TYPE_LEGEND: Array<{ type: EdgeType; label: string; description: string }> = [
+  { type: 'causal', label: 'Causal', description: 'Leads to, causes' },
+  { type: 'definitional', label: 'Definitional', description: 'Is a, defines' },
+  { type: 'example', label: 'Example', description: 'Such as, illustrates' },
+  { type: 'contrast', label: 'Contrast', description: 'Differs from, versus' },
+  { type: 'related', label: 'Related', description: 'Other connections' },
+];
+
+export const EDGE_TYPES: EdgeType[] = EDGE_TYPE_LEGEND.map((entry) => entry.type);
+
+/**
+ * Relationship patterns per category, checked in order (contrast first, so
+ * "is unlike" is not read as definitional)
+ */
+const EDGE_TYPE_PATTERNS: Array<[EdgeType, RegExp]> = [
+  [
+    'contrast',
+    /\b(contrasts?|versus|vs\.?|unlike|differs?|different from|opposes?|opposite|conflicts?|contradicts?|compared (to|with)|instead of|rather than)\b/,
+  ],
+  [
+    'example',
+    /\b(such as|for example|for instance|e\.g\.?|example|instance of|illustrates?|demonstrates?|exemplifies|shown by)\b/,
+  ],
+  [
+    'definitional',
+    /\b(is an?|are|means|defines?|defined as|refers to|consists of|comprises|includes|contains|part of|type of|kind of|form of|subset of|category of)\b/,
+  ],
+  [
+    'causal',
+    /\b(leads? to|results? in|causes?|caused by|produces?|enables?|promotes?|develops?|drives?|builds?|achieves?|triggers?|influences?|affects?|improves?|increases?|reduces?|prevents?|requires?|depends on|because|therefore)\b/,
+  ],
+];
+
+/**
+ * Relationships that read the same in both directions
+ */
+const SYMMETRIC_PATTERN =
+  /\b(related to|relates to|associated with|similar to|linked (to|with)|correlates? with|interacts? with|equivalent to|contrasts? with|compared (to|with)|versus|vs\.?)\b/;
+
+// ============================================================================
+// Classification
+// ============================================================================
+
+/**
+ * Check whether a value is a known edge type
+ */
+export function isEdgeType(value: unknown): value is EdgeType {
+  return EDGE_TYPES.includes(value as EdgeType);
+}
+
+/**
+ * Classify a free-text relationship
+ *
+ * @param relationship - Relationship label of an edge
+ * @returns Relationship category (related when nothing matches)
+ *
+ * @example
+ * ```typescript
+ * classifyRelationship('leads to'); // 'causal'
+ * classifyRelationship('Is a'); // 'definitional'
+ * classifyRelationship('supports'); // 'related'
+ * ```
+ */
+export function classifyRelationship(relationship: string): EdgeType {
+  const text = relationship.trim().toLowerCase();
+  const match = EDGE_TYPE_PATTERNS.find(([, pattern]) => pattern.test(text));
+  return match ? match[0] : 'related';
+}
+
+/**
+ * Get the relationship category of an edge
+ *
+ * A category set by the server in `metadata.edgeType` wins over the
+ * classified relationship label.
+ */
+export function getEdgeType(edge: Pick<GraphEdge, 'relationship' | 'metadata'>): EdgeType {
+  const edgeType = edge.metadata?.edgeType;
+  return isEdgeType(edgeType) ? edgeType : classifyRelationship(edge.relationship ?? '');
+}
+
+/**
+ * Check whether a relationship reads the same in both directions
+ *
+ * @example
+ * ```typescript
+ * isSymmetricRelationship('related to'); // true
+ * isSymmetricRelationship('leads to'); // false
+ * ```
+ */
+export function isSymmetricRelationship(relationship: string): boolean {
+  return SYMMETRIC_PATTERN.test(relationship.trim().toLowerCase());
+}
+
+/**
+ * Get the edge types present in a graph, in legend order
+ */
+export function getPresentEdgeTypes(edges: GraphEdge[]): EdgeType[] {
+  const present = new Set(edges.map(getEdgeType));
+  return EDGE_TYPES.filter((type) => present.has(type));
+}
+
+// ============================================================================
+// Strength
+// ============================================================================
+
+/**
+ * Get the strength of an edge on a 0-1 scale
+ *
+ * @returns Clamped strength, or null when the server gave none
+ */
+export function getEdgeStrength(edge: Pick<GraphEdge, 'strength'>): number | null {
+  if (edge.strength === null || edge.strength === undefined || Number.isNaN(edge.strength)) {
+    return null;
+  }
+  return Math.min(Math.max(edge.strength, 0), 1);
+}
+
+/**
+ * Get the IDs of edges weaker than a threshold
+ *
+ * Edges without a strength are never considered weak.
+ *
+ * @param edges - Graph edges
+ * @param threshold - Minimum strength to keep (0-1)
+ * @returns IDs of edges below the threshold
+ *
+ * @example
+ * ```typescript
+ * const hidden = getWeakEdgeIds(graph.edges, 0.5);
+ * ```
+ */
+export function getWeakEdgeIds(edges: GraphEdge[], threshold: number): Set<string> {
+  return new Set(
+    edges
+      .filter((edge) => {
+        const strength = getEdgeStrength(edge);
+        return strength !== null && strength < threshold;
+      })
+      .map((edge) => edge.id)
+  );
+}
+
+/**
+ * Get the stroke width multiplier and opacity for an edge strength
+ *
+ * Strong edges are drawn up to 1.5x their type's width at full opacity;
+ * the weakest at half width and 35% opacity.
+ *
+ * @example
+ * ```typescript
+ * getStrengthStyle(1); // { widthScale: 1.5, opacity: 1 }
+ * ```
+ */
+export function getStrengthStyle(strength: number): { widthScale: number; opacity: number } {
+  return { widthScale: 0.5 + strength, opacity: 0.35 + 0.65 * strength };
+}
+
+/**
+ * Check whether any edge has a strength
+ */
+export function hasEdgeStrengths(edges: GraphEdge[]): boolean {
+  return edges.some((edge) => getEdgeStrength(edge) !== null);
+}
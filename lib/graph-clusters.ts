@@ -0,0 +1,309 @@
+/**
+ * Graph Cluster Utilities
+ *
+ * Progressive disclosure for large graphs: nodes are grouped into clusters
+ * (from `metadata.cluster` when the server provides one, otherwise computed
+ * around the best-connected concepts), collapsed clusters are drawn as a
+ * single node with a child count, and expanded clusters are inlined as a
+ * Mermaid subgraph nested in their parent's. The expanded clusters form a
+ * path from the overview down, which doubles as the breadcrumb trail.
+ */
+
+import { buildMermaidCode, type MermaidSubgraph } from './mermaid-builder';
+import type { GraphEdge, GraphNode } from '@/types/api.types';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Group of nodes that can be collapsed into one
+ */
+export interface GraphCluster {
+  id: string;
+  label: string;
+  /** Enclosing cluster (null at the top level) */
+  parentId: string | null;
+  /** Every node in the cluster, including nested clusters' nodes */
+  nodeIds: string[];
+}
+
+/**
+ * Graph drawn with collapsed clusters
+ */
+export interface ClusteredGraphView {
+  /** Visible nodes, with a placeholder node per collapsed cluster */
+  nodes: GraphNode[];
+  /** Edges between visible nodes; edges into a collapsed cluster are merged */
+  edges: GraphEdge[];
+  /** Mermaid code with the expanded clusters as subgraphs */
+  mermaidCode: string;
+  /** Collapsed cluster by its placeholder's node ID and key */
+  collapsedClusters: Record<string, GraphCluster>;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Graphs up to this size are shown in full */
+export const MAX_OVERVIEW_NODES = 7;
+
+/** Node type of collapsed cluster placeholders (styled in mermaid-theme) */
+export const CLUSTER_NODE_TYPE = 'cluster';
+
+const CLUSTER_NODE_PREFIX = 'cluster:';
+
+// ============================================================================
+// Clustering
+// ============================================================================
+
+/**
+ * Read clusters from node metadata
+ *
+ * `metadata.cluster` is a cluster label, or a path of labels from the
+ * outermost cluster in. Nodes without one stay at the top level.
+ */
+function getMetadataClusters(nodes: GraphNode[]): GraphCluster[] {
+  const clusters = new Map<string, GraphCluster>();
+
+  nodes.forEach((node) => {
+    const value = node.metadata?.cluster;
+    const path = (Array.isArray(value) ? value : [value]).filter(
+      (label): label is string => typeof label === 'string' && label.trim() !== ''
+    );
+
+    path.forEach((label, depth) => {
+      const id = path.slice(0, depth + 1).join('/');
+      const cluster = clusters.get(id) ?? {
+        id,
+        label,
+        parentId: depth > 0 ? path.slice(0, depth).join('/') : null,
+        nodeIds: [],
+      };
+      cluster.nodeIds.push(node.id);
+      clusters.set(id, cluster);
+    });
+  });
+
+  return Array.from(clusters.values());
+}
+
+/**
+ * Group nodes around their best-connected concepts
+ *
+ * Picks up to `maxClusters` high-degree nodes that aren't adjacent to each
+ * other as cluster heads, then assigns every node to its nearest head
+ * (breadth-first, ignoring edge direction). Nodes no head reaches stay
+ * ungrouped, as do heads left with no other members.
+ *
+ * @param graph - Nodes and edges to group
+ * @param maxClusters - Most clusters to form (default 6)
+ * @returns One level of clusters labeled after their heads
+ */
+export function computeClusters(
+  graph: { nodes: GraphNode[]; edges: GraphEdge[] },
+  maxClusters = MAX_OVERVIEW_NODES - 1
+): GraphCluster[] {
+  const neighbors = new Map<string, string[]>(graph.nodes.map((node) => [node.id, []]));
+  graph.edges.forEach((edge) => {
+    neighbors.get(edge.from)?.push(edge.to);
+    neighbors.get(edge.to)?.push(edge.from);
+  });
+
+  // Stable sort keeps graph order among equally connected nodes
+  const byDegree = [...graph.nodes].sort(
+    (a, b) => (neighbors.get(b.id)?.length ?? 0) - (neighbors.get(a.id)?.length ?? 0)
+  );
+  const heads: GraphNode[] = [];
+  byDegree.forEach((node) => {
+    if (heads.length >= maxClusters) return;
+    const adjacent = heads.some((head) => neighbors.get(head.id)?.includes(node.id));
+    if (!adjacent) heads.push(node);
+  });
+
+  // Multi-source breadth-first search; earlier heads win ties
+  const headOf = new Map(heads.map((head) => [head.id, head.id]));
+  let frontier = heads.map((head) => head.id);
+  while (frontier.length > 0) {
+    const next: string[] = [];
+    frontier.forEach((nodeId) => {
+      neighbors.get(nodeId)?.forEach((neighborId) => {
+        if (headOf.has(neighborId)) return;
+        headOf.set(neighborId, headOf.get(nodeId)!);
+        next.push(neighborId);
+      });
+    });
+    frontier = next;
+  }
+
+  return heads
+    .map((head) => ({
+      id: head.id,
+      label: head.title,
+      parentId: null,
+      nodeIds: graph.nodes.filter((node) => headOf.get(node.id) === head.id).map((node) => node.id),
+    }))
+    .filter((cluster) => cluster.nodeIds.length > 1);
+}
+
+/**
+ * Get the clusters of a graph
+ *
+ * Uses `metadata.cluster` when any node has one; otherwise computes
+ * clusters for graphs larger than the overview size.
+ *
+ * @example
+ * ```typescript
+ * const clusters = getGraphClusters(graph);
+ * const view = buildClusteredGraph(graph, clusters, []);
+ * ```
+ */
+export function getGraphClusters(graph: { nodes: GraphNode[]; edges: GraphEdge[] }): GraphCluster[] {
+  const fromMetadata = getMetadataClusters(graph.nodes);
+  if (fromMetadata.length > 0) return fromMetadata;
+
+  return graph.nodes.length > MAX_OVERVIEW_NODES ? computeClusters(graph) : [];
+}
+
+/**
+ * Get a cluster and its ancestors, outermost first
+ */
+export function getClusterPath(clusters: GraphCluster[], clusterId: string): string[] {
+  const byId = new Map(clusters.map((cluster) => [cluster.id, cluster]));
+  const path: string[] = [];
+  let cluster = byId.get(clusterId);
+  while (cluster) {
+    path.unshift(cluster.id);
+    cluster = cluster.parentId ? byId.get(cluster.parentId) : undefined;
+  }
+  return path;
+}
+
+/**
+ * Get the path of clusters to expand so a node is visible
+ *
+ * @returns Expanded path ending at the node's innermost cluster
+ */
+export function getNodeClusterPath(clusters: GraphCluster[], nodeId: string): string[] {
+  // Nested clusters come after their parents, so the last match is innermost
+  const innermost = clusters.filter((cluster) => cluster.nodeIds.includes(nodeId)).pop();
+  return innermost ? getClusterPath(clusters, innermost.id) : [];
+}
+
+// ============================================================================
+// View
+// ============================================================================
+
+/**
+ * Build the graph with every cluster off the expanded path collapsed
+ *
+ * @param graph - Full graph
+ * @param clusters - Clusters from getGraphClusters
+ * @param expandedPath - Expanded cluster IDs, outermost first
+ * @returns Visible nodes and edges, and Mermaid code drawing them
+ *
+ * @example
+ * ```typescript
+ * const view = buildClusteredGraph(graph, clusters, ['cluster_a']);
+ * <MermaidGraph mermaidCode={view.mermaidCode} nodes={view.nodes} edges={view.edges} />
+ * ```
+ */
+export function buildClusteredGraph(
+  graph: { nodes: GraphNode[]; edges: GraphEdge[] },
+  clusters: GraphCluster[],
+  expandedPath: string[]
+): ClusteredGraphView {
+  const expanded = new Set(expandedPath);
+  const collapsedClusters: Record<string, GraphCluster> = {};
+  const placeholders = new Map<string, GraphNode>();
+
+  const getPlaceholder = (cluster: GraphCluster) => {
+    let placeholder = placeholders.get(cluster.id);
+    if (!placeholder) {
+      placeholder = {
+        id: `${CLUSTER_NODE_PREFIX}${cluster.id}`,
+        nodeKey: `cluster_${placeholders.size + 1}`,
+        title: `${cluster.label} (+${cluster.nodeIds.length})`,
+        contentSnippet: '',
+        nodeType: CLUSTER_NODE_TYPE,
+        summary: `${cluster.nodeIds.length} concepts`,
+        documentRefs: null,
+        position: { x: null, y: null },
+        metadata: { clusterId: cluster.id, childCount: cluster.nodeIds.length },
+      };
+      placeholders.set(cluster.id, placeholder);
+      collapsedClusters[placeholder.id] = cluster;
+      collapsedClusters[placeholder.nodeKey] = cluster;
+    }
+    return placeholder;
+  };
+
+  // A node is drawn as itself, or as its outermost collapsed cluster
+  const visibleOf = new Map<string, GraphNode>();
+  const drawnIn = new Map<string, string>();
+  graph.nodes.forEach((node) => {
+    let parentId: string | null = null;
+    let shown = node;
+    for (const cluster of clusters) {
+      if (cluster.parentId !== parentId || !cluster.nodeIds.includes(node.id)) continue;
+      if (!expanded.has(cluster.id)) {
+        shown = getPlaceholder(cluster);
+        break;
+      }
+      parentId = cluster.id;
+    }
+    visibleOf.set(node.id, shown);
+    if (parentId) drawnIn.set(shown.id, parentId);
+  });
+
+  const nodes = Array.from(new Set(visibleOf.values()));
+
+  // Edges into collapsed clusters merge into one per pair of visible nodes
+  const merged = new Map<string, GraphEdge[]>();
+  graph.edges.forEach((edge) => {
+    const from = visibleOf.get(edge.from);
+    const to = visibleOf.get(edge.to);
+    if (!from || !to || from === to) return;
+    const key = `${from.id}->${to.id}`;
+    merged.set(key, [...(merged.get(key) ?? []), edge]);
+  });
+  const edges = Array.from(merged.values(), (group): GraphEdge => {
+    const [first] = group;
+    const from = visibleOf.get(first.from)!;
+    const to = visibleOf.get(first.to)!;
+    if (group.length === 1 && from.id === first.from && to.id === first.to) return first;
+
+    return {
+      ...first,
+      id: `${CLUSTER_NODE_PREFIX}${from.id}->${to.id}`,
+      from: from.id,
+      to: to.id,
+      fromNode: { nodeKey: from.nodeKey, title: from.title },
+      toNode: { nodeKey: to.nodeKey, title: to.title },
+      relationship: group.length === 1 ? first.relationship : `${group.length} connections`,
+    };
+  });
+
+  // Each expanded cluster boxes the nodes drawn directly inside it, inside
+  // the box of its parent cluster
+  const subgraphs: MermaidSubgraph[] = expandedPath.flatMap((clusterId) => {
+    const cluster = clusters.find((candidate) => candidate.id === clusterId);
+    if (!cluster) return [];
+    return [
+      {
+        id: cluster.id,
+        label: cluster.label,
+        nodeIds: nodes.filter((node) => drawnIn.get(node.id) === cluster.id).map((node) => node.id),
+        parentId: cluster.parentId,
+      },
+    ];
+  });
+
+  return {
+    nodes,
+    edges,
+    mermaidCode: buildMermaidCode({ nodes, edges }, { subgraphs }),
+    collapsedClusters,
+  };
+}
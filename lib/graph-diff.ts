@@ -0,0 +1,275 @@
+/**
+ * Graph Diff
+ *
+ * Compares two versions of a graph. Regeneration assigns fresh node IDs
+ * (and often fresh Mermaid keys), so nodes are matched by title: identical
+ * titles first, then nodes that kept their `nodeKey` with a similar title,
+ * then the most similar remaining titles. Edges match when their matched
+ * endpoints do. The node and edge matches also carry notes over to the new
+ * version.
+ */
+
+import type { GraphEdge, GraphNode } from '@/types/api.types';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Change to a node or edge, seen from the newer version
+ */
+export type GraphChange = 'added' | 'renamed';
+
+/**
+ * A node or edge present in both versions under a different label
+ */
+export interface RenamedItem<T> {
+  from: T;
+  to: T;
+}
+
+/**
+ * Differences from one graph version to another
+ */
+export interface GraphDiff {
+  addedNodes: GraphNode[];
+  removedNodes: GraphNode[];
+  renamedNodes: RenamedItem<GraphNode>[];
+  addedEdges: GraphEdge[];
+  removedEdges: GraphEdge[];
+  /** Edges between the same concepts with a new relationship label */
+  renamedEdges: RenamedItem<GraphEdge>[];
+  /** Node ID in the previous version -> node ID in the next (unchanged and renamed) */
+  nodeMatches: Record<string, string>;
+  /** Mermaid key in the previous version -> key in the next (notes may be stored under keys) */
+  nodeKeyMatches: Record<string, string>;
+  /** Edge ID in the previous version -> edge ID in the next (unchanged and renamed) */
+  edgeMatches: Record<string, string>;
+}
+
+/**
+ * Changes keyed by ID in the newer version, for overlaying on its render
+ */
+export interface GraphDiffOverlay {
+  nodes: Record<string, GraphChange>;
+  edges: Record<string, GraphChange>;
+}
+
+/** Titles at least this similar match when the node kept its Mermaid key */
+const SAME_KEY_SIMILARITY = 0.5;
+
+/** Titles at least this similar match regardless of key */
+const TITLE_SIMILARITY = 0.7;
+
+// ============================================================================
+// Title Similarity
+// ============================================================================
+
+/**
+ * Lowercase a title and collapse punctuation and whitespace
+ */
+export function normalizeTitle(title: string): string {
+  return title
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+}
+
+/**
+ * Character bigrams of a normalized title, with multiplicity
+ */
+function getBigrams(title: string): Map<string, number> {
+  const text = normalizeTitle(title);
+  const bigrams = new Map<string, number>();
+  for (let i = 0; i < text.length - 1; i++) {
+    const bigram = text.slice(i, i + 2);
+    bigrams.set(bigram, (bigrams.get(bigram) ?? 0) + 1);
+  }
+  return bigrams;
+}
+
+/**
+ * Similarity of two titles (Dice coefficient over character bigrams)
+ *
+ * @returns 1 for identical normalized titles, down to 0 for nothing shared
+ *
+ * @example
+ * ```typescript
+ * titleSimilarity('Retention', 'Long-Term Retention'); // ~0.64
+ * titleSimilarity('Engagement', 'Mastery'); // 0
+ * ```
+ */
+export function titleSimilarity(a: string, b: string): number {
+  if (normalizeTitle(a) === normalizeTitle(b)) return 1;
+
+  const bigramsA = getBigrams(a);
+  const bigramsB = getBigrams(b);
+  let total = 0;
+  let shared = 0;
+
+  bigramsA.forEach((count, bigram) => {
+    total += count;
+    shared += Math.min(count, bigramsB.get(bigram) ?? 0);
+  });
+  bigramsB.forEach((count) => {
+    total += count;
+  });
+
+  return total === 0 ? 0 : (2 * shared) / total;
+}
+
+// ============================================================================
+// Diff
+// ============================================================================
+
+/**
+ * Match nodes of two versions
+ *
+ * @returns Previous node ID -> next node ID
+ */
+function matchNodes(previous: GraphNode[], next: GraphNode[]): Map<string, string> {
+  const matches = new Map<string, string>();
+  const matchedNext = new Set<string>();
+
+  const match = (
+    isMatch: (a: GraphNode, b: GraphNode) => boolean,
+    score: (a: GraphNode, b: GraphNode) => number = () => 0
+  ) => {
+    for (const node of previous) {
+      if (matches.has(node.id)) continue;
+
+      let best: GraphNode | null = null;
+      let bestScore = -Infinity;
+      for (const candidate of next) {
+        if (matchedNext.has(candidate.id) || !isMatch(node, candidate)) continue;
+        const candidateScore = score(node, candidate);
+        if (candidateScore > bestScore) {
+          best = candidate;
+          bestScore = candidateScore;
+        }
+      }
+
+      if (best) {
+        matches.set(node.id, best.id);
+        matchedNext.add(best.id);
+      }
+    }
+  };
+
+  const similarity = (a: GraphNode, b: GraphNode) => titleSimilarity(a.title, b.title);
+
+  // Same title
+  match((a, b) => normalizeTitle(a.title) === normalizeTitle(b.title));
+  // Same Mermaid key, similar title
+  match((a, b) => a.nodeKey === b.nodeKey && similarity(a, b) >= SAME_KEY_SIMILARITY, similarity);
+  // Most similar title
+  match((a, b) => similarity(a, b) >= TITLE_SIMILARITY, similarity);
+
+  return matches;
+}
+
+/**
+ * Compare two versions of a graph
+ *
+ * @param previous - Older version (the base of the comparison)
+ * @param next - Newer version
+ * @returns Added, removed and renamed nodes and edges, plus the matches between versions
+ *
+ * @example
+ * ```typescript
+ * const diff = diffGraphs(versionOne, versionTwo);
+ * diff.renamedNodes; // [{ from: { title: 'Retention' }, to: { title: 'Long-Term Retention' } }]
+ * diff.nodeMatches; // { node_1: 'node_1_v2', ... }
+ * ```
+ */
+export function diffGraphs(
+  previous: { nodes: GraphNode[]; edges: GraphEdge[] },
+  next: { nodes: GraphNode[]; edges: GraphEdge[] }
+): GraphDiff {
+  const nodeMatches = matchNodes(previous.nodes, next.nodes);
+  const matchedNextNodes = new Set(nodeMatches.values());
+  const nextNodesById = new Map(next.nodes.map((node) => [node.id, node]));
+
+  const nodeKeyMatches = previous.nodes.flatMap((node) => {
+    const match = nextNodesById.get(nodeMatches.get(node.id) ?? '');
+    return match ? [[node.nodeKey, match.nodeKey] as const] : [];
+  });
+
+  const renamedNodes = previous.nodes.flatMap((node) => {
+    const match = nextNodesById.get(nodeMatches.get(node.id) ?? '');
+    return match && normalizeTitle(match.title) !== normalizeTitle(node.title)
+      ? [{ from: node, to: match }]
+      : [];
+  });
+
+  // Edges match when both endpoints matched and the direction is the same
+  const edgeMatches = new Map<string, string>();
+  const matchedNextEdges = new Set<string>();
+  previous.edges.forEach((edge) => {
+    const from = nodeMatches.get(edge.from);
+    const to = nodeMatches.get(edge.to);
+    const match = next.edges.find(
+      (candidate) =>
+        !matchedNextEdges.has(candidate.id) && candidate.from === from && candidate.to === to
+    );
+    if (match) {
+      edgeMatches.set(edge.id, match.id);
+      matchedNextEdges.add(match.id);
+    }
+  });
+  const nextEdgesById = new Map(next.edges.map((edge) => [edge.id, edge]));
+
+  const renamedEdges = previous.edges.flatMap((edge) => {
+    const match = nextEdgesById.get(edgeMatches.get(edge.id) ?? '');
+    return match && normalizeTitle(match.relationship) !== normalizeTitle(edge.relationship)
+      ? [{ from: edge, to: match }]
+      : [];
+  });
+
+  return {
+    addedNodes: next.nodes.filter((node) => !matchedNextNodes.has(node.id)),
+    removedNodes: previous.nodes.filter((node) => !nodeMatches.has(node.id)),
+    renamedNodes,
+    addedEdges: next.edges.filter((edge) => !matchedNextEdges.has(edge.id)),
+    removedEdges: previous.edges.filter((edge) => !edgeMatches.has(edge.id)),
+    renamedEdges,
+    nodeMatches: Object.fromEntries(nodeMatches),
+    nodeKeyMatches: Object.fromEntries(nodeKeyMatches),
+    edgeMatches: Object.fromEntries(edgeMatches),
+  };
+}
+
+/**
+ * Whether two versions differ at all
+ */
+export function hasGraphChanges(diff: GraphDiff): boolean {
+  return (
+    diff.addedNodes.length +
+      diff.removedNodes.length +
+      diff.renamedNodes.length +
+      diff.addedEdges.length +
+      diff.removedEdges.length +
+      diff.renamedEdges.length >
+    0
+  );
+}
+
+/**
+ * Changes to mark on the newer version's render
+ *
+ * Removed nodes and edges have nothing to mark there; list them separately.
+ *
+ * @param diff - Diff from diffGraphs
+ * @returns Changes by node and edge ID in the newer version
+ */
+export function getDiffOverlay(diff: GraphDiff): GraphDiffOverlay {
+  const nodes: Record<string, GraphChange> = {};
+  const edges: Record<string, GraphChange> = {};
+
+  diff.addedNodes.forEach((node) => (nodes[node.id] = 'added'));
+  diff.renamedNodes.forEach(({ to }) => (nodes[to.id] = 'renamed'));
+  diff.addedEdges.forEach((edge) => (edges[edge.id] = 'added'));
+  diff.renamedEdges.forEach(({ to }) => (edges[to.id] = 'renamed'));
+
+  return { nodes, edges };
+}
@@ -0,0 +1,352 @@
+/**
+ * Graph Editor
+ *
+ * Local model for edit mode (PRODUCT.md Feature 10). Edits are applied to
+ * a draft copy of the graph's nodes and edges and recorded as operations,
+ * which are sent to the graph mutation endpoints when the draft is saved.
+ * The draft is drawn with buildMermaidCode from lib/mermaid-builder.
+ */
+
+import type {
+  Graph,
+  GraphEdge,
+  GraphEdgeCreateRequest,
+  GraphEdgeUpdateRequest,
+  GraphNode,
+  GraphNodeCreateRequest,
+  GraphNodeUpdateRequest,
+} from '@/types/api.types';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * A pending edit, replayed against the server on save
+ *
+ * Nodes and edges created in the draft have temporary IDs (`temp_node_1`,
+ * `temp_edge_1`) until the server assigns real ones.
+ */
+export type GraphEditOperation =
+  | { type: 'addNode'; nodeId: string; request: GraphNodeCreateRequest }
+  | { type: 'updateNode'; nodeId: string; request: GraphNodeUpdateRequest }
+  | { type: 'deleteNode'; nodeId: string }
+  | { type: 'addEdge'; edgeId: string; request: GraphEdgeCreateRequest }
+  | { type: 'updateEdge'; edgeId: string; request: GraphEdgeUpdateRequest }
+  | { type: 'deleteEdge'; edgeId: string };
+
+/**
+ * Edited copy of a graph with the operations that produced it
+ */
+export interface GraphDraft {
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+  operations: GraphEditOperation[];
+}
+
+/**
+ * Input for a new edge
+ */
+export interface EdgeInput {
+  from: string;
+  to: string;
+  relationship: string;
+  justification: string;
+}
+
+/** Node type of concepts added by the user */
+export const DEFAULT_NODE_TYPE = 'concept';
+
+const TEMP_NODE_PREFIX = 'temp_node_';
+const TEMP_EDGE_PREFIX = 'temp_edge_';
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Whether a node or edge exists only in the draft
+ */
+export function isTempId(id: string): boolean {
+  return id.startsWith(TEMP_NODE_PREFIX) || id.startsWith(TEMP_EDGE_PREFIX);
+}
+
+/**
+ * Next free temporary ID with the given prefix
+ */
+function nextTempId(prefix: string, ids: string[]): string {
+  let next = 1;
+  while (ids.includes(`${prefix}${next}`)) next++;
+  return `${prefix}${next}`;
+}
+
+/**
+ * Next free Mermaid key for a user-created node (`U1`, `U2`, ...)
+ */
+function nextNodeKey(nodes: GraphNode[]): string {
+  const keys = new Set(nodes.map((node) => node.nodeKey));
+  let next = 1;
+  while (keys.has(`U${next}`)) next++;
+  return `U${next}`;
+}
+
+/**
+ * Drop an edge's pending operations
+ */
+function withoutEdgeOperations(
+  operations: GraphEditOperation[],
+  edgeId: string
+): GraphEditOperation[] {
+  return operations.filter((operation) => !('edgeId' in operation && operation.edgeId === edgeId));
+}
+
+// ============================================================================
+// Draft
+// ============================================================================
+
+/**
+ * Start a draft from a graph
+ *
+ * @example
+ * ```typescript
+ * let draft = createDraft(graph);
+ * draft = addNode(draft, { title: 'Metacognition' });
+ * ```
+ */
+export function createDraft(graph: Pick<Graph, 'nodes' | 'edges'>): GraphDraft {
+  return { nodes: graph.nodes, edges: graph.edges, operations: [] };
+}
+
+/**
+ * Whether the draft has unsaved edits
+ */
+export function isDraftDirty(draft: GraphDraft): boolean {
+  return draft.operations.length > 0;
+}
+
+// ============================================================================
+// Nodes
+// ============================================================================
+
+/**
+ * Add a concept to the draft
+ *
+ * @param draft - Current draft
+ * @param request - Title and optional type and summary
+ * @returns Updated draft (the new node is last in `nodes`)
+ */
+export function addNode(draft: GraphDraft, request: GraphNodeCreateRequest): GraphDraft {
+  const title = request.title.trim();
+  if (!title) return draft;
+
+  const node: GraphNode = {
+    id: nextTempId(
+      TEMP_NODE_PREFIX,
+      draft.nodes.map((item) => item.id)
+    ),
+    nodeKey: nextNodeKey(draft.nodes),
+    title,
+    contentSnippet: '',
+    nodeType: request.nodeType ?? DEFAULT_NODE_TYPE,
+    summary: request.summary ?? '',
+    documentRefs: null,
+    position: { x: null, y: null },
+    metadata: { userCreated: true },
+  };
+
+  return {
+    nodes: [...draft.nodes, node],
+    edges: draft.edges,
+    operations: [
+      ...draft.operations,
+      { type: 'addNode', nodeId: node.id, request: { ...request, title } },
+    ],
+  };
+}
+
+/**
+ * Rename a concept (edges pointing at it pick up the new title)
+ *
+ * Renaming a concept added in the same draft updates its pending `addNode`
+ * instead of queueing an update.
+ */
+export function renameNode(draft: GraphDraft, nodeId: string, title: string): GraphDraft {
+  const trimmed = title.trim();
+  const node = draft.nodes.find((item) => item.id === nodeId);
+  if (!node || !trimmed || node.title === trimmed) return draft;
+
+  const rename = <T extends { nodeKey: string; title: string }>(ref: T, id: string): T =>
+    id === nodeId ? { ...ref, title: trimmed } : ref;
+
+  let updated = false;
+  const operations = draft.operations.map((operation) => {
+    if (!('nodeId' in operation) || operation.nodeId !== nodeId) return operation;
+    if (operation.type === 'addNode' || operation.type === 'updateNode') {
+      updated = true;
+      return { ...operation, request: { ...operation.request, title: trimmed } };
+    }
+    return operation;
+  });
+
+  return {
+    nodes: draft.nodes.map((item) => (item.id === nodeId ? { ...item, title: trimmed } : item)),
+    edges: draft.edges.map((edge) =>
+      edge.from === nodeId || edge.to === nodeId
+        ? {
+            ...edge,
+            fromNode: rename(edge.fromNode, edge.from),
+            toNode: rename(edge.toNode, edge.to),
+          }
+        : edge
+    ),
+    operations: updated
+      ? operations
+      : [...operations, { type: 'updateNode', nodeId, request: { title: trimmed } }],
+  };
+}
+
+/**
+ * Delete a concept and its connections
+ *
+ * Concepts added in the same draft are dropped along with their pending
+ * operations, so nothing is sent for them.
+ */
+export function deleteNode(draft: GraphDraft, nodeId: string): GraphDraft {
+  if (!draft.nodes.some((node) => node.id === nodeId)) return draft;
+
+  // Connections go first, so their pending operations are cleaned up too
+  const withoutEdges = draft.edges
+    .filter((edge) => edge.from === nodeId || edge.to === nodeId)
+    .reduce((current, edge) => deleteEdge(current, edge.id), draft);
+
+  const operations = withoutEdges.operations.filter(
+    (operation) => !('nodeId' in operation && operation.nodeId === nodeId)
+  );
+
+  return {
+    nodes: withoutEdges.nodes.filter((node) => node.id !== nodeId),
+    edges: withoutEdges.edges,
+    operations: isTempId(nodeId) ? operations : [...operations, { type: 'deleteNode', nodeId }],
+  };
+}
+
+// ============================================================================
+// Edges
+// ============================================================================
+
+/**
+ * Check a new connection before it is added
+ *
+ * A justification is required, so connections are made deliberately
+ * rather than to tidy up the layout (PRODUCT.md Feature 10).
+ *
+ * @returns Error message, or null when the connection can be added
+ *
+ * @example
+ * ```typescript
+ * const error = validateEdgeInput(draft.edges, input);
+ * if (!error) setDraft(addEdge(draft, input));
+ * ```
+ */
+export function validateEdgeInput(edges: GraphEdge[], input: EdgeInput): string | null {
+  if (!input.from || !input.to) return 'Choose two concepts to connect';
+  if (input.from === input.to) return 'A concept cannot connect to itself';
+  if (!input.relationship.trim()) return 'Describe the relationship';
+  if (!input.justification.trim()) return 'Explain why this connection makes sense';
+  if (edges.some((edge) => edge.from === input.from && edge.to === input.to)) {
+    return 'These concepts are already connected';
+  }
+  return null;
+}
+
+/**
+ * Connect two concepts
+ *
+ * The justification is kept in the edge's metadata. Invalid input (see
+ * {@link validateEdgeInput}) leaves the draft unchanged.
+ *
+ * @returns Updated draft (the new edge is last in `edges`)
+ */
+export function addEdge(draft: GraphDraft, input: EdgeInput): GraphDraft {
+  if (validateEdgeInput(draft.edges, input)) return draft;
+
+  const from = draft.nodes.find((node) => node.id === input.from);
+  const to = draft.nodes.find((node) => node.id === input.to);
+  if (!from || !to) return draft;
+
+  const request: GraphEdgeCreateRequest = {
+    from: from.id,
+    to: to.id,
+    relationship: input.relationship.trim(),
+    justification: input.justification.trim(),
+  };
+
+  const edge: GraphEdge = {
+    id: nextTempId(
+      TEMP_EDGE_PREFIX,
+      draft.edges.map((item) => item.id)
+    ),
+    from: from.id,
+    to: to.id,
+    fromNode: { nodeKey: from.nodeKey, title: from.title },
+    toNode: { nodeKey: to.nodeKey, title: to.title },
+    relationship: request.relationship,
+    aiExplanation: null,
+    strength: null,
+    metadata: { userCreated: true, justification: request.justification },
+  };
+
+  return {
+    nodes: draft.nodes,
+    edges: [...draft.edges, edge],
+    operations: [...draft.operations, { type: 'addEdge', edgeId: edge.id, request }],
+  };
+}
+
+/**
+ * Relabel a connection
+ */
+export function renameEdge(draft: GraphDraft, edgeId: string, relationship: string): GraphDraft {
+  const trimmed = relationship.trim();
+  const edge = draft.edges.find((item) => item.id === edgeId);
+  if (!edge || !trimmed || edge.relationship === trimmed) return draft;
+
+  let updated = false;
+  const operations = draft.operations.map((operation): GraphEditOperation => {
+    if (!('edgeId' in operation) || operation.edgeId !== edgeId) return operation;
+    if (operation.type === 'addEdge') {
+      updated = true;
+      return { ...operation, request: { ...operation.request, relationship: trimmed } };
+    }
+    if (operation.type === 'updateEdge') {
+      updated = true;
+      return { ...operation, request: { relationship: trimmed } };
+    }
+    return operation;
+  });
+
+  return {
+    nodes: draft.nodes,
+    edges: draft.edges.map((item) =>
+      item.id === edgeId ? { ...item, relationship: trimmed } : item
+    ),
+    operations: updated
+      ? operations
+      : [...operations, { type: 'updateEdge', edgeId, request: { relationship: trimmed } }],
+  };
+}
+
+/**
+ * Delete a connection
+ */
+export function deleteEdge(draft: GraphDraft, edgeId: string): GraphDraft {
+  if (!draft.edges.some((edge) => edge.id === edgeId)) return draft;
+
+  const operations = withoutEdgeOperations(draft.operations, edgeId);
+
+  return {
+    nodes: draft.nodes,
+    edges: draft.edges.filter((edge) => edge.id !== edgeId),
+    operations: isTempId(edgeId) ? operations : [...operations, { type: 'deleteEdge', edgeId }],
+  };
+}
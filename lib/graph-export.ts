@@ -0,0 +1,571 @@
+/**
+ * Graph Export Utilities
+ *
+ * Serializes a knowledge graph, its source excerpts and the user's notes
+ * into a Markdown study document, turns the rendered Mermaid SVG into a
+ * standalone SVG/PNG image, and triggers the browser download.
+ */
+
+import { getMermaidTheme } from '@/lib/mermaid-theme';
+
+import type {
+  Graph,
+  GraphEdge,
+  GraphNode,
+  Note,
+  NodeDocumentReference,
+} from '@/types/api.types';
+
+// ============================================================================
+// Topological Ordering
+// ============================================================================
+
+/**
+ * Order nodes so every node comes after the nodes that point to it
+ *
+ * Uses Kahn's algorithm. Ties keep the backend's node order so the export
+ * reads like the graph was generated. Nodes caught in a cycle are appended
+ * in their original order once no acyclic node is left.
+ *
+ * @param nodes - Graph nodes
+ * @param edges - Graph edges (from → to)
+ * @returns Nodes in topological order
+ *
+ * @example
+ * ```typescript
+ * const ordered = sortNodesTopologically(graph.nodes, graph.edges);
+ * ordered.map(n => n.title); // ['Active Learning', 'Engagement', ...]
+ * ```
+ */
+export function sortNodesTopologically(
+  nodes: GraphNode[],
+  edges: GraphEdge[]
+): GraphNode[] {
+  const index = new Map(nodes.map((node, i) => [node.id, i]));
+  const inDegree = new Map(nodes.map((node) => [node.id, 0]));
+  const outgoing = new Map<string, string[]>(nodes.map((node) => [node.id, []]));
+
+  edges.forEach((edge) => {
+    if (!index.has(edge.from) || !index.has(edge.to) || edge.from === edge.to) {
+      return;
+    }
+    outgoing.get(edge.from)!.push(edge.to);
+    inDegree.set(edge.to, inDegree.get(edge.to)! + 1);
+  });
+
+  const byOriginalOrder = (a: string, b: string) => index.get(a)! - index.get(b)!;
+  const ready = nodes
+    .filter((node) => inDegree.get(node.id) === 0)
+    .map((node) => node.id);
+  const visited = new Set<string>();
+  const ordered: string[] = [];
+
+  while (ordered.length < nodes.length) {
+    if (ready.length === 0) {
+      // Cycle: release the earliest unvisited node
+      const next = nodes.find((node) => !visited.has(node.id))!;
+      ready.push(next.id);
+    }
+
+    ready.sort(byOriginalOrder);
+    const id = ready.shift()!;
+    if (visited.has(id)) continue;
+
+    visited.add(id);
+    ordered.push(id);
+
+    outgoing.get(id)!.forEach((target) => {
+      const remaining = inDegree.get(target)! - 1;
+      inDegree.set(target, remaining);
+      if (remaining === 0 && !visited.has(target)) {
+        ready.push(target);
+      }
+    });
+  }
+
+  return ordered.map((id) => nodes[index.get(id)!]);
+}
+
+// ============================================================================
+// Markdown Formatting
+// ============================================================================
+
+/**
+ * Prefix every line of a block with `> `
+ */
+function quote(text: string): string {
+  return text
+    .trim()
+    .split('\n')
+    .map((line) => `> ${line}`.trimEnd())
+    .join('\n');
+}
+
+/**
+ * Indent continuation lines so multi-line text stays inside a list item
+ */
+function listItem(text: string, depth = 0): string {
+  const indent = '  '.repeat(depth);
+  const [first, ...rest] = text.trim().split('\n');
+  return [`${indent}- ${first}`, ...rest.map((line) => `${indent}  ${line}`)].join('\n');
+}
+
+/**
+ * Human-readable (1-indexed) page label for a document reference
+ */
+function formatPages(ref: NodeDocumentReference): string {
+  if ('pages' in ref) {
+    const pages = ref.pages.map((page) => page + 1);
+    return pages.length > 1
+      ? `pp. ${pages[0]}–${pages[pages.length - 1]}`
+      : `p. ${pages[0]}`;
+  }
+  return `p. ${ref.page + 1}`;
+}
+
+/**
+ * Quoted source excerpts for a node (coordinate refs first, legacy fallback)
+ */
+function formatExcerpts(node: GraphNode): string[] {
+  const references = node.documentRefs?.references ?? [];
+  if (references.length > 0) {
+    return references.map(
+      (ref) => `${quote(ref.text)}\n> — ${formatPages(ref)}`
+    );
+  }
+
+  return (node.legacyDocumentRefs ?? []).map((ref) => quote(ref.text));
+}
+
+// ============================================================================
+// Graph → Markdown
+// ============================================================================
+
+/**
+ * Options for Markdown export
+ */
+export interface GraphMarkdownOptions {
+  /** Export timestamp shown in the header (defaults to now) */
+  exportedAt?: Date;
+}
+
+/**
+ * Concept placed in the exported outline
+ */
+interface OutlineEntry {
+  node: GraphNode;
+  /** Outline number, e.g. "2.1" */
+  number: string;
+  /** Nesting depth (0 for root concepts) */
+  depth: number;
+  /** Concept this one is nested under (null for roots) */
+  parentId: string | null;
+}
+
+/**
+ * Arrange nodes as an outline that follows the edges from the root concepts
+ *
+ * Roots are taken in topological order, so source concepts come first and
+ * a cycle with no way in starts at its earliest node. Each node is placed
+ * once, under the first parent that reaches it; other edges into it become
+ * back-references in the export.
+ *
+ * @param nodes - Graph nodes
+ * @param edges - Graph edges (from → to)
+ * @returns Outline entries in document order
+ */
+function buildOutline(nodes: GraphNode[], edges: GraphEdge[]): OutlineEntry[] {
+  const orderedNodes = sortNodesTopologically(nodes, edges);
+  const rank = new Map(orderedNodes.map((node, i) => [node.id, i]));
+  const children = new Map<string, GraphNode[]>(nodes.map((node) => [node.id, []]));
+
+  edges.forEach((edge) => {
+    if (!rank.has(edge.from) || !rank.has(edge.to) || edge.from === edge.to) {
+      return;
+    }
+    const siblings = children.get(edge.from)!;
+    const child = orderedNodes[rank.get(edge.to)!];
+    if (!siblings.includes(child)) {
+      siblings.push(child);
+    }
+  });
+  children.forEach((siblings) => siblings.sort((a, b) => rank.get(a.id)! - rank.get(b.id)!));
+
+  const placed = new Set<string>();
+  const outline: OutlineEntry[] = [];
+
+  const place = (node: GraphNode, number: string, depth: number, parentId: string | null) => {
+    placed.add(node.id);
+    outline.push({ node, number, depth, parentId });
+
+    let childIndex = 0;
+    children.get(node.id)!.forEach((child) => {
+      if (!placed.has(child.id)) {
+        childIndex++;
+        place(child, `${number}.${childIndex}`, depth + 1, node.id);
+      }
+    });
+  };
+
+  let rootIndex = 0;
+  orderedNodes.forEach((node) => {
+    if (!placed.has(node.id)) {
+      rootIndex++;
+      place(node, `${rootIndex}`, 0, null);
+    }
+  });
+
+  return outline;
+}
+
+/**
+ * Build a Markdown study document for a graph
+ *
+ * Concepts are nested under the concepts that point to them, starting from
+ * the roots of the graph; heading levels and outline numbers ("1.2") show
+ * the nesting. A concept reached from several places (or through a cycle)
+ * appears once, and the other connections refer to it by number. Each
+ * concept section contains its summary, quoted source excerpts with page
+ * numbers, the user's notes, and its outgoing connections with the AI
+ * explanation and any edge notes.
+ *
+ * @param graph - Graph to export
+ * @param notes - Notes for the graph (node, edge and graph-level)
+ * @param options - Export options
+ * @returns Markdown document
+ *
+ * @example
+ * ```typescript
+ * const { data: notes = [] } = useNotes(graph.id);
+ * const markdown = graphToMarkdown(graph, notes);
+ * downloadTextFile(markdown, getExportFilename(graph));
+ * ```
+ */
+export function graphToMarkdown(
+  graph: Graph,
+  notes: Note[],
+  options: GraphMarkdownOptions = {}
+): string {
+  const exportedAt = options.exportedAt ?? new Date();
+  const outline = buildOutline(graph.nodes, graph.edges);
+  const nodeTitles = new Map(graph.nodes.map((node) => [node.id, node.title]));
+  const outlineEntries = new Map(outline.map((entry) => [entry.node.id, entry]));
+
+  const notesFor = (predicate: (note: Note) => boolean) =>
+    notes.filter(predicate).map((note) => note.content.trim()).filter(Boolean);
+
+  const sections: string[] = [
+    `# ${graph.document.title}`,
+    quote(
+      `Knowledge graph exported from Graphex on ${exportedAt.toISOString().slice(0, 10)} · ` +
+        `${graph.nodes.length} concepts · ${graph.edges.length} connections`
+    ),
+  ];
+
+  // Graph-level notes
+  const graphNotes = notesFor((note) => !note.nodeId && !note.edgeId);
+  if (graphNotes.length > 0) {
+    sections.push('## Notes', graphNotes.map((note) => listItem(note)).join('\n'));
+  }
+
+  outline.forEach(({ node, number, depth }) => {
+    // Markdown stops at h6; deeper concepts keep their outline number
+    const heading = '#'.repeat(Math.min(depth + 2, 6));
+    sections.push(`${heading} ${number}. ${node.title}`);
+
+    if (node.summary) {
+      sections.push(node.summary.trim());
+    }
+
+    const excerpts = formatExcerpts(node);
+    if (excerpts.length > 0) {
+      sections.push('**Source excerpts**', excerpts.join('\n\n'));
+    }
+
+    // Node notes may be stored under the node's ID or its Mermaid key
+    const nodeNotes = notesFor((note) => note.nodeId === node.id || note.nodeId === node.nodeKey);
+    if (nodeNotes.length > 0) {
+      sections.push('**My notes**', nodeNotes.map((note) => listItem(note)).join('\n'));
+    }
+
+    const connections = graph.edges
+      .filter((edge) => edge.from === node.id)
+      .map((edge) => {
+        const target = nodeTitles.get(edge.to) ?? edge.toNode.title;
+        const targetEntry = outlineEntries.get(edge.to);
+        // Concepts nested right below this one need no reference
+        const reference =
+          targetEntry && targetEntry.parentId !== node.id ? ` (see ${targetEntry.number})` : '';
+        const lines = [listItem(`*${edge.relationship}* → **${target}**${reference}`)];
+        if (edge.aiExplanation) {
+          lines.push(listItem(edge.aiExplanation, 1));
+        }
+        notesFor((note) => note.edgeId === edge.id).forEach((note) => {
+          lines.push(listItem(`Note: ${note}`, 1));
+        });
+        return lines.join('\n');
+      });
+    if (connections.length > 0) {
+      sections.push('**Connections**', connections.join('\n'));
+    }
+  });
+
+  return `${sections.join('\n\n')}\n`;
+}
+
+// ============================================================================
+// SVG / PNG Export
+// ============================================================================
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+
+/**
+ * Options for standalone SVG export
+ */
+export interface GraphSvgExportOptions {
+  /** Space around the graph content in px (default 24) */
+  padding?: number;
+  /** Background fill; `null` for transparent (defaults to the canvas color) */
+  background?: string | null;
+}
+
+/**
+ * Read a font file as a data URL so the exported file has no external refs
+ */
+async function fetchAsDataUrl(url: string): Promise<string> {
+  const response = await fetch(url);
+  const blob = await response.blob();
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+/**
+ * Check for @font-face without relying on the CSSFontFaceRule global
+ */
+function isFontFaceRule(rule: CSSRule): rule is CSSFontFaceRule {
+  return rule.cssText.startsWith('@font-face');
+}
+
+/**
+ * Collect @font-face rules for the theme font with their files inlined
+ *
+ * next/font registers Inter under a hashed family name (e.g. `__Inter_abc`),
+ * so matching rules are renamed to the family the Mermaid theme asks for.
+ */
+async function getInlinedFontFaces(fontFamily: string): Promise<string> {
+  const family = fontFamily.split(',')[0].trim().replace(/['"]/g, '');
+  const rules: CSSFontFaceRule[] = [];
+
+  Array.from(document.styleSheets).forEach((sheet) => {
+    try {
+      Array.from(sheet.cssRules).forEach((rule) => {
+        if (
+          isFontFaceRule(rule) &&
+          rule.style.getPropertyValue('font-family').toLowerCase().includes(family.toLowerCase())
+        ) {
+          rules.push(rule);
+        }
+      });
+    } catch {
+      // Cross-origin stylesheets cannot be read - skip them
+    }
+  });
+
+  const faces = await Promise.all(
+    rules.map(async (rule) => {
+      let css = rule.cssText.replace(
+        /font-family:\s*[^;]+;/,
+        `font-family: "${family}";`
+      );
+      const urls = Array.from(css.matchAll(/url\(["']?([^"')]+)["']?\)/g)).map(
+        (match) => match[1]
+      );
+      for (const url of urls) {
+        if (url.startsWith('data:')) continue;
+        try {
+          css = css.replace(url, await fetchAsDataUrl(url));
+        } catch (error) {
+          console.warn('[graph-export] Could not inline font:', url, error);
+        }
+      }
+      return css;
+    })
+  );
+
+  return faces.join('\n');
+}
+
+/**
+ * Serialize the rendered graph into a standalone SVG document
+ *
+ * The clone keeps everything applied to the live graph - node state colors
+ * from applyNodeStyles, the `#activeGlow` filter defs and Mermaid's scoped
+ * <style> - but drops the zoom/pan transform and sizes the canvas to the
+ * content. Theme fonts and the global edge-label color override are inlined
+ * so the file renders the same outside the app.
+ *
+ * @param svgElement - SVG rendered by MermaidGraph
+ * @param options - Export options
+ * @returns SVG markup
+ *
+ * @example
+ * ```typescript
+ * const markup = await serializeGraphSvg(svgRef.current);
+ * downloadTextFile(markup, 'graph.svg', 'image/svg+xml');
+ * ```
+ */
+export async function serializeGraphSvg(
+  svgElement: SVGSVGElement,
+  options: GraphSvgExportOptions = {}
+): Promise<string> {
+  const theme = getMermaidTheme();
+  const themeVariables = theme.themeVariables as Record<string, string>;
+  const padding = options.padding ?? 24;
+  const background =
+    options.background === undefined ? themeVariables.background : options.background;
+  const fontFamily = themeVariables.fontFamily;
+
+  // Content bounds in the untransformed coordinate space of the graph group
+  const contentGroup = svgElement.querySelector('g');
+  const bbox = (contentGroup ?? svgElement).getBBox();
+  const x = bbox.x - padding;
+  const y = bbox.y - padding;
+  const width = Math.ceil(bbox.width + padding * 2);
+  const height = Math.ceil(bbox.height + padding * 2);
+
+  const clone = svgElement.cloneNode(true) as SVGSVGElement;
+  clone.querySelector('g')?.removeAttribute('transform');
+  clone.removeAttribute('style');
+  clone.setAttribute('xmlns', SVG_NS);
+  clone.setAttribute('xmlns:xlink', 'http://www.w3.org/1999/xlink');
+  clone.setAttribute('viewBox', `${x} ${y} ${width} ${height}`);
+  clone.setAttribute('width', String(width));
+  clone.setAttribute('height', String(height));
+
+  // Styles that live outside the SVG in the app
+  const style = document.createElementNS(SVG_NS, 'style');
+  style.textContent = [
+    await getInlinedFontFaces(fontFamily),
+    `svg { font-family: ${fontFamily}; }`,
+    `.edgeLabel, .edgeLabel text, .edgeLabel span, .edgeLabel .label, foreignObject .label {` +
+      ` fill: ${themeVariables.labelTextColor}; color: ${themeVariables.labelTextColor}; }`,
+  ].join('\n');
+  clone.insertBefore(style, clone.firstChild);
+
+  if (background) {
+    const rect = document.createElementNS(SVG_NS, 'rect');
+    rect.setAttribute('x', String(x));
+    rect.setAttribute('y', String(y));
+    rect.setAttribute('width', String(width));
+    rect.setAttribute('height', String(height));
+    rect.setAttribute('fill', background);
+    clone.insertBefore(rect, style.nextSibling);
+  }
+
+  const markup = new XMLSerializer().serializeToString(clone);
+  return `<?xml version="1.0" encoding="UTF-8"?>\n${markup}`;
+}
+
+/**
+ * Rasterize standalone SVG markup to a PNG
+ *
+ * Loaded through a data URL (not a blob URL) so browsers don't taint the
+ * canvas because of Mermaid's foreignObject labels.
+ *
+ * @param markup - SVG markup with width/height attributes
+ * @param scale - Pixel density multiplier (2 = retina, 4 = print)
+ * @returns PNG blob
+ */
+export function svgToPng(markup: string, scale = 2): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+
+    image.onload = () => {
+      // A tainted canvas (e.g. Safari with foreignObject labels) throws here
+      try {
+        const canvas = document.createElement('canvas');
+        canvas.width = Math.ceil(image.naturalWidth * scale);
+        canvas.height = Math.ceil(image.naturalHeight * scale);
+
+        const context = canvas.getContext('2d');
+        if (!context) {
+          reject(new Error('Canvas 2D context is not available'));
+          return;
+        }
+
+        context.scale(scale, scale);
+        context.drawImage(image, 0, 0);
+        canvas.toBlob((blob) => {
+          if (blob) {
+            resolve(blob);
+          } else {
+            reject(new Error('Failed to encode PNG'));
+          }
+        }, 'image/png');
+      } catch (error) {
+        reject(error);
+      }
+    };
+
+    image.onerror = () => reject(new Error('Failed to load SVG for PNG export'));
+    image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(markup)}`;
+  });
+}
+
+// ============================================================================
+// Download
+// ============================================================================
+
+/**
+ * Build a filesystem-safe filename for a graph export
+ *
+ * @param graph - Graph being exported
+ * @param extension - File extension without the dot (defaults to `md`)
+ * @returns Filename such as `active-learning-graph.md`
+ */
+export function getExportFilename(graph: Graph, extension = 'md'): string {
+  const slug = graph.document.title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60);
+  return `${slug || graph.id}-graph.${extension}`;
+}
+
+/**
+ * Download text content as a file
+ *
+ * @param content - File content
+ * @param filename - Suggested filename
+ * @param mimeType - MIME type (defaults to Markdown)
+ */
+export function downloadTextFile(
+  content: string,
+  filename: string,
+  mimeType = 'text/markdown;charset=utf-8'
+): void {
+  downloadBlob(new Blob([content], { type: mimeType }), filename);
+}
+
+/**
+ * Download a Blob as a file via a temporary object URL
+ *
+ * @param blob - File data
+ * @param filename - Suggested filename
+ */
+export function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+
+  // Revoke after the click has been handled
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
@@ -0,0 +1,225 @@
+/**
+ * Graph Filter Utilities
+ *
+ * Filter model for the interactive legend: which node types, node states
+ * (has notes, mastered, needs review) and edge types to focus on, and
+ * whether non-matching nodes and edges are dimmed or hidden. The filter round-trips through URL query
+ * params so a filtered view can be reloaded or shared.
+ */
+
+import { getEdgeType, isEdgeType, type EdgeType } from './edge-types';
+import type { NodeState } from './graph-utils';
+import type { GraphEdge, GraphNode } from '@/types/api.types';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Node states that can be filtered on
+ */
+export type NodeStateFilter = 'hasNotes' | 'mastered' | 'needsReview';
+
+/**
+ * How non-matching nodes are shown
+ */
+export type GraphFilterMode = 'dim' | 'hide';
+
+/**
+ * Legend filter selection
+ *
+ * Empty lists mean "no restriction". A node matches when its type is one of
+ * `nodeTypes` and it has at least one of `nodeStates`; an edge matches when
+ * its relationship category is one of `edgeTypes`.
+ */
+export interface GraphFilter {
+  nodeTypes: string[];
+  nodeStates: NodeStateFilter[];
+  edgeTypes: EdgeType[];
+  mode: GraphFilterMode;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const EMPTY_GRAPH_FILTER: GraphFilter = {
+  nodeTypes: [],
+  nodeStates: [],
+  edgeTypes: [],
+  mode: 'dim',
+};
+
+/** URL query params used to persist the filter */
+export const GRAPH_FILTER_PARAMS = {
+  nodeTypes: 'types',
+  nodeStates: 'states',
+  edgeTypes: 'edges',
+  mode: 'filterMode',
+} as const;
+
+const NODE_STATE_FILTERS: NodeStateFilter[] = ['hasNotes', 'mastered', 'needsReview'];
+
+/** Maps a state filter to the NodeState flag it checks */
+const STATE_FLAGS: Record<NodeStateFilter, keyof NodeState> = {
+  hasNotes: 'hasNotes',
+  mastered: 'isMastered',
+  needsReview: 'needsReview',
+};
+
+// ============================================================================
+// Matching
+// ============================================================================
+
+/**
+ * Check whether any filter is applied
+ */
+export function isGraphFilterActive(filter: GraphFilter): boolean {
+  return isNodeFilterActive(filter) || filter.edgeTypes.length > 0;
+}
+
+/**
+ * Check whether the filter restricts nodes
+ */
+function isNodeFilterActive(filter: GraphFilter): boolean {
+  return filter.nodeTypes.length > 0 || filter.nodeStates.length > 0;
+}
+
+/**
+ * Add a value to a filter list, or remove it if present
+ */
+export function toggleFilterValue<T>(values: T[], value: T): T[] {
+  return values.includes(value) ? values.filter((v) => v !== value) : [...values, value];
+}
+
+/**
+ * Get the IDs of nodes that match the filter
+ *
+ * Node states are looked up by Mermaid node key first (the key the SVG and
+ * applyNodeStyles use), then by node ID.
+ *
+ * @param nodes - Graph nodes
+ * @param nodeStates - Node states keyed by node key or ID
+ * @param filter - Legend filter
+ * @returns IDs of matching nodes, or null when no node filter is active
+ *
+ * @example
+ * ```typescript
+ * const visible = getFilteredNodeIds(graph.nodes, nodeStates, {
+ *   nodeTypes: [],
+ *   nodeStates: ['needsReview'],
+ *   mode: 'dim',
+ * });
+ * ```
+ */
+export function getFilteredNodeIds(
+  nodes: GraphNode[],
+  nodeStates: Record<string, NodeState>,
+  filter: GraphFilter
+): Set<string> | null {
+  if (!isNodeFilterActive(filter)) return null;
+
+  const matching = nodes.filter((node) => {
+    if (filter.nodeTypes.length > 0 && !filter.nodeTypes.includes(node.nodeType)) {
+      return false;
+    }
+
+    if (filter.nodeStates.length > 0) {
+      const state = nodeStates[node.nodeKey] ?? nodeStates[node.id] ?? {};
+      return filter.nodeStates.some((stateFilter) => !!state[STATE_FLAGS[stateFilter]]);
+    }
+
+    return true;
+  });
+
+  return new Set(matching.map((node) => node.id));
+}
+
+/**
+ * Get the IDs of edges whose relationship category matches the filter
+ *
+ * @param edges - Graph edges
+ * @param filter - Legend filter
+ * @returns IDs of matching edges, or null when no edge filter is active
+ *
+ * @example
+ * ```typescript
+ * const visible = getFilteredEdgeIds(graph.edges, { ...EMPTY_GRAPH_FILTER, edgeTypes: ['causal'] });
+ * ```
+ */
+export function getFilteredEdgeIds(edges: GraphEdge[], filter: GraphFilter): Set<string> | null {
+  if (filter.edgeTypes.length === 0) return null;
+
+  return new Set(
+    edges.filter((edge) => filter.edgeTypes.includes(getEdgeType(edge))).map((edge) => edge.id)
+  );
+}
+
+// ============================================================================
+// URL Persistence
+// ============================================================================
+
+/**
+ * Read the filter from URL query params
+ *
+ * Unknown states, edge types and modes are ignored so a stale or hand-edited URL
+ * never breaks the page.
+ *
+ * @param params - Current search params
+ * @returns Parsed filter
+ */
+export function parseGraphFilter(params: Pick<URLSearchParams, 'get'>): GraphFilter {
+  const readList = (key: string) =>
+    (params.get(key) ?? '')
+      .split(',')
+      .map((value) => value.trim())
+      .filter(Boolean);
+
+  const mode = params.get(GRAPH_FILTER_PARAMS.mode);
+
+  return {
+    nodeTypes: readList(GRAPH_FILTER_PARAMS.nodeTypes),
+    nodeStates: readList(GRAPH_FILTER_PARAMS.nodeStates).filter(
+      (value): value is NodeStateFilter => NODE_STATE_FILTERS.includes(value as NodeStateFilter)
+    ),
+    edgeTypes: readList(GRAPH_FILTER_PARAMS.edgeTypes).filter(isEdgeType),
+    mode: mode === 'hide' ? 'hide' : 'dim',
+  };
+}
+
+/**
+ * Write the filter into URL query params
+ *
+ * Other params are preserved; empty lists and the default mode are removed
+ * to keep URLs short.
+ *
+ * @param params - Current search params
+ * @param filter - Filter to persist
+ * @returns New search params
+ */
+export function writeGraphFilter(
+  params: Pick<URLSearchParams, 'toString'>,
+  filter: GraphFilter
+): URLSearchParams {
+  const next = new URLSearchParams(params.toString());
+
+  const writeList = (key: string, values: string[]) => {
+    if (values.length > 0) {
+      next.set(key, values.join(','));
+    } else {
+      next.delete(key);
+    }
+  };
+
+  writeList(GRAPH_FILTER_PARAMS.nodeTypes, filter.nodeTypes);
+  writeList(GRAPH_FILTER_PARAMS.nodeStates, filter.nodeStates);
+  writeList(GRAPH_FILTER_PARAMS.edgeTypes, filter.edgeTypes);
+
+  if (filter.mode !== EMPTY_GRAPH_FILTER.mode) {
+    next.set(GRAPH_FILTER_PARAMS.mode, filter.mode);
+  } else {
+    next.delete(GRAPH_FILTER_PARAMS.mode);
+  }
+
+  return next;
+}
@@ -0,0 +1,145 @@
+/**
+ * Graph Minimap Utilities
+ *
+ * Geometry for the minimap overview: which part of the graph the main view
+ * shows at a given zoom/pan transform, how the graph is scaled into the
+ * minimap, and the transform that centers the view on a point picked in
+ * the minimap. Graph coordinates are those of the rendered SVG's root
+ * group, before the view transform.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Zoom/pan transform of the main view (graph to screen)
+ */
+export interface GraphTransform {
+  scale: number;
+  translateX: number;
+  translateY: number;
+}
+
+/**
+ * Rectangle in graph or minimap coordinates
+ */
+export interface GraphRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * State of the main view reported to the minimap
+ */
+export interface GraphViewport {
+  /** Rendered graph, cloned into the minimap */
+  svgElement: SVGSVGElement;
+  /** Bounds of the graph content */
+  bounds: GraphRect;
+  /** Current zoom/pan transform */
+  transform: GraphTransform;
+  /** Size of the main view in pixels */
+  width: number;
+  height: number;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Graphs with at least this many nodes get a minimap */
+export const MINIMAP_MIN_NODES = 20;
+
+/** Largest minimap size in pixels */
+export const MINIMAP_MAX_SIZE = { width: 192, height: 144 };
+
+// ============================================================================
+// Geometry
+// ============================================================================
+
+/**
+ * Get the part of the graph visible in the main view
+ *
+ * @param transform - Current zoom/pan transform
+ * @param size - Size of the main view in pixels
+ * @returns Visible region in graph coordinates
+ *
+ * @example
+ * ```typescript
+ * getVisibleRegion({ scale: 2, translateX: -100, translateY: -60 }, { width: 800, height: 600 });
+ * // { x: 50, y: 30, width: 400, height: 300 }
+ * ```
+ */
+export function getVisibleRegion(
+  transform: GraphTransform,
+  size: { width: number; height: number }
+): GraphRect {
+  return {
+    x: -transform.translateX / transform.scale,
+    y: -transform.translateY / transform.scale,
+    width: size.width / transform.scale,
+    height: size.height / transform.scale,
+  };
+}
+
+/**
+ * Get the transform that centers the main view on a graph point
+ *
+ * Keeps the current zoom level.
+ *
+ * @param transform - Current zoom/pan transform
+ * @param point - Point to center, in graph coordinates
+ * @param size - Size of the main view in pixels
+ * @returns New transform
+ */
+export function getCenteredTransform(
+  transform: GraphTransform,
+  point: { x: number; y: number },
+  size: { width: number; height: number }
+): GraphTransform {
+  return {
+    scale: transform.scale,
+    translateX: size.width / 2 - point.x * transform.scale,
+    translateY: size.height / 2 - point.y * transform.scale,
+  };
+}
+
+/**
+ * Get the minimap size and scale for a graph
+ *
+ * The graph is scaled to fit `maxSize` keeping its aspect ratio, so the
+ * minimap has no empty margins.
+ *
+ * @param bounds - Bounds of the graph content
+ * @param maxSize - Largest minimap size in pixels
+ * @returns Minimap pixels per graph unit and minimap size
+ */
+export function getMinimapLayout(
+  bounds: GraphRect,
+  maxSize: { width: number; height: number } = MINIMAP_MAX_SIZE
+): { scale: number; width: number; height: number } {
+  if (bounds.width <= 0 || bounds.height <= 0) {
+    return { scale: 1, width: maxSize.width, height: maxSize.height };
+  }
+
+  const scale = Math.min(maxSize.width / bounds.width, maxSize.height / bounds.height);
+  return { scale, width: bounds.width * scale, height: bounds.height * scale };
+}
+
+/**
+ * Convert a point in the minimap to graph coordinates
+ *
+ * @param point - Offset from the minimap's top-left corner, in pixels
+ * @param bounds - Bounds of the graph content
+ * @param scale - Minimap pixels per graph unit (from getMinimapLayout)
+ */
+export function minimapToGraphPoint(
+  point: { x: number; y: number },
+  bounds: GraphRect,
+  scale: number
+): { x: number; y: number } {
+  return { x: bounds.x + point.x / scale, y: bounds.y + point.y / scale };
+}
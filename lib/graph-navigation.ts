@@ -0,0 +1,145 @@
+/**
+ * Graph Keyboard Navigation
+ *
+ * Pure helpers for moving through the graph without a mouse. Movement
+ * follows the graph's edges rather than screen position: down goes to a
+ * child (edge target), up to a parent (edge source), left/right between
+ * siblings that share a parent. Tab order is topological.
+ */
+
+import { sortNodesTopologically } from './graph-export';
+import type { GraphEdge, GraphNode } from '@/types/api.types';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Arrow-key direction
+ */
+export type NavigationDirection = 'up' | 'down' | 'left' | 'right';
+
+/**
+ * Shortcut entry for the on-screen cheat sheet
+ */
+export interface KeyboardShortcut {
+  keys: string[];
+  description: string;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * Map arrow keys to navigation directions
+ */
+export const ARROW_KEY_DIRECTIONS: Record<string, NavigationDirection> = {
+  ArrowUp: 'up',
+  ArrowDown: 'down',
+  ArrowLeft: 'left',
+  ArrowRight: 'right',
+};
+
+/**
+ * Shortcuts available on the graph canvas
+ */
+export const GRAPH_KEYBOARD_SHORTCUTS: KeyboardShortcut[] = [
+  { keys: ['Tab'], description: 'Next concept' },
+  { keys: ['↓', '↑'], description: 'Child / parent' },
+  { keys: ['←', '→'], description: 'Previous / next sibling' },
+  { keys: ['Enter'], description: 'Open concept' },
+  { keys: ['e'], description: 'Next connection' },
+  { keys: ['n'], description: 'Write a note' },
+  { keys: ['+', '-'], description: 'Zoom in / out' },
+  { keys: ['0'], description: 'Fit to screen' },
+  { keys: ['?'], description: 'Show shortcuts' },
+];
+
+// ============================================================================
+// Traversal
+// ============================================================================
+
+/**
+ * Remove duplicates, keeping first occurrence
+ */
+function unique(ids: string[]): string[] {
+  return Array.from(new Set(ids));
+}
+
+/**
+ * Get node IDs in keyboard Tab order
+ *
+ * @param nodes - Graph nodes
+ * @param edges - Graph edges
+ * @returns Node IDs, sources before targets
+ */
+export function getTabOrder(nodes: GraphNode[], edges: GraphEdge[]): string[] {
+  return sortNodesTopologically(nodes, edges).map((node) => node.id);
+}
+
+/**
+ * Get the node to move to from an arrow key
+ *
+ * @param nodeId - Currently focused node ID
+ * @param direction - Arrow direction
+ * @param nodes - Graph nodes
+ * @param edges - Graph edges
+ * @returns Target node ID, or null if there is nothing in that direction
+ *
+ * @example
+ * ```typescript
+ * // A --> B, A --> C
+ * getNeighbor('A', 'down', nodes, edges);  // 'B'
+ * getNeighbor('B', 'right', nodes, edges); // 'C'
+ * getNeighbor('C', 'up', nodes, edges);    // 'A'
+ * ```
+ */
+export function getNeighbor(
+  nodeId: string,
+  direction: NavigationDirection,
+  nodes: GraphNode[],
+  edges: GraphEdge[]
+): string | null {
+  const nodeIds = new Set(nodes.map((node) => node.id));
+  const children = unique(
+    edges.filter((edge) => edge.from === nodeId && nodeIds.has(edge.to)).map((edge) => edge.to)
+  );
+  const parents = unique(
+    edges.filter((edge) => edge.to === nodeId && nodeIds.has(edge.from)).map((edge) => edge.from)
+  );
+
+  if (direction === 'down') return children[0] ?? null;
+  if (direction === 'up') return parents[0] ?? null;
+
+  // Siblings share the first parent; parentless nodes are siblings of each other
+  const tabOrder = getTabOrder(nodes, edges);
+  const siblings =
+    parents.length > 0
+      ? unique(edges.filter((edge) => edge.from === parents[0]).map((edge) => edge.to))
+      : tabOrder.filter((id) => !edges.some((edge) => edge.to === id && nodeIds.has(edge.from)));
+
+  const index = siblings.indexOf(nodeId);
+  const target = direction === 'right' ? siblings[index + 1] : siblings[index - 1];
+  return target ?? null;
+}
+
+/**
+ * Get the next outgoing edge of a node, wrapping around
+ *
+ * @param nodeId - Focused node ID
+ * @param edges - Graph edges
+ * @param currentEdgeId - Edge chosen on the previous press, if any
+ * @returns Next outgoing edge, or null if the node has none
+ */
+export function getNextOutgoingEdge(
+  nodeId: string,
+  edges: GraphEdge[],
+  currentEdgeId: string | null
+): GraphEdge | null {
+  const outgoing = edges.filter((edge) => edge.from === nodeId);
+  if (outgoing.length === 0) return null;
+
+  const index = outgoing.findIndex((edge) => edge.id === currentEdgeId);
+  return outgoing[(index + 1) % outgoing.length];
+}
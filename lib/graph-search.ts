@@ -0,0 +1,317 @@
+/**
+ * Graph Search Utilities
+ *
+ * Ranks graph nodes against a search query. Titles are matched fuzzily
+ * (characters in order, with bonuses for word starts and runs) so short
+ * abbreviations like "actlrn" find "Active Learning"; longer text - summaries,
+ * content snippets and the user's notes - is matched word by word.
+ */
+
+import type { GraphNode, Note } from '@/types/api.types';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Node field a search result matched in
+ */
+export type GraphSearchField = 'title' | 'summary' | 'contentSnippet' | 'note';
+
+/**
+ * Matched character ranges within a piece of text
+ */
+export interface TextMatch {
+  /** Relevance score (higher is better) */
+  score: number;
+  /** Matched [start, end) ranges, sorted and non-overlapping */
+  ranges: Array<[number, number]>;
+}
+
+/**
+ * A ranked search hit
+ */
+export interface GraphSearchResult {
+  node: GraphNode;
+  score: number;
+  /** Field the best match was found in */
+  field: GraphSearchField;
+  /** Text to display for the match (the title, or an excerpt of the field) */
+  text: string;
+  /** Matched ranges within `text` */
+  ranges: Array<[number, number]>;
+}
+
+/**
+ * A piece of text split by match ranges for highlighting
+ */
+export interface HighlightSegment {
+  text: string;
+  isMatch: boolean;
+}
+
+/**
+ * Options for searchGraphNodes
+ */
+export interface GraphSearchOptions {
+  /** Maximum number of results (default 8) */
+  limit?: number;
+  /** Characters of context around an excerpt match (default 40) */
+  excerptContext?: number;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Weight per field - a title hit outranks the same hit in a note */
+const FIELD_WEIGHTS: Record<GraphSearchField, number> = {
+  title: 1,
+  summary: 0.6,
+  contentSnippet: 0.5,
+  note: 0.5,
+};
+
+// ============================================================================
+// Matching
+// ============================================================================
+
+/**
+ * Merge overlapping or adjacent ranges
+ */
+function mergeRanges(ranges: Array<[number, number]>): Array<[number, number]> {
+  const sorted = [...ranges].sort((a, b) => a[0] - b[0]);
+  const merged: Array<[number, number]> = [];
+
+  sorted.forEach(([start, end]) => {
+    const last = merged[merged.length - 1];
+    if (last && start <= last[1]) {
+      last[1] = Math.max(last[1], end);
+    } else {
+      merged.push([start, end]);
+    }
+  });
+
+  return merged;
+}
+
+/**
+ * Fuzzy-match a query against short text
+ *
+ * Every query character must appear in order. Contiguous runs, word starts
+ * and an exact substring score higher; gaps score lower.
+ *
+ * @param query - Search query
+ * @param text - Text to match against
+ * @returns Match with score and ranges, or null if the query doesn't match
+ *
+ * @example
+ * ```typescript
+ * fuzzyMatch('actlrn', 'Active Learning');
+ * // { score: ..., ranges: [[0, 3], [7, 8], [10, 12]] }
+ * ```
+ */
+export function fuzzyMatch(query: string, text: string): TextMatch | null {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return null;
+
+  const haystack = text.toLowerCase();
+
+  // Exact substring - best possible match
+  const substringIndex = haystack.indexOf(needle);
+  if (substringIndex !== -1) {
+    const atWordStart = substringIndex === 0 || /\W/.test(haystack[substringIndex - 1]);
+    return {
+      score: needle.length * 3 + (atWordStart ? 5 : 0) + (substringIndex === 0 ? 5 : 0),
+      ranges: [[substringIndex, substringIndex + needle.length]],
+    };
+  }
+
+  const ranges: Array<[number, number]> = [];
+  let score = 0;
+  let textIndex = 0;
+  let previousMatch = -2;
+
+  for (const char of needle) {
+    if (char === ' ') continue;
+
+    const found = haystack.indexOf(char, textIndex);
+    if (found === -1) return null;
+
+    if (found === previousMatch + 1) {
+      score += 2; // Continues a run
+      ranges[ranges.length - 1][1] = found + 1;
+    } else {
+      score += found === 0 || /\W/.test(haystack[found - 1]) ? 2 : 0.5;
+      score -= Math.min(found - textIndex, 5) * 0.1;
+      ranges.push([found, found + 1]);
+    }
+
+    previousMatch = found;
+    textIndex = found + 1;
+  }
+
+  return { score, ranges };
+}
+
+/**
+ * Full-text match a query against longer text
+ *
+ * Every query word must occur in the text (as a substring, so "learn"
+ * matches "learning").
+ *
+ * @param query - Search query
+ * @param text - Text to match against
+ * @returns Match with score and ranges, or null if a word is missing
+ */
+export function fullTextMatch(query: string, text: string): TextMatch | null {
+  const words = query.trim().toLowerCase().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return null;
+
+  const haystack = text.toLowerCase();
+  const ranges: Array<[number, number]> = [];
+  let score = 0;
+
+  for (const word of words) {
+    const found = haystack.indexOf(word);
+    if (found === -1) return null;
+
+    const atWordStart = found === 0 || /\W/.test(haystack[found - 1]);
+    score += word.length * (atWordStart ? 2 : 1);
+
+    // Highlight every occurrence, score the first
+    let index = found;
+    while (index !== -1) {
+      ranges.push([index, index + word.length]);
+      index = haystack.indexOf(word, index + word.length);
+    }
+  }
+
+  return { score, ranges: mergeRanges(ranges) };
+}
+
+/**
+ * Cut an excerpt around the first match, shifting ranges to match
+ */
+function excerptAround(
+  text: string,
+  match: TextMatch,
+  context: number
+): { text: string; ranges: Array<[number, number]> } {
+  const [firstStart] = match.ranges[0];
+  const start = Math.max(0, firstStart - context);
+  const end = Math.min(text.length, firstStart + context * 2);
+  const prefix = start > 0 ? '…' : '';
+  const suffix = end < text.length ? '…' : '';
+  const offset = prefix.length - start;
+
+  return {
+    text: `${prefix}${text.slice(start, end)}${suffix}`,
+    ranges: match.ranges
+      .filter(([rangeStart, rangeEnd]) => rangeStart >= start && rangeEnd <= end)
+      .map(([rangeStart, rangeEnd]) => [rangeStart + offset, rangeEnd + offset]),
+  };
+}
+
+// ============================================================================
+// Search
+// ============================================================================
+
+/**
+ * Search graph nodes by title, summary, content snippet and attached notes
+ *
+ * Each node is ranked by its best-scoring field.
+ *
+ * @param nodes - Graph nodes
+ * @param notes - User notes (node notes are searched with their node)
+ * @param query - Search query
+ * @param options - Search options
+ * @returns Results sorted by relevance
+ *
+ * @example
+ * ```typescript
+ * const results = searchGraphNodes(graph.nodes, notes, 'retention');
+ * results[0].node.title; // "Retention"
+ * ```
+ */
+export function searchGraphNodes(
+  nodes: GraphNode[],
+  notes: Note[],
+  query: string,
+  options: GraphSearchOptions = {}
+): GraphSearchResult[] {
+  const { limit = 8, excerptContext = 40 } = options;
+  if (!query.trim()) return [];
+
+  // Node notes may be stored under the node's ID or its Mermaid key
+  const nodeIdByRef = new Map<string, string>();
+  nodes.forEach((node) => {
+    nodeIdByRef.set(node.nodeKey, node.id);
+    nodeIdByRef.set(node.id, node.id);
+  });
+
+  const notesByNode = new Map<string, Note[]>();
+  notes.forEach((note) => {
+    const nodeId = note.nodeId ? nodeIdByRef.get(note.nodeId) : undefined;
+    if (!nodeId) return;
+    notesByNode.set(nodeId, [...(notesByNode.get(nodeId) ?? []), note]);
+  });
+
+  const results: GraphSearchResult[] = [];
+
+  nodes.forEach((node) => {
+    let best = null as GraphSearchResult | null;
+
+    const consider = (field: GraphSearchField, text: string | null | undefined) => {
+      if (!text) return;
+
+      const match = field === 'title' ? fuzzyMatch(query, text) : fullTextMatch(query, text);
+      if (!match) return;
+
+      const score = match.score * FIELD_WEIGHTS[field];
+      if (best && best.score >= score) return;
+
+      const display =
+        field === 'title' ? { text, ranges: match.ranges } : excerptAround(text, match, excerptContext);
+      best = { node, score, field, ...display };
+    };
+
+    consider('title', node.title);
+    consider('summary', node.summary);
+    consider('contentSnippet', node.contentSnippet);
+    notesByNode.get(node.id)?.forEach((note) => consider('note', note.content));
+
+    if (best) results.push(best);
+  });
+
+  return results.sort((a, b) => b.score - a.score).slice(0, limit);
+}
+
+/**
+ * Split text into highlighted and plain segments
+ *
+ * @param text - Text to split
+ * @param ranges - Matched ranges from a search result
+ * @returns Segments in order
+ */
+export function getHighlightSegments(
+  text: string,
+  ranges: Array<[number, number]>
+): HighlightSegment[] {
+  const segments: HighlightSegment[] = [];
+  let cursor = 0;
+
+  mergeRanges(ranges).forEach(([start, end]) => {
+    if (start > cursor) {
+      segments.push({ text: text.slice(cursor, start), isMatch: false });
+    }
+    segments.push({ text: text.slice(start, end), isMatch: true });
+    cursor = end;
+  });
+
+  if (cursor < text.length) {
+    segments.push({ text: text.slice(cursor), isMatch: false });
+  }
+
+  return segments;
+}
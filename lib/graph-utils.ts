@@ -5,7 +5,10 @@
  * attaching event handlers, and applying dynamic node styling.
  */
 
-import { NODE_STATE_COLORS } from './mermaid-theme';
+import { EDGE_STYLES, NODE_STATE_COLORS } from './mermaid-theme';
+import { getStrengthStyle } from './edge-types';
+import type { GraphChange } from './graph-diff';
+import type { GraphEdge } from '@/types/api.types';
 
 /**
  * Node state for dynamic styling
@@ -16,6 +19,10 @@ export interface NodeState {
   needsReview?: boolean;
   isActive?: boolean;
   isHovered?: boolean;
+  /** Cites the passage the reader clicked or scrolled to */
+  isCited?: boolean;
+  /** Has a cited passage in the reading panel's viewport */
+  isInView?: boolean;
 }
 
 /**
@@ -194,6 +201,11 @@ export function applyNodeStyles(
     if (!nodeId) return;
 
     const state = nodeStates[nodeId];
+
+    // Toggled on every node because these follow the reader as they scroll
+    // (not prefixed `node-`, which getNodeIdFromElement reads as the node ID)
+    nodeElement.classList.toggle('graph-cited', !!state?.isCited);
+    nodeElement.classList.toggle('graph-in-view', !!state?.isInView);
     if (!state) return;
 
     // Find the main shape element (rect, circle, etc.)
@@ -309,6 +321,438 @@ export function highlightConnectedNodes(
   });
 }
 
+/** Attribute marking elements dimmed/hidden by applyNodeFilter */
+const FILTERED_ATTRIBUTE = 'data-filtered';
+
+/**
+ * Dim or hide an element filtered out by the legend, or restore it
+ */
+function setFiltered(element: Element, filtered: boolean, mode: 'dim' | 'hide'): void {
+  const style = (element as HTMLElement).style;
+
+  if (filtered) {
+    element.setAttribute(FILTERED_ATTRIBUTE, mode);
+    style.opacity = mode === 'hide' ? '0' : '0.15';
+    style.pointerEvents = mode === 'hide' ? 'none' : '';
+  } else if (element.hasAttribute(FILTERED_ATTRIBUTE)) {
+    element.removeAttribute(FILTERED_ATTRIBUTE);
+    style.opacity = '1';
+    style.pointerEvents = '';
+  }
+}
+
+/**
+ * Mark each rendered edge with the graph edge it draws
+ *
+ * Mermaid 11 gives flowchart edge paths the ID `L_<from>_<to>_<n>` (repeated
+ * in `data-id`) and only generic classes; older output marks edges with
+ * `LS-<from> LE-<to>` classes. Parallel edges are matched in drawing order:
+ * the k-th path between two nodes is the k-th edge between them in `edges`,
+ * so pass the edges the Mermaid code was built from.
+ *
+ * Sets `data-edge-id` (read by getEdgeIdFromElement) and the
+ * `data-edge-from` / `data-edge-to` SVG node IDs (read by getEdgeEndpoints).
+ * Paths without a matching edge lose any earlier marks.
+ *
+ * @param svgElement - The SVG element containing the graph
+ * @param edges - Drawn edges, with the Mermaid keys of their nodes
+ *
+ * @example
+ * ```typescript
+ * tagRenderedEdges(svgRef.current, graph.edges);
+ * getEdgeIdFromElement(svgRef.current.querySelector('.flowchart-link')); // 'edge_1'
+ * ```
+ */
+export function tagRenderedEdges(
+  svgElement: SVGSVGElement,
+  edges: Pick<GraphEdge, 'id' | 'fromNode' | 'toNode'>[]
+): void {
+  const edgesByLink = new Map<string, typeof edges>();
+  edges.forEach((edge) => {
+    const link = `L_${edge.fromNode.nodeKey}_${edge.toNode.nodeKey}`;
+    edgesByLink.set(link, [...(edgesByLink.get(link) ?? []), edge]);
+  });
+
+  const matchedByLink = new Map<string, number>();
+  svgElement.querySelectorAll('.edgePath, .flowchart-link').forEach((edgeElement) => {
+    const classList = edgeElement.getAttribute('class') ?? '';
+    const from = classList.match(/(?:^|\s)LS-(\S+)/)?.[1];
+    const to = classList.match(/(?:^|\s)LE-(\S+)/)?.[1];
+    const pathId = edgeElement.getAttribute('data-id') ?? edgeElement.id;
+    const link = from && to ? `L_${from}_${to}` : pathId.replace(/_\d+$/, '');
+
+    const index = matchedByLink.get(link) ?? 0;
+    const edge = edgesByLink.get(link)?.[index];
+    if (!edge) {
+      ['data-edge-id', 'data-edge-from', 'data-edge-to'].forEach((name) =>
+        edgeElement.removeAttribute(name)
+      );
+      return;
+    }
+
+    matchedByLink.set(link, index + 1);
+    edgeElement.setAttribute('data-edge-id', edge.id);
+    edgeElement.setAttribute('data-edge-from', edge.fromNode.nodeKey);
+    edgeElement.setAttribute('data-edge-to', edge.toNode.nodeKey);
+  });
+}
+
+/**
+ * Get the source and target node IDs of an edge element
+ *
+ * Reads the marks set by tagRenderedEdges, falling back to the
+ * `LS-<from> LE-<to>` classes of older Mermaid output.
+ *
+ * @param element - SVG edge element
+ * @returns Endpoint SVG node IDs or null if not found
+ */
+export function getEdgeEndpoints(element: Element): { from: string; to: string } | null {
+  const taggedFrom = element.getAttribute('data-edge-from');
+  const taggedTo = element.getAttribute('data-edge-to');
+  if (taggedFrom && taggedTo) return { from: taggedFrom, to: taggedTo };
+
+  const classList = element.getAttribute('class') ?? '';
+  const from = classList.match(/(?:^|\s)LS-(\S+)/)?.[1];
+  const to = classList.match(/(?:^|\s)LE-(\S+)/)?.[1];
+  return from && to ? { from, to } : null;
+}
+
+/**
+ * Dim or hide nodes outside a legend filter, along with their edges
+ *
+ * Only touches filtered elements (and ones it filtered before), so hover
+ * highlighting on the remaining nodes is left alone. Re-apply after
+ * highlightConnectedNodes, which resets every node's opacity.
+ *
+ * @param svgElement - The SVG element containing the graph
+ * @param visibleNodeIds - SVG node IDs that match the filter (null to clear)
+ * @param mode - Dim non-matching nodes or hide them entirely
+ * @param visibleEdgeIds - Graph edge IDs that match the filter (null to keep
+ *   every edge between visible nodes); see tagRenderedEdges
+ *
+ * @example
+ * ```typescript
+ * applyNodeFilter(svgRef.current, new Set(['A', 'C']), 'dim');
+ * applyNodeFilter(svgRef.current, null, 'hide', new Set(['edge_2']));
+ * applyNodeFilter(svgRef.current, null, 'dim'); // clear
+ * ```
+ */
+export function applyNodeFilter(
+  svgElement: SVGSVGElement,
+  visibleNodeIds: Set<string> | null,
+  mode: 'dim' | 'hide',
+  visibleEdgeIds: Set<string> | null = null
+): void {
+  const isVisible = (nodeId: string) => !visibleNodeIds || visibleNodeIds.has(nodeId);
+
+  svgElement.querySelectorAll('.node').forEach((nodeElement) => {
+    const nodeId = getNodeIdFromElement(nodeElement);
+    if (!nodeId) return;
+    setFiltered(nodeElement, !isVisible(nodeId), mode);
+  });
+
+  // Edges are shown only when both ends are (and they match the edge filter)
+  const filteredEdgeIds = new Set<string>();
+  svgElement.querySelectorAll('.edgePath, .flowchart-link').forEach((edgeElement) => {
+    const endpoints = getEdgeEndpoints(edgeElement);
+    if (!endpoints) return;
+
+    const edgeId = getEdgeIdFromElement(edgeElement);
+    const filtered =
+      !isVisible(endpoints.from) ||
+      !isVisible(endpoints.to) ||
+      (!!visibleEdgeIds && (!edgeId || !visibleEdgeIds.has(edgeId)));
+    setFiltered(edgeElement, filtered, mode);
+    if (filtered && edgeElement.id) {
+      filteredEdgeIds.add(edgeElement.id);
+    }
+  });
+
+  // Edge labels reference their path by data-id
+  svgElement.querySelectorAll('.edgeLabel').forEach((labelElement) => {
+    const pathId = labelElement.querySelector('[data-id]')?.getAttribute('data-id');
+    if (!pathId) return;
+    setFiltered(labelElement, filteredEdgeIds.has(pathId), mode);
+  });
+}
+
+/**
+ * Draw a reading-progress bar along the bottom of each node
+ *
+ * Nodes missing from `progress` lose their bar. The bar is drawn inside
+ * the node's group, so it follows the node through zoom and pan.
+ *
+ * @param svgElement - The SVG element containing the graph
+ * @param progress - Share of each node's cited passages read (0-1), by SVG node ID
+ *
+ * @example
+ * ```typescript
+ * applyReadingProgress(svgRef.current, { A: 1, B: 0.25 });
+ * ```
+ */
+export function applyReadingProgress(
+  svgElement: SVGSVGElement,
+  progress: Record<string, number>
+): void {
+  svgElement.querySelectorAll<SVGGElement>('.node').forEach((nodeElement) => {
+    const nodeId = getNodeIdFromElement(nodeElement);
+    const value = nodeId ? progress[nodeId] : undefined;
+    let bar = nodeElement.querySelector<SVGGElement>(':scope > .reading-progress');
+
+    if (value === undefined) {
+      bar?.remove();
+      return;
+    }
+
+    const shapeElement = nodeElement.querySelector<SVGGraphicsElement>('rect, circle, polygon');
+    if (!shapeElement || typeof shapeElement.getBBox !== 'function') return;
+    const bounds = shapeElement.getBBox();
+
+    if (!bar) {
+      bar = document.createElementNS('http://www.w3.org/2000/svg', 'g');
+      bar.setAttribute('class', 'reading-progress');
+      bar.setAttribute('pointer-events', 'none');
+      bar.append(
+        document.createElementNS('http://www.w3.org/2000/svg', 'rect'),
+        document.createElementNS('http://www.w3.org/2000/svg', 'rect')
+      );
+      nodeElement.appendChild(bar);
+    }
+
+    const [track, fill] = Array.from(bar.children);
+    const x = bounds.x + 6;
+    const y = bounds.y + bounds.height - 6;
+    const width = Math.max(bounds.width - 12, 0);
+
+    [track, fill].forEach((rect) => {
+      rect.setAttribute('x', String(x));
+      rect.setAttribute('y', String(y));
+      rect.setAttribute('height', '3');
+      rect.setAttribute('rx', '1.5');
+    });
+    track.setAttribute('width', String(width));
+    track.setAttribute('fill', 'rgba(0, 0, 0, 0.12)');
+    fill.setAttribute('width', String(width * Math.min(Math.max(value, 0), 1)));
+    fill.setAttribute('fill', NODE_STATE_COLORS.reading);
+  });
+}
+
+/**
+ * Mark each node with the color of its source document
+ *
+ * Draws a stripe down the left edge of the node, leaving the fill and
+ * stroke to node type and state. Nodes missing from `colors` lose their
+ * stripe.
+ *
+ * @param svgElement - The SVG element containing the graph
+ * @param colors - Source document color, by SVG node ID
+ *
+ * @example
+ * ```typescript
+ * applySourceColors(svgRef.current, { A: '#7E57C2', B: '#EF6C00' });
+ * ```
+ */
+export function applySourceColors(
+  svgElement: SVGSVGElement,
+  colors: Record<string, string>
+): void {
+  svgElement.querySelectorAll<SVGGElement>('.node').forEach((nodeElement) => {
+    const nodeId = getNodeIdFromElement(nodeElement);
+    const color = nodeId ? colors[nodeId] : undefined;
+    let stripe = nodeElement.querySelector<SVGRectElement>(':scope > .source-marker');
+
+    if (!color) {
+      stripe?.remove();
+      return;
+    }
+
+    const shapeElement = nodeElement.querySelector<SVGGraphicsElement>('rect, circle, polygon');
+    if (!shapeElement || typeof shapeElement.getBBox !== 'function') return;
+    const bounds = shapeElement.getBBox();
+
+    if (!stripe) {
+      stripe = document.createElementNS('http://www.w3.org/2000/svg', 'rect');
+      stripe.setAttribute('class', 'source-marker');
+      stripe.setAttribute('pointer-events', 'none');
+      nodeElement.appendChild(stripe);
+    }
+
+    stripe.setAttribute('x', String(bounds.x));
+    stripe.setAttribute('y', String(bounds.y + 4));
+    stripe.setAttribute('width', '4');
+    stripe.setAttribute('height', String(Math.max(bounds.height - 8, 0)));
+    stripe.setAttribute('rx', '2');
+    stripe.setAttribute('fill', color);
+  });
+}
+
+/**
+ * Mark nodes and edges that changed since an earlier graph version
+ *
+ * Toggles `diff-added` / `diff-renamed` classes (styled in globals.css) on
+ * every node, edge and edge label, so clearing the changes clears the marks.
+ *
+ * @param svgElement - The SVG element containing the graph
+ * @param nodeChanges - Change by SVG node ID
+ * @param edgeChanges - Change by graph edge ID (see tagRenderedEdges)
+ *
+ * @example
+ * ```typescript
+ * applyDiffOverlay(svgRef.current, { I: 'added', C: 'renamed' }, { edge_7: 'added' });
+ * applyDiffOverlay(svgRef.current, {}, {}); // clear
+ * ```
+ */
+export function applyDiffOverlay(
+  svgElement: SVGSVGElement,
+  nodeChanges: Record<string, GraphChange>,
+  edgeChanges: Record<string, GraphChange>
+): void {
+  const mark = (element: Element, change: GraphChange | undefined) => {
+    element.classList.toggle('diff-added', change === 'added');
+    element.classList.toggle('diff-renamed', change === 'renamed');
+  };
+
+  svgElement.querySelectorAll('.node').forEach((nodeElement) => {
+    const nodeId = getNodeIdFromElement(nodeElement);
+    mark(nodeElement, nodeId ? nodeChanges[nodeId] : undefined);
+  });
+
+  const edgeChangesByPath = new Map<string, GraphChange>();
+  svgElement.querySelectorAll('.edgePath, .flowchart-link').forEach((edgeElement) => {
+    const edgeId = getEdgeIdFromElement(edgeElement);
+    const change = edgeId ? edgeChanges[edgeId] : undefined;
+    mark(edgeElement, change);
+    if (change && edgeElement.id) {
+      edgeChangesByPath.set(edgeElement.id, change);
+    }
+  });
+
+  // Edge labels reference their path by data-id
+  svgElement.querySelectorAll('.edgeLabel').forEach((labelElement) => {
+    const pathId = labelElement.querySelector('[data-id]')?.getAttribute('data-id');
+    mark(labelElement, pathId ? edgeChangesByPath.get(pathId) : undefined);
+  });
+}
+
+/**
+ * Line style and direction of a rendered edge
+ */
+export interface EdgeStyle {
+  /** Relationship category, styled as in EDGE_STYLES */
+  edgeType: string;
+  /** Draw an arrowhead at the start of the edge too */
+  bidirectional?: boolean;
+  /** Connection strength (0-1) scaling the stroke width and opacity */
+  strength?: number | null;
+}
+
+/** Marks edges given a start arrowhead by applyEdgeStyles */
+const ADDED_MARKER_ATTRIBUTE = 'data-marker-start';
+
+/**
+ * Style rendered edges by relationship category
+ *
+ * Sets each edge path's stroke color, width and dash pattern from
+ * EDGE_STYLES, so server-generated code (which has no link styles) shows
+ * edge types too. Edges with a strength are widened or thinned and faded
+ * with it (stroke opacity, so filters and hover highlighting are left
+ * alone). Bidirectional edges reuse the end arrowhead's marker at the
+ * start. The diff overlay's `!important` strokes still win.
+ *
+ * @param svgElement - The SVG element containing the graph
+ * @param edgeStyles - Style by graph edge ID (see tagRenderedEdges)
+ *
+ * @example
+ * ```typescript
+ * applyEdgeStyles(svgRef.current, {
+ *   edge_1: { edgeType: 'causal' },
+ *   edge_2: { edgeType: 'contrast', bidirectional: true, strength: 0.4 },
+ * });
+ * ```
+ */
+export function applyEdgeStyles(
+  svgElement: SVGSVGElement,
+  edgeStyles: Record<string, EdgeStyle>
+): void {
+  svgElement.querySelectorAll('.edgePath, .flowchart-link').forEach((edgeElement) => {
+    const edgeId = getEdgeIdFromElement(edgeElement);
+    const edgeStyle = edgeId ? edgeStyles[edgeId] : undefined;
+    // Older Mermaid output wraps the path in an .edgePath group
+    const path = edgeElement.matches('path') ? edgeElement : edgeElement.querySelector('path');
+    if (!path || !edgeStyle) return;
+
+    const lineStyle =
+      EDGE_STYLES[edgeStyle.edgeType as keyof typeof EDGE_STYLES] ?? EDGE_STYLES.related;
+    const strength =
+      edgeStyle.strength === null || edgeStyle.strength === undefined
+        ? null
+        : getStrengthStyle(edgeStyle.strength);
+    const style = (path as SVGPathElement).style;
+    style.stroke = lineStyle.stroke;
+    style.strokeWidth = `${lineStyle.strokeWidth * (strength?.widthScale ?? 1)}px`;
+    style.strokeOpacity = strength ? String(strength.opacity) : '';
+    style.strokeDasharray =
+      lineStyle.strokeDasharray === 'none' ? '' : lineStyle.strokeDasharray.replace(/,/g, ' ');
+
+    const markerEnd = path.getAttribute('marker-end');
+    if (edgeStyle.bidirectional && markerEnd && !path.hasAttribute('marker-start')) {
+      path.setAttribute('marker-start', markerEnd.replace('pointEnd', 'pointStart'));
+      path.setAttribute(ADDED_MARKER_ATTRIBUTE, 'true');
+    } else if (!edgeStyle.bidirectional && path.hasAttribute(ADDED_MARKER_ATTRIBUTE)) {
+      path.removeAttribute('marker-start');
+      path.removeAttribute(ADDED_MARKER_ATTRIBUTE);
+    }
+  });
+}
+
+/** Marks edges hidden by applyEdgeThreshold */
+const WEAK_ATTRIBUTE = 'data-weak';
+
+/**
+ * Hide weak edges and their labels
+ *
+ * Uses `display` rather than opacity, so the legend filter and hover
+ * highlighting can't bring a hidden edge back. Edges hidden before and
+ * no longer weak are shown again.
+ *
+ * @param svgElement - The SVG element containing the graph
+ * @param hiddenEdgeIds - Graph edge IDs to hide (see tagRenderedEdges)
+ *
+ * @example
+ * ```typescript
+ * applyEdgeThreshold(svgRef.current, new Set(['edge_2']));
+ * applyEdgeThreshold(svgRef.current, new Set()); // show all
+ * ```
+ */
+export function applyEdgeThreshold(svgElement: SVGSVGElement, hiddenEdgeIds: Set<string>): void {
+  const setHidden = (element: Element, hidden: boolean) => {
+    const style = (element as HTMLElement).style;
+    if (hidden) {
+      element.setAttribute(WEAK_ATTRIBUTE, 'true');
+      style.display = 'none';
+    } else if (element.hasAttribute(WEAK_ATTRIBUTE)) {
+      element.removeAttribute(WEAK_ATTRIBUTE);
+      style.display = '';
+    }
+  };
+
+  const hiddenPathIds = new Set<string>();
+  svgElement.querySelectorAll('.edgePath, .flowchart-link').forEach((edgeElement) => {
+    const edgeId = getEdgeIdFromElement(edgeElement);
+    const hidden = !!edgeId && hiddenEdgeIds.has(edgeId);
+    setHidden(edgeElement, hidden);
+    if (hidden && edgeElement.id) {
+      hiddenPathIds.add(edgeElement.id);
+    }
+  });
+
+  // Edge labels reference their path by data-id
+  svgElement.querySelectorAll('.edgeLabel').forEach((labelElement) => {
+    const pathId = labelElement.querySelector('[data-id]')?.getAttribute('data-id');
+    setHidden(labelElement, !!pathId && hiddenPathIds.has(pathId));
+  });
+}
+
 /**
  * Extract node ID from SVG element
  *
@@ -444,6 +888,47 @@ export function getGraphBounds(svgElement: SVGSVGElement): {
   };
 }
 
+/**
+ * Find the SVG element for a node
+ *
+ * @param svgElement - The SVG element containing the graph
+ * @param nodeId - Node ID as found by getNodeIdFromElement
+ * @returns Node element or null if not rendered
+ */
+export function findNodeElement(svgElement: SVGSVGElement, nodeId: string): SVGGElement | null {
+  const nodeElements = Array.from(svgElement.querySelectorAll<SVGGElement>('.node'));
+  return nodeElements.find((element) => getNodeIdFromElement(element) === nodeId) ?? null;
+}
+
+/**
+ * Get the center of a node in the coordinate space of a container group
+ *
+ * Works regardless of the container's current zoom/pan transform, so the
+ * result can be used to compute a new transform that centers the node.
+ *
+ * @param nodeElement - Node element (from findNodeElement)
+ * @param container - Ancestor <g> the zoom/pan transform is applied to
+ * @returns Center point, or null if the browser can't resolve the geometry
+ */
+export function getNodeCenter(
+  nodeElement: SVGGraphicsElement,
+  container: SVGGraphicsElement
+): { x: number; y: number } | null {
+  const nodeMatrix = nodeElement.getCTM();
+  const containerMatrix = container.getCTM();
+  if (!nodeMatrix || !containerMatrix) return null;
+
+  const bbox = nodeElement.getBBox();
+  const toContainer = containerMatrix.inverse().multiply(nodeMatrix);
+  const centerX = bbox.x + bbox.width / 2;
+  const centerY = bbox.y + bbox.height / 2;
+
+  return {
+    x: toContainer.a * centerX + toContainer.c * centerY + toContainer.e,
+    y: toContainer.b * centerX + toContainer.d * centerY + toContainer.f,
+  };
+}
+
 /**
  * Fit graph to container (zoom to fit)
  *
@@ -0,0 +1,325 @@
+/**
+ * Highlight Utilities
+ *
+ * Helpers for user highlights in the reading panel. Text highlights are
+ * anchored by character offsets into `Document.content` (the same model as
+ * legacy DocumentReference), while DocumentViewer renders that content as
+ * paragraphs, so these helpers translate between content offsets and
+ * positions inside the rendered paragraphs. PDF highlights are anchored by
+ * page and bounding box and drawn as overlays by PDFViewer.
+ */
+
+import { splitParagraphs } from './document-search';
+import { getReferenceRegions, type OverlayRegion } from './pdf-utils';
+import type { Highlight, HighlightColor } from '@/types/api.types';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Display styles for a highlight color
+ */
+export interface HighlightColorStyle {
+  label: string;
+  /** Tailwind classes for text marks and swatches */
+  className: string;
+  /** Overlay fill for PDF pages */
+  fillColor: string;
+  /** Overlay border for PDF pages */
+  strokeColor: string;
+}
+
+/**
+ * Text highlight to render in DocumentViewer
+ */
+export interface TextHighlightMark {
+  id: string;
+  /** Start offset in Document.content */
+  startOffset: number;
+  /** End offset in Document.content (exclusive) */
+  endOffset: number;
+  color: HighlightColor;
+}
+
+/**
+ * Text selected in DocumentViewer, in content offsets
+ */
+export interface TextSelectionRange {
+  text: string;
+  startOffset: number;
+  endOffset: number;
+}
+
+/**
+ * Part of a content range that falls inside one paragraph
+ */
+export interface ParagraphRange {
+  paragraphIndex: number;
+  /** Start offset within the paragraph */
+  startOffset: number;
+  /** End offset within the paragraph (exclusive) */
+  endOffset: number;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * Available highlight colors, in picker order
+ */
+export const HIGHLIGHT_COLORS: Record<HighlightColor, HighlightColorStyle> = {
+  yellow: {
+    label: 'Yellow',
+    className: 'bg-yellow-200',
+    fillColor: 'rgba(250, 204, 21, 0.3)',
+    strokeColor: 'rgba(250, 204, 21, 0.7)',
+  },
+  green: {
+    label: 'Green',
+    className: 'bg-green-200',
+    fillColor: 'rgba(74, 222, 128, 0.3)',
+    strokeColor: 'rgba(74, 222, 128, 0.7)',
+  },
+  blue: {
+    label: 'Blue',
+    className: 'bg-blue-200',
+    fillColor: 'rgba(96, 165, 250, 0.3)',
+    strokeColor: 'rgba(96, 165, 250, 0.7)',
+  },
+  pink: {
+    label: 'Pink',
+    className: 'bg-pink-200',
+    fillColor: 'rgba(244, 114, 182, 0.3)',
+    strokeColor: 'rgba(244, 114, 182, 0.7)',
+  },
+};
+
+// ============================================================================
+// Offset Mapping
+// ============================================================================
+
+/**
+ * Find where each rendered paragraph starts in the content
+ *
+ * @param content - Full document text
+ * @returns Content offset of each paragraph from `splitParagraphs`
+ */
+export function getParagraphStarts(content: string): number[] {
+  let cursor = 0;
+
+  return splitParagraphs(content).map((paragraph) => {
+    const start = content.indexOf(paragraph, cursor);
+    cursor = start + paragraph.length;
+    return start;
+  });
+}
+
+/**
+ * Split a content range into per-paragraph ranges
+ *
+ * Text between paragraphs (blank lines) is skipped.
+ *
+ * @param content - Full document text
+ * @param startOffset - Start offset in the content
+ * @param endOffset - End offset in the content (exclusive)
+ * @returns Non-empty ranges in paragraph order
+ *
+ * @example
+ * ```typescript
+ * getParagraphRanges('One.\n\nTwo.', 2, 8);
+ * // [{ paragraphIndex: 0, startOffset: 2, endOffset: 4 },
+ * //  { paragraphIndex: 1, startOffset: 0, endOffset: 2 }]
+ * ```
+ */
+export function getParagraphRanges(
+  content: string,
+  startOffset: number,
+  endOffset: number
+): ParagraphRange[] {
+  const paragraphs = splitParagraphs(content);
+  const starts = getParagraphStarts(content);
+
+  return paragraphs.flatMap((paragraph, paragraphIndex) => {
+    const paragraphStart = starts[paragraphIndex];
+    const localStart = Math.max(startOffset - paragraphStart, 0);
+    const localEnd = Math.min(endOffset - paragraphStart, paragraph.length);
+
+    return localStart < localEnd
+      ? [{ paragraphIndex, startOffset: localStart, endOffset: localEnd }]
+      : [];
+  });
+}
+
+/**
+ * Offset of a DOM position within its paragraph element
+ */
+function getOffsetInParagraph(paragraph: Element, node: Node, offset: number): number {
+  const range = document.createRange();
+  range.setStart(paragraph, 0);
+  range.setEnd(node, offset);
+  return range.toString().length;
+}
+
+/**
+ * Convert a DOM position inside DocumentViewer to a content offset
+ *
+ * @param node - Node containing the position (e.g. a selection's anchorNode)
+ * @param offset - Offset within the node
+ * @param content - Full document text the viewer renders
+ * @returns Offset in the content, or null if the position is outside paragraphs
+ */
+export function getContentOffset(node: Node, offset: number, content: string): number | null {
+  const paragraph = (node instanceof Element ? node : node.parentElement)?.closest(
+    '[data-paragraph-index]'
+  );
+  if (!paragraph) return null;
+
+  const start = getParagraphStarts(content)[Number(paragraph.getAttribute('data-paragraph-index'))];
+  if (start === undefined) return null;
+
+  return start + getOffsetInParagraph(paragraph, node, offset);
+}
+
+/**
+ * Read the current selection in DocumentViewer as content offsets
+ *
+ * @param selection - Browser selection (usually `window.getSelection()`)
+ * @param content - Full document text the viewer renders
+ * @returns Selected range, or null if the selection is empty or outside paragraphs
+ */
+export function getTextSelectionRange(
+  selection: Selection | null,
+  content: string
+): TextSelectionRange | null {
+  if (!selection || selection.isCollapsed || selection.rangeCount === 0) return null;
+
+  const range = selection.getRangeAt(0);
+  const startOffset = getContentOffset(range.startContainer, range.startOffset, content);
+  const endOffset = getContentOffset(range.endContainer, range.endOffset, content);
+  if (startOffset === null || endOffset === null) return null;
+
+  const text = content.slice(startOffset, endOffset);
+  if (!text.trim()) return null;
+
+  return { text, startOffset, endOffset };
+}
+
+// ============================================================================
+// Text Rendering
+// ============================================================================
+
+/**
+ * Wrap part of a paragraph's text in a <mark>, across any existing markup
+ */
+function wrapParagraphRange(
+  paragraph: Element,
+  startOffset: number,
+  endOffset: number,
+  createMark: () => HTMLElement
+): void {
+  const walker = document.createTreeWalker(paragraph, NodeFilter.SHOW_TEXT);
+  const textNodes: Text[] = [];
+  while (walker.nextNode()) {
+    textNodes.push(walker.currentNode as Text);
+  }
+
+  let position = 0;
+  textNodes.forEach((textNode) => {
+    const nodeStart = position;
+    const nodeEnd = position + textNode.length;
+    position = nodeEnd;
+
+    const from = Math.max(startOffset, nodeStart) - nodeStart;
+    const to = Math.min(endOffset, nodeEnd) - nodeStart;
+    if (from >= to) return;
+
+    // Isolate the overlapping part of the text node and wrap it
+    const middle = from > 0 ? textNode.splitText(from) : textNode;
+    if (to - from < middle.length) {
+      middle.splitText(to - from);
+    }
+    const mark = createMark();
+    middle.replaceWith(mark);
+    mark.appendChild(middle);
+  });
+}
+
+/**
+ * Render text highlights into DocumentViewer's paragraphs
+ *
+ * @param container - DocumentViewer root (contains `[data-paragraph-index]` paragraphs)
+ * @param content - Full document text the viewer renders
+ * @param highlights - Highlights to render
+ * @returns Cleanup function that removes the marks again
+ */
+export function applyTextHighlights(
+  container: HTMLElement,
+  content: string,
+  highlights: TextHighlightMark[]
+): () => void {
+  highlights.forEach((highlight) => {
+    getParagraphRanges(content, highlight.startOffset, highlight.endOffset).forEach((range) => {
+      const paragraph = container.querySelector(
+        `[data-paragraph-index="${range.paragraphIndex}"]`
+      );
+      if (!paragraph) return;
+
+      wrapParagraphRange(paragraph, range.startOffset, range.endOffset, () => {
+        const mark = document.createElement('mark');
+        mark.className = `user-highlight rounded-sm text-inherit cursor-pointer ${
+          HIGHLIGHT_COLORS[highlight.color].className
+        }`;
+        mark.dataset.highlightId = highlight.id;
+        return mark;
+      });
+    });
+  });
+
+  return () => {
+    container.querySelectorAll('mark.user-highlight').forEach((mark) => {
+      const parent = mark.parentNode;
+      mark.replaceWith(...Array.from(mark.childNodes));
+      parent?.normalize();
+    });
+  };
+}
+
+// ============================================================================
+// Highlight Lists
+// ============================================================================
+
+/**
+ * Text-anchored highlights as DocumentViewer marks
+ */
+export function getTextHighlightMarks(highlights: Highlight[]): TextHighlightMark[] {
+  return highlights.flatMap((highlight) =>
+    highlight.anchor.type === 'text'
+      ? [
+          {
+            id: highlight.id,
+            startOffset: highlight.anchor.startOffset,
+            endOffset: highlight.anchor.endOffset,
+            color: highlight.color,
+          },
+        ]
+      : []
+  );
+}
+
+/**
+ * PDF-anchored highlights as PDFViewer overlays
+ */
+export function getPDFHighlightOverlays(highlights: Highlight[]): OverlayRegion[] {
+  return highlights.flatMap((highlight) => {
+    if (highlight.anchor.type !== 'pdf') return [];
+
+    const { fillColor, strokeColor } = HIGHLIGHT_COLORS[highlight.color];
+    return getReferenceRegions([highlight.anchor.reference]).map((region) => ({
+      ...region,
+      id: highlight.id,
+      config: { fillColor, strokeColor, strokeWidth: 1 },
+    }));
+  });
+}
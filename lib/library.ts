@@ -0,0 +1,160 @@
+/**
+ * Library
+ *
+ * Joins the document and graph lists into library entries (one per
+ * document, with its graph versions) and filters and sorts them for the
+ * /library page.
+ */
+
+import type {
+  DocumentListItem,
+  DocumentSourceType,
+  DocumentStatus,
+  GraphListItem,
+} from '@/types/api.types';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * A document with its graph versions
+ */
+export interface LibraryEntry {
+  document: DocumentListItem;
+  /** Graph versions, newest first */
+  graphs: GraphListItem[];
+  /** Notes across all versions */
+  noteCount: number;
+  /** Latest time the document or any of its graphs was opened */
+  lastOpenedAt: string | null;
+}
+
+/**
+ * Library sort order
+ */
+export type LibrarySort = 'lastOpened' | 'created' | 'title' | 'quality';
+
+/**
+ * Library filter
+ */
+export interface LibraryFilter {
+  /** Matched against document titles, case-insensitively */
+  query: string;
+  status: DocumentStatus | 'all';
+  sourceType: DocumentSourceType | 'all';
+}
+
+export const DEFAULT_LIBRARY_FILTER: LibraryFilter = {
+  query: '',
+  status: 'all',
+  sourceType: 'all',
+};
+
+// ============================================================================
+// Entries
+// ============================================================================
+
+/**
+ * Later of two optional ISO timestamps
+ */
+function latest(a: string | null, b: string | null): string | null {
+  if (!a) return b;
+  if (!b) return a;
+  return a > b ? a : b;
+}
+
+/**
+ * Group graphs under their documents
+ *
+ * Graphs whose document is missing from the list are left out.
+ *
+ * @param documents - Documents from listDocuments
+ * @param graphs - Graphs from listGraphs
+ * @returns One entry per document, in document order
+ *
+ * @example
+ * ```typescript
+ * const entries = buildLibraryEntries(documents, graphs);
+ * entries[0].graphs[0]; // latest version of the first document's graph
+ * ```
+ */
+export function buildLibraryEntries(
+  documents: DocumentListItem[],
+  graphs: GraphListItem[]
+): LibraryEntry[] {
+  return documents.map((document) => {
+    const documentGraphs = graphs
+      .filter((graph) => graph.documentId === document.id)
+      .sort((a, b) => b.version - a.version);
+
+    return {
+      document,
+      graphs: documentGraphs,
+      noteCount: documentGraphs.reduce((total, graph) => total + graph.noteCount, 0),
+      lastOpenedAt: documentGraphs.reduce<string | null>(
+        (time, graph) => latest(time, graph.lastOpenedAt),
+        document.lastOpenedAt
+      ),
+    };
+  });
+}
+
+// ============================================================================
+// Filter and Sort
+// ============================================================================
+
+/**
+ * Entries matching the filter
+ *
+ * @param entries - Library entries
+ * @param filter - Title query, status and source type
+ * @returns Matching entries, in their original order
+ */
+export function filterLibraryEntries(
+  entries: LibraryEntry[],
+  filter: LibraryFilter
+): LibraryEntry[] {
+  const query = filter.query.trim().toLowerCase();
+
+  return entries.filter(
+    ({ document }) =>
+      (filter.status === 'all' || document.status === filter.status) &&
+      (filter.sourceType === 'all' || document.sourceType === filter.sourceType) &&
+      (!query || document.title.toLowerCase().includes(query))
+  );
+}
+
+/**
+ * Sort entries
+ *
+ * - `lastOpened`: most recently opened first, never-opened last
+ * - `created`: newest upload first
+ * - `title`: alphabetical
+ * - `quality`: highest quality score first, unscored last
+ *
+ * Ties keep the newest upload first.
+ *
+ * @param entries - Library entries
+ * @param sort - Sort order
+ * @returns A sorted copy
+ */
+export function sortLibraryEntries(entries: LibraryEntry[], sort: LibrarySort): LibraryEntry[] {
+  const byCreated = (a: LibraryEntry, b: LibraryEntry) =>
+    b.document.createdAt.localeCompare(a.document.createdAt);
+
+  const compare = (a: LibraryEntry, b: LibraryEntry): number => {
+    switch (sort) {
+      case 'lastOpened':
+        return (b.lastOpenedAt ?? '').localeCompare(a.lastOpenedAt ?? '');
+      case 'title':
+        return a.document.title.localeCompare(b.document.title);
+      case 'quality':
+        return (b.document.qualityScore ?? -1) - (a.document.qualityScore ?? -1);
+      case 'created':
+        return 0;
+    }
+  };
+
+  return [...entries].sort((a, b) => compare(a, b) || byCreated(a, b));
+}
@@ -0,0 +1,237 @@
+/**
+ * Mastery Model
+ *
+ * Per-node mastery scores for a graph, fed by quiz results and hypothesis
+ * evaluations from the connection modal. Each piece of evidence is a 0-1
+ * score; a node's mastery is a running average that weights recent evidence
+ * more, so a node that was missed last week but answered well today moves
+ * up quickly. Scores map onto the `isMastered` / `needsReview` node states
+ * that MermaidGraph colors.
+ */
+
+import { getNodeOutcomes, getReviewId } from './review/scheduler';
+import type { NodeState } from './graph-utils';
+import type {
+  GraphNode,
+  HypothesisMatch,
+  QuizQuestion,
+  QuizQuestionResult,
+} from '@/types/api.types';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Mastery level derived from the score
+ */
+export type MasteryLevel = 'mastered' | 'learning' | 'needsReview';
+
+/**
+ * One observation of how well a node is understood
+ */
+export interface MasteryEvidence {
+  nodeId: string;
+  /** 0 (not understood) to 1 (fully understood) */
+  score: number;
+}
+
+/**
+ * Stored mastery for one node
+ */
+export interface MasteryRecord {
+  /** `<graphId>:<nodeId>` */
+  id: string;
+  graphId: string;
+  nodeId: string;
+  /** 0-1 running mastery score */
+  score: number;
+  /** Number of observations folded into the score */
+  evidenceCount: number;
+  /** ISO timestamp of the latest observation */
+  updatedAt: string;
+}
+
+/**
+ * Mastery counts for a set of nodes
+ */
+export interface MasterySummary {
+  mastered: number;
+  learning: number;
+  needsReview: number;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Score at or above which a node counts as mastered */
+export const MASTERED_THRESHOLD = 0.8;
+
+/** Score below which a node needs review */
+export const NEEDS_REVIEW_THRESHOLD = 0.5;
+
+/** Minimum weight of the newest observation once a node has history */
+const RECENCY_WEIGHT = 0.3;
+
+/** Evidence score for each hypothesis evaluation */
+export const HYPOTHESIS_SCORES: Record<HypothesisMatch, number> = {
+  full: 1,
+  partial: 0.5,
+  incorrect: 0,
+};
+
+// ============================================================================
+// Evidence
+// ============================================================================
+
+/**
+ * Turn quiz results into evidence, one entry per referenced node
+ *
+ * @param questions - Quiz questions (for `nodeRefs`)
+ * @param results - Submission results
+ * @returns Share of correct answers per node
+ */
+export function getQuizEvidence(
+  questions: QuizQuestion[],
+  results: QuizQuestionResult[]
+): MasteryEvidence[] {
+  return getNodeOutcomes(questions, results).map(({ nodeId, correct, total }) => ({
+    nodeId,
+    score: total > 0 ? correct / total : 0,
+  }));
+}
+
+/**
+ * Turn a hypothesis evaluation into evidence for both connected nodes
+ *
+ * @param fromNodeId - Source node of the connection
+ * @param toNodeId - Target node of the connection
+ * @param match - Evaluation of the user's hypothesis
+ */
+export function getHypothesisEvidence(
+  fromNodeId: string,
+  toNodeId: string,
+  match: HypothesisMatch
+): MasteryEvidence[] {
+  const score = HYPOTHESIS_SCORES[match];
+  return [
+    { nodeId: fromNodeId, score },
+    { nodeId: toNodeId, score },
+  ];
+}
+
+// ============================================================================
+// Scoring
+// ============================================================================
+
+/**
+ * Fold one observation into a node's mastery
+ *
+ * The first few observations are averaged evenly; after that the newest
+ * observation always carries at least 30% of the weight.
+ *
+ * @param previous - Existing record, or undefined for a new node
+ * @param graphId - Graph the node belongs to
+ * @param evidence - New observation
+ * @param now - Observation time
+ * @returns Updated record
+ */
+export function updateMastery(
+  previous: MasteryRecord | undefined,
+  graphId: string,
+  evidence: MasteryEvidence,
+  now: Date = new Date()
+): MasteryRecord {
+  const evidenceCount = (previous?.evidenceCount ?? 0) + 1;
+  const weight = Math.max(1 / evidenceCount, RECENCY_WEIGHT);
+  const score = previous ? previous.score + weight * (evidence.score - previous.score) : evidence.score;
+
+  return {
+    id: getReviewId(graphId, evidence.nodeId),
+    graphId,
+    nodeId: evidence.nodeId,
+    score: Math.round(score * 1000) / 1000,
+    evidenceCount,
+    updatedAt: now.toISOString(),
+  };
+}
+
+/**
+ * Apply a batch of evidence to existing records
+ *
+ * @param previous - Existing records keyed by record ID
+ * @param graphId - Graph the evidence belongs to
+ * @param evidence - New observations (a node may appear more than once)
+ * @param now - Observation time
+ * @returns Updated records, one per node touched
+ */
+export function applyMasteryEvidence(
+  previous: Map<string, MasteryRecord>,
+  graphId: string,
+  evidence: MasteryEvidence[],
+  now: Date = new Date()
+): MasteryRecord[] {
+  const updated = new Map<string, MasteryRecord>();
+
+  evidence.forEach((item) => {
+    const id = getReviewId(graphId, item.nodeId);
+    updated.set(id, updateMastery(updated.get(id) ?? previous.get(id), graphId, item, now));
+  });
+
+  return Array.from(updated.values());
+}
+
+/**
+ * Get the mastery level for a score
+ */
+export function getMasteryLevel(score: number): MasteryLevel {
+  if (score >= MASTERED_THRESHOLD) return 'mastered';
+  if (score < NEEDS_REVIEW_THRESHOLD) return 'needsReview';
+  return 'learning';
+}
+
+/**
+ * Count records by mastery level
+ *
+ * @example
+ * ```typescript
+ * const { mastered, needsReview } = summarizeMastery(records);
+ * // "3 nodes mastered, 2 need review"
+ * ```
+ */
+export function summarizeMastery(records: MasteryRecord[]): MasterySummary {
+  const summary: MasterySummary = { mastered: 0, learning: 0, needsReview: 0 };
+  records.forEach((record) => {
+    summary[getMasteryLevel(record.score)] += 1;
+  });
+  return summary;
+}
+
+/**
+ * Build mastery node states for MermaidGraph
+ *
+ * @param records - Mastery records for the graph
+ * @param nodes - Graph nodes (records use node IDs, the SVG uses node keys)
+ * @returns `isMastered` / `needsReview` flags keyed by node key
+ */
+export function getMasteryNodeStates(
+  records: MasteryRecord[],
+  nodes: GraphNode[]
+): Record<string, NodeState> {
+  const nodeKeys = new Map(nodes.map((node) => [node.id, node.nodeKey]));
+  const states: Record<string, NodeState> = {};
+
+  records.forEach((record) => {
+    const nodeKey = nodeKeys.get(record.nodeId);
+    if (!nodeKey) return;
+
+    const level = getMasteryLevel(record.score);
+    states[nodeKey] = {
+      isMastered: level === 'mastered',
+      needsReview: level === 'needsReview',
+    };
+  });
+
+  return states;
+}
@@ -0,0 +1,329 @@
+/**
+ * Mermaid Builder
+ *
+ * Builds Mermaid flowchart code from structured graph data, so changes made
+ * on the client (edits, collapsed clusters, filtered edges) can be rendered
+ * without a server round trip. Nodes get their type class, edges a link
+ * style for their relationship type (symmetric relationships get arrowheads
+ * at both ends), and nodes can be grouped in subgraphs.
+ *
+ * parseMermaidCode reads back the flowchart subset written here (and the
+ * simple statements the server generates).
+ */
+
+import { getEdgeType as getDefaultEdgeType, isSymmetricRelationship } from '@/lib/edge-types';
+import {
+  getEdgeLinkStyle,
+  getEdgeTypeClass,
+  getMermaidStyleDefinitions,
+  getNodeTypeClass,
+} from '@/lib/mermaid-theme';
+import type { GraphEdge, GraphNode } from '@/types/api.types';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Flowchart direction: top-down or left-to-right
+ */
+export type MermaidDirection = 'TD' | 'LR';
+
+/**
+ * Nodes drawn together in a labeled box
+ */
+export interface MermaidSubgraph {
+  id: string;
+  label: string;
+  nodeIds: string[];
+  /** Subgraph this one is drawn inside (top level when absent) */
+  parentId?: string | null;
+}
+
+/**
+ * Options for buildMermaidCode
+ */
+export interface MermaidBuildOptions {
+  /** Flowchart direction (default TD) */
+  direction?: MermaidDirection;
+  /** Node groups; nodes in no group are declared at the top level */
+  subgraphs?: MermaidSubgraph[];
+  /** Relationship type of an edge (default: getEdgeType from edge-types) */
+  getEdgeType?: (edge: GraphEdge) => string;
+  /** Include classDefs and link styles (default true) */
+  styles?: boolean;
+}
+
+/**
+ * Flowchart read back by parseMermaidCode
+ */
+export interface ParsedMermaidGraph {
+  direction: string;
+  nodes: { key: string; label: string }[];
+  edges: { from: string; to: string; label: string | null }[];
+  subgraphs: { id: string; label: string; nodeKeys: string[]; parentId: string | null }[];
+}
+
+/** Edge classes drawn with the theme's default line (no link style) */
+const DEFAULT_EDGE_CLASSES = new Set([getEdgeTypeClass('related'), getEdgeTypeClass('')]);
+
+// ============================================================================
+// Labels
+// ============================================================================
+
+/**
+ * Mermaid entity codes for characters that break or inject into labels
+ */
+const LABEL_ENTITIES: Record<string, string> = {
+  '#': '#35;',
+  '"': '#quot;',
+  '<': '#lt;',
+  '>': '#gt;',
+  '`': '#96;',
+  '|': '#124;',
+};
+
+/**
+ * Quote text for use as a Mermaid node, edge or subgraph label
+ *
+ * @example
+ * ```typescript
+ * escapeMermaidLabel('The "Why" #1'); // '"The #quot;Why#quot; #35;1"'
+ * ```
+ */
+export function escapeMermaidLabel(text: string): string {
+  const escaped = text
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(/[#"<>`|]/g, (char) => LABEL_ENTITIES[char]);
+  return `"${escaped}"`;
+}
+
+/**
+ * Reverse escapeMermaidLabel (quotes optional)
+ */
+function unescapeMermaidLabel(label: string): string {
+  const text = /^".*"$/.test(label) ? label.slice(1, -1) : label;
+  return Object.entries(LABEL_ENTITIES).reduceRight(
+    (result, [char, entity]) => result.split(entity).join(char),
+    text
+  );
+}
+
+/**
+ * Mermaid-safe ID for a subgraph, unique among the keys already used
+ *
+ * IDs that only differ in non-word characters (`a/b`, `a_b`) get a suffix.
+ */
+function getSubgraphKey(id: string, usedKeys: Set<string>): string {
+  const base = `sg_${id.replace(/\W/g, '_')}`;
+  let key = base;
+  for (let suffix = 2; usedKeys.has(key); suffix++) {
+    key = `${base}_${suffix}`;
+  }
+  usedKeys.add(key);
+  return key;
+}
+
+// ============================================================================
+// Build
+// ============================================================================
+
+/**
+ * Build flowchart code for a graph
+ *
+ * Nodes keep their Mermaid keys, so the rendered SVG maps back to the
+ * graph's nodes the same way as server-generated code.
+ *
+ * @param graph - Nodes and edges to draw
+ * @param options - Direction, subgraphs and styling
+ * @returns Mermaid flowchart code
+ *
+ * @example
+ * ```typescript
+ * const code = buildMermaidCode(graph, {
+ *   direction: 'LR',
+ *   subgraphs: [{ id: 'doc_1', label: 'Chapter 1', nodeIds: ['node_1', 'node_2'] }],
+ * });
+ * ```
+ */
+export function buildMermaidCode(
+  graph: { nodes: GraphNode[]; edges: GraphEdge[] },
+  options: MermaidBuildOptions = {}
+): string {
+  const { direction = 'TD', subgraphs = [], getEdgeType = getDefaultEdgeType, styles = true } =
+    options;
+
+  const declare = (node: GraphNode, indent: string) =>
+    `${indent}${node.nodeKey}[${escapeMermaidLabel(node.title)}]`;
+
+  // Each node is declared once, in its first group
+  const grouped = new Set<string>();
+  const usedKeys = new Set<string>();
+  const subgraphKeys = new Map(
+    subgraphs.map((subgraph) => [subgraph, getSubgraphKey(subgraph.id, usedKeys)])
+  );
+  const subgraphIds = new Set(subgraphs.map((subgraph) => subgraph.id));
+  const isTopLevel = (subgraph: MermaidSubgraph) =>
+    !subgraph.parentId || !subgraphIds.has(subgraph.parentId);
+
+  // Nested subgraphs are written inside their parent's block
+  const writeSubgraph = (subgraph: MermaidSubgraph, depth: number): string[] => {
+    const indent = '  '.repeat(depth);
+    const members = graph.nodes.filter(
+      (node) => subgraph.nodeIds.includes(node.id) && !grouped.has(node.id)
+    );
+    members.forEach((node) => grouped.add(node.id));
+    const children = subgraphs
+      .filter((child) => child !== subgraph && child.parentId === subgraph.id)
+      .flatMap((child) => writeSubgraph(child, depth + 1));
+    if (members.length === 0 && children.length === 0) return [];
+
+    return [
+      `${indent}subgraph ${subgraphKeys.get(subgraph)}[${escapeMermaidLabel(subgraph.label)}]`,
+      ...members.map((node) => declare(node, `${indent}  `)),
+      ...children,
+      `${indent}end`,
+    ];
+  };
+  const groupLines = subgraphs.filter(isTopLevel).flatMap((subgraph) => writeSubgraph(subgraph, 1));
+
+  const lines = [
+    `graph ${direction}`,
+    ...graph.nodes.filter((node) => !grouped.has(node.id)).map((node) => declare(node, '  ')),
+    ...groupLines,
+    ...graph.edges.map((edge) => {
+      const link = edge.relationship && isSymmetricRelationship(edge.relationship) ? '<-->' : '-->';
+      return edge.relationship
+        ? `  ${edge.fromNode.nodeKey} ${link}|${escapeMermaidLabel(edge.relationship)}| ${edge.toNode.nodeKey}`
+        : `  ${edge.fromNode.nodeKey} ${link} ${edge.toNode.nodeKey}`;
+    }),
+  ];
+  if (!styles) return lines.join('\n');
+
+  // Node type classes (nodes of unknown type keep the theme's colors)
+  const nodeClasses = new Map<string, string[]>();
+  graph.nodes.forEach((node) => {
+    const className = getNodeTypeClass(node.nodeType);
+    if (className === getNodeTypeClass('')) return;
+    nodeClasses.set(className, [...(nodeClasses.get(className) ?? []), node.nodeKey]);
+  });
+
+  // Link styles by edge index, one statement per relationship type
+  const edgeClasses = new Map<string, { edgeType: string; indexes: number[] }>();
+  graph.edges.forEach((edge, index) => {
+    const edgeType = getEdgeType(edge);
+    const className = getEdgeTypeClass(edgeType);
+    if (DEFAULT_EDGE_CLASSES.has(className)) return;
+    const group = edgeClasses.get(className) ?? { edgeType, indexes: [] };
+    edgeClasses.set(className, { ...group, indexes: [...group.indexes, index] });
+  });
+
+  return [
+    ...lines,
+    ...getMermaidStyleDefinitions()
+      .split('\n')
+      .map((line) => line.trim())
+      .filter(Boolean)
+      .map((line) => `  ${line}`),
+    ...Array.from(nodeClasses, ([className, keys]) => `  class ${keys.join(',')} ${className};`),
+    ...Array.from(
+      edgeClasses.values(),
+      ({ edgeType, indexes }) => `  linkStyle ${indexes.join(',')} ${getEdgeLinkStyle(edgeType)};`
+    ),
+  ].join('\n');
+}
+
+// ============================================================================
+// Parse
+// ============================================================================
+
+/** Node reference with an optional rectangle label: `A`, `A[Title]`, `A["Title"]` */
+const NODE_REF = /^(\w+)(?:\[("[^"]*"|[^\]]*)\])?/;
+
+/** Link with an optional label: `-->`, `<-->`, `-->|label|`, `-->|"label"|` */
+const LINK = /^\s*<?-->(?:\|("[^"]*"|[^|]*)\|)?\s*/;
+
+/**
+ * Read back flowchart code
+ *
+ * Understands the statements buildMermaidCode writes and server-style
+ * `A[Title] --> B` chains; other statements (styles, classes, comments)
+ * are skipped.
+ *
+ * @param mermaidCode - Flowchart code
+ * @returns Direction, labeled nodes, edges and subgraphs
+ *
+ * @example
+ * ```typescript
+ * const { nodes, edges } = parseMermaidCode(graph.mermaidCode);
+ * ```
+ */
+export function parseMermaidCode(mermaidCode: string): ParsedMermaidGraph {
+  const parsed: ParsedMermaidGraph = { direction: 'TD', nodes: [], edges: [], subgraphs: [] };
+  const nodes = new Map<string, ParsedMermaidGraph['nodes'][number]>();
+  // Open subgraphs, innermost last
+  const openSubgraphs: ParsedMermaidGraph['subgraphs'] = [];
+
+  // Nodes belong to the subgraph they first appear in; a later label wins
+  const addNode = (key: string, label: string | undefined) => {
+    let node = nodes.get(key);
+    if (!node) {
+      node = { key, label: key };
+      nodes.set(key, node);
+      parsed.nodes.push(node);
+      openSubgraphs[openSubgraphs.length - 1]?.nodeKeys.push(key);
+    }
+    if (label !== undefined) node.label = unescapeMermaidLabel(label);
+  };
+
+  for (const rawLine of mermaidCode.split('\n')) {
+    const line = rawLine.trim().replace(/;$/, '');
+
+    const header = line.match(/^(?:graph|flowchart)\s+(\w+)/);
+    if (header) {
+      parsed.direction = header[1];
+      continue;
+    }
+
+    const subgraphStart = line.match(/^subgraph\s+(\w+)(?:\[("[^"]*"|[^\]]*)\])?/);
+    if (subgraphStart) {
+      const subgraph = {
+        id: subgraphStart[1],
+        label: subgraphStart[2] ? unescapeMermaidLabel(subgraphStart[2]) : subgraphStart[1],
+        nodeKeys: [],
+        parentId: openSubgraphs[openSubgraphs.length - 1]?.id ?? null,
+      };
+      parsed.subgraphs.push(subgraph);
+      openSubgraphs.push(subgraph);
+      continue;
+    }
+    if (line === 'end') {
+      openSubgraphs.pop();
+      continue;
+    }
+    if (line.startsWith('%%') || /^(classDef|class|linkStyle|style|click)\b/.test(line)) continue;
+
+    // Node declaration or chain of links
+    let rest = line;
+    let previous: string | null = null;
+    let pendingLabel: string | null = null;
+    for (;;) {
+      const node = rest.match(NODE_REF);
+      if (!node) break;
+      addNode(node[1], node[2]);
+      if (previous !== null) {
+        parsed.edges.push({ from: previous, to: node[1], label: pendingLabel });
+      }
+      previous = node[1];
+      rest = rest.slice(node[0].length);
+
+      const link = rest.match(LINK);
+      if (!link) break;
+      pendingLabel = link[1] !== undefined ? unescapeMermaidLabel(link[1]) : null;
+      rest = rest.slice(link[0].length);
+    }
+  }
+
+  return parsed;
+}
@@ -28,6 +28,29 @@ export const NODE_STATE_COLORS = {
   withNotes: '#FFC107', // Gold border - user has notes
   mastered: '#66BB6A', // Green background - confirmed understanding
   needsReview: '#FF7043', // Red-orange background - requires attention
+  reading: '#D4A574', // Warm amber - reading progress, as in the reading panel
+} as const;
+
+/**
+ * Source document colors for merged graphs, assigned in document order
+ * (chosen to stay distinct from the node type blues)
+ */
+export const SOURCE_DOCUMENT_COLORS = [
+  '#7E57C2', // Purple
+  '#EF6C00', // Deep orange
+  '#2E7D32', // Green
+  '#C2185B', // Magenta
+  '#5D4037', // Brown
+  '#00838F', // Dark cyan
+] as const;
+
+/**
+ * Graph version diff colors (match the .diff-* rules in globals.css)
+ */
+export const DIFF_COLORS = {
+  added: '#388E3C', // Green - new in this version
+  renamed: '#1565C0', // Blue, dashed - relabeled since the compared version
+  removed: '#C62828', // Red - only in the compared version (listed, not drawn)
 } as const;
 
 /**
@@ -181,6 +204,7 @@ export function getNodeTypeClass(
     example: 'node-example',
     definition: 'node-definition',
     question: 'node-question',
+    cluster: 'node-cluster',
   };
 
   return typeMap[nodeType] || 'node-default';
@@ -209,8 +233,8 @@ export function getEdgeTypeClass(
 /**
  * Generate Mermaid-compatible style classes string
  *
- * Generates the classDef and class statements for Mermaid to apply
- * our custom colors to nodes and edges.
+ * Generates the classDef statements for Mermaid to apply our custom
+ * colors to nodes. Node type classes are named as in getNodeTypeClass.
  *
  * @returns Mermaid style definitions as string
  *
@@ -221,17 +245,19 @@ export function getEdgeTypeClass(
  *     A[Root Concept]
  *     B[Supporting Concept]
  *     A --> B
+ *     class A node-root;
  *   ${getMermaidStyleDefinitions()}
  * `;
  * ```
  */
 export function getMermaidStyleDefinitions(): string {
   return `
-    classDef nodeRoot fill:${NODE_TYPE_COLORS.root},stroke:${NODE_TYPE_COLORS.root},color:#fff,stroke-width:2px;
-    classDef nodeSupporting fill:${NODE_TYPE_COLORS.supporting},stroke:${NODE_TYPE_COLORS.supporting},color:#fff,stroke-width:2px;
-    classDef nodeExample fill:${NODE_TYPE_COLORS.example},stroke:${NODE_TYPE_COLORS.example},color:#1A3A52,stroke-width:2px;
-    classDef nodeDefinition fill:${NODE_TYPE_COLORS.definition},stroke:${NODE_TYPE_COLORS.definition},color:#fff,stroke-width:2px;
-    classDef nodeQuestion fill:${NODE_TYPE_COLORS.question},stroke:${NODE_TYPE_COLORS.question},color:#fff,stroke-width:2px;
+    classDef node-root fill:${NODE_TYPE_COLORS.root},stroke:${NODE_TYPE_COLORS.root},color:#fff,stroke-width:2px;
+    classDef node-supporting fill:${NODE_TYPE_COLORS.supporting},stroke:${NODE_TYPE_COLORS.supporting},color:#fff,stroke-width:2px;
+    classDef node-example fill:${NODE_TYPE_COLORS.example},stroke:${NODE_TYPE_COLORS.example},color:#1A3A52,stroke-width:2px;
+    classDef node-definition fill:${NODE_TYPE_COLORS.definition},stroke:${NODE_TYPE_COLORS.definition},color:#fff,stroke-width:2px;
+    classDef node-question fill:${NODE_TYPE_COLORS.question},stroke:${NODE_TYPE_COLORS.question},color:#fff,stroke-width:2px;
+    classDef node-cluster fill:#FFFFFF,stroke:${NODE_TYPE_COLORS.root},color:#1A3A52,stroke-width:2px,stroke-dasharray:5 5;
 
     classDef nodeWithNotes stroke:${NODE_STATE_COLORS.withNotes},stroke-width:3px;
     classDef nodeMastered fill:${NODE_STATE_COLORS.mastered},stroke:${NODE_STATE_COLORS.mastered},color:#fff;
@@ -239,6 +265,34 @@ export function getMermaidStyleDefinitions(): string {
   `.trim();
 }
 
+/**
+ * Get Mermaid link style for an edge type
+ *
+ * Mermaid styles links by index (`linkStyle 0,2 ...`) rather than by
+ * class, so edge type styles are written out per statement.
+ *
+ * @param edgeType - Type of the edge relationship
+ * @returns Style properties for a linkStyle statement
+ *
+ * @example
+ * ```typescript
+ * `linkStyle 0,2 ${getEdgeLinkStyle('example')};`
+ * // 'linkStyle 0,2 stroke:#00BCD4,stroke-width:2px,stroke-dasharray:5 5;'
+ * ```
+ */
+export function getEdgeLinkStyle(
+  edgeType: 'causal' | 'definitional' | 'example' | 'contrast' | 'related' | string
+): string {
+  const style = EDGE_STYLES[edgeType as keyof typeof EDGE_STYLES] ?? EDGE_STYLES.related;
+  const dash =
+    style.strokeDasharray === 'none'
+      ? ''
+      : `,stroke-dasharray:${style.strokeDasharray.replace(/,/g, ' ')}`;
+
+  // Commas separate properties in linkStyle, so dash arrays use spaces
+  return `stroke:${style.stroke},stroke-width:${style.strokeWidth}px${dash}`;
+}
+
 /**
  * Apply node type styling to Mermaid code
  *
@@ -250,21 +304,12 @@ export function getMermaidStyleDefinitions(): string {
  *
  * @example
  * ```typescript
- * applyNodeStyle("A", "root") // Returns: "class A nodeRoot;"
+ * applyNodeStyle("A", "root") // Returns: "class A node-root;"
  * ```
  */
 export function applyNodeStyle(
   nodeKey: string,
   nodeType: 'root' | 'supporting' | 'example' | 'definition' | 'question'
 ): string {
-  const classMap: Record<string, string> = {
-    root: 'nodeRoot',
-    supporting: 'nodeSupporting',
-    example: 'nodeExample',
-    definition: 'nodeDefinition',
-    question: 'nodeQuestion',
-  };
-
-  const className = classMap[nodeType] || 'nodeSupporting';
-  return `class ${nodeKey} ${className};`;
+  return `class ${nodeKey} ${getNodeTypeClass(nodeType)};`;
 }
@@ -0,0 +1,252 @@
+/**
+ * Local Note Storage
+ *
+ * IndexedDB-backed persistence for notes and the note sync outbox.
+ * Notes are written here first so nothing typed in the note panel is lost
+ * while the connection is down; the outbox records the server operations
+ * that still need to be replayed (see note-sync.ts).
+ *
+ * Falls back to an in-memory store when IndexedDB is unavailable
+ * (server rendering, private browsing modes, Jest/jsdom).
+ */
+
+import type { Note, NoteCreateRequest } from '@/types/api.types';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Kind of server operation waiting in the outbox
+ */
+export type OutboxOperation = 'create' | 'update' | 'delete';
+
+/**
+ * Pending server operation for a note
+ */
+export interface OutboxEntry {
+  /** Monotonic sequence number (assigned by the store, defines replay order) */
+  seq?: number;
+  /** Operation to replay against the notes API */
+  type: OutboxOperation;
+  /** Note ID (a `temp_` ID until the create has been replayed) */
+  noteId: string;
+  /** Graph the note belongs to */
+  graphId: string;
+  /** Node the note is attached to, if any */
+  nodeId?: string | null;
+  /** Create payload (create only) */
+  request?: NoteCreateRequest;
+  /** Latest content (update only) */
+  content?: string;
+  /** Server version the update was based on (update only) */
+  baseVersion?: number;
+  /** Server updatedAt the update was based on (update only) */
+  baseUpdatedAt?: string;
+  /** Server copy that rejected this update; replay is paused until resolved */
+  conflict?: Note;
+  /** When the operation was queued */
+  queuedAt: string;
+  /** Number of failed replay attempts */
+  attempts: number;
+}
+
+/**
+ * Storage backend for local notes and the outbox
+ */
+export interface NoteStore {
+  getNotes: (graphId: string) => Promise<Note[]>;
+  getNote: (noteId: string) => Promise<Note | undefined>;
+  putNote: (note: Note) => Promise<void>;
+  putNotes: (notes: Note[]) => Promise<void>;
+  removeNote: (noteId: string) => Promise<void>;
+  getOutbox: () => Promise<OutboxEntry[]>;
+  addOutboxEntry: (entry: OutboxEntry) => Promise<OutboxEntry>;
+  updateOutboxEntry: (entry: OutboxEntry) => Promise<void>;
+  removeOutboxEntry: (seq: number) => Promise<void>;
+}
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+const DB_NAME = 'graphex-notes';
+const DB_VERSION = 1;
+const NOTES_STORE = 'notes';
+const OUTBOX_STORE = 'outbox';
+
+// ============================================================================
+// IndexedDB Store
+// ============================================================================
+
+/**
+ * Wrap an IDBRequest in a promise
+ */
+function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Open (and upgrade if needed) the notes database
+ */
+function openNoteDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(NOTES_STORE)) {
+        const notes = db.createObjectStore(NOTES_STORE, { keyPath: 'id' });
+        notes.createIndex('graphId', 'graphId', { unique: false });
+      }
+      if (!db.objectStoreNames.contains(OUTBOX_STORE)) {
+        db.createObjectStore(OUTBOX_STORE, {
+          keyPath: 'seq',
+          autoIncrement: true,
+        });
+      }
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Create a note store persisted in IndexedDB
+ *
+ * @returns NoteStore backed by the `graphex-notes` database
+ */
+export function createIndexedDBNoteStore(): NoteStore {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+
+  const getDB = () => {
+    if (!dbPromise) {
+      dbPromise = openNoteDatabase();
+    }
+    return dbPromise;
+  };
+
+  const run = async <T>(
+    storeName: string,
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest<T>
+  ): Promise<T> => {
+    const db = await getDB();
+    const transaction = db.transaction(storeName, mode);
+    return promisifyRequest(operation(transaction.objectStore(storeName)));
+  };
+
+  return {
+    getNotes: (graphId) =>
+      run<Note[]>(NOTES_STORE, 'readonly', (store) =>
+        store.index('graphId').getAll(graphId)
+      ),
+    getNote: (noteId) =>
+      run<Note | undefined>(NOTES_STORE, 'readonly', (store) =>
+        store.get(noteId)
+      ),
+    putNote: async (note) => {
+      await run(NOTES_STORE, 'readwrite', (store) => store.put(note));
+    },
+    putNotes: async (notes) => {
+      const db = await getDB();
+      const transaction = db.transaction(NOTES_STORE, 'readwrite');
+      const store = transaction.objectStore(NOTES_STORE);
+      notes.forEach((note) => store.put(note));
+      await new Promise<void>((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+      });
+    },
+    removeNote: async (noteId) => {
+      await run(NOTES_STORE, 'readwrite', (store) => store.delete(noteId));
+    },
+    getOutbox: () =>
+      run<OutboxEntry[]>(OUTBOX_STORE, 'readonly', (store) => store.getAll()),
+    addOutboxEntry: async (entry) => {
+      const { seq: _ignored, ...rest } = entry;
+      const seq = await run<IDBValidKey>(OUTBOX_STORE, 'readwrite', (store) =>
+        store.add(rest)
+      );
+      return { ...rest, seq: seq as number };
+    },
+    updateOutboxEntry: async (entry) => {
+      await run(OUTBOX_STORE, 'readwrite', (store) => store.put(entry));
+    },
+    removeOutboxEntry: async (seq) => {
+      await run(OUTBOX_STORE, 'readwrite', (store) => store.delete(seq));
+    },
+  };
+}
+
+// ============================================================================
+// In-Memory Store
+// ============================================================================
+
+/**
+ * Create a non-persistent note store
+ *
+ * Used when IndexedDB is unavailable and in tests.
+ *
+ * @returns NoteStore held in memory
+ */
+export function createMemoryNoteStore(): NoteStore {
+  const notes = new Map<string, Note>();
+  const outbox = new Map<number, OutboxEntry>();
+  let nextSeq = 1;
+
+  return {
+    getNotes: async (graphId) =>
+      Array.from(notes.values()).filter((note) => note.graphId === graphId),
+    getNote: async (noteId) => notes.get(noteId),
+    putNote: async (note) => {
+      notes.set(note.id, note);
+    },
+    putNotes: async (items) => {
+      items.forEach((note) => notes.set(note.id, note));
+    },
+    removeNote: async (noteId) => {
+      notes.delete(noteId);
+    },
+    getOutbox: async () =>
+      Array.from(outbox.values()).sort((a, b) => a.seq! - b.seq!),
+    addOutboxEntry: async (entry) => {
+      const stored = { ...entry, seq: nextSeq++ };
+      outbox.set(stored.seq, stored);
+      return stored;
+    },
+    updateOutboxEntry: async (entry) => {
+      if (entry.seq !== undefined) {
+        outbox.set(entry.seq, entry);
+      }
+    },
+    removeOutboxEntry: async (seq) => {
+      outbox.delete(seq);
+    },
+  };
+}
+
+// ============================================================================
+// Default Store
+// ============================================================================
+
+let defaultStore: NoteStore | null = null;
+
+/**
+ * Get the shared note store for this browser session
+ *
+ * @returns IndexedDB store when available, in-memory store otherwise
+ */
+export function getNoteStore(): NoteStore {
+  if (!defaultStore) {
+    defaultStore =
+      typeof indexedDB !== 'undefined'
+        ? createIndexedDBNoteStore()
+        : createMemoryNoteStore();
+  }
+  return defaultStore;
+}
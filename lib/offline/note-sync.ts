@@ -0,0 +1,688 @@
+/**
+ * Note Sync Outbox
+ *
+ * Offline-first write path for notes. Every create/update/delete is applied
+ * to the local note store immediately and recorded in a durable outbox.
+ * The outbox is replayed against the notes API in order whenever the
+ * browser is (or comes back) online.
+ *
+ * Notes created offline get a `temp_` ID. When their create is replayed the
+ * temp ID is swapped for the server ID everywhere: the local store, queued
+ * operations, and later calls that still reference the temp ID.
+ *
+ * Updates carry the version they were based on. When the server reports a
+ * CONFLICT the entry stays in the outbox, flagged with the server copy,
+ * until the user merges the two versions (resolveConflict) or keeps the
+ * server copy (discardLocal).
+ */
+
+import {
+  createNote as apiCreateNote,
+  updateNote as apiUpdateNote,
+  deleteNote as apiDeleteNote,
+  getNotes as apiGetNotes,
+  getNoteConflict,
+} from '@/lib/api/notes';
+import { shouldRetry, type NormalizedAPIError } from '@/lib/api-client';
+import { getNoteStore, type NoteStore, type OutboxEntry } from './note-store';
+import type {
+  Note,
+  NoteCreateRequest,
+  NoteUpdateRequest,
+} from '@/types/api.types';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Subset of the notes API used for replay (injectable for tests)
+ */
+export interface NoteSyncAPI {
+  createNote: (request: NoteCreateRequest) => Promise<Note>;
+  updateNote: (noteId: string, request: NoteUpdateRequest) => Promise<Note>;
+  deleteNote: (noteId: string) => Promise<void>;
+  getNotes: (graphId: string) => Promise<Note[]>;
+}
+
+/**
+ * Local edit rejected because the server copy changed underneath it
+ */
+export interface NoteConflict {
+  noteId: string;
+  graphId: string;
+  /** Content the user wrote locally */
+  localContent: string;
+  /** Current server copy */
+  serverNote: Note;
+}
+
+/**
+ * Note with an operation waiting to reach the server
+ */
+export interface PendingNote {
+  noteId: string;
+  graphId: string;
+  nodeId: string | null;
+}
+
+/**
+ * Observable sync state
+ */
+export interface NoteSyncStatus {
+  /** Number of operations waiting to reach the server */
+  pendingCount: number;
+  /** Notes those operations belong to, one per operation */
+  pendingNotes: PendingNote[];
+  /** Updates blocked on a merge decision */
+  conflicts: NoteConflict[];
+  /** Whether the outbox is currently being replayed */
+  isSyncing: boolean;
+  /** Last error that caused an operation to be dropped */
+  lastError: NormalizedAPIError | null;
+  /** Time of the last replay that emptied the outbox */
+  lastSyncedAt: Date | null;
+}
+
+/**
+ * Result of replaying the outbox
+ */
+export interface NoteSyncResult {
+  /** Operations successfully sent */
+  synced: number;
+  /** Operations still waiting (network down or server unavailable) */
+  remaining: number;
+  /** temp ID → server ID mappings resolved during this replay */
+  resolvedIds: Record<string, string>;
+}
+
+export interface NoteSync {
+  createNote: (request: NoteCreateRequest) => Promise<Note>;
+  updateNote: (noteId: string, graphId: string, content: string) => Promise<Note>;
+  deleteNote: (noteId: string, graphId: string) => Promise<void>;
+  resolveConflict: (noteId: string, content: string) => Promise<Note | undefined>;
+  discardLocal: (noteId: string) => Promise<Note | undefined>;
+  loadNotes: (graphId: string) => Promise<Note[]>;
+  resolveId: (noteId: string) => string;
+  flush: () => Promise<NoteSyncResult>;
+  getStatus: () => NoteSyncStatus;
+  subscribe: (listener: () => void) => () => void;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+export const TEMP_ID_PREFIX = 'temp_';
+
+/**
+ * Whether a note ID was generated locally and not yet confirmed by the server
+ */
+export function isTempNoteId(noteId: string): boolean {
+  return noteId.startsWith(TEMP_ID_PREFIX);
+}
+
+function generateTempId(): string {
+  return `${TEMP_ID_PREFIX}${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+}
+
+function isOffline(): boolean {
+  return typeof navigator !== 'undefined' && navigator.onLine === false;
+}
+
+/**
+ * Errors without a status (not normalized by the API client) are treated
+ * as transient so the operation stays queued.
+ */
+function isRetryable(error: unknown): boolean {
+  const status = (error as NormalizedAPIError | undefined)?.status;
+  if (typeof status !== 'number') return true;
+  return shouldRetry(error as NormalizedAPIError);
+}
+
+/**
+ * Collect unresolved conflicts from the outbox
+ */
+function getConflicts(outbox: OutboxEntry[]): NoteConflict[] {
+  return outbox
+    .filter((entry) => entry.conflict)
+    .map((entry) => ({
+      noteId: entry.noteId,
+      graphId: entry.graphId,
+      localContent: entry.content ?? '',
+      serverNote: entry.conflict!,
+    }));
+}
+
+/**
+ * Collect the notes behind queued operations
+ */
+function getPendingNotes(outbox: OutboxEntry[]): PendingNote[] {
+  return outbox.map((entry) => ({
+    noteId: entry.noteId,
+    graphId: entry.graphId,
+    nodeId: entry.nodeId ?? entry.request?.nodeId ?? null,
+  }));
+}
+
+/**
+ * Overlay queued operations on top of a server note list
+ *
+ * Server data may lag behind the outbox, so pending creates are appended,
+ * pending updates win over server content, and pending deletes are removed.
+ */
+function applyOutbox(
+  serverNotes: Note[],
+  localNotes: Note[],
+  outbox: OutboxEntry[],
+  graphId: string
+): Note[] {
+  const localById = new Map(localNotes.map((note) => [note.id, note]));
+  const notes = new Map(serverNotes.map((note) => [note.id, note]));
+
+  outbox
+    .filter((entry) => entry.graphId === graphId)
+    .forEach((entry) => {
+      if (entry.type === 'delete') {
+        notes.delete(entry.noteId);
+        return;
+      }
+      const local = localById.get(entry.noteId);
+      if (local) {
+        notes.set(entry.noteId, local);
+      }
+    });
+
+  return Array.from(notes.values());
+}
+
+// ============================================================================
+// Factory
+// ============================================================================
+
+/**
+ * Create a note sync engine
+ *
+ * @param store - Local note store (defaults to the shared IndexedDB store)
+ * @param api - Notes API (defaults to lib/api/notes)
+ * @returns Note sync engine
+ *
+ * @example
+ * ```typescript
+ * const sync = createNoteSync();
+ * const note = await sync.createNote({ graphId, nodeId, content });
+ * // note.id is temp_* until the outbox is replayed
+ * window.addEventListener('online', () => sync.flush());
+ * ```
+ */
+export function createNoteSync(
+  store: NoteStore = getNoteStore(),
+  api: NoteSyncAPI = {
+    createNote: apiCreateNote,
+    updateNote: apiUpdateNote,
+    deleteNote: apiDeleteNote,
+    getNotes: apiGetNotes,
+  }
+): NoteSync {
+  const listeners = new Set<() => void>();
+  const resolvedIds = new Map<string, string>();
+  let status: NoteSyncStatus = {
+    pendingCount: 0,
+    pendingNotes: [],
+    conflicts: [],
+    isSyncing: false,
+    lastError: null,
+    lastSyncedAt: null,
+  };
+  let activeFlush: Promise<NoteSyncResult> | null = null;
+  let flushRequested = false;
+
+  const setStatus = (patch: Partial<NoteSyncStatus>) => {
+    status = { ...status, ...patch };
+    listeners.forEach((listener) => listener());
+  };
+
+  const refreshStatus = async () => {
+    const outbox = await store.getOutbox();
+    setStatus({
+      pendingCount: outbox.length,
+      pendingNotes: getPendingNotes(outbox),
+      conflicts: getConflicts(outbox),
+    });
+  };
+
+  const resolveId = (noteId: string) => resolvedIds.get(noteId) ?? noteId;
+
+  /**
+   * Re-read an outbox entry; writes may change it while a request is in flight
+   */
+  const findOutboxEntry = async (seq: number) =>
+    (await store.getOutbox()).find((entry) => entry.seq === seq);
+
+  // --------------------------------------------------------------------------
+  // Replay
+  // --------------------------------------------------------------------------
+
+  const replay = async (): Promise<NoteSyncResult> => {
+    const result: NoteSyncResult = { synced: 0, remaining: 0, resolvedIds: {} };
+    setStatus({ isSyncing: true });
+
+    try {
+      const outbox = await store.getOutbox();
+
+      for (let index = 0; index < outbox.length; index++) {
+        const entry = outbox[index];
+        const noteId = resolveId(entry.noteId);
+
+        // Waiting on the user to merge - later notes are independent
+        if (entry.conflict) continue;
+
+        try {
+          if (entry.type === 'create' && entry.request) {
+            const serverNote = await api.createNote(entry.request);
+            const local = await store.getNote(entry.noteId);
+            const current = await findOutboxEntry(entry.seq!);
+            resolvedIds.set(entry.noteId, serverNote.id);
+            result.resolvedIds[entry.noteId] = serverNote.id;
+
+            if (!local) {
+              // Deleted while the create was in flight - remove it remotely too
+              await store.addOutboxEntry({
+                type: 'delete',
+                noteId: serverNote.id,
+                graphId: entry.graphId,
+                nodeId: entry.nodeId,
+                queuedAt: new Date().toISOString(),
+                attempts: 0,
+              });
+            } else {
+              await store.removeNote(entry.noteId);
+              // Local content may be newer than what was sent
+              await store.putNote({ ...local, ...serverNote, content: local.content });
+            }
+
+            // Point later queued operations at the server ID
+            for (const later of outbox.slice(index + 1)) {
+              if (later.noteId === entry.noteId) {
+                later.noteId = serverNote.id;
+                await store.updateOutboxEntry(later);
+              }
+            }
+
+            if (current?.request && current.request.content !== entry.request.content) {
+              // Edited while the create was in flight - send the rest as an update
+              await store.updateOutboxEntry({
+                seq: current.seq,
+                type: 'update',
+                noteId: serverNote.id,
+                graphId: current.graphId,
+                nodeId: current.nodeId,
+                content: current.request.content,
+                baseVersion: serverNote.version,
+                baseUpdatedAt: serverNote.updatedAt,
+                queuedAt: current.queuedAt,
+                attempts: 0,
+              });
+            } else {
+              await store.removeOutboxEntry(entry.seq!);
+            }
+          } else if (entry.type === 'update') {
+            const serverNote = await api.updateNote(noteId, {
+              content: entry.content ?? '',
+              version: entry.baseVersion,
+              updatedAt: entry.baseUpdatedAt,
+            });
+            const local = await store.getNote(noteId);
+            const current = await findOutboxEntry(entry.seq!);
+            if (local) {
+              await store.putNote({
+                ...local,
+                ...serverNote,
+                id: noteId,
+                content: local.content,
+              });
+            }
+
+            if (
+              current &&
+              (current.queuedAt !== entry.queuedAt || current.content !== entry.content)
+            ) {
+              // Edited while the update was in flight - rebase the newer content
+              await store.updateOutboxEntry({
+                ...current,
+                baseVersion: serverNote.version,
+                baseUpdatedAt: serverNote.updatedAt,
+                attempts: 0,
+              });
+            } else {
+              await store.removeOutboxEntry(entry.seq!);
+            }
+          } else if (entry.type === 'delete') {
+            await api.deleteNote(noteId);
+            await store.removeOutboxEntry(entry.seq!);
+          }
+
+          result.synced++;
+        } catch (error) {
+          // A 404 on delete means the server already agrees
+          if (
+            entry.type === 'delete' &&
+            (error as NormalizedAPIError)?.status === 404
+          ) {
+            await store.removeOutboxEntry(entry.seq!);
+            result.synced++;
+            continue;
+          }
+
+          // Deleted or edited while the request was in flight
+          const current = await findOutboxEntry(entry.seq!);
+          if (!current) continue;
+
+          const serverNote = entry.type === 'update' ? getNoteConflict(error) : null;
+          if (serverNote) {
+            await store.updateOutboxEntry({ ...current, conflict: serverNote });
+            continue;
+          }
+
+          if (isRetryable(error)) {
+            // Keep order: nothing after this entry may run before it
+            await store.updateOutboxEntry({
+              ...current,
+              attempts: current.attempts + 1,
+            });
+            result.remaining = outbox.length - index;
+            break;
+          }
+
+          // Rejected by the server - retrying would fail the same way
+          console.error('[NoteSync] Dropping rejected operation:', entry, error);
+          await store.removeOutboxEntry(entry.seq!);
+          setStatus({ lastError: error as NormalizedAPIError });
+        }
+      }
+    } finally {
+      const outbox = await store.getOutbox();
+      setStatus({
+        isSyncing: false,
+        pendingCount: outbox.length,
+        pendingNotes: getPendingNotes(outbox),
+        conflicts: getConflicts(outbox),
+        ...(outbox.length === 0 ? { lastSyncedAt: new Date() } : {}),
+      });
+    }
+
+    return result;
+  };
+
+  /**
+   * Replay the outbox, once more if writes arrived during the replay
+   * (they may have queued operations the running replay has not seen)
+   */
+  const flush = (): Promise<NoteSyncResult> => {
+    if (activeFlush) {
+      flushRequested = true;
+      return activeFlush;
+    }
+
+    activeFlush = (async () => {
+      const total: NoteSyncResult = { synced: 0, remaining: 0, resolvedIds: {} };
+      do {
+        flushRequested = false;
+        const result = await replay();
+        total.synced += result.synced;
+        total.remaining = result.remaining;
+        Object.assign(total.resolvedIds, result.resolvedIds);
+      } while (flushRequested);
+      return total;
+    })().finally(() => {
+      activeFlush = null;
+    });
+    return activeFlush;
+  };
+
+  /**
+   * Try to push the outbox right away; failures leave it queued.
+   */
+  const tryFlush = async () => {
+    if (isOffline()) return;
+    try {
+      await flush();
+    } catch (error) {
+      console.error('[NoteSync] Replay failed:', error);
+    }
+  };
+
+  // --------------------------------------------------------------------------
+  // Writes
+  // --------------------------------------------------------------------------
+
+  const createNote = async (request: NoteCreateRequest): Promise<Note> => {
+    const now = new Date().toISOString();
+    const note: Note = {
+      id: generateTempId(),
+      graphId: request.graphId,
+      nodeId: request.nodeId ?? null,
+      edgeId: request.edgeId ?? null,
+      content: request.content,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    await store.putNote(note);
+    await store.addOutboxEntry({
+      type: 'create',
+      noteId: note.id,
+      graphId: note.graphId,
+      nodeId: note.nodeId,
+      request,
+      queuedAt: now,
+      attempts: 0,
+    });
+    await refreshStatus();
+    await tryFlush();
+
+    return (await store.getNote(resolveId(note.id))) ?? note;
+  };
+
+  const updateNote = async (
+    rawNoteId: string,
+    graphId: string,
+    content: string
+  ): Promise<Note> => {
+    const noteId = resolveId(rawNoteId);
+    const now = new Date().toISOString();
+    const existing = await store.getNote(noteId);
+    const note: Note = existing
+      ? { ...existing, content, updatedAt: now }
+      : {
+          id: noteId,
+          graphId,
+          nodeId: null,
+          edgeId: null,
+          content,
+          createdAt: now,
+          updatedAt: now,
+        };
+    await store.putNote(note);
+
+    const outbox = await store.getOutbox();
+    const pendingCreate = outbox.find(
+      (entry) => entry.type === 'create' && entry.noteId === noteId
+    );
+    const pendingUpdate = outbox.find(
+      (entry) => entry.type === 'update' && entry.noteId === noteId
+    );
+
+    if (pendingCreate?.request) {
+      // Not on the server yet - fold the edit into the create
+      await store.updateOutboxEntry({
+        ...pendingCreate,
+        request: { ...pendingCreate.request, content },
+      });
+    } else if (pendingUpdate) {
+      // Only the latest content matters; keep the original base version
+      await store.updateOutboxEntry({ ...pendingUpdate, content, queuedAt: now });
+    } else {
+      await store.addOutboxEntry({
+        type: 'update',
+        noteId,
+        graphId,
+        nodeId: note.nodeId,
+        content,
+        baseVersion: existing?.version,
+        baseUpdatedAt: existing?.updatedAt,
+        queuedAt: now,
+        attempts: 0,
+      });
+    }
+
+    await refreshStatus();
+    await tryFlush();
+
+    return (await store.getNote(resolveId(noteId))) ?? note;
+  };
+
+  const deleteNote = async (rawNoteId: string, graphId: string) => {
+    const noteId = resolveId(rawNoteId);
+    const existing = await store.getNote(noteId);
+    await store.removeNote(noteId);
+
+    const outbox = await store.getOutbox();
+    const pending = outbox.filter((entry) => entry.noteId === noteId);
+    const hadPendingCreate = pending.some((entry) => entry.type === 'create');
+
+    for (const entry of pending) {
+      await store.removeOutboxEntry(entry.seq!);
+    }
+
+    // A note that never reached the server has nothing to delete remotely
+    // (a create still in flight queues the delete when it returns)
+    if (!hadPendingCreate) {
+      await store.addOutboxEntry({
+        type: 'delete',
+        noteId,
+        graphId,
+        nodeId: existing?.nodeId ?? null,
+        queuedAt: new Date().toISOString(),
+        attempts: 0,
+      });
+    }
+
+    await refreshStatus();
+    await tryFlush();
+  };
+
+  const resolveConflict = async (
+    rawNoteId: string,
+    content: string
+  ): Promise<Note | undefined> => {
+    const noteId = resolveId(rawNoteId);
+    const outbox = await store.getOutbox();
+    const entry = outbox.find(
+      (item) => item.type === 'update' && item.noteId === noteId && item.conflict
+    );
+    if (!entry?.conflict) return store.getNote(noteId);
+
+    const serverNote = entry.conflict;
+    await store.putNote({ ...serverNote, content });
+
+    // Rebase the edit onto the server copy the user merged against
+    await store.updateOutboxEntry({
+      ...entry,
+      content,
+      baseVersion: serverNote.version,
+      baseUpdatedAt: serverNote.updatedAt,
+      conflict: undefined,
+      attempts: 0,
+    });
+
+    await refreshStatus();
+    await tryFlush();
+
+    return store.getNote(resolveId(noteId));
+  };
+
+  const discardLocal = async (rawNoteId: string): Promise<Note | undefined> => {
+    const noteId = resolveId(rawNoteId);
+    const outbox = await store.getOutbox();
+    const entry = outbox.find(
+      (item) => item.type === 'update' && item.noteId === noteId && item.conflict
+    );
+    if (!entry?.conflict) return store.getNote(noteId);
+
+    // The server copy is already saved - nothing to send
+    await store.putNote(entry.conflict);
+    await store.removeOutboxEntry(entry.seq!);
+
+    await refreshStatus();
+
+    return store.getNote(noteId);
+  };
+
+  // --------------------------------------------------------------------------
+  // Reads
+  // --------------------------------------------------------------------------
+
+  const loadNotes = async (graphId: string): Promise<Note[]> => {
+    const [localNotes, outbox] = await Promise.all([
+      store.getNotes(graphId),
+      store.getOutbox(),
+    ]);
+
+    try {
+      const serverNotes = await api.getNotes(graphId);
+
+      // Refresh the local copy, keeping notes with queued changes intact
+      const queuedIds = new Set(outbox.map((entry) => entry.noteId));
+      const serverIds = new Set(serverNotes.map((note) => note.id));
+      await store.putNotes(serverNotes.filter((note) => !queuedIds.has(note.id)));
+      for (const note of localNotes) {
+        if (!serverIds.has(note.id) && !queuedIds.has(note.id)) {
+          await store.removeNote(note.id);
+        }
+      }
+
+      return applyOutbox(serverNotes, localNotes, outbox, graphId);
+    } catch (error) {
+      // Serve the local copy while the server is unreachable
+      if ((error as NormalizedAPIError)?.status === 0) {
+        return localNotes;
+      }
+      throw error;
+    }
+  };
+
+  return {
+    createNote,
+    updateNote,
+    deleteNote,
+    resolveConflict,
+    discardLocal,
+    loadNotes,
+    resolveId,
+    flush,
+    getStatus: () => status,
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
+
+// ============================================================================
+// Shared Instance
+// ============================================================================
+
+let defaultSync: NoteSync | null = null;
+
+/**
+ * Get the shared note sync engine for this browser session
+ */
+export function getNoteSync(): NoteSync {
+  if (!defaultSync) {
+    defaultSync = createNoteSync();
+  }
+  return defaultSync;
+}
@@ -0,0 +1,268 @@
+/**
+ * Passage Index
+ *
+ * Reverse index from document passages to the graph nodes that cite them,
+ * built from `GraphNode.documentRefs` (page + bounding box, for PDFs) and
+ * `legacyDocumentRefs` (character offsets into `Document.content`). The
+ * reading panel uses it to find the nodes behind a clicked passage and to
+ * lay out the gutter of node badges beside the text.
+ */
+
+import { getParagraphStarts } from './highlights';
+import { splitParagraphs } from './document-search';
+import { getReferenceRegions, type PageRegion } from './pdf-utils';
+import type { GraphNode } from '@/types/api.types';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Character range in `Document.content` cited by a node
+ */
+export interface TextPassage {
+  nodeId: string;
+  /** Start offset in Document.content */
+  start: number;
+  /** End offset in Document.content (exclusive) */
+  end: number;
+}
+
+/**
+ * Region of a PDF page cited by a node
+ */
+export interface PagePassage extends PageRegion {
+  nodeId: string;
+}
+
+/**
+ * Cited passages, sorted in reading order
+ */
+export interface PassageIndex {
+  text: TextPassage[];
+  pages: PagePassage[];
+}
+
+/**
+ * Gutter entry beside a paragraph of a text document
+ */
+export interface ParagraphGutterMark {
+  paragraphIndex: number;
+  nodeIds: string[];
+}
+
+/**
+ * Gutter entry beside a cited region of a PDF page
+ */
+export interface PageGutterMark {
+  key: string;
+  /** 0-indexed page number */
+  page: number;
+  /** Top edge in PDF coordinates (y grows upward) */
+  top: number;
+  /** Bottom edge in PDF coordinates */
+  bottom: number;
+  nodeIds: string[];
+  /** Column in the gutter, so overlapping marks sit side by side */
+  lane: number;
+}
+
+// ============================================================================
+// Index
+// ============================================================================
+
+/**
+ * Build the passage index for a graph
+ *
+ * @param nodes - Graph nodes with their document references
+ * @returns Text and PDF passages in reading order
+ *
+ * @example
+ * ```typescript
+ * const index = buildPassageIndex(graph.nodes);
+ * findNodesAtOffset(index, 512); // ['node_2']
+ * ```
+ */
+export function buildPassageIndex(nodes: GraphNode[]): PassageIndex {
+  const text = nodes.flatMap((node) =>
+    (node.legacyDocumentRefs ?? []).map((ref) => ({
+      nodeId: node.id,
+      start: ref.start,
+      end: ref.end,
+    }))
+  );
+
+  const pages = nodes.flatMap((node) =>
+    getReferenceRegions(node.documentRefs?.references ?? []).map((region) => ({
+      ...region,
+      nodeId: node.id,
+    }))
+  );
+
+  text.sort((a, b) => a.start - b.start || a.end - b.end);
+  pages.sort((a, b) => a.page - b.page || getTop(b) - getTop(a));
+
+  return { text, pages };
+}
+
+/**
+ * Top edge of a region in PDF coordinates
+ */
+function getTop(region: PageRegion): number {
+  return region.bbox.y + region.bbox.height;
+}
+
+/**
+ * Node IDs of the passages, without duplicates, in passage order
+ */
+function uniqueNodeIds(passages: { nodeId: string }[]): string[] {
+  return Array.from(new Set(passages.map((passage) => passage.nodeId)));
+}
+
+// ============================================================================
+// Lookup
+// ============================================================================
+
+/**
+ * Nodes citing the character at an offset
+ *
+ * @param index - Passage index
+ * @param offset - Offset in Document.content
+ * @returns Node IDs in passage order
+ */
+export function findNodesAtOffset(index: PassageIndex, offset: number): string[] {
+  return uniqueNodeIds(
+    index.text.filter((passage) => passage.start <= offset && offset < passage.end)
+  );
+}
+
+/**
+ * Nodes citing any part of a character range
+ *
+ * @param index - Passage index
+ * @param start - Start offset in Document.content
+ * @param end - End offset in Document.content (exclusive)
+ * @returns Node IDs in passage order
+ */
+export function findNodesInRange(index: PassageIndex, start: number, end: number): string[] {
+  return uniqueNodeIds(
+    index.text.filter((passage) => passage.start < end && start < passage.end)
+  );
+}
+
+/**
+ * Nodes citing a point on a PDF page
+ *
+ * @param index - Passage index
+ * @param page - 0-indexed page number
+ * @param point - Point in PDF coordinates
+ * @returns Node IDs in passage order
+ */
+export function findNodesAtPoint(
+  index: PassageIndex,
+  page: number,
+  point: { x: number; y: number }
+): string[] {
+  return uniqueNodeIds(
+    index.pages.filter(
+      ({ page: passagePage, bbox }) =>
+        passagePage === page &&
+        point.x >= bbox.x &&
+        point.x <= bbox.x + bbox.width &&
+        point.y >= bbox.y &&
+        point.y <= bbox.y + bbox.height
+    )
+  );
+}
+
+// ============================================================================
+// Gutter Layout
+// ============================================================================
+
+/**
+ * Gutter marks for the paragraphs DocumentViewer renders
+ *
+ * @param index - Passage index
+ * @param content - Full document text
+ * @returns One mark per paragraph cited by at least one node
+ */
+export function getParagraphGutterMarks(
+  index: PassageIndex,
+  content: string
+): ParagraphGutterMark[] {
+  if (index.text.length === 0) return [];
+
+  const starts = getParagraphStarts(content);
+
+  return splitParagraphs(content).flatMap((paragraph, paragraphIndex) => {
+    const start = starts[paragraphIndex];
+    const nodeIds = findNodesInRange(index, start, start + paragraph.length);
+    return nodeIds.length > 0 ? [{ paragraphIndex, nodeIds }] : [];
+  });
+}
+
+/**
+ * Gutter marks for cited PDF regions
+ *
+ * Regions with the same vertical extent share a mark; marks that overlap
+ * vertically are given separate lanes.
+ *
+ * @param index - Passage index
+ * @returns Marks in reading order
+ */
+export function getPageGutterMarks(index: PassageIndex): PageGutterMark[] {
+  const marks: PageGutterMark[] = [];
+
+  index.pages.forEach((passage) => {
+    const top = Math.round(getTop(passage));
+    const bottom = Math.round(passage.bbox.y);
+    const key = `${passage.page}:${top}:${bottom}`;
+
+    const existing = marks.find((mark) => mark.key === key);
+    if (existing) {
+      if (!existing.nodeIds.includes(passage.nodeId)) {
+        existing.nodeIds.push(passage.nodeId);
+      }
+      return;
+    }
+
+    // First lane not taken by an overlapping mark on the same page
+    const takenLanes = new Set(
+      marks
+        .filter((mark) => mark.page === passage.page && mark.bottom < top && bottom < mark.top)
+        .map((mark) => mark.lane)
+    );
+    let lane = 0;
+    while (takenLanes.has(lane)) lane += 1;
+
+    marks.push({ key, page: passage.page, top, bottom, nodeIds: [passage.nodeId], lane });
+  });
+
+  return marks;
+}
+
+// ============================================================================
+// Reading Position
+// ============================================================================
+
+/**
+ * Nodes whose gutter marks span a horizontal line in the viewport
+ *
+ * Both viewers render each gutter mark as an element with `data-node-ids`
+ * stretched over the cited passage, so the marks crossing the reader's
+ * line of sight identify the passage being read.
+ *
+ * @param container - Element containing the rendered gutter
+ * @param y - Line position in viewport coordinates
+ * @returns Node IDs in document order
+ */
+export function findNodesAtLine(container: ParentNode, y: number): string[] {
+  const nodeIds = Array.from(container.querySelectorAll<HTMLElement>('[data-node-ids]'))
+    .filter((element) => {
+      const rect = element.getBoundingClientRect();
+      return rect.top <= y && y <= rect.bottom;
+    })
+    .flatMap((element) => element.dataset.nodeIds?.split(' ') ?? []);
+
+  return Array.from(new Set(nodeIds));
+}
@@ -67,6 +67,43 @@ export function pdfToCanvasCoords(
   };
 }
 
+/**
+ * Convert Canvas coordinates back to PDF coordinates
+ *
+ * Inverse of `pdfToCanvasCoords`, used to turn a selection on a rendered
+ * page into a bounding box that can be stored with a reference.
+ *
+ * @param canvasCoords - Bounding box in canvas coordinate system
+ * @param pageHeight - Page height in PDF points
+ * @param scale - Rendering scale factor (e.g., 1.5)
+ * @returns Bounding box in PDF coordinate system
+ *
+ * @example
+ * ```typescript
+ * const pdfCoords = canvasToPdfCoords(
+ *   { x: 108, y: 72, width: 600, height: 36 },
+ *   792,
+ *   1.5
+ * );
+ * // Returns: { x: 72, y: 720, width: 400, height: 24 }
+ * ```
+ */
+export function canvasToPdfCoords(
+  canvasCoords: { x: number; y: number; width: number; height: number },
+  pageHeight: number,
+  scale: number
+): { x: number; y: number; width: number; height: number } {
+  const width = canvasCoords.width / scale;
+  const height = canvasCoords.height / scale;
+
+  return {
+    x: canvasCoords.x / scale,
+    y: pageHeight - canvasCoords.y / scale - height,
+    width,
+    height,
+  };
+}
+
 // ============================================================================
 // Reference Detection
 // ============================================================================
@@ -106,6 +143,44 @@ export function isCrossPageReference(
   return 'pages' in ref && Array.isArray(ref.coordinates);
 }
 
+/**
+ * Highlight region on one page
+ */
+export interface PageRegion {
+  /** 0-indexed page number */
+  page: number;
+  /** Bounding box in PDF coordinates */
+  bbox: { x: number; y: number; width: number; height: number };
+}
+
+/**
+ * Region drawn as an HTML overlay (see createHighlightOverlay)
+ */
+export interface OverlayRegion extends PageRegion {
+  /** Identifies the overlay; several regions may share an ID */
+  id: string;
+  config?: HighlightConfig;
+}
+
+/**
+ * Flatten references into per-page regions
+ *
+ * @param references - Array of node document references
+ * @returns One region per page a reference touches
+ */
+export function getReferenceRegions(references: NodeDocumentReference[]): PageRegion[] {
+  return references.flatMap((ref): PageRegion[] => {
+    if (isSinglePageReference(ref)) {
+      return [{ page: ref.page, bbox: ref.coordinates }];
+    }
+    if (isCrossPageReference(ref)) {
+      return ref.coordinates.map((coord) => ({ page: coord.page, bbox: coord.bbox }));
+    }
+    console.warn('[getReferenceRegions] Invalid reference format:', ref);
+    return [];
+  });
+}
+
 // ============================================================================
 // Canvas Highlighting
 // ============================================================================
@@ -162,17 +237,59 @@ export function highlightOnCanvas(
   ctx.strokeRect(bbox.x, bbox.y, bbox.width, bbox.height);
 }
 
+/**
+ * Highlights currently applied, per page
+ *
+ * PDFViewer paints pages lazily and releases off-screen canvases, so
+ * highlights are remembered here and redrawn whenever a page is painted.
+ */
+const activeHighlights = new Map<
+  number,
+  Array<{ bbox: PageRegion['bbox']; pageHeight: number; scale: number; config: HighlightConfig }>
+>();
+
+/**
+ * Draw a region on a page canvas if the page has finished painting
+ */
+function drawRegion(
+  pageNumber: number,
+  pdfCoords: PageRegion['bbox'],
+  pageHeight: number,
+  scale: number,
+  config: HighlightConfig
+): boolean {
+  const canvas = document.querySelector(
+    `canvas[data-page-number="${pageNumber}"]`
+  ) as HTMLCanvasElement | null;
+
+  // Unpainted (or still rendering) pages pick the highlight up when painted
+  if (!canvas || canvas.dataset.rendered === 'false') {
+    return false;
+  }
+
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    console.warn(`[highlightTextRegion] Could not get 2D context for page ${pageNumber}`);
+    return false;
+  }
+
+  highlightOnCanvas(ctx, pdfToCanvasCoords(pdfCoords, pageHeight, scale), config);
+  return true;
+}
+
 /**
  * Highlight a text region on a specific page canvas
  *
- * Automatically handles PDF to canvas coordinate conversion.
+ * Automatically handles PDF to canvas coordinate conversion. The highlight
+ * is remembered, so a page that has not been painted yet (or was released
+ * while off-screen) shows it once `redrawPageHighlights` runs for it.
  *
  * @param pageNumber - 0-indexed page number
  * @param pdfCoords - Bounding box in PDF coordinates
  * @param pageHeight - Page height in PDF points
  * @param scale - Rendering scale
  * @param config - Highlight styling configuration
- * @returns True if highlight was successful, false if canvas not found
+ * @returns True if drawn now, false if the page is not painted yet
  *
  * @example
  * ```typescript
@@ -191,38 +308,108 @@ export function highlightTextRegion(
   scale: number,
   config: HighlightConfig = {}
 ): boolean {
-  // Find the canvas for this page
-  const canvas = document.querySelector(
-    `canvas[data-page-number="${pageNumber}"]`
-  ) as HTMLCanvasElement | null;
+  activeHighlights.set(pageNumber, [
+    ...(activeHighlights.get(pageNumber) ?? []),
+    { bbox: pdfCoords, pageHeight, scale, config },
+  ]);
 
-  if (!canvas) {
-    console.warn(`[highlightTextRegion] Canvas not found for page ${pageNumber}`);
-    return false;
-  }
+  return drawRegion(pageNumber, pdfCoords, pageHeight, scale, config);
+}
 
-  // Get canvas context
-  const ctx = canvas.getContext('2d');
-  if (!ctx) {
-    console.warn(`[highlightTextRegion] Could not get 2D context for page ${pageNumber}`);
-    return false;
-  }
+/**
+ * Redraw remembered highlights on a page that was just painted
+ *
+ * @param pageNumber - 0-indexed page number
+ * @returns Number of regions drawn
+ */
+export function redrawPageHighlights(pageNumber: number): number {
+  const regions = activeHighlights.get(pageNumber) ?? [];
+  return regions.filter(({ bbox, pageHeight, scale, config }) =>
+    drawRegion(pageNumber, bbox, pageHeight, scale, config)
+  ).length;
+}
 
-  // Convert PDF coordinates to canvas coordinates
-  const canvasCoords = pdfToCanvasCoords(pdfCoords, pageHeight, scale);
+/**
+ * Forget all remembered highlights
+ *
+ * Canvases keep what was drawn on them; repaint the returned pages to
+ * remove old highlights visually.
+ *
+ * @returns Pages that had highlights
+ */
+export function clearHighlights(): number[] {
+  const pages = Array.from(activeHighlights.keys());
+  activeHighlights.clear();
+  return pages;
+}
 
-  console.log('[highlightTextRegion] Drawing highlight:', {
-    pageNumber,
-    pdfCoords,
-    canvasCoords,
-    pageHeight,
-    scale,
-  });
+// ============================================================================
+// Text Selection
+// ============================================================================
 
-  // Draw highlight
-  highlightOnCanvas(ctx, canvasCoords, config);
+/**
+ * Text selected on a rendered PDF page
+ */
+export interface PDFTextSelection {
+  /** Selected text */
+  text: string;
+  /** 0-indexed page number */
+  page: number;
+  /** Bounding box of the selection in PDF coordinates */
+  coordinates: { x: number; y: number; width: number; height: number };
+}
 
-  return true;
+/**
+ * Read the current selection from a page's text layer
+ *
+ * Selections spanning pages are attributed to the page where they start.
+ *
+ * @param selection - Browser selection (usually `window.getSelection()`)
+ * @param pageHeight - Page height in PDF points, or a lookup by 0-indexed page
+ * @param scale - Rendering scale
+ * @returns Selection in PDF coordinates, or null if nothing on a page is selected
+ *
+ * @example
+ * ```typescript
+ * const selected = getPDFTextSelection(window.getSelection(), 792, 1.5);
+ * if (selected) {
+ *   createNote(selected.text, selected.page, selected.coordinates);
+ * }
+ * ```
+ */
+export function getPDFTextSelection(
+  selection: Selection | null,
+  pageHeight: number | ((pageNumber: number) => number),
+  scale: number
+): PDFTextSelection | null {
+  if (!selection || selection.isCollapsed || selection.rangeCount === 0) return null;
+
+  const text = selection.toString().trim();
+  const range = selection.getRangeAt(0);
+  const startNode = range.startContainer;
+  const startElement =
+    startNode instanceof Element ? startNode : startNode.parentElement;
+  const pageContainer = startElement?.closest<HTMLElement>(
+    '.pdf-page-container[data-page-number]'
+  );
+  if (!text || !pageContainer) return null;
+
+  const page = Number(pageContainer.dataset.pageNumber);
+  const pageRect = pageContainer.getBoundingClientRect();
+  const rangeRect = range.getBoundingClientRect();
+
+  // Clip to the starting page so cross-page selections stay on it
+  const top = Math.max(rangeRect.top, pageRect.top);
+  const bottom = Math.min(rangeRect.bottom, pageRect.bottom);
+  const canvasCoords = {
+    x: rangeRect.left - pageRect.left,
+    y: top - pageRect.top,
+    width: rangeRect.width,
+    height: Math.max(bottom - top, 0),
+  };
+  const height = typeof pageHeight === 'function' ? pageHeight(page) : pageHeight;
+
+  return { text, page, coordinates: canvasToPdfCoords(canvasCoords, height, scale) };
 }
 
 // ============================================================================
@@ -301,9 +488,10 @@ export function createHighlightOverlay(
  * Highlight all references for a node
  *
  * Handles both single-page and cross-page references automatically.
+ * Pages that have not been painted yet are highlighted when they are.
  *
  * @param references - Array of node document references
- * @param pageHeight - Page height in PDF points
+ * @param pageHeight - Page height in PDF points, or a lookup by 0-indexed page
  * @param scale - Rendering scale
  * @param config - Highlight styling configuration
  * @param staggerDelay - Delay between highlights in ms (default: 0)
@@ -324,26 +512,21 @@ export function createHighlightOverlay(
  */
 export function highlightAllReferences(
   references: NodeDocumentReference[],
-  pageHeight: number,
+  pageHeight: number | ((pageNumber: number) => number),
   scale: number,
   config: HighlightConfig = {},
   staggerDelay: number = 0
 ): void {
+  const getPageHeight = typeof pageHeight === 'number' ? () => pageHeight : pageHeight;
+
   references.forEach((ref, index) => {
     const delay = index * staggerDelay;
 
     setTimeout(() => {
-      if (isSinglePageReference(ref)) {
-        // Single-page reference
-        highlightTextRegion(ref.page, ref.coordinates, pageHeight, scale, config);
-      } else if (isCrossPageReference(ref)) {
-        // Cross-page reference - highlight on multiple pages
-        ref.coordinates.forEach((coord) => {
-          highlightTextRegion(coord.page, coord.bbox, pageHeight, scale, config);
-        });
-      } else {
-        console.warn('[highlightAllReferences] Invalid reference format:', ref);
-      }
+      // Cross-page references yield one region per page
+      getReferenceRegions([ref]).forEach(({ page, bbox }) => {
+        highlightTextRegion(page, bbox, getPageHeight(page), scale, config);
+      });
     }, delay);
   });
 }
@@ -355,6 +538,9 @@ export function highlightAllReferences(
 /**
  * Scroll to a specific page in the PDF viewer
  *
+ * Targets the page container, which is sized before the page is painted,
+ * so scrolling works for pages that have not rendered yet.
+ *
  * @param pageNumber - 0-indexed page number
  * @param behavior - Scroll behavior ('smooth' or 'auto')
  * @param block - Vertical alignment ('start', 'center', 'end', 'nearest')
@@ -369,22 +555,52 @@ export function scrollToPage(
   behavior: ScrollBehavior = 'smooth',
   block: ScrollLogicalPosition = 'center'
 ): void {
-  const canvas = document.querySelector(
-    `canvas[data-page-number="${pageNumber}"]`
-  );
+  const page =
+    document.querySelector(`.pdf-page-container[data-page-number="${pageNumber}"]`) ??
+    document.querySelector(`canvas[data-page-number="${pageNumber}"]`);
 
-  if (!canvas) {
-    console.warn(`[scrollToPage] Canvas not found for page ${pageNumber}`);
+  if (!page) {
+    console.warn(`[scrollToPage] Page not found: ${pageNumber}`);
     return;
   }
 
-  canvas.scrollIntoView({
+  page.scrollIntoView({
     behavior,
     block,
     inline: 'nearest',
   });
 }
 
+/**
+ * Check whether any part of a page region is inside a scroll container's viewport
+ *
+ * Works on page placeholders too, so regions on pages that are not painted
+ * yet are still tracked. The page height is read back from the placeholder,
+ * which is sized from the page's viewport.
+ *
+ * @param region - Page and bounding box in PDF coordinates
+ * @param container - Scroll container holding the pages
+ * @param scale - Rendering scale the pages were laid out at
+ * @returns True if the region overlaps the visible area
+ */
+export function isRegionVisible(
+  region: PageRegion,
+  container: HTMLElement,
+  scale: number
+): boolean {
+  const page = container.querySelector(
+    `.pdf-page-container[data-page-number="${region.page}"]`
+  );
+  if (!page) return false;
+
+  const pageRect = page.getBoundingClientRect();
+  const { y, height } = pdfToCanvasCoords(region.bbox, pageRect.height / scale, scale);
+  const top = pageRect.top + y;
+  const containerRect = container.getBoundingClientRect();
+
+  return top + height > containerRect.top && top < containerRect.bottom;
+}
+
 /**
  * Get the first page number from a set of references
  *
@@ -0,0 +1,133 @@
+/**
+ * Reading Progress
+ *
+ * Tracks which cited passages the reader has had on screen. Passages in
+ * the viewport give the graph a live "you are here" mark, and the share of
+ * a node's passages seen so far is its reading progress. Passages are
+ * identified by their position in the PassageIndex (`text:<i>` for
+ * character ranges, `page:<i>` for PDF regions).
+ */
+
+import { isElementVisible } from './scroll-utils';
+import { isRegionVisible } from './pdf-utils';
+import type { PassageIndex } from './passage-index';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Where the reader is, as reported by the reading panel
+ */
+export interface ReadingProgress {
+  /** Nodes with a cited passage in the viewport */
+  visibleNodeIds: string[];
+  /** Share of each cited node's passages seen so far (0-1) */
+  nodeProgress: Record<string, number>;
+}
+
+// ============================================================================
+// Visibility
+// ============================================================================
+
+/**
+ * Find the cited passages inside the viewport
+ *
+ * Text passages are visible when a paragraph they overlap is (checked with
+ * `isElementVisible`); PDF passages when their page region is (checked with
+ * `isRegionVisible`, so pages that are not painted yet count too).
+ *
+ * @param index - Passage index
+ * @param container - Scroll container of the reading panel
+ * @param paragraphStarts - Content offset of each rendered paragraph (see getParagraphStarts)
+ * @param scale - PDF rendering scale
+ * @returns Keys of the visible passages
+ */
+export function findVisiblePassages(
+  index: PassageIndex,
+  container: HTMLElement,
+  paragraphStarts: number[],
+  scale: number
+): string[] {
+  const visibleRanges = Array.from(
+    container.querySelectorAll<HTMLElement>('[data-paragraph-index]')
+  ).flatMap((paragraph) => {
+    if (!isElementVisible(paragraph, container, true)) return [];
+
+    const start = paragraphStarts[Number(paragraph.dataset.paragraphIndex)];
+    if (start === undefined) return [];
+    return [{ start, end: start + (paragraph.textContent?.length ?? 0) }];
+  });
+
+  const textKeys = index.text.flatMap((passage, i) =>
+    visibleRanges.some((range) => passage.start < range.end && range.start < passage.end)
+      ? [`text:${i}`]
+      : []
+  );
+  const pageKeys = index.pages.flatMap((passage, i) =>
+    isRegionVisible(passage, container, scale) ? [`page:${i}`] : []
+  );
+
+  return [...textKeys, ...pageKeys];
+}
+
+/**
+ * Look up a passage by key
+ */
+function getPassage(index: PassageIndex, key: string): { nodeId: string } | undefined {
+  const [kind, position] = key.split(':');
+  return kind === 'text' ? index.text[Number(position)] : index.pages[Number(position)];
+}
+
+/**
+ * Nodes citing any of the passages
+ *
+ * @param index - Passage index
+ * @param keys - Passage keys
+ * @returns Node IDs, without duplicates
+ */
+export function getNodesForPassages(index: PassageIndex, keys: Iterable<string>): string[] {
+  const nodeIds = Array.from(keys).flatMap((key) => {
+    const passage = getPassage(index, key);
+    return passage ? [passage.nodeId] : [];
+  });
+
+  return Array.from(new Set(nodeIds));
+}
+
+// ============================================================================
+// Progress
+// ============================================================================
+
+/**
+ * Share of each node's cited passages the reader has seen
+ *
+ * @param index - Passage index
+ * @param seen - Keys of passages seen so far
+ * @returns Progress from 0 to 1 for every node with at least one passage
+ *
+ * @example
+ * ```typescript
+ * getNodeReadingProgress(index, new Set(['text:0']));
+ * // { node_1: 0.5, node_2: 0 }
+ * ```
+ */
+export function getNodeReadingProgress(
+  index: PassageIndex,
+  seen: ReadonlySet<string>
+): Record<string, number> {
+  const totals: Record<string, { seen: number; total: number }> = {};
+
+  const count = (nodeId: string, key: string) => {
+    const entry = totals[nodeId] ?? { seen: 0, total: 0 };
+    totals[nodeId] = entry;
+    entry.total += 1;
+    if (seen.has(key)) entry.seen += 1;
+  };
+  index.text.forEach((passage, i) => count(passage.nodeId, `text:${i}`));
+  index.pages.forEach((passage, i) => count(passage.nodeId, `page:${i}`));
+
+  return Object.fromEntries(
+    Object.entries(totals).map(([nodeId, entry]) => [nodeId, entry.seen / entry.total])
+  );
+}
@@ -0,0 +1,173 @@
+/**
+ * Local Review Storage
+ *
+ * IndexedDB-backed persistence for spaced-repetition records (see
+ * scheduler.ts) and node mastery (see lib/mastery.ts). Records are kept per
+ * browser so the review queue works across every graph the user has
+ * quizzed on.
+ *
+ * Falls back to an in-memory store when IndexedDB is unavailable
+ * (server rendering, private browsing modes, Jest/jsdom).
+ */
+
+import type { ReviewRecord } from './scheduler';
+import type { MasteryRecord } from '@/lib/mastery';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Storage backend for review and mastery records
+ */
+export interface ReviewStore {
+  getAll: () => Promise<ReviewRecord[]>;
+  getForGraph: (graphId: string) => Promise<ReviewRecord[]>;
+  putRecords: (records: ReviewRecord[]) => Promise<void>;
+  getMastery: (graphId: string) => Promise<MasteryRecord[]>;
+  putMastery: (records: MasteryRecord[]) => Promise<void>;
+}
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+const DB_NAME = 'graphex-reviews';
+const DB_VERSION = 2;
+const REVIEWS_STORE = 'reviews';
+const MASTERY_STORE = 'mastery';
+
+// ============================================================================
+// IndexedDB Store
+// ============================================================================
+
+/**
+ * Wrap an IDBRequest in a promise
+ */
+function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Open (and upgrade if needed) the reviews database
+ */
+function openReviewDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(REVIEWS_STORE)) {
+        const reviews = db.createObjectStore(REVIEWS_STORE, { keyPath: 'id' });
+        reviews.createIndex('graphId', 'graphId', { unique: false });
+      }
+      if (!db.objectStoreNames.contains(MASTERY_STORE)) {
+        const mastery = db.createObjectStore(MASTERY_STORE, { keyPath: 'id' });
+        mastery.createIndex('graphId', 'graphId', { unique: false });
+      }
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Create a review store persisted in IndexedDB
+ *
+ * @returns ReviewStore backed by the `graphex-reviews` database
+ */
+export function createIndexedDBReviewStore(): ReviewStore {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+
+  const getDB = () => {
+    if (!dbPromise) {
+      dbPromise = openReviewDatabase();
+    }
+    return dbPromise;
+  };
+
+  const read = async <T>(
+    storeName: string,
+    operation: (store: IDBObjectStore) => IDBRequest<T>
+  ): Promise<T> => {
+    const db = await getDB();
+    const transaction = db.transaction(storeName, 'readonly');
+    return promisifyRequest(operation(transaction.objectStore(storeName)));
+  };
+
+  const putAll = async (storeName: string, records: Array<ReviewRecord | MasteryRecord>) => {
+    const db = await getDB();
+    const transaction = db.transaction(storeName, 'readwrite');
+    const store = transaction.objectStore(storeName);
+    records.forEach((record) => store.put(record));
+    await new Promise<void>((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  };
+
+  return {
+    getAll: () => read<ReviewRecord[]>(REVIEWS_STORE, (store) => store.getAll()),
+    getForGraph: (graphId) =>
+      read<ReviewRecord[]>(REVIEWS_STORE, (store) => store.index('graphId').getAll(graphId)),
+    putRecords: (records) => putAll(REVIEWS_STORE, records),
+    getMastery: (graphId) =>
+      read<MasteryRecord[]>(MASTERY_STORE, (store) => store.index('graphId').getAll(graphId)),
+    putMastery: (records) => putAll(MASTERY_STORE, records),
+  };
+}
+
+// ============================================================================
+// In-Memory Store
+// ============================================================================
+
+/**
+ * Create a non-persistent review store
+ *
+ * Used when IndexedDB is unavailable and in tests.
+ *
+ * @returns ReviewStore held in memory
+ */
+export function createMemoryReviewStore(): ReviewStore {
+  const records = new Map<string, ReviewRecord>();
+  const mastery = new Map<string, MasteryRecord>();
+
+  return {
+    getAll: async () => Array.from(records.values()),
+    getForGraph: async (graphId) =>
+      Array.from(records.values()).filter((record) => record.graphId === graphId),
+    putRecords: async (items) => {
+      items.forEach((record) => records.set(record.id, record));
+    },
+    getMastery: async (graphId) =>
+      Array.from(mastery.values()).filter((record) => record.graphId === graphId),
+    putMastery: async (items) => {
+      items.forEach((record) => mastery.set(record.id, record));
+    },
+  };
+}
+
+// ============================================================================
+// Default Store
+// ============================================================================
+
+let defaultStore: ReviewStore | null = null;
+
+/**
+ * Get the shared review store for this browser session
+ *
+ * @returns IndexedDB store when available, in-memory store otherwise
+ */
+export function getReviewStore(): ReviewStore {
+  if (!defaultStore) {
+    defaultStore =
+      typeof indexedDB !== 'undefined'
+        ? createIndexedDBReviewStore()
+        : createMemoryReviewStore();
+  }
+  return defaultStore;
+}
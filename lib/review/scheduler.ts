@@ -0,0 +1,258 @@
+/**
+ * Spaced-Repetition Scheduler
+ *
+ * SM-2 style scheduling for graph nodes (PRODUCT.md Feature 8). Quiz
+ * results are mapped onto the nodes each question covers, graded 0-5, and
+ * turned into a review record holding the node's ease factor, current
+ * interval and next due date. Well-known nodes are spaced further apart,
+ * missed nodes come back the next day.
+ *
+ * Pure functions only; persistence lives in review-store.ts.
+ */
+
+import type { QuizQuestion, QuizQuestionResult } from '@/types/api.types';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * SM-2 response quality, 0 (blackout) to 5 (perfect recall)
+ */
+export type ReviewQuality = 0 | 1 | 2 | 3 | 4 | 5;
+
+/**
+ * Scheduling state for one node
+ */
+export interface ReviewRecord {
+  /** `<graphId>:<nodeId>` */
+  id: string;
+  graphId: string;
+  nodeId: string;
+  /** Node title at the time of the last review (for the review list) */
+  nodeTitle: string;
+  /** Source document title, if known */
+  documentTitle: string | null;
+  /** SM-2 ease factor (≥ 1.3) */
+  easeFactor: number;
+  /** Current interval in days */
+  interval: number;
+  /** Consecutive successful reviews */
+  repetitions: number;
+  /** Times the node was missed after being learned */
+  lapses: number;
+  /** Quality of the most recent review */
+  lastQuality: ReviewQuality;
+  /** ISO timestamp of the most recent review */
+  lastReviewedAt: string;
+  /** ISO timestamp when the node is next due */
+  dueAt: string;
+}
+
+/**
+ * Quiz performance on a single node
+ */
+export interface NodeOutcome {
+  nodeId: string;
+  correct: number;
+  total: number;
+}
+
+/**
+ * Node metadata stored alongside the schedule
+ */
+export interface ReviewNodeInfo {
+  nodeTitle: string;
+  documentTitle?: string | null;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Ease factor for a node's first review */
+export const INITIAL_EASE_FACTOR = 2.5;
+
+/** Lowest ease factor SM-2 allows */
+export const MIN_EASE_FACTOR = 1.3;
+
+/** Lowest quality that counts as remembered */
+const PASSING_QUALITY = 3;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ============================================================================
+// Grading
+// ============================================================================
+
+/**
+ * Build the record ID for a node
+ */
+export function getReviewId(graphId: string, nodeId: string): string {
+  return `${graphId}:${nodeId}`;
+}
+
+/**
+ * Aggregate quiz results per node
+ *
+ * A question counts towards every node in its `nodeRefs`.
+ *
+ * @param questions - Questions from the generated quiz
+ * @param results - Per-question results from the submission
+ * @returns One outcome per referenced node
+ */
+export function getNodeOutcomes(
+  questions: QuizQuestion[],
+  results: QuizQuestionResult[]
+): NodeOutcome[] {
+  const questionsById = new Map(questions.map((question) => [question.id, question]));
+  const outcomes = new Map<string, NodeOutcome>();
+
+  results.forEach((result) => {
+    const nodeRefs = questionsById.get(result.questionId)?.nodeRefs ?? [];
+    nodeRefs.forEach((nodeId) => {
+      const outcome = outcomes.get(nodeId) ?? { nodeId, correct: 0, total: 0 };
+      outcome.total += 1;
+      if (result.correct) outcome.correct += 1;
+      outcomes.set(nodeId, outcome);
+    });
+  });
+
+  return Array.from(outcomes.values());
+}
+
+/**
+ * Grade a node outcome on the SM-2 quality scale
+ *
+ * @example
+ * ```typescript
+ * getReviewQuality({ nodeId: 'node_1', correct: 2, total: 2 }); // 5
+ * getReviewQuality({ nodeId: 'node_1', correct: 1, total: 2 }); // 3
+ * getReviewQuality({ nodeId: 'node_1', correct: 0, total: 2 }); // 1
+ * ```
+ */
+export function getReviewQuality({ correct, total }: NodeOutcome): ReviewQuality {
+  if (total === 0 || correct === 0) return 1;
+  if (correct === total) return 5;
+  return correct / total >= 0.5 ? 3 : 2;
+}
+
+// ============================================================================
+// Scheduling
+// ============================================================================
+
+/**
+ * Apply one review to a node's schedule (SM-2)
+ *
+ * - Passing reviews grow the interval: 1 day, 6 days, then interval × ease
+ * - Failing reviews reset repetitions and bring the node back tomorrow
+ * - The ease factor moves with quality and never drops below 1.3
+ *
+ * @param previous - Existing record, or undefined for a first review
+ * @param quality - Review quality
+ * @param node - Identity and display info for the node
+ * @param now - Review time
+ * @returns Updated record
+ */
+export function scheduleReview(
+  previous: ReviewRecord | undefined,
+  quality: ReviewQuality,
+  node: { graphId: string; nodeId: string } & ReviewNodeInfo,
+  now: Date = new Date()
+): ReviewRecord {
+  const easeFactor = previous?.easeFactor ?? INITIAL_EASE_FACTOR;
+  const passed = quality >= PASSING_QUALITY;
+
+  let repetitions: number;
+  let interval: number;
+  if (passed) {
+    repetitions = (previous?.repetitions ?? 0) + 1;
+    if (repetitions === 1) {
+      interval = 1;
+    } else if (repetitions === 2) {
+      interval = 6;
+    } else {
+      interval = Math.round((previous?.interval ?? 1) * easeFactor);
+    }
+  } else {
+    repetitions = 0;
+    interval = 1;
+  }
+
+  const nextEaseFactor = Math.max(
+    MIN_EASE_FACTOR,
+    easeFactor + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02))
+  );
+
+  return {
+    id: getReviewId(node.graphId, node.nodeId),
+    graphId: node.graphId,
+    nodeId: node.nodeId,
+    nodeTitle: node.nodeTitle,
+    documentTitle: node.documentTitle ?? previous?.documentTitle ?? null,
+    easeFactor: Math.round(nextEaseFactor * 100) / 100,
+    interval,
+    repetitions,
+    lapses: (previous?.lapses ?? 0) + (!passed && (previous?.repetitions ?? 0) > 0 ? 1 : 0),
+    lastQuality: quality,
+    lastReviewedAt: now.toISOString(),
+    dueAt: new Date(now.getTime() + interval * DAY_MS).toISOString(),
+  };
+}
+
+/**
+ * Turn a submitted quiz into updated review records
+ *
+ * @param previous - Existing records for the graph, keyed by record ID
+ * @param graphId - Graph the quiz was generated from
+ * @param questions - Quiz questions
+ * @param results - Submission results
+ * @param getNodeInfo - Display info for a node ID (title falls back to the ID)
+ * @param now - Review time
+ * @returns Records for every node the quiz covered
+ */
+export function recordQuizOutcomes(
+  previous: Map<string, ReviewRecord>,
+  graphId: string,
+  questions: QuizQuestion[],
+  results: QuizQuestionResult[],
+  getNodeInfo: (nodeId: string) => ReviewNodeInfo | undefined,
+  now: Date = new Date()
+): ReviewRecord[] {
+  return getNodeOutcomes(questions, results).map((outcome) => {
+    const existing = previous.get(getReviewId(graphId, outcome.nodeId));
+    const info = getNodeInfo(outcome.nodeId);
+
+    return scheduleReview(
+      existing,
+      getReviewQuality(outcome),
+      {
+        graphId,
+        nodeId: outcome.nodeId,
+        nodeTitle: info?.nodeTitle ?? existing?.nodeTitle ?? outcome.nodeId,
+        documentTitle: info?.documentTitle,
+      },
+      now
+    );
+  });
+}
+
+/**
+ * Get records that are due, most overdue first
+ */
+export function getDueReviews(records: ReviewRecord[], now: Date = new Date()): ReviewRecord[] {
+  return records
+    .filter((record) => new Date(record.dueAt).getTime() <= now.getTime())
+    .sort((a, b) => a.dueAt.localeCompare(b.dueAt));
+}
+
+/**
+ * Group records by graph, keeping their order
+ */
+export function groupReviewsByGraph(records: ReviewRecord[]): Map<string, ReviewRecord[]> {
+  const groups = new Map<string, ReviewRecord[]>();
+  records.forEach((record) => {
+    groups.set(record.graphId, [...(groups.get(record.graphId) ?? []), record]);
+  });
+  return groups;
+}
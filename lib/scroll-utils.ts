@@ -349,23 +349,52 @@ export function calculateScrollPercentage(container: HTMLElement): number {
  *
  * @param element - Element to check
  * @param container - Scrollable container
+ * @param partial - Count any overlap as visible, for elements taller than the container (default: false)
  * @returns True if element is visible
  */
 export function isElementVisible(
   element: HTMLElement,
-  container: HTMLElement
+  container: HTMLElement,
+  partial = false
 ): boolean {
   if (!element || !container) return false;
 
   const containerRect = container.getBoundingClientRect();
   const elementRect = element.getBoundingClientRect();
 
+  if (partial) {
+    return (
+      elementRect.bottom > containerRect.top &&
+      elementRect.top < containerRect.bottom
+    );
+  }
+
   return (
     elementRect.top >= containerRect.top &&
     elementRect.bottom <= containerRect.bottom
   );
 }
 
+/**
+ * Find the nearest ancestor that scrolls vertically
+ *
+ * @param element - Element to start from
+ * @returns Scrolling ancestor, or null if the page itself scrolls
+ */
+export function getScrollParent(element: HTMLElement): HTMLElement | null {
+  let parent = element.parentElement;
+
+  while (parent) {
+    const { overflow, overflowY } = window.getComputedStyle(parent);
+    if (/(auto|scroll)/.test(overflowY || overflow)) {
+      return parent;
+    }
+    parent = parent.parentElement;
+  }
+
+  return null;
+}
+
 // ============================================================================
 // Type Exports
 // ============================================================================
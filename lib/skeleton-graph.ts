@@ -0,0 +1,299 @@
+/**
+ * Skeleton Graph
+ *
+ * Skeleton mode hides part of a graph's edges so the reader completes the
+ * structure themselves (generation effect, PRODUCT.md Feature 1). This
+ * module picks the hidden edges, strips them from the Mermaid code while
+ * keeping every node, and checks proposed connections against them.
+ */
+
+import type { GraphEdge } from '@/types/api.types';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Outcome of a proposed connection
+ * - `correct`: a hidden edge in the proposed direction (revealed)
+ * - `reversed`: a hidden edge in the opposite direction (revealed)
+ * - `visible`: the connection is already shown
+ * - `incorrect`: no edge between the two concepts
+ */
+export type ProposalResult = 'correct' | 'reversed' | 'visible' | 'incorrect';
+
+/**
+ * A connection proposed by the reader
+ */
+export interface SkeletonProposal {
+  from: string;
+  to: string;
+  result: ProposalResult;
+  /** Matching edge (all results except `incorrect`) */
+  edgeId: string | null;
+}
+
+/** Share of edges hidden when skeleton mode starts */
+export const DEFAULT_HIDDEN_FRACTION = 0.5;
+
+/** Hidden-edge fractions offered in the skeleton panel */
+export const HIDDEN_FRACTION_OPTIONS = [0.25, 0.5, 0.75, 1] as const;
+
+// ============================================================================
+// Hidden Edges
+// ============================================================================
+
+/**
+ * Seeded pseudo-random numbers in [0, 1) (mulberry32)
+ */
+function createRandom(seed: string): () => number {
+  let state = 0;
+  for (let i = 0; i < seed.length; i++) {
+    state = (Math.imul(31, state) + seed.charCodeAt(i)) | 0;
+  }
+
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Pick the edges to hide
+ *
+ * The choice is seeded, so the same graph and fraction hide the same edges
+ * across reloads.
+ *
+ * @param edges - Graph edges
+ * @param fraction - Share of edges to hide (0-1)
+ * @param seed - Seed for the choice (usually the graph ID)
+ * @returns IDs of the hidden edges, in graph order
+ *
+ * @example
+ * ```typescript
+ * const hiddenEdgeIds = selectHiddenEdges(graph.edges, 0.5, graph.id);
+ * ```
+ */
+export function selectHiddenEdges(edges: GraphEdge[], fraction: number, seed: string): string[] {
+  const count = Math.round(edges.length * Math.min(Math.max(fraction, 0), 1));
+  const random = createRandom(seed);
+
+  // Fisher-Yates shuffle of the IDs, then keep the first `count`
+  const ids = edges.map((edge) => edge.id);
+  for (let i = ids.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [ids[i], ids[j]] = [ids[j], ids[i]];
+  }
+  const hidden = new Set(ids.slice(0, count));
+
+  return edges.filter((edge) => hidden.has(edge.id)).map((edge) => edge.id);
+}
+
+// ============================================================================
+// Mermaid Code
+// ============================================================================
+
+/**
+ * Node reference with an optional shape, label and class, e.g. `A`,
+ * `A[Title]`, `B((Title)):::concept`
+ */
+const NODE_PATTERN =
+  /^\s*(\w+)(\(\(.*?\)\)|\(\[.*?\]\)|\[\[.*?\]\]|\[\(.*?\)\]|\{\{.*?\}\}|\[.*?\]|\(.*?\)|\{.*?\}|>.*?\])?(?::::[\w-]+)?/;
+
+/** Separator between the nodes of an `&` group, e.g. `A & B --> C` */
+const GROUP_PATTERN = /^\s*&\s*/;
+
+/** Link between nodes, e.g. `-->`, `-->|label|`, `-- label -->`, `-.->`, `==>` */
+const LINK_PATTERN =
+  /^\s*(<?(?:--\s[^-|]+?\s--[->]|==\s[^=|]+?\s==[=>]|-\.\s[^.|]+?\s\.-[->]|-{2,}[->]?|={2,}[=>]?|-\.+-[->]?)(?:\|[^|]*\|)?)\s*/;
+
+/** Link style by link index, e.g. `linkStyle 0,2 stroke:#f00` */
+const LINK_STYLE_PATTERN = /^(\s*linkStyle\s+)(\d+(?:\s*,\s*\d+)*)(\s.*)?$/;
+
+interface StatementNode {
+  key: string;
+  /** Node as written, with any shape and label */
+  text: string;
+}
+
+/**
+ * Split an edge statement into its node groups and the links between them
+ *
+ * @returns null for lines that aren't edge statements (directives,
+ * subgraphs, styles)
+ */
+function parseEdgeStatement(
+  line: string
+): { groups: StatementNode[][]; links: string[] } | null {
+  const groups: StatementNode[][] = [];
+  const links: string[] = [];
+  let rest = line;
+
+  for (;;) {
+    const group: StatementNode[] = [];
+    for (;;) {
+      const node = rest.match(NODE_PATTERN);
+      if (!node) return null;
+      group.push({ key: node[1], text: node[0].trim() });
+      rest = rest.slice(node[0].length);
+
+      const separator = rest.match(GROUP_PATTERN);
+      if (!separator) break;
+      rest = rest.slice(separator[0].length);
+    }
+    groups.push(group);
+
+    const link = rest.match(LINK_PATTERN);
+    if (!link) break;
+    links.push(link[1]);
+    rest = rest.slice(link[0].length);
+  }
+
+  const remainder = rest.replace(/;?\s*(%%.*)?$/, '');
+  return links.length > 0 && remainder === '' ? { groups, links } : null;
+}
+
+/**
+ * Remove edges from Mermaid flowchart code
+ *
+ * Edges are matched to links by position: the k-th edge between two nodes
+ * is the k-th link between them in the code, so one of several parallel
+ * edges can be hidden. Every node keeps its declaration (shape and label),
+ * so concepts whose edges are all hidden still render, unconnected.
+ * `linkStyle` indexes are renumbered for the remaining links.
+ *
+ * @param mermaidCode - Flowchart code from the server
+ * @param edges - All graph edges, in graph order
+ * @param hiddenEdgeIds - Edges to remove
+ * @returns Flowchart code without the hidden edges
+ *
+ * @example
+ * ```typescript
+ * hideMermaidEdges('graph TD\n  A[Start] --> B[End]', graph.edges, ['edge_1']);
+ * // 'graph TD\n  A[Start]\n  B[End]'
+ * ```
+ */
+export function hideMermaidEdges(
+  mermaidCode: string,
+  edges: GraphEdge[],
+  hiddenEdgeIds: string[]
+): string {
+  if (hiddenEdgeIds.length === 0) return mermaidCode;
+
+  // Hidden links as `from->to#occurrence`
+  const hiddenIds = new Set(hiddenEdgeIds);
+  const edgeCounts = new Map<string, number>();
+  const hidden = new Set<string>();
+  edges.forEach((edge) => {
+    const pair = `${edge.fromNode.nodeKey}->${edge.toNode.nodeKey}`;
+    const occurrence = edgeCounts.get(pair) ?? 0;
+    edgeCounts.set(pair, occurrence + 1);
+    if (hiddenIds.has(edge.id)) hidden.add(`${pair}#${occurrence}`);
+  });
+
+  const linkCounts = new Map<string, number>();
+  const isLinkHidden = (from: string, to: string) => {
+    const pair = `${from}->${to}`;
+    const occurrence = linkCounts.get(pair) ?? 0;
+    linkCounts.set(pair, occurrence + 1);
+    return hidden.has(`${pair}#${occurrence}`);
+  };
+
+  // Old link index → new index (null once removed)
+  const linkIndexes: (number | null)[] = [];
+  let keptLinks = 0;
+
+  const withoutEdges = mermaidCode.split('\n').flatMap((line) => {
+    const statement = parseEdgeStatement(line);
+    if (!statement) return [line];
+
+    // Mermaid adds a link for every pair across a link, in this order
+    const { groups, links } = statement;
+    const pairs = links.flatMap((link, i) =>
+      groups[i].flatMap((from) =>
+        groups[i + 1].map((to) => ({ from, to, link, isHidden: isLinkHidden(from.key, to.key) }))
+      )
+    );
+    pairs.forEach((pair) => linkIndexes.push(pair.isHidden ? null : keptLinks++));
+    if (!pairs.some((pair) => pair.isHidden)) return [line];
+
+    const indent = line.match(/^\s*/)?.[0] ?? '';
+    const nodes = groups.flat();
+    const linked = new Set(
+      pairs.filter((pair) => !pair.isHidden).flatMap((pair) => [pair.from, pair.to])
+    );
+
+    return [
+      // Declarations keep their shape and label
+      ...nodes.filter((node) => node.text !== node.key).map((node) => indent + node.text),
+      ...pairs
+        .filter((pair) => !pair.isHidden)
+        .map((pair) => `${indent}${pair.from.key} ${pair.link} ${pair.to.key}`),
+      // Bare references keep nodes that may be declared nowhere else
+      ...nodes
+        .filter((node) => node.text === node.key && !linked.has(node))
+        .map((node) => indent + node.key),
+    ];
+  });
+
+  return withoutEdges
+    .flatMap((line) => {
+      const linkStyle = line.match(LINK_STYLE_PATTERN);
+      if (!linkStyle) return [line];
+
+      const indexes = linkStyle[2]
+        .split(',')
+        .map((index) => linkIndexes[Number(index)])
+        .filter((index): index is number => index !== null && index !== undefined);
+      return indexes.length > 0
+        ? [`${linkStyle[1]}${indexes.join(',')}${linkStyle[3] ?? ''}`]
+        : [];
+    })
+    .join('\n');
+}
+
+// ============================================================================
+// Proposals
+// ============================================================================
+
+/**
+ * Check a proposed connection against the graph
+ *
+ * @param edges - All graph edges
+ * @param hiddenEdgeIds - Edges still hidden
+ * @param from - Proposed source node ID
+ * @param to - Proposed target node ID
+ * @returns The proposal with its outcome
+ *
+ * @example
+ * ```typescript
+ * const proposal = evaluateProposal(graph.edges, hiddenEdgeIds, 'node_1', 'node_3');
+ * if (proposal.result === 'correct') reveal(proposal.edgeId);
+ * ```
+ */
+export function evaluateProposal(
+  edges: GraphEdge[],
+  hiddenEdgeIds: string[],
+  from: string,
+  to: string
+): SkeletonProposal {
+  const hidden = new Set(hiddenEdgeIds);
+  const between = (a: string, b: string) =>
+    edges.filter((edge) => edge.from === a && edge.to === b);
+
+  const forward = between(from, to);
+  const backward = between(to, from);
+
+  const hiddenForward = forward.find((edge) => hidden.has(edge.id));
+  if (hiddenForward) return { from, to, result: 'correct', edgeId: hiddenForward.id };
+
+  const hiddenBackward = backward.find((edge) => hidden.has(edge.id));
+  if (hiddenBackward) return { from, to, result: 'reversed', edgeId: hiddenBackward.id };
+
+  const shown = forward[0] ?? backward[0];
+  if (shown) return { from, to, result: 'visible', edgeId: shown.id };
+
+  return { from, to, result: 'incorrect', edgeId: null };
+}
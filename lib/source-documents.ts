@@ -0,0 +1,100 @@
+/**
+ * Source Documents
+ *
+ * Helpers for graphs merged across the documents of a workspace. Each node
+ * of a merged graph names its source in `GraphNode.documentId`; nodes
+ * without one (and every node of a single-document graph) belong to the
+ * primary `Graph.document`.
+ */
+
+import { SOURCE_DOCUMENT_COLORS } from './mermaid-theme';
+import type { Graph, GraphNode, GraphSourceDocument } from '@/types/api.types';
+
+/**
+ * Source documents of a graph, primary document first
+ *
+ * @param graph - Graph (single-document or merged)
+ * @returns Documents without duplicates
+ */
+export function getGraphDocuments(graph: Graph): GraphSourceDocument[] {
+  const documents = [graph.document, ...(graph.documents ?? [])];
+  return documents.filter(
+    (document, index) => documents.findIndex((other) => other.id === document.id) === index
+  );
+}
+
+/**
+ * Whether a graph was merged from several documents
+ */
+export function isMultiSourceGraph(graph: Graph): boolean {
+  return getGraphDocuments(graph).length > 1;
+}
+
+/**
+ * Source document of a node
+ *
+ * @param graph - Graph the node belongs to
+ * @param node - Graph node
+ * @returns Document ID
+ */
+export function getNodeDocumentId(graph: Graph, node: GraphNode): string {
+  return node.documentId ?? graph.document.id;
+}
+
+/**
+ * Nodes drawn from one source document
+ *
+ * Their document references point into that document, so these are the
+ * nodes the reading panel can cite while it shows it.
+ *
+ * @param graph - Graph
+ * @param documentId - Source document ID
+ * @returns Nodes in graph order
+ */
+export function getDocumentNodes(graph: Graph, documentId: string): GraphNode[] {
+  return graph.nodes.filter((node) => getNodeDocumentId(graph, node) === documentId);
+}
+
+/**
+ * Color for each source document
+ *
+ * @param documents - Source documents, in display order
+ * @returns Color by document ID (the palette repeats past six documents)
+ *
+ * @example
+ * ```typescript
+ * getSourceDocumentColors(getGraphDocuments(graph));
+ * // { doc_abc123: '#7E57C2', doc_def456: '#EF6C00' }
+ * ```
+ */
+export function getSourceDocumentColors(
+  documents: GraphSourceDocument[]
+): Record<string, string> {
+  return Object.fromEntries(
+    documents.map((document, index) => [
+      document.id,
+      SOURCE_DOCUMENT_COLORS[index % SOURCE_DOCUMENT_COLORS.length],
+    ])
+  );
+}
+
+/**
+ * Source color for each node of a merged graph
+ *
+ * @param graph - Graph
+ * @param documentColors - Color by document ID (see getSourceDocumentColors)
+ * @returns Color by node ID; empty for single-document graphs
+ */
+export function getNodeSourceColors(
+  graph: Graph,
+  documentColors: Record<string, string>
+): Record<string, string> {
+  if (!isMultiSourceGraph(graph)) return {};
+
+  return Object.fromEntries(
+    graph.nodes.flatMap((node) => {
+      const color = documentColors[getNodeDocumentId(graph, node)];
+      return color ? [[node.id, color]] : [];
+    })
+  );
+}
@@ -252,20 +252,208 @@ export const mockGraph = {
       },
       relationship: 'leads to',
       aiExplanation: null,
-      strength: null,
+      strength: 0.95,
     },
-    { id: 'edge_2', from: 'node_1', to: 'node_3', fromNode: { nodeKey: 'A', title: 'Active Learning' }, toNode: { nodeKey: 'C', title: 'Retention' }, relationship: 'results in', aiExplanation: null, strength: null, metadata: null },
-    { id: 'edge_3', from: 'node_1', to: 'node_4', fromNode: { nodeKey: 'A', title: 'Active Learning' }, toNode: { nodeKey: 'D', title: 'Understanding' }, relationship: 'promotes', aiExplanation: null, strength: null, metadata: null },
-    { id: 'edge_4', from: 'node_2', to: 'node_5', fromNode: { nodeKey: 'B', title: 'Engagement' }, toNode: { nodeKey: 'E', title: 'Critical Thinking' }, relationship: 'develops', aiExplanation: null, strength: null, metadata: null },
-    { id: 'edge_5', from: 'node_3', to: 'node_5', fromNode: { nodeKey: 'C', title: 'Retention' }, toNode: { nodeKey: 'E', title: 'Critical Thinking' }, relationship: 'supports', aiExplanation: null, strength: null, metadata: null },
-    { id: 'edge_6', from: 'node_4', to: 'node_5', fromNode: { nodeKey: 'D', title: 'Understanding' }, toNode: { nodeKey: 'E', title: 'Critical Thinking' }, relationship: 'enables', aiExplanation: null, strength: null, metadata: null },
-    { id: 'edge_7', from: 'node_5', to: 'node_6', fromNode: { nodeKey: 'E', title: 'Critical Thinking' }, toNode: { nodeKey: 'F', title: 'Mastery' }, relationship: 'leads to', aiExplanation: null, strength: null, metadata: null },
-    { id: 'edge_8', from: 'node_2', to: 'node_7', fromNode: { nodeKey: 'B', title: 'Engagement' }, toNode: { nodeKey: 'G', title: 'Student Participation' }, relationship: 'includes', aiExplanation: null, strength: null, metadata: null },
-    { id: 'edge_9', from: 'node_4', to: 'node_8', fromNode: { nodeKey: 'D', title: 'Understanding' }, toNode: { nodeKey: 'H', title: 'Deep Learning' }, relationship: 'achieves', aiExplanation: null, strength: null, metadata: null },
+    { id: 'edge_2', from: 'node_1', to: 'node_3', fromNode: { nodeKey: 'A', title: 'Active Learning' }, toNode: { nodeKey: 'C', title: 'Retention' }, relationship: 'results in', aiExplanation: null, strength: 0.8, metadata: null },
+    { id: 'edge_3', from: 'node_1', to: 'node_4', fromNode: { nodeKey: 'A', title: 'Active Learning' }, toNode: { nodeKey: 'D', title: 'Understanding' }, relationship: 'promotes', aiExplanation: null, strength: 0.6, metadata: null },
+    { id: 'edge_4', from: 'node_2', to: 'node_5', fromNode: { nodeKey: 'B', title: 'Engagement' }, toNode: { nodeKey: 'E', title: 'Critical Thinking' }, relationship: 'develops', aiExplanation: null, strength: 0.7, metadata: null },
+    { id: 'edge_5', from: 'node_3', to: 'node_5', fromNode: { nodeKey: 'C', title: 'Retention' }, toNode: { nodeKey: 'E', title: 'Critical Thinking' }, relationship: 'supports', aiExplanation: null, strength: 0.35, metadata: null },
+    { id: 'edge_6', from: 'node_4', to: 'node_5', fromNode: { nodeKey: 'D', title: 'Understanding' }, toNode: { nodeKey: 'E', title: 'Critical Thinking' }, relationship: 'enables', aiExplanation: null, strength: 0.65, metadata: null },
+    { id: 'edge_7', from: 'node_5', to: 'node_6', fromNode: { nodeKey: 'E', title: 'Critical Thinking' }, toNode: { nodeKey: 'F', title: 'Mastery' }, relationship: 'leads to', aiExplanation: null, strength: 0.9, metadata: null },
+    { id: 'edge_8', from: 'node_2', to: 'node_7', fromNode: { nodeKey: 'B', title: 'Engagement' }, toNode: { nodeKey: 'G', title: 'Student Participation' }, relationship: 'includes', aiExplanation: null, strength: 0.3, metadata: null },
+    { id: 'edge_9', from: 'node_4', to: 'node_8', fromNode: { nodeKey: 'D', title: 'Understanding' }, toNode: { nodeKey: 'H', title: 'Deep Learning' }, relationship: 'achieves', aiExplanation: null, strength: 0.5, metadata: null },
   ],
   createdAt: '2025-11-11T10:00:00Z',
 };
 
+/**
+ * Mock regenerated version of mockGraph
+ * New node and edge IDs; "Retention" renamed, "Deep Learning" dropped,
+ * "Metacognition" added and one relationship relabeled
+ */
+const nextVersionId = (id: string) => `${id}_v2`;
+const NEXT_VERSION_TITLES: Record<string, string> = { node_3: 'Long-Term Retention' };
+const NEXT_VERSION_RELATIONSHIPS: Record<string, string> = { edge_6: 'deepens' };
+
+export const mockGraphNextVersion = {
+  ...mockGraph,
+  version: 2,
+  mermaidCode: `graph TD
+  A[Active Learning] --> B[Engagement]
+  A --> C[Long-Term Retention]
+  A --> D[Understanding]
+  B --> E[Critical Thinking]
+  C --> E
+  D --> E
+  E --> F[Mastery]
+  B --> G[Student Participation]
+  E --> I[Metacognition]`,
+  createdAt: '2025-01-14T18:00:00.000Z',
+  nodes: [
+    ...mockGraph.nodes
+      .filter((node) => node.id !== 'node_8')
+      .map((node) => ({
+        ...node,
+        id: nextVersionId(node.id),
+        title: NEXT_VERSION_TITLES[node.id] ?? node.title,
+      })),
+    {
+      id: 'node_9_v2',
+      nodeKey: 'I',
+      title: 'Metacognition',
+      contentSnippet: 'Research-based educational concept...',
+      nodeType: 'concept',
+      summary: 'Reflecting on how one learns, which critical thinking makes possible.',
+      documentRefs: null,
+      position: { x: null, y: null },
+      metadata: null,
+    },
+  ],
+  edges: [
+    ...mockGraph.edges
+      .filter((edge) => edge.to !== 'node_8')
+      .map((edge) => ({
+        ...edge,
+        id: nextVersionId(edge.id),
+        from: nextVersionId(edge.from),
+        to: nextVersionId(edge.to),
+        toNode: { ...edge.toNode, title: NEXT_VERSION_TITLES[edge.to] ?? edge.toNode.title },
+        relationship: NEXT_VERSION_RELATIONSHIPS[edge.id] ?? edge.relationship,
+      })),
+    { id: 'edge_10_v2', from: 'node_5_v2', to: 'node_9_v2', fromNode: { nodeKey: 'E', title: 'Critical Thinking' }, toNode: { nodeKey: 'I', title: 'Metacognition' }, relationship: 'builds', aiExplanation: null, strength: null, metadata: null },
+  ],
+};
+
+/**
+ * Mock document list for the library
+ * Matches backend GET /api/v1/documents schema
+ */
+export const mockLibraryDocuments = [
+  {
+    id: 'doc_abc123',
+    title: mockDocument.title,
+    sourceType: 'pdf',
+    status: 'ready',
+    pageCount: 4 as number | null,
+    wordCount: 312 as number | null,
+    qualityScore: 85 as number | null,
+    createdAt: '2025-01-12T09:30:00.000Z',
+    updatedAt: '2025-01-12T09:31:00.000Z',
+    lastOpenedAt: '2025-01-14T18:20:00.000Z' as string | null,
+  },
+  {
+    id: 'doc_def456',
+    title: 'Retrieval Practice and Long-Term Memory',
+    sourceType: 'text',
+    status: 'ready',
+    pageCount: null,
+    wordCount: 1840,
+    qualityScore: 92,
+    createdAt: '2025-01-12T09:45:00.000Z',
+    updatedAt: '2025-01-12T09:46:00.000Z',
+    lastOpenedAt: null as string | null,
+  },
+  {
+    id: 'doc_ghi789',
+    title: 'Cognitive Load Theory Lecture Notes',
+    sourceType: 'markdown',
+    status: 'processing',
+    pageCount: null,
+    wordCount: null,
+    qualityScore: null,
+    createdAt: '2025-01-15T08:00:00.000Z',
+    updatedAt: '2025-01-15T08:00:00.000Z',
+    lastOpenedAt: null as string | null,
+  },
+  {
+    id: 'doc_failed',
+    title: 'Scanned Handout',
+    sourceType: 'pdf',
+    status: 'failed',
+    pageCount: 2,
+    wordCount: null,
+    qualityScore: null,
+    createdAt: '2025-01-10T14:00:00.000Z',
+    updatedAt: '2025-01-10T14:01:00.000Z',
+    lastOpenedAt: null as string | null,
+  },
+];
+
+/**
+ * Mock graph list for the library (one entry per version)
+ * Matches backend GET /api/v1/graphs schema
+ */
+export const mockLibraryGraphs = [
+  {
+    id: 'graph_abc123',
+    documentId: 'doc_abc123',
+    status: 'ready',
+    version: 1,
+    nodeCount: 8,
+    edgeCount: 9,
+    noteCount: 2,
+    createdAt: '2025-01-12T10:00:00.000Z',
+    lastOpenedAt: '2025-01-13T09:00:00.000Z' as string | null,
+  },
+  {
+    id: 'graph_abc123_v2',
+    documentId: 'doc_abc123',
+    status: 'ready',
+    version: 2,
+    nodeCount: 8,
+    edgeCount: 9,
+    noteCount: 0,
+    createdAt: '2025-01-14T18:00:00.000Z',
+    lastOpenedAt: '2025-01-14T18:20:00.000Z' as string | null,
+  },
+  {
+    id: 'graph_def456',
+    documentId: 'doc_def456',
+    status: 'ready',
+    version: 1,
+    nodeCount: 8,
+    edgeCount: 9,
+    noteCount: 0,
+    createdAt: '2025-01-12T10:10:00.000Z',
+    lastOpenedAt: null as string | null,
+  },
+];
+
+/**
+ * Mock workspace grouping two documents
+ */
+export const mockWorkspace = {
+  id: 'ws_abc123',
+  title: 'Learning Science Reading Group',
+  documents: [
+    mockGraph.document,
+    {
+      id: 'doc_def456',
+      title: 'Retrieval Practice and Long-Term Memory',
+      sourceType: 'text',
+      createdAt: '2025-01-12T09:45:00.000Z',
+    },
+  ],
+  graphId: 'graph_ws_abc123' as string | null,
+  createdAt: '2025-01-12T09:50:00.000Z',
+  updatedAt: '2025-01-12T10:05:00.000Z',
+};
+
+/**
+ * Mock graph merged across the workspace documents
+ * (the second half of the concepts comes from the second document)
+ */
+export const mockWorkspaceGraph = {
+  ...mockGraph,
+  id: 'graph_ws_abc123',
+  documents: mockWorkspace.documents,
+  workspaceId: mockWorkspace.id,
+  nodes: mockGraph.nodes.map((node, index) => ({
+    ...node,
+    documentId: mockWorkspace.documents[index < 4 ? 0 : 1].id,
+  })),
+};
+
 /**
  * Mock quiz questions
  */
@@ -369,6 +557,24 @@ export const mockNotes = [
   },
 ];
 
+/**
+ * Mock highlights
+ */
+export const mockHighlights = [
+  {
+    id: 'hl_1',
+    documentId: 'doc_abc123',
+    graphId: 'graph_abc123',
+    nodeId: null,
+    text: 'Research shows that active learning improves long-term retention of information.',
+    color: 'yellow' as const,
+    comment: 'Find the meta-analysis this refers to.',
+    anchor: { type: 'text' as const, startOffset: 499, endOffset: 579 },
+    createdAt: '2025-11-11T10:20:00Z',
+    updatedAt: '2025-11-11T10:20:00Z',
+  },
+];
+
 /**
  * Mock connection explanation
  */
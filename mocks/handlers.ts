@@ -10,8 +10,14 @@ import { http, HttpResponse, delay } from 'msw';
 import {
   mockDocument,
   mockGraph,
+  mockGraphNextVersion,
   mockQuiz,
   mockNotes,
+  mockHighlights,
+  mockLibraryDocuments,
+  mockLibraryGraphs,
+  mockWorkspace,
+  mockWorkspaceGraph,
   mockConnectionExplanation,
   mockJobStates,
   mockDocumentStatuses,
@@ -73,6 +79,21 @@ const errorResponse = (
   );
 };
 
+type EditableNode = Record<string, unknown> & { id: string; nodeKey: string; title: string };
+type EditableEdge = Record<string, unknown> & {
+  id: string;
+  from: string;
+  to: string;
+  fromNode: { nodeKey: string; title: string };
+  toNode: { nodeKey: string; title: string };
+  relationship: string;
+};
+type EditableGraph = Record<string, unknown> & {
+  mermaidCode: string;
+  nodes: EditableNode[];
+  edges: EditableEdge[];
+};
+
 /**
  * In-memory state for simulating async operations
  * In a real app, this would be handled by the backend
@@ -80,6 +101,128 @@ const errorResponse = (
 const state = {
   jobProgress: new Map<string, number>(),
   documentProgress: new Map<string, number>(),
+  // Server-side note revisions for optimistic concurrency (id -> revision)
+  noteRevisions: new Map<
+    string,
+    { content: string; version: number; updatedAt: string }
+  >(),
+  // Highlights created during the session (seeded from mock data)
+  highlights: [...mockHighlights] as Array<Record<string, unknown> & { id: string; documentId: string }>,
+  // Library lists, updated by uploads, deletes and opening graphs
+  libraryDocuments: [...mockLibraryDocuments],
+  libraryGraphs: [...mockLibraryGraphs],
+  // Workspaces created during the session (seeded from mock data)
+  workspaces: new Map<string, typeof mockWorkspace>([[mockWorkspace.id, mockWorkspace]]),
+  // Graphs changed in edit mode (id -> edited graph)
+  editedGraphs: new Map<string, EditableGraph>(),
+};
+
+/**
+ * Document summary for a workspace (mock documents share one body)
+ */
+const getWorkspaceDocument = (id: string) =>
+  mockWorkspace.documents.find((document) => document.id === id) ?? {
+    id,
+    title: mockDocument.title,
+    sourceType: mockDocument.sourceType,
+    createdAt: mockTimestamp(),
+  };
+
+/**
+ * List an uploaded document in the library, ready once processing finishes
+ */
+const addLibraryDocument = (id: string, title: string, sourceType: string, readyAfterMs: number) => {
+  const now = mockTimestamp();
+  const document = {
+    id,
+    title,
+    sourceType,
+    status: 'processing',
+    pageCount: null as number | null,
+    wordCount: null as number | null,
+    qualityScore: null as number | null,
+    createdAt: now,
+    updatedAt: now,
+    lastOpenedAt: null as string | null,
+  };
+  state.libraryDocuments.push(document);
+
+  setTimeout(() => {
+    Object.assign(document, { status: 'ready', qualityScore: 80, updatedAt: mockTimestamp() });
+  }, readyAfterMs);
+};
+
+/**
+ * Get the current server revision of a note, seeding from mock data
+ */
+const getNoteRevision = (id: string) => {
+  if (!state.noteRevisions.has(id)) {
+    const seed = mockNotes.find((note) => note.id === id);
+    state.noteRevisions.set(id, {
+      content: seed?.content ?? '',
+      version: 1,
+      updatedAt: seed?.updatedAt ?? mockTimestamp(),
+    });
+  }
+  return state.noteRevisions.get(id)!;
+};
+
+/**
+ * Graph as generated (before any edits), by ID
+ */
+const getGeneratedGraph = (id: string): EditableGraph => {
+  // Merged workspace graph
+  if (id === mockWorkspaceGraph.id) {
+    return mockWorkspaceGraph;
+  }
+
+  // Later versions are regenerations of the mock graph
+  const libraryGraph = state.libraryGraphs.find((graph) => graph.id === id);
+  if (libraryGraph && libraryGraph.version > 1) {
+    return {
+      ...mockGraphNextVersion,
+      id,
+      version: libraryGraph.version,
+      createdAt: libraryGraph.createdAt,
+    };
+  }
+
+  return {
+    ...mockGraph,
+    id,
+    ...(libraryGraph && { version: libraryGraph.version }),
+  };
+};
+
+/**
+ * Graph as edited so far, copied from the generated graph on first edit
+ */
+const getEditableGraph = (id: string): EditableGraph => {
+  if (!state.editedGraphs.has(id)) {
+    const graph = getGeneratedGraph(id);
+    state.editedGraphs.set(id, { ...graph, nodes: [...graph.nodes], edges: [...graph.edges] });
+  }
+  return state.editedGraphs.get(id)!;
+};
+
+/**
+ * Rebuild an edited graph's Mermaid code and library counts
+ */
+const syncEditedGraph = (id: string, graph: EditableGraph) => {
+  const label = (text: string) => `"${text.replace(/"/g, '#quot;')}"`;
+  graph.mermaidCode = [
+    'graph TD',
+    ...graph.nodes.map((node) => `  ${node.nodeKey}[${label(node.title)}]`),
+    ...graph.edges.map(
+      (edge) => `  ${edge.fromNode.nodeKey} -->|${label(edge.relationship)}| ${edge.toNode.nodeKey}`
+    ),
+  ].join('\n');
+
+  const libraryGraph = state.libraryGraphs.find((item) => item.id === id);
+  if (libraryGraph) {
+    libraryGraph.nodeCount = graph.nodes.length;
+    libraryGraph.edgeCount = graph.edges.length;
+  }
 };
 
 export const handlers = [
@@ -166,6 +309,7 @@ export const handlers = [
     // Simulate gradual progress
     setTimeout(() => state.documentProgress.set(docId, 50), 1000);
     setTimeout(() => state.documentProgress.set(docId, 100), 2000);
+    addLibraryDocument(docId, title, file.type.includes('pdf') ? 'pdf' : 'text', 2000);
 
     return successResponse(
       {
@@ -206,6 +350,7 @@ export const handlers = [
     state.documentProgress.set(docId, 0);
     setTimeout(() => state.documentProgress.set(docId, 50), 1500);
     setTimeout(() => state.documentProgress.set(docId, 100), 3000);
+    addLibraryDocument(docId, body.title || 'Web Article', 'url', 3000);
 
     return successResponse(
       {
@@ -223,6 +368,32 @@ export const handlers = [
     );
   }),
 
+  http.get(`${BASE_URL}/documents`, async () => {
+    await simulateDelay(300, 700);
+    console.log('[MSW] GET /documents');
+
+    return successResponse(
+      [...state.libraryDocuments].sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+    );
+  }),
+
+  http.delete(`${BASE_URL}/documents/:id`, async ({ params }) => {
+    await simulateDelay(300, 700);
+    const { id } = params;
+    console.log(`[MSW] DELETE /documents/${id}`);
+
+    if (!state.libraryDocuments.some((document) => document.id === id)) {
+      return errorResponse('DOCUMENT_NOT_FOUND', 'Document not found', 404);
+    }
+
+    // Graphs, notes and highlights go with the document
+    state.libraryDocuments = state.libraryDocuments.filter((document) => document.id !== id);
+    state.libraryGraphs = state.libraryGraphs.filter((graph) => graph.documentId !== id);
+    state.highlights = state.highlights.filter((highlight) => highlight.documentId !== id);
+
+    return new HttpResponse(null, { status: 204 });
+  }),
+
   http.get(`${BASE_URL}/documents/:id`, async ({ params }) => {
     await simulateDelay();
     const { id } = params;
@@ -233,9 +404,16 @@ export const handlers = [
       return errorResponse('DOCUMENT_NOT_FOUND', 'Document not found', 404);
     }
 
+    // Workspace documents keep their own title and type
+    const workspaceDocument = mockWorkspace.documents.find((document) => document.id === id);
+
     return successResponse({
       ...mockDocument,
       id: id as string,
+      ...(workspaceDocument && {
+        title: workspaceDocument.title,
+        sourceType: workspaceDocument.sourceType,
+      }),
     });
   }),
 
@@ -276,11 +454,19 @@ export const handlers = [
     await simulateDelay(500, 1000);
     console.log('[MSW] POST /graphs/generate');
 
-    const body = (await request.json()) as { documentId: string };
+    const body = (await request.json()) as {
+      documentId?: string;
+      documentIds?: string[];
+      workspaceId?: string;
+    };
 
     // Validation
-    if (!body.documentId) {
-      return errorResponse('INVALID_REQUEST', 'documentId is required', 400);
+    if (!body.documentId && !body.documentIds?.length) {
+      return errorResponse('INVALID_REQUEST', 'documentId or documentIds is required', 400);
+    }
+
+    if (body.workspaceId && !state.workspaces.has(body.workspaceId)) {
+      return errorResponse('WORKSPACE_NOT_FOUND', 'Workspace not found', 404);
     }
 
     const jobId = mockId('job_graph');
@@ -304,6 +490,19 @@ export const handlers = [
     );
   }),
 
+  http.get(`${BASE_URL}/graphs`, async ({ request }) => {
+    await simulateDelay(300, 700);
+    console.log('[MSW] GET /graphs');
+
+    const documentId = new URL(request.url).searchParams.get('documentId');
+
+    return successResponse(
+      state.libraryGraphs
+        .filter((graph) => !documentId || graph.documentId === documentId)
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+    );
+  }),
+
   http.get(`${BASE_URL}/graphs/:id`, async ({ params }) => {
     await simulateDelay();
     const { id } = params;
@@ -314,10 +513,287 @@ export const handlers = [
       return errorResponse('GRAPH_NOT_FOUND', 'Graph not found', 404);
     }
 
-    return successResponse({
-      ...mockGraph,
-      id: id as string,
+    // Opening a graph updates its (and its document's) last-opened time
+    const libraryGraph = state.libraryGraphs.find((graph) => graph.id === id);
+    if (libraryGraph) {
+      const now = mockTimestamp();
+      libraryGraph.lastOpenedAt = now;
+      state.libraryDocuments
+        .filter((document) => document.id === libraryGraph.documentId)
+        .forEach((document) => {
+          document.lastOpenedAt = now;
+        });
+    }
+
+    return successResponse(
+      state.editedGraphs.get(id as string) ?? getGeneratedGraph(id as string)
+    );
+  }),
+
+  http.post(`${BASE_URL}/graphs/:id/regenerate`, async ({ params }) => {
+    await simulateDelay(1000, 2000);
+    const { id } = params;
+    console.log(`[MSW] POST /graphs/${id}/regenerate`);
+
+    if (id === 'graph_notfound') {
+      return errorResponse('GRAPH_NOT_FOUND', 'Graph not found', 404);
+    }
+
+    // New version of the same document's graph
+    const documentId =
+      state.libraryGraphs.find((graph) => graph.id === id)?.documentId ?? mockGraph.document.id;
+    const version =
+      Math.max(
+        0,
+        ...state.libraryGraphs
+          .filter((graph) => graph.documentId === documentId)
+          .map((graph) => graph.version)
+      ) + 1;
+    const graphId = mockId('graph');
+
+    state.libraryGraphs.push({
+      id: graphId,
+      documentId,
+      status: 'ready',
+      version,
+      nodeCount: mockGraphNextVersion.nodes.length,
+      edgeCount: mockGraphNextVersion.edges.length,
+      noteCount: 0,
+      createdAt: mockTimestamp(),
+      lastOpenedAt: null,
     });
+
+    return successResponse(
+      {
+        graphId,
+        status: 'completed',
+        nodeCount: mockGraphNextVersion.nodes.length,
+        edgeCount: mockGraphNextVersion.edges.length,
+        qualityScore: 82,
+        cost: 0.02,
+        processingTimeMs: 1500,
+        warnings: [],
+      },
+      201
+    );
+  }),
+
+  http.post(`${BASE_URL}/graphs/:id/notes/reattach`, async ({ request, params }) => {
+    await simulateDelay(300, 700);
+    const { id } = params;
+    console.log(`[MSW] POST /graphs/${id}/notes/reattach`);
+
+    const body = (await request.json()) as {
+      fromGraphId?: string;
+      nodeIds?: Record<string, string>;
+      edgeIds?: Record<string, string>;
+    };
+
+    if (!body.fromGraphId) {
+      return errorResponse('INVALID_REQUEST', 'fromGraphId is required', 400);
+    }
+
+    // Copy notes whose node (by ID or Mermaid key) or edge has a match (graph-level notes always)
+    const now = mockTimestamp();
+    const notes = (mockNotes as Array<{ graphId: string; nodeId: string | null; edgeId: string | null; content: string }>)
+      .filter((note) => note.graphId === body.fromGraphId)
+      .filter(
+        (note) =>
+          (!note.nodeId || body.nodeIds?.[note.nodeId]) &&
+          (!note.edgeId || body.edgeIds?.[note.edgeId])
+      )
+      .map((note) => ({
+        id: mockId('note'),
+        graphId: id as string,
+        nodeId: note.nodeId && body.nodeIds![note.nodeId],
+        edgeId: note.edgeId && body.edgeIds![note.edgeId],
+        content: note.content,
+        createdAt: now,
+        updatedAt: now,
+        version: 1,
+      }));
+
+    const libraryGraph = state.libraryGraphs.find((graph) => graph.id === id);
+    if (libraryGraph) {
+      libraryGraph.noteCount = notes.length;
+    }
+
+    return successResponse(notes, 201);
+  }),
+
+  // ============================================================================
+  // Graph Editing
+  // ============================================================================
+
+  http.post(`${BASE_URL}/graphs/:id/nodes`, async ({ request, params }) => {
+    await simulateDelay(200, 500);
+    const { id } = params;
+    console.log(`[MSW] POST /graphs/${id}/nodes`);
+
+    if (id === 'graph_notfound') {
+      return errorResponse('GRAPH_NOT_FOUND', 'Graph not found', 404);
+    }
+
+    const body = (await request.json()) as { title?: string; nodeType?: string; summary?: string };
+    if (!body.title?.trim()) {
+      return errorResponse('INVALID_REQUEST', 'title is required', 400);
+    }
+
+    const graph = getEditableGraph(id as string);
+    const keys = new Set(graph.nodes.map((node) => node.nodeKey));
+    let next = 1;
+    while (keys.has(`U${next}`)) next++;
+
+    const node = {
+      id: mockId('node'),
+      nodeKey: `U${next}`,
+      title: body.title.trim(),
+      contentSnippet: '',
+      nodeType: body.nodeType ?? 'concept',
+      summary: body.summary ?? '',
+      documentRefs: null,
+      position: { x: null, y: null },
+      metadata: { userCreated: true },
+    };
+    graph.nodes.push(node);
+    syncEditedGraph(id as string, graph);
+
+    return successResponse(node, 201);
+  }),
+
+  http.put(`${BASE_URL}/graphs/:id/nodes/:nodeId`, async ({ request, params }) => {
+    await simulateDelay(200, 500);
+    const { id, nodeId } = params;
+    console.log(`[MSW] PUT /graphs/${id}/nodes/${nodeId}`);
+
+    const graph = getEditableGraph(id as string);
+    const node = graph.nodes.find((item) => item.id === nodeId);
+    if (!node) {
+      return errorResponse('NODE_NOT_FOUND', 'Node not found', 404);
+    }
+
+    const body = (await request.json()) as { title?: string; nodeType?: string; summary?: string };
+    if (body.title !== undefined && !body.title.trim()) {
+      return errorResponse('INVALID_REQUEST', 'title cannot be empty', 400);
+    }
+
+    Object.assign(node, {
+      ...(body.title !== undefined && { title: body.title.trim() }),
+      ...(body.nodeType !== undefined && { nodeType: body.nodeType }),
+      ...(body.summary !== undefined && { summary: body.summary }),
+    });
+    // Edges carry a copy of their endpoints' titles
+    graph.edges.forEach((edge) => {
+      if (edge.from === nodeId) edge.fromNode = { ...edge.fromNode, title: node.title };
+      if (edge.to === nodeId) edge.toNode = { ...edge.toNode, title: node.title };
+    });
+    syncEditedGraph(id as string, graph);
+
+    return successResponse(node);
+  }),
+
+  http.delete(`${BASE_URL}/graphs/:id/nodes/:nodeId`, async ({ params }) => {
+    await simulateDelay(200, 500);
+    const { id, nodeId } = params;
+    console.log(`[MSW] DELETE /graphs/${id}/nodes/${nodeId}`);
+
+    const graph = getEditableGraph(id as string);
+    if (!graph.nodes.some((node) => node.id === nodeId)) {
+      return errorResponse('NODE_NOT_FOUND', 'Node not found', 404);
+    }
+
+    // Deleting a node deletes its edges
+    graph.nodes = graph.nodes.filter((node) => node.id !== nodeId);
+    graph.edges = graph.edges.filter((edge) => edge.from !== nodeId && edge.to !== nodeId);
+    syncEditedGraph(id as string, graph);
+
+    return new HttpResponse(null, { status: 204 });
+  }),
+
+  http.post(`${BASE_URL}/graphs/:id/edges`, async ({ request, params }) => {
+    await simulateDelay(200, 500);
+    const { id } = params;
+    console.log(`[MSW] POST /graphs/${id}/edges`);
+
+    if (id === 'graph_notfound') {
+      return errorResponse('GRAPH_NOT_FOUND', 'Graph not found', 404);
+    }
+
+    const body = (await request.json()) as {
+      from?: string;
+      to?: string;
+      relationship?: string;
+      justification?: string;
+    };
+
+    // Validation
+    if (!body.from || !body.to || !body.relationship?.trim()) {
+      return errorResponse('INVALID_REQUEST', 'from, to and relationship are required', 400);
+    }
+    if (!body.justification?.trim()) {
+      return errorResponse('INVALID_REQUEST', 'justification is required', 400);
+    }
+
+    const graph = getEditableGraph(id as string);
+    const from = graph.nodes.find((node) => node.id === body.from);
+    const to = graph.nodes.find((node) => node.id === body.to);
+    if (!from || !to) {
+      return errorResponse('NODE_NOT_FOUND', 'Node not found', 404);
+    }
+
+    const edge = {
+      id: mockId('edge'),
+      from: from.id,
+      to: to.id,
+      fromNode: { nodeKey: from.nodeKey, title: from.title },
+      toNode: { nodeKey: to.nodeKey, title: to.title },
+      relationship: body.relationship.trim(),
+      aiExplanation: null,
+      strength: null,
+      metadata: { userCreated: true, justification: body.justification.trim() },
+    };
+    graph.edges.push(edge);
+    syncEditedGraph(id as string, graph);
+
+    return successResponse(edge, 201);
+  }),
+
+  http.put(`${BASE_URL}/graphs/:id/edges/:edgeId`, async ({ request, params }) => {
+    await simulateDelay(200, 500);
+    const { id, edgeId } = params;
+    console.log(`[MSW] PUT /graphs/${id}/edges/${edgeId}`);
+
+    const graph = getEditableGraph(id as string);
+    const edge = graph.edges.find((item) => item.id === edgeId);
+    if (!edge) {
+      return errorResponse('EDGE_NOT_FOUND', 'Edge not found', 404);
+    }
+
+    const body = (await request.json()) as { relationship?: string };
+    if (!body.relationship?.trim()) {
+      return errorResponse('INVALID_REQUEST', 'relationship is required', 400);
+    }
+
+    edge.relationship = body.relationship.trim();
+    syncEditedGraph(id as string, graph);
+
+    return successResponse(edge);
+  }),
+
+  http.delete(`${BASE_URL}/graphs/:id/edges/:edgeId`, async ({ params }) => {
+    await simulateDelay(200, 500);
+    const { id, edgeId } = params;
+    console.log(`[MSW] DELETE /graphs/${id}/edges/${edgeId}`);
+
+    const graph = getEditableGraph(id as string);
+    if (!graph.edges.some((edge) => edge.id === edgeId)) {
+      return errorResponse('EDGE_NOT_FOUND', 'Edge not found', 404);
+    }
+
+    graph.edges = graph.edges.filter((edge) => edge.id !== edgeId);
+    syncEditedGraph(id as string, graph);
+
+    return new HttpResponse(null, { status: 204 });
   }),
 
   http.get(`${BASE_URL}/jobs/:id`, async ({ params }) => {
@@ -402,6 +878,7 @@ export const handlers = [
       graphId: string;
       difficulty?: 'easy' | 'medium' | 'hard';
       count?: number;
+      nodeIds?: string[];
     };
 
     // Validation
@@ -412,14 +889,19 @@ export const handlers = [
     const count = body.count || 5;
     const difficulty = body.difficulty || 'medium';
 
+    // Review sessions only ask about the requested nodes
+    const candidates = body.nodeIds?.length
+      ? mockQuiz.questions.filter((q) => q.nodeRefs.some((ref) => body.nodeIds!.includes(ref)))
+      : mockQuiz.questions;
+
     // Filter questions by difficulty and take requested count
-    const filteredQuestions = mockQuiz.questions
+    const filteredQuestions = candidates
       .filter((q) => q.difficulty === difficulty)
       .slice(0, count);
 
     // If not enough questions of that difficulty, add from all difficulties
     if (filteredQuestions.length < count) {
-      const remaining = mockQuiz.questions
+      const remaining = candidates
         .filter((q) => !filteredQuestions.includes(q))
         .slice(0, count - filteredQuestions.length);
       filteredQuestions.push(...remaining);
@@ -515,7 +997,13 @@ export const handlers = [
       content: body.content,
       createdAt: now,
       updatedAt: now,
+      version: 1,
     };
+    state.noteRevisions.set(newNote.id, {
+      content: newNote.content,
+      version: 1,
+      updatedAt: now,
+    });
 
     return successResponse(newNote, 201);
   }),
@@ -542,17 +1030,60 @@ export const handlers = [
     const { id } = params;
     console.log(`[MSW] PUT /notes/${id}`);
 
-    const body = (await request.json()) as { content: string };
+    const body = (await request.json()) as {
+      content: string;
+      version?: number;
+      updatedAt?: string;
+    };
 
     // Validation
     if (!body.content) {
       return errorResponse('INVALID_REQUEST', 'content is required', 400);
     }
 
+    const current = getNoteRevision(id as string);
+
+    // Simulate an edit from another tab (use special ID 'note_conflict' to trigger)
+    if (id === 'note_conflict' && current.version === 1) {
+      current.content = 'Edited in another tab';
+      current.version = 2;
+      current.updatedAt = mockTimestamp();
+    }
+
+    // Optimistic concurrency: reject edits based on a stale revision
+    const isStale =
+      body.version !== undefined
+        ? body.version !== current.version
+        : body.updatedAt !== undefined && body.updatedAt !== current.updatedAt;
+
+    if (isStale) {
+      const seed = mockNotes.find((note) => note.id === id);
+      return errorResponse(
+        'CONFLICT',
+        'Note was modified since it was last loaded',
+        409,
+        {
+          serverNote: {
+            id: id as string,
+            graphId: seed?.graphId ?? 'graph_abc123',
+            nodeId: seed?.nodeId ?? null,
+            edgeId: seed?.edgeId ?? null,
+            createdAt: seed?.createdAt ?? current.updatedAt,
+            ...current,
+          },
+        }
+      );
+    }
+
+    current.content = body.content;
+    current.version += 1;
+    current.updatedAt = mockTimestamp();
+
     return successResponse({
       id: id as string,
-      content: body.content,
-      updatedAt: mockTimestamp(),
+      content: current.content,
+      version: current.version,
+      updatedAt: current.updatedAt,
     });
   }),
 
@@ -564,6 +1095,171 @@ export const handlers = [
     return new HttpResponse(null, { status: 204 });
   }),
 
+  // ============================================================================
+  // Highlights
+  // ============================================================================
+
+  http.post(`${BASE_URL}/highlights`, async ({ request }) => {
+    await simulateDelay(300, 700);
+    console.log('[MSW] POST /highlights');
+
+    const body = (await request.json()) as {
+      documentId: string;
+      graphId?: string;
+      nodeId?: string;
+      text: string;
+      color: string;
+      comment?: string;
+      anchor: { type: 'text' | 'pdf' };
+    };
+
+    // Validation
+    if (!body.documentId || !body.text || !body.anchor) {
+      return errorResponse(
+        'INVALID_REQUEST',
+        'documentId, text and anchor are required',
+        400
+      );
+    }
+
+    if (body.nodeId && !body.graphId) {
+      return errorResponse('INVALID_REQUEST', 'graphId is required to attach a node', 400);
+    }
+
+    // The real backend also appends the passage to the node's document
+    // references; the mock graph is static, so GET /graphs/:id won't show it
+    const now = mockTimestamp();
+    const newHighlight = {
+      id: mockId('hl'),
+      documentId: body.documentId,
+      graphId: body.graphId || null,
+      nodeId: body.nodeId || null,
+      text: body.text,
+      color: body.color || 'yellow',
+      comment: body.comment || null,
+      anchor: body.anchor,
+      createdAt: now,
+      updatedAt: now,
+    };
+    state.highlights.push(newHighlight);
+
+    return successResponse(newHighlight, 201);
+  }),
+
+  http.get(`${BASE_URL}/highlights`, async ({ request }) => {
+    await simulateDelay(300, 700);
+    console.log('[MSW] GET /highlights');
+
+    const url = new URL(request.url);
+    const documentId = url.searchParams.get('documentId');
+
+    if (!documentId) {
+      return errorResponse('INVALID_REQUEST', 'documentId query param is required', 400);
+    }
+
+    return successResponse(
+      state.highlights.filter((highlight) => highlight.documentId === documentId)
+    );
+  }),
+
+  http.put(`${BASE_URL}/highlights/:id`, async ({ request, params }) => {
+    await simulateDelay(300, 700);
+    const { id } = params;
+    console.log(`[MSW] PUT /highlights/${id}`);
+
+    const highlight = state.highlights.find((item) => item.id === id);
+    if (!highlight) {
+      return errorResponse('HIGHLIGHT_NOT_FOUND', 'Highlight not found', 404);
+    }
+
+    const body = (await request.json()) as { color?: string; comment?: string | null };
+    Object.assign(highlight, {
+      ...(body.color !== undefined && { color: body.color }),
+      ...(body.comment !== undefined && { comment: body.comment }),
+      updatedAt: mockTimestamp(),
+    });
+
+    return successResponse(highlight);
+  }),
+
+  http.delete(`${BASE_URL}/highlights/:id`, async ({ params }) => {
+    await simulateDelay(300, 700);
+    const { id } = params;
+    console.log(`[MSW] DELETE /highlights/${id}`);
+
+    state.highlights = state.highlights.filter((item) => item.id !== id);
+
+    return new HttpResponse(null, { status: 204 });
+  }),
+
+  // ============================================================================
+  // Workspaces
+  // ============================================================================
+
+  http.post(`${BASE_URL}/workspaces`, async ({ request }) => {
+    await simulateDelay(300, 700);
+    console.log('[MSW] POST /workspaces');
+
+    const body = (await request.json()) as { title?: string; documentIds?: string[] };
+
+    // Validation
+    if (!body.title || !body.documentIds?.length) {
+      return errorResponse('INVALID_REQUEST', 'title and documentIds are required', 400);
+    }
+
+    const now = mockTimestamp();
+    const workspace = {
+      id: mockId('ws'),
+      title: body.title,
+      documents: body.documentIds.map(getWorkspaceDocument),
+      graphId: null,
+      createdAt: now,
+      updatedAt: now,
+    };
+    state.workspaces.set(workspace.id, workspace);
+
+    return successResponse(workspace, 201);
+  }),
+
+  http.get(`${BASE_URL}/workspaces/:id`, async ({ params }) => {
+    await simulateDelay(300, 700);
+    const { id } = params;
+    console.log(`[MSW] GET /workspaces/${id}`);
+
+    const workspace = state.workspaces.get(id as string);
+    if (!workspace) {
+      return errorResponse('WORKSPACE_NOT_FOUND', 'Workspace not found', 404);
+    }
+
+    return successResponse(workspace);
+  }),
+
+  http.put(`${BASE_URL}/workspaces/:id`, async ({ request, params }) => {
+    await simulateDelay(300, 700);
+    const { id } = params;
+    console.log(`[MSW] PUT /workspaces/${id}`);
+
+    const workspace = state.workspaces.get(id as string);
+    if (!workspace) {
+      return errorResponse('WORKSPACE_NOT_FOUND', 'Workspace not found', 404);
+    }
+
+    const body = (await request.json()) as { title?: string; documentIds?: string[] };
+    if (body.documentIds && body.documentIds.length === 0) {
+      return errorResponse('INVALID_REQUEST', 'A workspace needs at least one document', 400);
+    }
+
+    const updated = {
+      ...workspace,
+      ...(body.title !== undefined && { title: body.title }),
+      ...(body.documentIds && { documents: body.documentIds.map(getWorkspaceDocument) }),
+      updatedAt: mockTimestamp(),
+    };
+    state.workspaces.set(updated.id, updated);
+
+    return successResponse(updated);
+  }),
+
   // ============================================================================
   // Error Scenarios (for testing)
   // ============================================================================
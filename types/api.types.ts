@@ -54,6 +54,7 @@ export enum APIErrorCode {
   PROCESSING_FAILED = 'PROCESSING_FAILED',
   AI_SERVICE_UNAVAILABLE = 'AI_SERVICE_UNAVAILABLE',
   RATE_LIMIT_EXCEEDED = 'RATE_LIMIT_EXCEEDED',
+  CONFLICT = 'CONFLICT',
 }
 
 // ============================================================================
@@ -138,6 +139,23 @@ export interface DocumentStatusResponse {
   errorMessage: string | null;
 }
 
+/**
+ * Document entry in the library
+ * Matches backend GET /api/v1/documents response
+ */
+export interface DocumentListItem {
+  id: string;
+  title: string;
+  sourceType: DocumentSourceType;
+  status: DocumentStatus;
+  pageCount: number | null; // PDFs only
+  wordCount: number | null;
+  qualityScore: number | null; // 0-100, once processed
+  createdAt: string;
+  updatedAt: string;
+  lastOpenedAt: string | null; // Never opened when null
+}
+
 // ============================================================================
 // Graph Types
 // ============================================================================
@@ -211,6 +229,7 @@ export interface GraphNode {
   legacyDocumentRefs?: DocumentReference[] | null; // Legacy character-based refs (backward compat)
   position: { x: number | null; y: number | null }; // Visual position
   metadata: Record<string, unknown> | null; // Additional metadata
+  documentId?: string | null; // Source document (merged workspace graphs only)
 }
 
 /**
@@ -235,6 +254,16 @@ export interface GraphEdge {
   metadata: Record<string, unknown> | null; // Additional metadata
 }
 
+/**
+ * Source document summary embedded in graphs and workspaces
+ */
+export interface GraphSourceDocument {
+  id: string;
+  title: string;
+  sourceType: string;
+  createdAt: string;
+}
+
 /**
  * Complete graph object
  * Matches backend GET /api/v1/graphs/:id response from FRONTEND_INTEGRATION.md
@@ -246,24 +275,23 @@ export interface Graph {
   generationModel: string; // e.g., "claude-sonnet-4"
   version: number;
   createdAt: string;
-  document: {
-    id: string;
-    title: string;
-    sourceType: string;
-    createdAt: string;
-  };
+  document: GraphSourceDocument; // Primary document (the first source of a merged graph)
+  documents?: GraphSourceDocument[]; // All sources of a merged workspace graph
+  workspaceId?: string | null; // Workspace the graph was merged for
   nodes: GraphNode[];
   edges: GraphEdge[];
 }
 
 /**
  * Graph generation request
- * Supports both document ID and direct text
+ * Supports document ID(s) and direct text
  */
 export interface GraphGenerationRequest {
   documentId?: string; // Mode A: From uploaded document
   documentText?: string; // Mode B: Direct text (backward compatible)
   documentTitle?: string; // Optional for Mode B
+  documentIds?: string[]; // Mode C: One graph merged across several documents
+  workspaceId?: string; // Optional for Mode C: workspace to link the graph to
 }
 
 /**
@@ -281,6 +309,63 @@ export interface GraphGenerationResponse {
   warnings: string[];
 }
 
+/**
+ * Graph entry in the library (one per generated version)
+ * Matches backend GET /api/v1/graphs response
+ */
+export interface GraphListItem {
+  id: string;
+  documentId: string;
+  status: Graph['status'];
+  version: number;
+  nodeCount: number;
+  edgeCount: number;
+  noteCount: number;
+  createdAt: string;
+  lastOpenedAt: string | null; // Never opened when null
+}
+
+// ============================================================================
+// Graph Editing Types
+// ============================================================================
+
+/**
+ * Request to add a user-created node to a graph
+ */
+export interface GraphNodeCreateRequest {
+  title: string;
+  nodeType?: string; // Defaults to "concept"
+  summary?: string;
+}
+
+/**
+ * Request to update a node (rename or retype)
+ */
+export interface GraphNodeUpdateRequest {
+  title?: string;
+  nodeType?: string;
+  summary?: string;
+}
+
+/**
+ * Request to add a user-created edge to a graph
+ * The justification is required (PRODUCT.md Feature 10) and is returned in
+ * the edge's metadata
+ */
+export interface GraphEdgeCreateRequest {
+  from: string; // Source node ID
+  to: string; // Target node ID
+  relationship: string;
+  justification: string; // Why the connection makes sense
+}
+
+/**
+ * Request to update an edge (relabel)
+ */
+export interface GraphEdgeUpdateRequest {
+  relationship: string;
+}
+
 // ============================================================================
 // Job Status Types
 // ============================================================================
@@ -388,6 +473,7 @@ export interface QuizGenerationRequest {
   graphId: string;
   difficulty?: QuizDifficulty;
   count?: number;
+  nodeIds?: string[]; // Focus questions on these nodes (review sessions)
 }
 
 /**
@@ -449,6 +535,8 @@ export interface Note {
   content: string;
   createdAt: string;
   updatedAt: string;
+  /** Incremented by the server on every update (optimistic concurrency) */
+  version?: number;
 }
 
 /**
@@ -466,6 +554,129 @@ export interface NoteCreateRequest {
  */
 export interface NoteUpdateRequest {
   content: string;
+  /** Version the edit was based on; a stale version is rejected with CONFLICT */
+  version?: number;
+  /** updatedAt the edit was based on (used when version is unknown) */
+  updatedAt?: string;
+}
+
+/**
+ * Request to copy notes from an earlier graph version onto a newer one
+ * Notes on nodes or edges without a match are left behind
+ */
+export interface NoteReattachRequest {
+  /** Graph version the notes are copied from */
+  fromGraphId: string;
+  /** Node ID (or Mermaid key) in the earlier version -> its match's ID (or key) in the newer one */
+  nodeIds: Record<string, string>;
+  /** Edge ID in the earlier version -> edge ID in the newer one */
+  edgeIds: Record<string, string>;
+}
+
+/**
+ * Error details returned with a CONFLICT (409) on note update
+ */
+export interface NoteConflictDetails {
+  /** Current server copy of the note */
+  serverNote: Note;
+}
+
+// ============================================================================
+// Highlight Types
+// ============================================================================
+
+/**
+ * Highlight colors offered in the reading panel
+ */
+export type HighlightColor = 'yellow' | 'green' | 'blue' | 'pink';
+
+/**
+ * Where a highlight sits in its document
+ * - text: character offsets into Document.content (same model as DocumentReference)
+ * - pdf: page and bounding box, in the shape used by node references
+ */
+export type HighlightAnchor =
+  | {
+      type: 'text';
+      startOffset: number;
+      endOffset: number;
+    }
+  | {
+      type: 'pdf';
+      reference: NodeDocumentReference;
+    };
+
+/**
+ * User highlight on a document passage
+ */
+export interface Highlight {
+  id: string;
+  documentId: string;
+  graphId: string | null;
+  /** Node the passage was attached to as a source reference */
+  nodeId: string | null;
+  text: string;
+  color: HighlightColor;
+  comment: string | null;
+  anchor: HighlightAnchor;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Highlight creation request
+ *
+ * When `nodeId` (with `graphId`) is set, the server also adds the passage
+ * to that node's document references.
+ */
+export interface HighlightCreateRequest {
+  documentId: string;
+  graphId?: string;
+  nodeId?: string;
+  text: string;
+  color: HighlightColor;
+  comment?: string;
+  anchor: HighlightAnchor;
+}
+
+/**
+ * Highlight update request
+ */
+export interface HighlightUpdateRequest {
+  color?: HighlightColor;
+  comment?: string | null;
+}
+
+// ============================================================================
+// Workspace Types
+// ============================================================================
+
+/**
+ * Workspace grouping several documents for cross-source synthesis
+ */
+export interface Workspace {
+  id: string;
+  title: string;
+  documents: GraphSourceDocument[];
+  graphId: string | null; // Merged graph, once generated
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Workspace creation request
+ */
+export interface WorkspaceCreateRequest {
+  title: string;
+  documentIds: string[];
+}
+
+/**
+ * Workspace update request (rename or change the document set)
+ */
+export interface WorkspaceUpdateRequest {
+  title?: string;
+  documentIds?: string[];
 }
 
 // ============================================================================